@@ -0,0 +1,119 @@
+/**
+ * Minimal command-line argument parser for the CLI commands
+ */
+
+export interface CliOption {
+  name: string; // long flag without dashes, e.g. output-dir
+  description: string;
+  boolean?: boolean; // flag without a value
+  valueName?: string; // placeholder shown in help, e.g. <dir>
+  env?: string; // environment variable the flag overrides
+}
+
+export interface CliCommandSpec {
+  name: string;
+  summary: string;
+  usage: string; // arguments after the command name, e.g. "<report.json>"
+  description?: string;
+  options: CliOption[];
+  minPositionals?: number;
+  maxPositionals?: number;
+}
+
+export interface ParsedArguments {
+  options: Record<string, string | boolean>;
+  positionals: string[];
+}
+
+/**
+ * Raised for invalid command lines; the CLI prints the message with the command's help
+ */
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+/**
+ * Parses --flag value, --flag=value and boolean --flag options; everything else is positional
+ */
+export function parseArguments(argv: string[], spec: CliCommandSpec): ParsedArguments {
+  const options: Record<string, string | boolean> = {};
+  const positionals: string[] = [];
+
+  for (let index = 0; index < argv.length; index++) {
+    const argument = argv[index];
+
+    if (argument === '--') {
+      positionals.push(...argv.slice(index + 1));
+      break;
+    }
+
+    if (argument === '-h') {
+      options.help = true;
+      continue;
+    }
+
+    if (!argument.startsWith('--') || argument === '-') {
+      positionals.push(argument);
+      continue;
+    }
+
+    const [name, inlineValue] = splitFlag(argument.slice(2));
+    const option = spec.options.find(candidate => candidate.name === name);
+    if (!option) {
+      throw new UsageError(`Unknown option --${name} for command ${spec.name}`);
+    }
+
+    if (option.boolean) {
+      if (inlineValue !== undefined && !['true', 'false'].includes(inlineValue)) {
+        throw new UsageError(`Option --${name} does not take a value`);
+      }
+      options[name] = inlineValue !== 'false';
+      continue;
+    }
+
+    const value = inlineValue ?? argv[++index];
+    if (value === undefined || (inlineValue === undefined && value.startsWith('--'))) {
+      throw new UsageError(`Option --${name} requires a value`);
+    }
+    options[name] = value;
+  }
+
+  if (!options.help) {
+    if (positionals.length < (spec.minPositionals ?? 0)) {
+      throw new UsageError(`Missing arguments for command ${spec.name}: ${spec.usage}`);
+    }
+    if (positionals.length > (spec.maxPositionals ?? 0)) {
+      throw new UsageError(`Unexpected argument ${positionals[spec.maxPositionals ?? 0]} for command ${spec.name}`);
+    }
+  }
+
+  return { options, positionals };
+}
+
+/**
+ * Formats the --help text of a command
+ */
+export function formatCommandHelp(programName: string, spec: CliCommandSpec): string {
+  const flags = spec.options.map(option => ({
+    flag: `--${option.name}${option.boolean ? '' : ` ${option.valueName || '<value>'}`}`,
+    description: `${option.description}${option.env ? ` (overrides ${option.env})` : ''}`
+  }));
+  const width = Math.max(...flags.map(flag => flag.flag.length));
+
+  return [
+    `Usage: ${programName} ${spec.name}${spec.usage ? ` ${spec.usage}` : ''} [options]`,
+    '',
+    spec.description || spec.summary,
+    '',
+    'Options:',
+    ...flags.map(flag => `  ${flag.flag.padEnd(width)}  ${flag.description}`)
+  ].join('\n');
+}
+
+function splitFlag(flag: string): [string, string | undefined] {
+  const separator = flag.indexOf('=');
+  return separator === -1 ? [flag, undefined] : [flag.slice(0, separator), flag.slice(separator + 1)];
+}
@@ -0,0 +1,65 @@
+/**
+ * diff: compare the open findings of two runs, given as JSON reports or as runs from the history
+ */
+import fs from 'fs';
+import { HISTORY_DIR } from '../../config/environment';
+import { RunHistoryStore } from '../../services/HistoryService/RunHistoryStore';
+import { parseJsonReport } from '../../utils/jsonReport';
+import { Logger } from '../../utils/logger';
+import {
+  diffRuns,
+  DiffRun,
+  formatDiffTotals,
+  fromHistoryRun,
+  fromReport,
+  renderDiffHtml,
+  renderDiffMarkdown
+} from '../../utils/reportDiff';
+import { ParsedArguments, UsageError } from '../argumentParser';
+import { ExitCode } from '../exitCodes';
+
+// Names for the two most recent runs of the history
+const HISTORY_ALIASES = ['latest', 'previous'];
+
+export async function runDiff(args: ParsedArguments): Promise<ExitCode> {
+  const format = String(args.options.format || 'markdown').toLowerCase();
+  if (format !== 'markdown' && format !== 'json' && format !== 'html') {
+    throw new UsageError('Option --format must be markdown, json or html');
+  }
+
+  const [baseReference, headReference] = args.positionals;
+  const history = new RunHistoryStore({ directory: HISTORY_DIR });
+  const base = loadRun(baseReference, history);
+  const head = loadRun(headReference, history);
+  const diff = diffRuns(base.run, head.run, base.earlier);
+  const content = format === 'json'
+    ? `${JSON.stringify(diff, null, 2)}\n`
+    : format === 'html' ? renderDiffHtml(diff) : renderDiffMarkdown(diff);
+
+  const output = args.options.output;
+  if (typeof output === 'string' && output !== '-') {
+    fs.writeFileSync(output, content);
+    Logger.info(`Comparison written to ${output}: ${formatDiffTotals(diff)}`);
+  } else {
+    process.stdout.write(content);
+  }
+  return ExitCode.Success;
+}
+
+/**
+ * Loads a JSON report when the reference is a file, and otherwise the history run with that id or alias.
+ * For a history run, the runs before it are returned too so that reopened findings can be told from new ones.
+ */
+function loadRun(reference: string, history: RunHistoryStore): { run: DiffRun, earlier: DiffRun[] } {
+  if (fs.existsSync(reference)) {
+    return { run: fromReport(parseJsonReport(fs.readFileSync(reference, 'utf-8'))), earlier: [] };
+  }
+
+  const runs = history.getRuns();
+  const aliasIndex = HISTORY_ALIASES.indexOf(reference);
+  const index = aliasIndex >= 0 ? aliasIndex : runs.findIndex(run => run.summary.id === reference);
+  if (index < 0 || index >= runs.length) {
+    throw new Error(`${reference} is neither a JSON report nor a run in the history at ${HISTORY_DIR}`);
+  }
+  return { run: fromHistoryRun(runs[index]), earlier: runs.slice(index + 1).map(fromHistoryRun) };
+}
@@ -0,0 +1,166 @@
+/**
+ * doctor: check the configuration, output directory, scanning providers, SARIF paths, suppression, policy
+ * and risk model files before a scan
+ */
+import fs from 'fs';
+import {
+  loadScanConfiguration,
+  validateEnvironmentVariables,
+  AZURE_DEVOPS_CONCURRENCY,
+  DEMO_MODE,
+  GITHUB_ALERT_STATES_ARRAY,
+  GITHUB_CONCURRENCY,
+  GITHUB_MAX_PAGES,
+  GITHUB_PAGE_SIZE,
+  HTTP_RETRY_OPTIONS,
+  OUTPUT_DIR,
+  POLICY_FILE,
+  RISK_MODEL_FILE,
+  SUPPRESSIONS_FILE
+} from '../../config/environment';
+import { loadPolicyFile } from '../../config/policyFile';
+import { loadRiskModelFile } from '../../config/riskModelFile';
+import { loadSuppressionFile } from '../../config/suppressionFile';
+import { ScanConfiguration } from '../../interfaces/config.interface';
+import { ProviderHealthCheck, ProviderRepository } from '../../interfaces/scanning-provider.interface';
+import { RepositoryDiscoveryService } from '../../services/DiscoveryService/RepositoryDiscoveryService';
+import { AzureDevOpsGitClient } from '../../services/AzureDevOpsService/AzureDevOpsGitClient';
+import { GitHubRepositoryService } from '../../services/GitHubService/GitHubRepositoryService';
+import {
+  createScanningProviderRegistry,
+  ScanningProviderRegistry
+} from '../../services/ProviderRegistry/ScanningProviderRegistry';
+import { runHealthCheck } from '../../utils/healthCheck';
+import { getExpiredSuppressions } from '../../utils/suppressions';
+import { ExitCode } from '../exitCodes';
+
+type CheckResult = ProviderHealthCheck;
+
+export async function runDoctor(): Promise<ExitCode> {
+  let configuration: ScanConfiguration | undefined;
+  const configurationCheck = await runHealthCheck('Configuration', () => {
+    configuration = validateEnvironmentVariables();
+    return `all required settings are present, ${configuration.applications.length} application(s) configured`;
+  });
+  // Still check API access when only a credential is missing
+  if (!configuration) {
+    try {
+      configuration = loadScanConfiguration();
+    } catch {
+      // Reported by the configuration check
+    }
+  }
+
+  const checks: CheckResult[] = [
+    configurationCheck,
+    await runHealthCheck('Output directory', () => {
+      fs.mkdirSync(OUTPUT_DIR, { recursive: true });
+      fs.accessSync(OUTPUT_DIR, fs.constants.W_OK);
+      return `${OUTPUT_DIR} is writable`;
+    }),
+    ...await checkProviders(configuration),
+    ...await checkDiscovery(configuration),
+    ...await Promise.all((configuration?.sarifPaths || []).map(mapping =>
+      runHealthCheck(`SARIF path ${mapping.path}`, () => {
+        fs.accessSync(mapping.path, fs.constants.R_OK);
+        return 'readable';
+      }))),
+    ...(SUPPRESSIONS_FILE ? [await runHealthCheck(`Suppression file ${SUPPRESSIONS_FILE}`, () => {
+      const suppressions = loadSuppressionFile(SUPPRESSIONS_FILE);
+      const expired = getExpiredSuppressions(suppressions);
+      if (expired.length > 0) {
+        const ids = expired.map(suppression => suppression.id).join(', ');
+        throw new Error(`${expired.length} of ${suppressions.length} suppression(s) expired: ${ids}`);
+      }
+      return `${suppressions.length} suppression(s), none expired`;
+    })] : []),
+    ...(POLICY_FILE
+      ? [await runHealthCheck(`Policy file ${POLICY_FILE}`, () => `${loadPolicyFile(POLICY_FILE).length} rule(s)`)]
+      : []),
+    ...(RISK_MODEL_FILE ? [await runHealthCheck(`Risk model file ${RISK_MODEL_FILE}`, () => {
+      const model = loadRiskModelFile(RISK_MODEL_FILE);
+      return `${Object.keys(model.exposureTags).length} exposure tag(s)`;
+    })] : [])
+  ];
+
+  checks.forEach(check => process.stdout.write(`[${check.status}] ${check.name}: ${check.detail}\n`));
+
+  const failed = checks.filter(check => check.status === 'FAIL').length;
+  process.stdout.write(failed > 0 ? `${failed} check(s) failed\n` : 'All checks passed\n');
+  return failed > 0 ? ExitCode.ChecksFailed : ExitCode.Success;
+}
+
+/**
+ * Runs the health check of every scanning provider against the configured applications
+ */
+async function checkProviders(configuration?: ScanConfiguration): Promise<CheckResult[]> {
+  if (!configuration) {
+    return [];
+  }
+
+  let registry: ScanningProviderRegistry;
+  try {
+    registry = await createScanningProviderRegistry({
+      configuration,
+      http: HTTP_RETRY_OPTIONS,
+      demoMode: DEMO_MODE,
+      github: {
+        pageSize: GITHUB_PAGE_SIZE,
+        maxPages: GITHUB_MAX_PAGES,
+        concurrency: GITHUB_CONCURRENCY,
+        states: GITHUB_ALERT_STATES_ARRAY
+      },
+      azureDevOps: { concurrency: AZURE_DEVOPS_CONCURRENCY }
+    });
+  } catch (error: any) {
+    return [{ name: 'Scanning providers', status: 'FAIL', detail: error.message }];
+  }
+
+  const checks: CheckResult[] = [];
+  for (const provider of registry.list()) {
+    if (!provider.healthCheck) {
+      continue;
+    }
+    const repositories = configuration.applications
+      .map(application => provider.resolveRepository(application))
+      .filter((repository): repository is ProviderRepository => repository !== undefined);
+    try {
+      checks.push(...await provider.healthCheck(repositories));
+    } catch (error: any) {
+      checks.push({ name: `${provider.displayName} API`, status: 'FAIL', detail: error.message });
+    }
+  }
+  return checks;
+}
+
+async function checkDiscovery(configuration?: ScanConfiguration): Promise<CheckResult[]> {
+  if (!configuration || (!configuration.discovery.github && !configuration.discovery.azureDevOps)) {
+    return [];
+  }
+
+  const { github, azureDevOps } = configuration.discovery;
+  const http = { ...HTTP_RETRY_OPTIONS, maxRetries: 0 };
+  const service = new RepositoryDiscoveryService({
+    settings: configuration.discovery,
+    github: github && configuration.github.token ? new GitHubRepositoryService({
+      orgName: github.org,
+      token: configuration.github.token,
+      baseUrl: configuration.github.baseUrl,
+      http
+    }) : undefined,
+    azureDevOps: azureDevOps && configuration.azureDevOps.token ? new AzureDevOpsGitClient({
+      orgName: azureDevOps.org,
+      token: configuration.azureDevOps.token,
+      baseUrl: configuration.azureDevOps.baseUrl,
+      http
+    }) : undefined
+  });
+
+  return [await runHealthCheck('Repository discovery', async () => {
+    const { result, errors } = await service.discover(configuration.applications);
+    if (errors.length > 0) {
+      throw new Error(errors.map(error => `${error.applicationName}: ${error.error}`).join('; '));
+    }
+    return `${result.discovered.length} repositories would be scanned, ${result.skipped.length} skipped`;
+  })];
+}
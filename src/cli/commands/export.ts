@@ -0,0 +1,33 @@
+/**
+ * export: convert a JSON report to another format, written to a file or stdout
+ */
+import fs from 'fs';
+import { validateOutputSettings, REPORT_RENDER_OPTIONS } from '../../config/environment';
+import { parseJsonReport } from '../../utils/jsonReport';
+import { Logger } from '../../utils/logger';
+import { REPORT_FORMATS, SUPPORTED_REPORT_FORMATS } from '../../utils/outputFormats';
+import { ParsedArguments, UsageError } from '../argumentParser';
+import { ExitCode } from '../exitCodes';
+
+export async function runExport(args: ParsedArguments): Promise<ExitCode> {
+  validateOutputSettings();
+
+  const formatName = String(args.options.format || '').toLowerCase();
+  const format = REPORT_FORMATS[formatName];
+  if (!format) {
+    throw new UsageError(`Option --format must be one of: ${SUPPORTED_REPORT_FORMATS.join(', ')}`);
+  }
+
+  const [reportPath] = args.positionals;
+  const results = parseJsonReport(fs.readFileSync(reportPath, 'utf-8'));
+  const content = format.render(results, REPORT_RENDER_OPTIONS);
+
+  const output = args.options.output;
+  if (typeof output === 'string' && output !== '-') {
+    fs.writeFileSync(output, content);
+    Logger.info(`Exported ${format.description} to ${output}`);
+  } else {
+    process.stdout.write(content);
+  }
+  return ExitCode.Success;
+}
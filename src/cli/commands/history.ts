@@ -0,0 +1,122 @@
+/**
+ * history: list, inspect, query and prune the runs kept in the local history
+ */
+import {
+  HISTORY_DIR,
+  HISTORY_MAX_RUNS,
+  HISTORY_RETENTION_DAYS
+} from '../../config/environment';
+import { FindingOccurrence, HistoryRun, HistoryRunSummary } from '../../interfaces/history.interface';
+import { RunHistoryStore } from '../../services/HistoryService/RunHistoryStore';
+import { Logger } from '../../utils/logger';
+import { SEVERITIES } from '../../utils/reportData';
+import { ParsedArguments, UsageError } from '../argumentParser';
+import { ExitCode } from '../exitCodes';
+
+export const HISTORY_SUBCOMMANDS = ['list', 'show', 'findings', 'prune'];
+
+export async function runHistory(args: ParsedArguments): Promise<ExitCode> {
+  const format = String(args.options.format || 'text').toLowerCase();
+  if (format !== 'text' && format !== 'json') {
+    throw new UsageError('Option --format must be text or json');
+  }
+
+  const [subcommand, runId] = args.positionals;
+  if (!HISTORY_SUBCOMMANDS.includes(subcommand)) {
+    throw new UsageError(`Unknown history command: ${subcommand} (expected ${HISTORY_SUBCOMMANDS.join(', ')})`);
+  }
+  if ((subcommand === 'show') !== (runId !== undefined)) {
+    throw new UsageError(subcommand === 'show'
+      ? 'history show needs a run id'
+      : `history ${subcommand} takes no run id`);
+  }
+
+  const store = new RunHistoryStore({ directory: HISTORY_DIR });
+  const filter = {
+    application: getStringOption(args, 'application'),
+    branch: getStringOption(args, 'branch'),
+    fingerprint: getStringOption(args, 'fingerprint')
+  };
+  let content: string;
+
+  switch (subcommand) {
+    case 'list': {
+      const runs = store.list();
+      content = format === 'json' ? toJson(runs) : renderRunList(runs);
+      break;
+    }
+    case 'show': {
+      const run = store.get(runId);
+      run.applications = run.applications
+        .filter(application => (filter.application === undefined || application.application === filter.application)
+          && (filter.branch === undefined || application.branch === filter.branch));
+      content = format === 'json' ? toJson(run) : renderRun(run);
+      break;
+    }
+    case 'findings': {
+      const occurrences = store.findOccurrences(filter);
+      content = format === 'json' ? toJson(occurrences) : renderOccurrences(occurrences);
+      break;
+    }
+    default: {
+      const dryRun = args.options['dry-run'] === true;
+      const pruned = store.prune({ retentionDays: HISTORY_RETENTION_DAYS, maxRuns: HISTORY_MAX_RUNS }, { dryRun });
+      Logger.info(`${dryRun ? 'Would prune' : 'Pruned'} ${pruned.length} run(s) from ${HISTORY_DIR}`);
+      content = format === 'json' ? toJson(pruned) : renderRunList(pruned);
+    }
+  }
+
+  process.stdout.write(content);
+  return ExitCode.Success;
+}
+
+function getStringOption(args: ParsedArguments, name: string): string | undefined {
+  const value = args.options[name];
+  return typeof value === 'string' ? value : undefined;
+}
+
+function toJson(value: unknown): string {
+  return `${JSON.stringify(value, null, 2)}\n`;
+}
+
+function renderRunList(runs: HistoryRunSummary[]): string {
+  if (runs.length === 0) {
+    return 'No runs\n';
+  }
+  return `${runs.map(run => [
+    run.id,
+    run.timestamp.toISOString(),
+    `${run.applications} application(s)`,
+    `${run.openFindings}/${run.findings} open`,
+    SEVERITIES.map(severity => `${severity} ${run.severitySummary[severity]}`).join(', '),
+    run.errors > 0 ? `${run.errors} error(s)` : ''
+  ].filter(Boolean).join('  ')).join('\n')}\n`;
+}
+
+function renderRun(run: HistoryRun): string {
+  const lines = [`Run ${run.summary.id} (${run.summary.timestamp.toISOString()})`];
+  run.applications.forEach(application => {
+    const findings = Object.values(application.findings);
+    lines.push('', `${application.application} (${application.branch}): ${findings.length} finding(s)`);
+    findings.forEach(finding => {
+      const title = `${finding.type}: ${finding.name}`;
+      lines.push(`  ${[finding.fingerprint, finding.severity.padEnd(8), finding.state.padEnd(9), title].join('  ')}`);
+    });
+  });
+  run.errors.forEach(error => lines.push('', `Error: ${error.applicationName}: ${error.error}`));
+  return `${lines.join('\n')}\n`;
+}
+
+function renderOccurrences(occurrences: FindingOccurrence[]): string {
+  if (occurrences.length === 0) {
+    return 'No findings\n';
+  }
+  return `${occurrences.map(({ runId, application, branch, finding }) => [
+    runId,
+    `${application} (${branch})`,
+    finding.fingerprint,
+    finding.severity,
+    finding.state,
+    finding.name
+  ].join('  ')).join('\n')}\n`;
+}
@@ -0,0 +1,48 @@
+/**
+ * report: regenerate the outputs of an earlier run from its JSON report, without calling any API
+ *
+ * With a policy file the gate is evaluated again against the report's findings, replacing the one the run recorded.
+ * Only a gate evaluated here sets the exit code; a failed gate recorded by the run is kept in the reports as is.
+ * SLA_DAYS and a risk model file likewise replace the remediation SLAs and the risk model the run recorded.
+ */
+import fs from 'fs';
+import {
+  validateOutputSettings,
+  OUTPUT_DIR,
+  OUTPUT_FORMATS_ARRAY,
+  POLICY_FILE,
+  REPORT_RENDER_OPTIONS,
+  RISK_MODEL_FILE,
+  SLA_DAYS,
+  SLA_SETTINGS
+} from '../../config/environment';
+import { loadPolicyFile } from '../../config/policyFile';
+import { loadRiskModelFile } from '../../config/riskModelFile';
+import { parseJsonReport } from '../../utils/jsonReport';
+import { Logger } from '../../utils/logger';
+import { evaluatePolicy, logPolicyEvaluation } from '../../utils/policy';
+import { writeReports } from '../../utils/reportWriter';
+import { ParsedArguments } from '../argumentParser';
+import { ExitCode } from '../exitCodes';
+
+export async function runReport(args: ParsedArguments): Promise<ExitCode> {
+  validateOutputSettings();
+
+  const [reportPath] = args.positionals;
+  Logger.info(`Regenerating reports from JSON report: ${reportPath}`);
+
+  const results = parseJsonReport(fs.readFileSync(reportPath, 'utf-8'));
+  if (SLA_DAYS) {
+    results.sla = SLA_SETTINGS;
+  }
+  if (RISK_MODEL_FILE) {
+    results.riskModel = loadRiskModelFile(RISK_MODEL_FILE);
+  }
+  const policy = POLICY_FILE ? evaluatePolicy(results, loadPolicyFile(POLICY_FILE)) : undefined;
+  if (policy) {
+    results.policy = policy;
+    logPolicyEvaluation(policy);
+  }
+  writeReports(results, OUTPUT_FORMATS_ARRAY, OUTPUT_DIR, REPORT_RENDER_OPTIONS);
+  return policy?.passed === false ? ExitCode.PolicyFailed : ExitCode.Success;
+}
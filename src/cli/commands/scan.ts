@@ -0,0 +1,476 @@
+/**
+ * scan: fetch results from every configured source and write the reports
+ */
+import { 
+  GitHubRepositoryService 
+} from '../../services/GitHubService/GitHubRepositoryService';
+import { 
+  AzureDevOpsGitClient 
+} from '../../services/AzureDevOpsService/AzureDevOpsGitClient';
+import { 
+  SarifScanningResultService 
+} from '../../services/SarifService/SarifScanningResultService';
+import { 
+  RepositoryDiscoveryService 
+} from '../../services/DiscoveryService/RepositoryDiscoveryService';
+import { 
+  createScanningProviderRegistry 
+} from '../../services/ProviderRegistry/ScanningProviderRegistry';
+import { RunHistoryStore } from '../../services/HistoryService/RunHistoryStore';
+import { 
+  AggregatedScanningResult, 
+  AlertCategory,
+  ApplicationError,
+  MultiApplicationAggregatedScanningResult,
+  RepositoryDiscoveryResult
+} from '../../interfaces/scanning-result.interface';
+import {
+  ProviderFetchResult,
+  ProviderRepository,
+  ScanningProvider
+} from '../../interfaces/scanning-provider.interface';
+import { ApplicationTarget } from '../../interfaces/config.interface';
+import { 
+  validateEnvironmentVariables,
+  GITHUB_PAGE_SIZE,
+  GITHUB_MAX_PAGES,
+  GITHUB_CONCURRENCY,
+  GITHUB_ALERT_STATES_ARRAY,
+  AZURE_DEVOPS_CONCURRENCY,
+  OUTPUT_DIR,
+  OUTPUT_FORMATS_ARRAY,
+  REPORT_RENDER_OPTIONS,
+  BRANCH_NAMES_ARRAY,
+  HTTP_RETRY_OPTIONS,
+  DEMO_MODE,
+  HISTORY_ENABLED,
+  HISTORY_DIR,
+  HISTORY_RETENTION_DAYS,
+  HISTORY_MAX_RUNS,
+  POLICY_FILE,
+  RISK_MODEL_FILE,
+  SLA_SETTINGS,
+  SUPPRESSIONS_FILE
+} from '../../config/environment';
+import { loadPolicyFile } from '../../config/policyFile';
+import { loadRiskModelFile } from '../../config/riskModelFile';
+import { loadSuppressionFile } from '../../config/suppressionFile';
+import { isBranchPattern, resolveBranchPatterns } from '../../utils/branchPatterns';
+import { ConcurrencyLimiter } from '../../utils/concurrencyLimiter';
+import { Logger } from '../../utils/logger';
+import { evaluatePolicy, logPolicyEvaluation } from '../../utils/policy';
+import { setProviderResults, summarizeResults } from '../../utils/providerResults';
+import { RateLimitTracker } from '../../utils/rateLimitTracker';
+import { flattenFindings, formatApplicationLabel, getMultiBranchApplications } from '../../utils/reportData';
+import { diffRuns, formatDiffTotals, fromHistoryRun, fromReport, ReportDiff } from '../../utils/reportDiff';
+import { DEFAULT_RISK_MODEL, scoreApplications } from '../../utils/riskScore';
+import { writeReports } from '../../utils/reportWriter';
+import { logSlaBreaches } from '../../utils/sla';
+import { getExpiredSuppressions } from '../../utils/suppressions';
+import { ExitCode } from '../exitCodes';
+
+// The fetch method for each kind of alert
+const ALERT_FETCHERS: Array<{
+  category: AlertCategory,
+  fetch: 'fetchCodeScanning' | 'fetchDependencyScanning' | 'fetchSecretScanning'
+}> = [
+  { category: 'code-scanning', fetch: 'fetchCodeScanning' },
+  { category: 'dependency-scanning', fetch: 'fetchDependencyScanning' },
+  { category: 'secret-scanning', fetch: 'fetchSecretScanning' }
+];
+
+export async function runScan(): Promise<ExitCode> {
+  try {
+    // Validate the configuration and resolve the applications to scan
+    const configuration = validateEnvironmentVariables();
+    const applications = [...configuration.applications];
+    const suppressions = SUPPRESSIONS_FILE ? loadSuppressionFile(SUPPRESSIONS_FILE) : [];
+    const policyRules = POLICY_FILE ? loadPolicyFile(POLICY_FILE) : [];
+    const riskModel = RISK_MODEL_FILE ? loadRiskModelFile(RISK_MODEL_FILE) : DEFAULT_RISK_MODEL;
+    
+    Logger.info('Starting dependency and code scanning analysis for multiple applications...');
+    if (SUPPRESSIONS_FILE) {
+      Logger.info(`Loaded ${suppressions.length} suppression(s) from ${SUPPRESSIONS_FILE}`);
+    }
+    if (POLICY_FILE) {
+      Logger.info(`Loaded ${policyRules.length} policy rule(s) from ${POLICY_FILE}`);
+    }
+    if (RISK_MODEL_FILE) {
+      Logger.info(`Loaded the risk model from ${RISK_MODEL_FILE}`);
+    }
+    
+    if (DEMO_MODE) {
+      Logger.warn('Demo mode is enabled: Azure DevOps dependency results will be simulated and labelled as demo data');
+    }
+    
+    const registry = await createScanningProviderRegistry({
+      configuration,
+      http: HTTP_RETRY_OPTIONS,
+      demoMode: DEMO_MODE,
+      github: {
+        pageSize: GITHUB_PAGE_SIZE,
+        maxPages: GITHUB_MAX_PAGES,
+        concurrency: GITHUB_CONCURRENCY,
+        states: GITHUB_ALERT_STATES_ARRAY
+      },
+      azureDevOps: { concurrency: AZURE_DEVOPS_CONCURRENCY }
+    });
+    
+    const applicationErrors: ApplicationError[] = [];
+    
+    // Discovered repositories are scanned like configured applications
+    const { github: githubDiscovery, azureDevOps: azureDevOpsDiscovery } = configuration.discovery;
+    let discovery: RepositoryDiscoveryResult | undefined;
+    if (githubDiscovery || azureDevOpsDiscovery) {
+      Logger.info('Discovering repositories...');
+      const discoveryService = new RepositoryDiscoveryService({
+        settings: configuration.discovery,
+        github: githubDiscovery && new GitHubRepositoryService({
+          orgName: githubDiscovery.org,
+          token: configuration.github.token,
+          baseUrl: configuration.github.baseUrl,
+          pageSize: GITHUB_PAGE_SIZE,
+          maxPages: GITHUB_MAX_PAGES,
+          http: HTTP_RETRY_OPTIONS
+        }),
+        azureDevOps: azureDevOpsDiscovery && new AzureDevOpsGitClient({
+          orgName: azureDevOpsDiscovery.org,
+          token: configuration.azureDevOps.token,
+          baseUrl: configuration.azureDevOps.baseUrl,
+          http: HTTP_RETRY_OPTIONS
+        })
+      });
+      const outcome = await discoveryService.discover(applications);
+      applications.push(...outcome.applications);
+      applicationErrors.push(...outcome.errors);
+      discovery = outcome.result;
+      Logger.info(`Discovery: ${discovery.discovered.length} repositories added, ${discovery.skipped.length} skipped`);
+    }
+    
+    // Applications are scanned concurrently; each provider has its own cap on requests in flight
+    const providers = registry.list()
+      .map(provider => ({ provider, limiter: new ConcurrencyLimiter(provider.concurrency ?? 4) }));
+    providers.forEach(({ provider, limiter }) => {
+      const count = applications.filter(application => provider.resolveRepository(application)).length;
+      if (count > 0) {
+        Logger.info(`Scanning ${count} ${provider.displayName} application(s) `
+          + `with up to ${limiter.limit} requests in flight`);
+      }
+    });
+    
+    const sarifService = new SarifScanningResultService({
+      paths: configuration.sarifPaths
+    });
+    
+    // Each application collects its own results and errors, which are merged in configuration order below
+    const applicationScans = await Promise.all(applications.map(async application => {
+      // One result per branch, in the order the branches are first seen
+      const branchResults = new Map<string, AggregatedScanningResult>();
+      const getBranchResult = (branchName: string) => {
+        let appResults = branchResults.get(branchName);
+        if (!appResults) {
+          appResults = createApplicationResult(application, branchName);
+          branchResults.set(branchName, appResults);
+        }
+        return appResults;
+      };
+      const errorLabel = (provider: string, branchName?: string) =>
+        `${provider}: ${application.name}${branchName && branchResults.size > 1 ? ` (${branchName})` : ''}`;
+      
+      const sources = providers
+        .map(({ provider, limiter }) => ({ provider, limiter, repository: provider.resolveRepository(application) }))
+        .filter((source): source is ApplicationSource => source.repository !== undefined);
+      sources.forEach(({ provider, repository }) => {
+        Logger.info(`Processing ${provider.displayName} application: ${application.name} (${repository.label})`);
+      });
+      
+      // Resolve the branches of every source first, so branches keep the order of the providers
+      const listings = await Promise.all(sources.map(({ provider, limiter, repository }) => {
+        const listBranches = provider.capabilities.includes('branches')
+          ? provider.listBranches?.bind(provider)
+          : undefined;
+        return listProviderBranches(provider.displayName, application.name, () => resolveBranches(
+          application.branches,
+          listBranches ? () => limiter.run(() => listBranches(repository)) : undefined
+        ));
+      }));
+      listings.forEach(listing => listing.branches.forEach(getBranchResult));
+      
+      // Applications with only SARIF sources, or whose branches could not be listed,
+      // keep their named branches
+      if (branchResults.size === 0) {
+        application.branches.filter(branchName => !isBranchPattern(branchName)).forEach(getBranchResult);
+      }
+      
+      const listingErrors: ApplicationError[] = listings.flatMap((listing, index) => listing.error
+        ? [{
+          applicationName: errorLabel(sources[index].provider.displayName),
+          error: `Unable to list branches: ${listing.error}`,
+          application: application.name
+        }]
+        : []);
+      
+      // Fetch every kind of alert the provider supports;
+      // a failed branch leaves its results empty and is reported as an error
+      const fetches = sources.flatMap(({ provider, limiter, repository }, index) =>
+        listings[index].branches.map(async (branchName): Promise<ApplicationError | undefined> => {
+          const fetchers = ALERT_FETCHERS.flatMap(({ category, fetch }) => {
+            const fetchResults = provider.capabilities.includes(category) ? provider[fetch]?.bind(provider) : undefined;
+            return fetchResults ? [{ category, fetchResults }] : [];
+          });
+          try {
+            const categories = fetchers.map(({ category }) => category).join(', ');
+            Logger.info(`Fetching ${provider.displayName} ${categories} results `
+              + `for ${application.name} on branch ${branchName}...`);
+            const results: ProviderFetchResult[] = await Promise.all(fetchers.map(({ fetchResults }) =>
+              limiter.run(() => fetchResults(repository, branchName))));
+            
+            const appResults = getBranchResult(branchName);
+            fetchers.forEach(({ category }, fetchIndex) => {
+              setProviderResults(appResults, provider, category, results[fetchIndex]);
+            });
+            
+            const counts = fetchers
+              .map(({ category }, fetchIndex) => `${results[fetchIndex].results.length} ${category}`)
+              .join(', ');
+            Logger.info(`${provider.displayName} Application ${application.name}: Fetched ${counts} results `
+              + `on branch ${branchName}`);
+            return undefined;
+          } catch (error: any) {
+            Logger.error(`Error processing ${provider.displayName} application ${application.name} `
+              + `on branch ${branchName}: ${error.message}`);
+            Logger.warn(`${provider.displayName} Application ${application.name} failed, `
+              + 'but continuing with other applications...');
+            
+            return {
+              applicationName: errorLabel(provider.displayName, branchName),
+              error: error.message,
+              application: application.name,
+              branch: branchName
+            };
+          }
+        }));
+      
+      const fetchErrors = await Promise.all(fetches);
+      
+      // Failed applications stay in the report with empty results
+      return {
+        results: Array.from(branchResults.values()),
+        errors: [...listingErrors, ...fetchErrors.filter((error): error is ApplicationError => error !== undefined)]
+      };
+    }));
+    
+    const allApplicationsResults: AggregatedScanningResult[] = [];
+    applicationScans.forEach(scan => {
+      allApplicationsResults.push(...scan.results);
+      applicationErrors.push(...scan.errors);
+    });
+    
+    // Import SARIF files and attach their results to the matching applications
+    if (configuration.sarifPaths.length > 0) {
+      Logger.info(`Importing SARIF results from ${configuration.sarifPaths.length} path(s)...`);
+      const sarifImport = await sarifService.fetchSarifResults();
+      applicationErrors.push(...sarifImport.errors);
+      
+      for (const sarifApp of sarifImport.applications) {
+        // Match on the full name or, for Azure DevOps project/app names, the repository part
+        let appResults = allApplicationsResults.find(app => app.applicationName === sarifApp.applicationName)
+          || allApplicationsResults.find(app => app.applicationName.split('/').pop() === sarifApp.applicationName);
+        
+        if (!appResults) {
+          appResults = createApplicationResult(
+            { name: sarifApp.applicationName, branches: [], sarifPaths: [] },
+            BRANCH_NAMES_ARRAY[0] || 'main'
+          );
+          allApplicationsResults.push(appResults);
+        }
+        
+        appResults.sarifResults = {
+          codeScanning: [...(appResults.sarifResults?.codeScanning || []), ...sarifApp.results]
+        };
+        Logger.info(`SARIF: Attached ${sarifApp.results.length} results to application ${appResults.applicationName}`);
+      }
+    }
+    
+    // Create multi-application aggregated results
+    const timestamp = new Date();
+    const summary = summarizeResults(allApplicationsResults, suppressions, timestamp);
+    const multiAppResults: MultiApplicationAggregatedScanningResult = {
+      applications: allApplicationsResults,
+      errors: applicationErrors,
+      summary,
+      discovery,
+      demoMode: DEMO_MODE,
+      suppressions: suppressions.length > 0 ? suppressions : undefined,
+      sla: SLA_SETTINGS,
+      riskModel,
+      timestamp
+    };
+    
+    Logger.info(`Scanning summary: Total applications: ${summary.totalApplications}`);
+    (summary.providerTotals || []).forEach(totals => {
+      Logger.info(`Scanning summary: ${totals.displayName} code issues: ${totals.codeScanning}`);
+      Logger.info(`Scanning summary: ${totals.displayName} dependency issues: ${totals.dependencyScanning}`);
+      if (totals.secretScanning > 0 || registry.get(totals.provider)?.capabilities.includes('secret-scanning')) {
+        Logger.info(`Scanning summary: ${totals.displayName} secret issues: ${totals.secretScanning}`);
+      }
+    });
+    Logger.info(`Scanning summary: SARIF code issues: ${summary.totalSarifCodeScanningIssues}`);
+    if (suppressions.length > 0) {
+      Logger.info(`Scanning summary: Suppressed findings: ${summary.suppressedFindings}`);
+    }
+    getExpiredSuppressions(suppressions, timestamp).forEach(suppression => {
+      const { id, approvedBy } = suppression;
+      const expiredOn = suppression.expires.toISOString().slice(0, 10);
+      Logger.warn(`EXPIRED SUPPRESSION ${id} (approved by ${approvedBy}) expired on ${expiredOn}: `
+        + 'the findings it matches count again until it is renewed or removed');
+    });
+    if (SLA_SETTINGS) {
+      logSlaBreaches(flattenFindings(multiAppResults));
+    }
+    const riskScores = scoreApplications(multiAppResults, riskModel);
+    if (riskScores.length > 0) {
+      const ranking = riskScores.slice(0, 5).map(score => `${score.rank}. ${score.application} (${score.score})`);
+      Logger.info(`Risk ranking: ${ranking.join(', ')}`);
+    }
+    
+    const multiBranchApplications = getMultiBranchApplications(multiAppResults);
+    const truncatedApplications = allApplicationsResults
+      .filter(app => Object.values(app.fetchStats || {}).some(stats => stats?.truncated))
+      .map(app => formatApplicationLabel(app.applicationName, app.branchName, multiBranchApplications));
+    if (truncatedApplications.length > 0) {
+      Logger.warn(`Scanning summary: Alert fetches hit their page limit for: ${truncatedApplications.join(', ')}`);
+    }
+    
+    // Report the rate-limit budget consumed by this run
+    for (const usage of RateLimitTracker.getUsage()) {
+      const reset = usage.resetAt ? `, resets ${usage.resetAt.toISOString()}` : '';
+      const budget = usage.limit !== undefined
+        ? `, consumed ${usage.consumed} of ${usage.limit} (${usage.remaining} remaining${reset})`
+        : '';
+      Logger.info(`Scanning summary: ${usage.provider} API requests: ${usage.requests}, retries: ${usage.retries}, `
+        + `throttled: ${usage.throttled}, waited: ${Math.round(usage.waitMs / 1000)}s${budget}`);
+    }
+    
+    // The gate is evaluated before the reports are written so that every format shows its outcome
+    if (POLICY_FILE) {
+      multiAppResults.policy = evaluatePolicy(multiAppResults, policyRules);
+      logPolicyEvaluation(multiAppResults.policy);
+    }
+    
+    const history = HISTORY_ENABLED ? new RunHistoryStore({ directory: HISTORY_DIR }) : undefined;
+    const comparison = history ? compareWithPreviousRun(history, multiAppResults) : undefined;
+    writeReports(multiAppResults, OUTPUT_FORMATS_ARRAY, OUTPUT_DIR, { ...REPORT_RENDER_OPTIONS, html: { comparison } });
+    if (history) {
+      recordHistory(history, multiAppResults);
+    }
+    Logger.info('Multi-application dependency and code scanning analysis completed successfully');
+    return multiAppResults.policy?.passed === false ? ExitCode.PolicyFailed : ExitCode.Success;
+  } catch (error: any) {
+    Logger.error('Error occurred during analysis:', error.message);
+    return ExitCode.Failure;
+  }
+}
+
+/**
+ * Compares the run with the latest run in the history, for the Scan Comparison section of the HTML report
+ */
+function compareWithPreviousRun(
+  store: RunHistoryStore,
+  results: MultiApplicationAggregatedScanningResult
+): ReportDiff | undefined {
+  try {
+    const [previous, ...earlier] = store.getRuns();
+    if (!previous) {
+      return undefined;
+    }
+    const comparison = diffRuns(fromHistoryRun(previous), fromReport(results), earlier.map(fromHistoryRun));
+    Logger.info(`History: Since run ${previous.summary.id}: ${formatDiffTotals(comparison)}`);
+    return comparison;
+  } catch (error: any) {
+    Logger.warn(`History: Could not compare with the previous run: ${error.message}`);
+    return undefined;
+  }
+}
+
+/**
+ * Appends the run to the local history and applies the retention settings; a failure only logs a warning
+ */
+function recordHistory(store: RunHistoryStore, results: MultiApplicationAggregatedScanningResult): void {
+  try {
+    const run = store.append(results);
+    Logger.info(`History: Run ${run.summary.id} recorded in ${HISTORY_DIR}`);
+    const pruned = store.prune({ retentionDays: HISTORY_RETENTION_DAYS, maxRuns: HISTORY_MAX_RUNS });
+    if (pruned.length > 0) {
+      Logger.info(`History: Pruned ${pruned.length} run(s) beyond the retention settings`);
+    }
+  } catch (error: any) {
+    Logger.warn(`History: Could not record the run: ${error.message}`);
+  }
+}
+
+/**
+ * Expands branch patterns against the repository's branches; the branch list is only fetched when a pattern is used.
+ * Patterns are dropped with a warning for providers that cannot list branches.
+ */
+async function resolveBranches(entries: string[], listBranches?: () => Promise<string[]>): Promise<string[]> {
+  if (!entries.some(isBranchPattern)) {
+    return entries;
+  }
+  if (!listBranches) {
+    const named = entries.filter(entry => !isBranchPattern(entry));
+    Logger.warn('Branch patterns are not supported by this provider, '
+      + `scanning only ${named.join(', ') || 'no branches'}`);
+    return named;
+  }
+  const branches = resolveBranchPatterns(entries, await listBranches());
+  if (branches.length === 0) {
+    Logger.warn(`No branches match ${entries.join(', ')}`);
+  }
+  return branches;
+}
+
+/**
+ * Resolves the branches of one source, turning a failure into an error message instead of a rejection
+ */
+async function listProviderBranches(
+  provider: string,
+  applicationName: string,
+  resolve: () => Promise<string[]>
+): Promise<{ branches: string[], error?: string }> {
+  try {
+    return { branches: await resolve() };
+  } catch (error: any) {
+    Logger.error(`Unable to list the branches of ${provider} application ${applicationName}: ${error.message}`);
+    return { branches: [], error: error.message };
+  }
+}
+
+// A scanning provider together with an application's repository on it
+interface ApplicationSource {
+  provider: ScanningProvider<any>;
+  limiter: ConcurrencyLimiter;
+  repository: ProviderRepository;
+}
+
+/**
+ * Creates an empty result for one branch of an application, carrying its configured metadata
+ */
+function createApplicationResult(application: ApplicationTarget, branchName: string): AggregatedScanningResult {
+  return {
+    applicationName: application.name,
+    displayName: application.displayName,
+    team: application.team,
+    tags: application.tags,
+    branchName,
+    githubResults: {
+      codeScanning: [],
+      dependencyScanning: []
+    },
+    azureDevOpsResults: {
+      codeScanning: [],
+      dependencyScanning: []
+    },
+    timestamp: new Date()
+  };
+}
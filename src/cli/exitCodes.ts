@@ -0,0 +1,10 @@
+/**
+ * Process exit codes returned by the command-line interface
+ */
+export enum ExitCode {
+  Success = 0,
+  Failure = 1, // the command ran into an error, e.g. an API or file system failure
+  Usage = 2, // unknown command, unknown flag or missing argument
+  ChecksFailed = 3, // doctor found a problem with the configuration or connectivity
+  PolicyFailed = 4 // the findings break a rule of the policy file
+}
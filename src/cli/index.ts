@@ -0,0 +1,333 @@
+/**
+ * Command-line interface: scan, report, diff, doctor, export and history
+ *
+ * Flags are applied as environment variable overrides before the configuration is loaded,
+ * so every command reads its settings from config/environment.ts as before.
+ */
+import { Logger, LogLevel } from '../utils/logger';
+import { SUPPORTED_REPORT_FORMATS } from '../utils/outputFormats';
+import {
+  CliCommandSpec,
+  CliOption,
+  formatCommandHelp,
+  parseArguments,
+  ParsedArguments,
+  UsageError
+} from './argumentParser';
+import { ExitCode } from './exitCodes';
+
+export const PROGRAM_NAME = 'sast-dependency-analyzer';
+
+interface CliCommand extends CliCommandSpec {
+  run: (args: ParsedArguments) => Promise<ExitCode>;
+}
+
+const HELP_OPTION: CliOption = { name: 'help', boolean: true, description: 'Show help for the command' };
+const LOG_LEVEL_OPTION: CliOption = {
+  name: 'log-level',
+  valueName: '<level>',
+  env: 'LOG_LEVEL',
+  description: 'DEBUG, INFO, WARN or ERROR'
+};
+const OUTPUT_DIR_OPTION: CliOption = {
+  name: 'output-dir',
+  valueName: '<dir>',
+  env: 'OUTPUT_DIR',
+  description: 'Directory the reports are written to'
+};
+const HISTORY_DIR_OPTION: CliOption = {
+  name: 'history-dir',
+  valueName: '<dir>',
+  env: 'HISTORY_DIR',
+  description: 'Directory of the run history (default: <output-dir>/history)'
+};
+const OUTPUT_FORMATS_OPTION: CliOption = {
+  name: 'format',
+  valueName: '<list>',
+  env: 'OUTPUT_FORMATS',
+  description: `Comma-separated report formats: ${SUPPORTED_REPORT_FORMATS.join(', ')}`
+};
+const POLICY_OPTION: CliOption = {
+  name: 'policy',
+  valueName: '<file>',
+  env: 'POLICY_FILE',
+  description: `YAML or JSON rules the findings must pass; a failed gate exits with ${ExitCode.PolicyFailed}`
+};
+const RISK_MODEL_OPTION: CliOption = {
+  name: 'risk-model',
+  valueName: '<file>',
+  env: 'RISK_MODEL_FILE',
+  description: 'YAML or JSON weights of the risk score that ranks the applications'
+};
+const SLA_OPTION: CliOption = {
+  name: 'sla',
+  valueName: '<list>',
+  env: 'SLA_DAYS',
+  description: 'Days to remediate per severity, e.g. critical=7,high=30, or none'
+};
+const SOURCE_OPTIONS: CliOption[] = [
+  {
+    name: 'config',
+    valueName: '<file>',
+    env: 'CONFIG_FILE',
+    description: 'YAML or JSON file listing the applications to scan'
+  },
+  {
+    name: 'github-apps',
+    valueName: '<list>',
+    env: 'GITHUB_APPLICATION_NAMES',
+    description: 'Comma-separated GitHub repositories'
+  },
+  {
+    name: 'azure-apps',
+    valueName: '<list>',
+    env: 'AZURE_DEVOPS_APPLICATION_NAMES',
+    description: 'Comma-separated Azure DevOps repositories, as project/repository or repository'
+  },
+  {
+    name: 'sarif',
+    valueName: '<list>',
+    env: 'SARIF_PATHS',
+    description: 'Comma-separated SARIF files or directories to import'
+  },
+  {
+    name: 'discover',
+    valueName: '<list>',
+    env: 'DISCOVER',
+    description: 'Scan every repository of these providers: github, azure-devops'
+  },
+  {
+    name: 'providers',
+    valueName: '<list>',
+    env: 'SCANNING_PROVIDERS',
+    description: 'Comma-separated scanning provider modules to load, npm packages or paths'
+  },
+  {
+    name: 'suppressions',
+    valueName: '<file>',
+    env: 'SUPPRESSIONS_FILE',
+    description: 'YAML or JSON file of accepted risks and false positives'
+  },
+  POLICY_OPTION,
+  RISK_MODEL_OPTION
+];
+
+export const COMMANDS: CliCommand[] = [
+  {
+    name: 'scan',
+    summary: 'Fetch results from every configured source and write the reports (default)',
+    usage: '',
+    options: [
+      ...SOURCE_OPTIONS,
+      {
+        name: 'branch',
+        valueName: '<list>',
+        env: 'BRANCH_NAME',
+        description: 'Comma-separated branches or patterns such as release/* to scan'
+      },
+      {
+        name: 'states',
+        valueName: '<list>',
+        env: 'GITHUB_ALERT_STATES',
+        description: 'GitHub alert states to fetch: open, fixed, dismissed (default: open)'
+      },
+      {
+        name: 'github-concurrency',
+        valueName: '<n>',
+        env: 'GITHUB_CONCURRENCY',
+        description: 'GitHub requests in flight at once (default: 4)'
+      },
+      {
+        name: 'azure-concurrency',
+        valueName: '<n>',
+        env: 'AZURE_DEVOPS_CONCURRENCY',
+        description: 'Azure DevOps requests in flight at once (default: 4)'
+      },
+      {
+        name: 'demo',
+        boolean: true,
+        env: 'DEMO_MODE',
+        description: 'Replace Azure DevOps dependency results with simulated data'
+      },
+      SLA_OPTION,
+      OUTPUT_DIR_OPTION,
+      OUTPUT_FORMATS_OPTION,
+      LOG_LEVEL_OPTION,
+      HELP_OPTION
+    ],
+    run: async () => (await import('./commands/scan')).runScan()
+  },
+  {
+    name: 'report',
+    summary: 'Regenerate reports from a JSON report without calling any API',
+    usage: '<report.json>',
+    options: [
+      POLICY_OPTION,
+      SLA_OPTION,
+      RISK_MODEL_OPTION,
+      OUTPUT_DIR_OPTION,
+      OUTPUT_FORMATS_OPTION,
+      LOG_LEVEL_OPTION,
+      HELP_OPTION
+    ],
+    minPositionals: 1,
+    maxPositionals: 1,
+    run: async args => (await import('./commands/report')).runReport(args)
+  },
+  {
+    name: 'diff',
+    summary: 'Compare the open findings of two runs: JSON reports, history run ids, latest or previous',
+    usage: '<base> <head>',
+    options: [
+      { name: 'format', valueName: '<format>', description: 'markdown (default), json or html' },
+      { name: 'output', valueName: '<file>', description: 'File to write the comparison to instead of stdout' },
+      HISTORY_DIR_OPTION,
+      OUTPUT_DIR_OPTION,
+      LOG_LEVEL_OPTION,
+      HELP_OPTION
+    ],
+    minPositionals: 2,
+    maxPositionals: 2,
+    run: async args => (await import('./commands/diff')).runDiff(args)
+  },
+  {
+    name: 'doctor',
+    summary: 'Check the configuration, output directory, API access, SARIF paths, suppression, policy '
+      + 'and risk model files',
+    usage: '',
+    options: [...SOURCE_OPTIONS, OUTPUT_DIR_OPTION, LOG_LEVEL_OPTION, HELP_OPTION],
+    run: async () => (await import('./commands/doctor')).runDoctor()
+  },
+  {
+    name: 'export',
+    summary: 'Convert a JSON report to another format',
+    usage: '<report.json>',
+    options: [
+      {
+        name: 'format',
+        valueName: '<format>',
+        description: `Format to export: ${SUPPORTED_REPORT_FORMATS.join(', ')}`
+      },
+      { name: 'output', valueName: '<file>', description: 'File to write to instead of stdout' },
+      LOG_LEVEL_OPTION,
+      HELP_OPTION
+    ],
+    minPositionals: 1,
+    maxPositionals: 1,
+    run: async args => (await import('./commands/export')).runExport(args)
+  },
+  {
+    name: 'history',
+    summary: 'List, inspect, query and prune the runs kept in the local history',
+    usage: '<list|show|findings|prune> [run-id]',
+    options: [
+      { name: 'format', valueName: '<format>', description: 'text (default) or json' },
+      HISTORY_DIR_OPTION,
+      OUTPUT_DIR_OPTION,
+      { name: 'application', valueName: '<name>', description: 'show and findings: only this application' },
+      { name: 'branch', valueName: '<name>', description: 'show and findings: only this branch' },
+      { name: 'fingerprint', valueName: '<fingerprint>', description: 'findings: only this finding' },
+      {
+        name: 'retention-days',
+        valueName: '<n>',
+        env: 'HISTORY_RETENTION_DAYS',
+        description: 'prune: remove runs older than this, 0 keeps them (default: 90)'
+      },
+      {
+        name: 'max-runs',
+        valueName: '<n>',
+        env: 'HISTORY_MAX_RUNS',
+        description: 'prune: keep only the newest runs, 0 keeps all (default: 0)'
+      },
+      {
+        name: 'dry-run',
+        boolean: true,
+        description: 'prune: list the runs that would be removed without removing them'
+      },
+      LOG_LEVEL_OPTION,
+      HELP_OPTION
+    ],
+    minPositionals: 1,
+    maxPositionals: 2,
+    run: async args => (await import('./commands/history')).runHistory(args)
+  }
+];
+
+/**
+ * Runs a command line and returns the process exit code; without a command it runs scan
+ */
+export async function runCli(argv: string[]): Promise<ExitCode> {
+  const [first, ...rest] = argv;
+
+  if (first === 'help' || first === '--help' || first === '-h') {
+    const command = COMMANDS.find(candidate => candidate.name === rest[0]);
+    process.stdout.write(`${command ? formatCommandHelp(PROGRAM_NAME, command) : formatGeneralHelp()}\n`);
+    return ExitCode.Success;
+  }
+
+  // Keep the environment-driven behaviour when no command is given
+  const command = first === undefined || first.startsWith('-')
+    ? COMMANDS[0]
+    : COMMANDS.find(candidate => candidate.name === first);
+  if (!command) {
+    process.stderr.write(`Unknown command: ${first}\n\n${formatGeneralHelp()}\n`);
+    return ExitCode.Usage;
+  }
+  const commandArgs = command === COMMANDS[0] && first !== command.name ? argv : rest;
+
+  try {
+    const args = parseArguments(commandArgs, command);
+    if (args.options.help) {
+      process.stdout.write(`${formatCommandHelp(PROGRAM_NAME, command)}\n`);
+      return ExitCode.Success;
+    }
+
+    applyEnvironmentOverrides(command, args);
+
+    const { LOG_LEVEL } = await import('../config/environment');
+    if (Object.values(LogLevel).includes(LOG_LEVEL)) {
+      Logger.setLevel(LOG_LEVEL);
+    }
+
+    return await command.run(args);
+  } catch (error: any) {
+    if (error instanceof UsageError) {
+      process.stderr.write(`${error.message}\n\n${formatCommandHelp(PROGRAM_NAME, command)}\n`);
+      return ExitCode.Usage;
+    }
+    Logger.error(`${command.name} failed:`, error.message);
+    return ExitCode.Failure;
+  }
+}
+
+/**
+ * Copies flag values into the environment variables they override
+ */
+function applyEnvironmentOverrides(command: CliCommand, args: ParsedArguments): void {
+  command.options.forEach(option => {
+    const value = args.options[option.name];
+    if (option.env && value !== undefined) {
+      process.env[option.env] = String(value);
+    }
+  });
+}
+
+function formatGeneralHelp(): string {
+  const width = Math.max(...COMMANDS.map(command => command.name.length));
+  return [
+    `Usage: ${PROGRAM_NAME} [command] [options]`,
+    '',
+    'Commands:',
+    ...COMMANDS.map(command => `  ${command.name.padEnd(width)}  ${command.summary}`),
+    '',
+    'Settings are read from environment variables and .env; flags override them.',
+    `Run "${PROGRAM_NAME} <command> --help" for the options of a command.`,
+    '',
+    'Exit codes:',
+    `  ${ExitCode.Success}  success`,
+    `  ${ExitCode.Failure}  the command failed`,
+    `  ${ExitCode.Usage}  invalid command line`,
+    `  ${ExitCode.ChecksFailed}  doctor found a problem`,
+    `  ${ExitCode.PolicyFailed}  the findings break a rule of the policy file`
+  ].join('\n');
+}
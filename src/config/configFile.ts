@@ -0,0 +1,369 @@
+/**
+ * Loads the YAML or JSON configuration file that lists the applications to scan
+ *
+ * String values may reference environment variables as ${NAME} or ${NAME:-default}, and $$ escapes a literal $.
+ * Every problem is reported with the line and column it comes from.
+ */
+import fs from 'fs';
+import path from 'path';
+import { Document, isMap, isScalar, isSeq, LineCounter, Node, parseDocument, visit } from 'yaml';
+import {
+  ApplicationTarget,
+  RepositoryDiscoverySettings,
+  ScanConfigFile,
+  ScanningProviderModuleConfig
+} from '../interfaces/config.interface';
+import { formatSchemaPath, JsonSchema, validateSchema } from '../utils/schemaValidator';
+
+export const CONFIG_SCHEMA_PATH = path.resolve(__dirname, '../../schemas/config.schema.json');
+
+const INTERPOLATION_PATTERN = /\$\$|\$\{([A-Za-z_][A-Za-z0-9_]*)(?::-([^}]*))?\}/g;
+
+// A problem found in the configuration file
+export interface ConfigIssue {
+  line?: number;
+  column?: number;
+  path?: string;
+  message: string;
+}
+
+export class ConfigFileError extends Error {
+  readonly filePath: string;
+  readonly issues: ConfigIssue[];
+
+  constructor(filePath: string, issues: ConfigIssue[]) {
+    const details = issues.map(issue => `  ${formatIssue(filePath, issue)}`).join('\n');
+    super(`Invalid configuration file ${filePath}:\n${details}`);
+    this.name = 'ConfigFileError';
+    this.filePath = filePath;
+    this.issues = issues;
+  }
+}
+
+// Schemas by path, each read once
+const schemas = new Map<string, JsonSchema>();
+
+// A YAML or JSON file that passed its JSON Schema
+export interface ValidatedYaml<T> {
+  value: T;
+  // The line, column and path of a value, for the issues found after validation
+  at(segments: Array<string | number>): Pick<ConfigIssue, 'line' | 'column' | 'path'>;
+}
+
+/**
+ * Reads, interpolates and validates a configuration file.
+ * Connection settings the file leaves out fall back to the GITHUB_* and AZURE_DEVOPS_* variables in env,
+ * default branches fall back to BRANCH_NAME, and SARIF paths are resolved relative to the file.
+ */
+export function loadConfigFile(filePath: string, env: NodeJS.ProcessEnv = process.env): ScanConfigFile {
+  const { document, position } = readYamlDocument(filePath);
+
+  const issues: ConfigIssue[] = [];
+  visit(document, {
+    Scalar(key, node) {
+      if (key === 'key' || typeof node.value !== 'string') {
+        return;
+      }
+      node.value = node.value.replace(INTERPOLATION_PATTERN, (_match: string, name?: string, fallback?: string) => {
+        if (!name) {
+          return '$';
+        }
+        const value = env[name];
+        if (value) {
+          return value;
+        }
+        if (fallback !== undefined) {
+          return fallback;
+        }
+        if (value === undefined) {
+          issues.push({ ...position(node.range?.[0]), message: `environment variable ${name} is not set` });
+        }
+        return '';
+      });
+    }
+  });
+
+  const config = document.toJS() as ScanConfigFile;
+  validateSchema(config, getSchema(CONFIG_SCHEMA_PATH)).forEach(issue => issues.push({
+    ...position(locate(document.contents, issue.path)),
+    path: formatSchemaPath(issue.path),
+    message: issue.message
+  }));
+  if (issues.length > 0) {
+    throw new ConfigFileError(filePath, issues);
+  }
+
+  config.github = {
+    ...config.github,
+    org: config.github?.org || env.GITHUB_ORG_NAME || undefined,
+    token: config.github?.token || env.GITHUB_TOKEN || undefined,
+    baseUrl: config.github?.baseUrl || env.GITHUB_BASE_URL || undefined
+  };
+  config.azureDevOps = {
+    ...config.azureDevOps,
+    org: config.azureDevOps?.org || env.AZURE_DEVOPS_ORG_NAME || undefined,
+    project: config.azureDevOps?.project || env.AZURE_DEVOPS_PROJECT_NAME || undefined,
+    token: config.azureDevOps?.token || env.AZURE_DEVOPS_TOKEN || undefined,
+    baseUrl: config.azureDevOps?.baseUrl || env.AZURE_DEVOPS_BASE_URL || undefined
+  };
+  config.defaults = {
+    ...config.defaults,
+    branches: config.defaults?.branches || splitBranchList(env.BRANCH_NAME || 'main')
+  };
+  config.applications = config.applications || [];
+
+  if (config.applications.length === 0 && !config.discovery?.github && !config.discovery?.azureDevOps) {
+    issues.push({
+      ...position(locate(document.contents, [])),
+      message: 'needs at least one application or a discovery section'
+    });
+  }
+
+  const discoveryAt = (...segments: string[]) => ({
+    ...position(locate(document.contents, ['discovery', ...segments])),
+    path: formatSchemaPath(['discovery', ...segments])
+  });
+  const githubDiscovery = config.discovery?.github;
+  if (githubDiscovery && !githubDiscovery.org && !config.github?.org) {
+    issues.push({ ...discoveryAt('github'), message: 'has no org; set it here, in github.org or in GITHUB_ORG_NAME' });
+  }
+  const azureDevOpsDiscovery = config.discovery?.azureDevOps;
+  if (azureDevOpsDiscovery && !azureDevOpsDiscovery.org && !config.azureDevOps?.org) {
+    issues.push({
+      ...discoveryAt('azureDevOps'),
+      message: 'has no org; set it here, in azureDevOps.org or in AZURE_DEVOPS_ORG_NAME'
+    });
+  }
+  if (azureDevOpsDiscovery && !azureDevOpsDiscovery.projects && !config.azureDevOps?.project) {
+    issues.push({
+      ...discoveryAt('azureDevOps'),
+      message: 'has no projects; set them here, or set azureDevOps.project or AZURE_DEVOPS_PROJECT_NAME'
+    });
+  }
+  (['github', 'azureDevOps'] as const).forEach(provider => {
+    const namePattern = config.discovery?.[provider]?.namePattern;
+    const error = namePattern !== undefined ? checkRegularExpression(namePattern) : undefined;
+    if (error) {
+      issues.push({ ...discoveryAt(provider, 'namePattern'), message: `is not valid: ${error}` });
+    }
+  });
+
+  const seenNames = new Map<string, number>();
+  config.applications.forEach((application, index) => {
+    const at = (...segments: Array<string | number>) => ({
+      ...position(locate(document.contents, ['applications', index, ...segments])),
+      path: formatSchemaPath(['applications', index, ...segments])
+    });
+
+    const firstIndex = seenNames.get(application.name);
+    if (firstIndex !== undefined) {
+      issues.push({ ...at('name'), message: `duplicates the name of applications[${firstIndex}]` });
+    } else {
+      seenNames.set(application.name, index);
+    }
+
+    const hasSource = application.github || application.azureDevOps || application.sarif
+      || Object.keys(application.sources || {}).length > 0;
+    if (!hasSource) {
+      issues.push({ ...at(), message: 'needs at least one source: github, azureDevOps, sarif or sources' });
+    }
+    if (application.github && !application.github.org && !config.github?.org) {
+      issues.push({ ...at('github'), message: 'has no org; set it here, in github.org or in GITHUB_ORG_NAME' });
+    }
+    if (application.azureDevOps && !application.azureDevOps.org && !config.azureDevOps?.org) {
+      issues.push({
+        ...at('azureDevOps'),
+        message: 'has no org; set it here, in azureDevOps.org or in AZURE_DEVOPS_ORG_NAME'
+      });
+    }
+    if (application.azureDevOps && !application.azureDevOps.project && !config.azureDevOps?.project) {
+      issues.push({
+        ...at('azureDevOps'),
+        message: 'has no project; set it here, in azureDevOps.project or in AZURE_DEVOPS_PROJECT_NAME'
+      });
+    }
+
+    application.sarif = application.sarif?.map(sarifPath => path.resolve(path.dirname(filePath), sarifPath));
+  });
+  if (issues.length > 0) {
+    throw new ConfigFileError(filePath, issues);
+  }
+
+  return config;
+}
+
+/**
+ * Applies the file's defaults to every application
+ */
+export function resolveApplicationTargets(config: ScanConfigFile): ApplicationTarget[] {
+  return config.applications.map(application => ({
+    name: application.name,
+    displayName: application.displayName,
+    team: application.team,
+    tags: application.tags,
+    branches: application.branches || config.defaults?.branches || ['main'],
+    github: application.github && {
+      org: application.github.org || config.github?.org || '',
+      repo: application.github.repo || application.name
+    },
+    azureDevOps: application.azureDevOps && {
+      org: application.azureDevOps.org || config.azureDevOps?.org || '',
+      project: application.azureDevOps.project || config.azureDevOps?.project || '',
+      repo: application.azureDevOps.repo || application.name
+    },
+    sarifPaths: application.sarif || [],
+    sources: application.sources
+  }));
+}
+
+/**
+ * Lists the file's scanning provider modules, with relative module paths resolved from the file's directory
+ */
+export function resolveProviderModules(config: ScanConfigFile, filePath: string): ScanningProviderModuleConfig[] {
+  return (config.providers || []).map(provider => ({ ...provider, baseDir: path.dirname(path.resolve(filePath)) }));
+}
+
+/**
+ * Applies the file's defaults to the discovery section
+ */
+export function resolveDiscoverySettings(config: ScanConfigFile): RepositoryDiscoverySettings {
+  const github = config.discovery?.github;
+  const azureDevOps = config.discovery?.azureDevOps;
+  const defaultBranches = config.defaults?.branches || ['main'];
+
+  return {
+    github: github && {
+      org: github.org || config.github?.org || '',
+      topics: github.topics || [],
+      namePattern: github.namePattern,
+      includeArchived: github.includeArchived ?? false,
+      includeForks: github.includeForks ?? false,
+      visibility: github.visibility || 'all',
+      branches: github.branches || defaultBranches
+    },
+    azureDevOps: azureDevOps && {
+      org: azureDevOps.org || config.azureDevOps?.org || '',
+      projects: azureDevOps.projects || [config.azureDevOps?.project || ''],
+      namePattern: azureDevOps.namePattern,
+      includeDisabled: azureDevOps.includeDisabled ?? false,
+      branches: azureDevOps.branches || defaultBranches
+    }
+  };
+}
+
+/**
+ * Returns why a regular expression does not compile, or undefined when it does
+ */
+export function checkRegularExpression(pattern: string): string | undefined {
+  try {
+    new RegExp(pattern);
+    return undefined;
+  } catch (error: any) {
+    return error.message;
+  }
+}
+
+/**
+ * Splits a comma-separated list of branch names and patterns, as used by BRANCH_NAME
+ */
+export function splitBranchList(value: string): string[] {
+  return value.split(',').map(branch => branch.trim()).filter(branch => branch.length > 0);
+}
+
+/**
+ * Reads a YAML or JSON file, such as the suppression file, and validates it against the JSON Schema at schemaFile;
+ * syntax and schema problems are thrown together as a ConfigFileError
+ */
+export function loadValidatedYaml<T>(filePath: string, schemaFile: string): ValidatedYaml<T> {
+  const { document, position } = readYamlDocument(filePath);
+  const at = (segments: Array<string | number>) => ({
+    ...position(locate(document.contents, segments)),
+    path: formatSchemaPath(segments)
+  });
+
+  const value = document.toJS() as T;
+  const issues: ConfigIssue[] = validateSchema(value, getSchema(schemaFile)).map(issue => ({
+    ...at(issue.path),
+    message: issue.message
+  }));
+  if (issues.length > 0) {
+    throw new ConfigFileError(filePath, issues);
+  }
+
+  return { value, at };
+}
+
+/**
+ * Reads and parses a YAML or JSON file, reporting syntax errors with their line and column
+ */
+function readYamlDocument(filePath: string): {
+  document: Document,
+  position: (offset?: number) => Pick<ConfigIssue, 'line' | 'column'>
+} {
+  let source: string;
+  try {
+    source = fs.readFileSync(filePath, 'utf8');
+  } catch (error: any) {
+    throw new ConfigFileError(filePath, [{ message: `cannot be read: ${error.message}` }]);
+  }
+
+  // JSON is a subset of YAML, so one parser handles both
+  const lineCounter = new LineCounter();
+  const document = parseDocument(source, { lineCounter, prettyErrors: false });
+  const position = (offset?: number): Pick<ConfigIssue, 'line' | 'column'> => {
+    if (offset === undefined) {
+      return {};
+    }
+    const { line, col } = lineCounter.linePos(offset);
+    return { line, column: col };
+  };
+
+  if (document.errors.length > 0) {
+    throw new ConfigFileError(
+      filePath,
+      document.errors.map(error => ({ ...position(error.pos[0]), message: error.message }))
+    );
+  }
+
+  return { document, position };
+}
+
+function getSchema(schemaFile: string): JsonSchema {
+  let schema = schemas.get(schemaFile);
+  if (!schema) {
+    schema = JSON.parse(fs.readFileSync(schemaFile, 'utf8')) as JsonSchema;
+    schemas.set(schemaFile, schema);
+  }
+  return schema;
+}
+
+/**
+ * Returns the offset of the node at a path, or of its deepest existing ancestor; map entries point at their key
+ */
+export function locate(root: unknown, segments: Array<string | number>): number | undefined {
+  let node = root;
+  let offset = (node as Node | null)?.range?.[0];
+
+  for (const segment of segments) {
+    if (isMap(node)) {
+      const pair = node.items.find(item => isScalar(item.key) && item.key.value === segment);
+      if (!pair) {
+        break;
+      }
+      offset = (pair.key as Node).range?.[0] ?? offset;
+      node = pair.value;
+    } else if (isSeq(node) && typeof segment === 'number' && node.items[segment]) {
+      node = node.items[segment];
+      offset = (node as Node).range?.[0] ?? offset;
+    } else {
+      break;
+    }
+  }
+
+  return offset;
+}
+
+function formatIssue(filePath: string, issue: ConfigIssue): string {
+  const location = issue.line !== undefined ? `${filePath}:${issue.line}:${issue.column}` : filePath;
+  return `${location}: ${issue.path ? `${issue.path}: ` : ''}${issue.message}`;
+}
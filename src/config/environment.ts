@@ -1,42 +1,371 @@
 import dotenv from 'dotenv';
+import path from 'path';
+import {
+  ApplicationTarget,
+  GitHubDiscoveryOptions,
+  RepositoryDiscoverySettings,
+  ScanConfiguration,
+  ScanningProviderModuleConfig
+} from '../interfaces/config.interface';
+import { FindingSeverity, FindingState } from '../interfaces/finding.interface';
+import { HttpRetryOptions, SarifPathMapping } from '../interfaces/scanning-result.interface';
+import { SlaSettings } from '../interfaces/sla.interface';
+import { LogLevel } from '../utils/logger';
+import { ReportRenderOptions, SUPPORTED_REPORT_FORMATS } from '../utils/outputFormats';
+import { SEVERITIES } from '../utils/reportData';
+import { DEFAULT_SLA_SETTINGS } from '../utils/sla';
+import { resolveProjectAndRepository } from '../services/AzureDevOpsService/AzureDevOpsAdvancedSecurityClient';
+import {
+  checkRegularExpression,
+  loadConfigFile,
+  resolveApplicationTargets,
+  resolveDiscoverySettings,
+  resolveProviderModules,
+  splitBranchList
+} from './configFile';
 
 // Load environment variables from .env file
 dotenv.config();
 
+// Parse an integer environment variable, falling back to the default when unset or invalid
+function parseIntegerVariable(value: string | undefined, defaultValue: number): number {
+  const parsed = parseInt(value || '', 10);
+  return Number.isNaN(parsed) ? defaultValue : parsed;
+}
+
+// Parse severity=days pairs; entries that are not a whole number of days are kept as NaN
+// for validateOutputSettings to report
+function parseSlaDays(value: string): SlaSettings['days'] {
+  const days: Record<string, number> = {};
+  value.split(',').map(entry => entry.trim()).filter(entry => entry.length > 0).forEach(entry => {
+    const [severity, count] = entry.split('=').map(part => part.trim());
+    days[severity] = /^\d+$/.test(count || '') ? parseInt(count, 10) : NaN;
+  });
+  return days;
+}
+
 // GitHub configuration
 export const GITHUB_ORG_NAME = process.env.GITHUB_ORG_NAME || '';
 export const GITHUB_TOKEN = process.env.GITHUB_TOKEN || '';
 export const GITHUB_BASE_URL = process.env.GITHUB_BASE_URL || 'https://api.github.com';
+export const GITHUB_PAGE_SIZE = Math.min(Math.max(parseIntegerVariable(process.env.GITHUB_PAGE_SIZE, 100), 1), 100);
+export const GITHUB_MAX_PAGES = Math.max(parseIntegerVariable(process.env.GITHUB_MAX_PAGES, 50), 1);
+// Requests to GitHub in flight at once across all applications
+export const GITHUB_CONCURRENCY = Math.max(parseIntegerVariable(process.env.GITHUB_CONCURRENCY, 4), 1);
+// Alert states fetched from GitHub, comma-separated; checked against ALERT_STATES in validateEnvironmentVariables
+export const GITHUB_ALERT_STATES = process.env.GITHUB_ALERT_STATES || 'open';
 
 // Azure DevOps configuration
 export const AZURE_DEVOPS_ORG_NAME = process.env.AZURE_DEVOPS_ORG_NAME || '';
 export const AZURE_DEVOPS_PROJECT_NAME = process.env.AZURE_DEVOPS_PROJECT_NAME || '';
 export const AZURE_DEVOPS_TOKEN = process.env.AZURE_DEVOPS_TOKEN || '';
 export const AZURE_DEVOPS_BASE_URL = process.env.AZURE_DEVOPS_BASE_URL || '';
+// Requests to Azure DevOps in flight at once across all applications
+export const AZURE_DEVOPS_CONCURRENCY = Math.max(parseIntegerVariable(process.env.AZURE_DEVOPS_CONCURRENCY, 4), 1);
+
+// HTTP client configuration shared by all services
+export const HTTP_RETRY_OPTIONS: HttpRetryOptions = {
+  timeout: parseIntegerVariable(process.env.HTTP_TIMEOUT_MS, 30000),
+  maxRetries: parseIntegerVariable(process.env.HTTP_MAX_RETRIES, 3),
+  baseDelayMs: parseIntegerVariable(process.env.HTTP_RETRY_BASE_DELAY_MS, 1000),
+  maxDelayMs: parseIntegerVariable(process.env.HTTP_RETRY_MAX_DELAY_MS, 30000),
+  maxRateLimitWaitMs: parseIntegerVariable(process.env.HTTP_MAX_RATE_LIMIT_WAIT_MS, 300000)
+};
+
+// Discovery mode: enumerate repositories instead of listing them, as a comma-separated list of github and azure-devops
+export const DISCOVER = process.env.DISCOVER || '';
+export const GITHUB_DISCOVERY_TOPICS = process.env.GITHUB_DISCOVERY_TOPICS || '';
+export const GITHUB_DISCOVERY_NAME_PATTERN = process.env.GITHUB_DISCOVERY_NAME_PATTERN || '';
+export const GITHUB_DISCOVERY_INCLUDE_ARCHIVED = process.env.GITHUB_DISCOVERY_INCLUDE_ARCHIVED === 'true';
+export const GITHUB_DISCOVERY_INCLUDE_FORKS = process.env.GITHUB_DISCOVERY_INCLUDE_FORKS === 'true';
+// Checked against GITHUB_VISIBILITIES in validateEnvironmentVariables
+export const GITHUB_DISCOVERY_VISIBILITY = (process.env.GITHUB_DISCOVERY_VISIBILITY || 'all')
+  .trim()
+  .toLowerCase() as GitHubDiscoveryOptions['visibility'];
+export const AZURE_DEVOPS_DISCOVERY_PROJECTS = process.env.AZURE_DEVOPS_DISCOVERY_PROJECTS || AZURE_DEVOPS_PROJECT_NAME;
+export const AZURE_DEVOPS_DISCOVERY_NAME_PATTERN = process.env.AZURE_DEVOPS_DISCOVERY_NAME_PATTERN || '';
+export const AZURE_DEVOPS_DISCOVERY_INCLUDE_DISABLED = process.env.AZURE_DEVOPS_DISCOVERY_INCLUDE_DISABLED === 'true';
+
+// YAML or JSON file listing the applications to scan; replaces the *_APPLICATION_NAMES variables when set
+export const CONFIG_FILE = process.env.CONFIG_FILE || '';
+
+// Scanning provider modules to load besides GitHub and Azure DevOps: npm package names or paths, comma-separated
+export const SCANNING_PROVIDERS = process.env.SCANNING_PROVIDERS || '';
+export const SCANNING_PROVIDER_MODULES: ScanningProviderModuleConfig[] = SCANNING_PROVIDERS.split(',')
+  .map(entry => entry.trim())
+  .filter(entry => entry.length > 0)
+  .map(entry => ({ module: entry }));
+
+// YAML or JSON file of accepted risks and false positives, left out of the severity totals and gates
+export const SUPPRESSIONS_FILE = process.env.SUPPRESSIONS_FILE || '';
+
+// YAML or JSON file of rules the findings must pass; a run that breaks one fails the security gate
+export const POLICY_FILE = process.env.POLICY_FILE || '';
+
+// YAML or JSON file of the weights that score and rank the applications; the default model applies without one
+export const RISK_MODEL_FILE = process.env.RISK_MODEL_FILE || '';
+
+// Remediation SLAs as severity=days pairs, e.g. critical=7,high=30; none turns SLA tracking off.
+// Checked in validateOutputSettings
+export const SLA_DAYS = (process.env.SLA_DAYS || '').trim().toLowerCase();
+export const SLA_DUE_SOON_DAYS = Math.max(
+  parseIntegerVariable(process.env.SLA_DUE_SOON_DAYS, DEFAULT_SLA_SETTINGS.dueSoonDays),
+  0
+);
+export const SLA_SETTINGS: SlaSettings | undefined = SLA_DAYS === 'none' ? undefined : {
+  days: SLA_DAYS ? parseSlaDays(SLA_DAYS) : DEFAULT_SLA_SETTINGS.days,
+  dueSoonDays: SLA_DUE_SOON_DAYS
+};
 
 // Application configuration
 export const OUTPUT_DIR = process.env.OUTPUT_DIR || './output';
+export const OUTPUT_FORMATS = process.env.OUTPUT_FORMATS || 'html';
+export const MARKDOWN_TOP_FINDINGS = parseIntegerVariable(process.env.MARKDOWN_TOP_FINDINGS, 10);
+export const MARKDOWN_MAX_LENGTH = parseIntegerVariable(process.env.MARKDOWN_MAX_LENGTH, 65536);
+// Checked against SEVERITIES in validateOutputSettings
+export const JUNIT_FAILURE_SEVERITY = (process.env.JUNIT_FAILURE_SEVERITY || 'high')
+  .trim()
+  .toLowerCase() as FindingSeverity;
 export const APPLICATION_NAME = process.env.APPLICATION_NAME || ''; // For backward compatibility
 export const GITHUB_APPLICATION_NAMES = process.env.GITHUB_APPLICATION_NAMES || APPLICATION_NAME;
 export const AZURE_DEVOPS_APPLICATION_NAMES = process.env.AZURE_DEVOPS_APPLICATION_NAMES || APPLICATION_NAME;
 export const BRANCH_NAME = process.env.BRANCH_NAME || 'main';
 
+// Local history of scan runs, kept under OUTPUT_DIR unless HISTORY_DIR is set; 0 disables a retention limit
+export const HISTORY_ENABLED = process.env.HISTORY_ENABLED !== 'false';
+export const HISTORY_DIR = process.env.HISTORY_DIR || path.join(OUTPUT_DIR, 'history');
+export const HISTORY_RETENTION_DAYS = Math.max(parseIntegerVariable(process.env.HISTORY_RETENTION_DAYS, 90), 0);
+export const HISTORY_MAX_RUNS = Math.max(parseIntegerVariable(process.env.HISTORY_MAX_RUNS, 0), 0);
+
+// Demo mode replaces Azure DevOps dependency results with simulated data;
+// it must be enabled explicitly (or with --demo)
+export const DEMO_MODE = process.env.DEMO_MODE === 'true';
+
+export const LOG_LEVEL = (process.env.LOG_LEVEL || LogLevel.INFO).trim().toUpperCase() as LogLevel;
+
 // Get multiple application names from environment variables
 export const GITHUB_APP_NAMES_ARRAY = GITHUB_APPLICATION_NAMES.split(',').map(name => name.trim()).filter(name => name.length > 0);
 export const AZURE_DEVOPS_APP_NAMES_ARRAY = AZURE_DEVOPS_APPLICATION_NAMES.split(',').map(name => name.trim()).filter(name => name.length > 0);
+export const BRANCH_NAMES_ARRAY = splitBranchList(BRANCH_NAME);
+export const DISCOVERY_PROVIDERS = ['github', 'azure-devops'];
+export const GITHUB_VISIBILITIES: GitHubDiscoveryOptions['visibility'][] = ['all', 'public', 'private', 'internal'];
+export const ALERT_STATES: FindingState[] = ['open', 'fixed', 'dismissed'];
+export const GITHUB_ALERT_STATES_ARRAY = GITHUB_ALERT_STATES.split(',')
+  .map(state => state.trim().toLowerCase())
+  .filter(state => state.length > 0) as FindingState[];
+export const DISCOVER_ARRAY = DISCOVER.split(',')
+  .map(provider => provider.trim().toLowerCase())
+  .filter(provider => provider.length > 0);
+export const OUTPUT_FORMATS_ARRAY = OUTPUT_FORMATS.split(',')
+  .map(format => format.trim().toLowerCase())
+  .filter(format => format.length > 0);
+
+// Format-specific settings passed to the renderers
+export const REPORT_RENDER_OPTIONS: ReportRenderOptions = {
+  markdown: { topFindings: MARKDOWN_TOP_FINDINGS, maxLength: MARKDOWN_MAX_LENGTH },
+  junit: { failureSeverity: JUNIT_FAILURE_SEVERITY }
+};
+
+// SARIF files or directories to import, as a comma-separated list of [application=]path entries
+export const SARIF_PATHS = process.env.SARIF_PATHS || '';
+export const SARIF_PATH_MAPPINGS: SarifPathMapping[] = SARIF_PATHS.split(',')
+  .map(entry => entry.trim())
+  .filter(entry => entry.length > 0)
+  .map(entry => {
+    const separatorIndex = entry.indexOf('=');
+    return separatorIndex > 0
+      ? { applicationName: entry.slice(0, separatorIndex).trim(), path: entry.slice(separatorIndex + 1).trim() }
+      : { path: entry };
+  });
+
+/**
+ * Validates the settings that control logging and report output, which every command uses
+ */
+export function validateOutputSettings(): void {
+  const unsupportedFormats = OUTPUT_FORMATS_ARRAY.filter(format => !SUPPORTED_REPORT_FORMATS.includes(format));
+  if (unsupportedFormats.length > 0) {
+    throw new Error(`Unsupported OUTPUT_FORMATS: ${unsupportedFormats.join(', ')}. `
+      + `Supported formats: ${SUPPORTED_REPORT_FORMATS.join(', ')}`);
+  }
+
+  if (!SEVERITIES.includes(JUNIT_FAILURE_SEVERITY)) {
+    throw new Error(`Invalid JUNIT_FAILURE_SEVERITY: ${JUNIT_FAILURE_SEVERITY}. `
+      + `Expected one of: ${SEVERITIES.join(', ')}`);
+  }
+
+  const slaEntries = Object.entries(SLA_SETTINGS?.days || {});
+  const isValidSla = ([severity, days]: [string, number | undefined]) =>
+    SEVERITIES.includes(severity as FindingSeverity) && days !== undefined && days > 0;
+  if (SLA_SETTINGS && (slaEntries.length === 0 || !slaEntries.every(isValidSla))) {
+    throw new Error(`Invalid SLA_DAYS: ${SLA_DAYS}. Expected severity=days pairs such as critical=7,high=30, or none`);
+  }
 
-// Validate required environment variables
-export function validateEnvironmentVariables(): void {
-  const requiredVars = [
-    { name: 'GITHUB_ORG_NAME', value: GITHUB_ORG_NAME },
-    { name: 'GITHUB_TOKEN', value: GITHUB_TOKEN },
-    { name: 'AZURE_DEVOPS_ORG_NAME', value: AZURE_DEVOPS_ORG_NAME },
-    { name: 'AZURE_DEVOPS_TOKEN', value: AZURE_DEVOPS_TOKEN }
-  ];
+  if (!Object.values(LogLevel).includes(LOG_LEVEL)) {
+    throw new Error(`Invalid LOG_LEVEL: ${LOG_LEVEL}. Expected one of: ${Object.values(LogLevel).join(', ')}`);
+  }
+}
+
+/**
+ * Builds the applications to scan from CONFIG_FILE, or from the *_APPLICATION_NAMES variables when no file is set
+ */
+export function loadScanConfiguration(): ScanConfiguration {
+  if (CONFIG_FILE) {
+    const config = loadConfigFile(CONFIG_FILE);
+    const applications = resolveApplicationTargets(config);
+    const discovery = resolveDiscoverySettings(config);
+    const environmentDiscovery = getEnvironmentDiscoverySettings(
+      config.github?.org || '',
+      config.azureDevOps?.org || '',
+      config.defaults?.branches || BRANCH_NAMES_ARRAY
+    );
+    return {
+      github: {
+        token: config.github?.token || '',
+        baseUrl: config.github?.baseUrl || GITHUB_BASE_URL
+      },
+      azureDevOps: {
+        token: config.azureDevOps?.token || '',
+        baseUrl: config.azureDevOps?.baseUrl || AZURE_DEVOPS_BASE_URL
+      },
+      applications,
+      sarifPaths: [
+        ...applications.flatMap(application => application.sarifPaths
+          .map(sarifPath => ({ applicationName: application.name, path: sarifPath }))),
+        ...SARIF_PATH_MAPPINGS
+      ],
+      // The file's discovery section takes precedence over DISCOVER for the same provider
+      discovery: {
+        github: discovery.github || environmentDiscovery.github,
+        azureDevOps: discovery.azureDevOps || environmentDiscovery.azureDevOps
+      },
+      providers: [...resolveProviderModules(config, CONFIG_FILE), ...SCANNING_PROVIDER_MODULES]
+    };
+  }
+
+  const githubApplications: ApplicationTarget[] = GITHUB_APP_NAMES_ARRAY.map(appName => ({
+    name: appName,
+    branches: BRANCH_NAMES_ARRAY,
+    github: { org: GITHUB_ORG_NAME, repo: appName },
+    sarifPaths: []
+  }));
+  const azureDevOpsApplications: ApplicationTarget[] = AZURE_DEVOPS_APP_NAMES_ARRAY.map(appName => {
+    const { projectName, repositoryName } = resolveProjectAndRepository(appName, AZURE_DEVOPS_PROJECT_NAME);
+    return {
+      name: appName,
+      branches: BRANCH_NAMES_ARRAY,
+      azureDevOps: { org: AZURE_DEVOPS_ORG_NAME, project: projectName, repo: repositoryName },
+      sarifPaths: []
+    };
+  });
+
+  return {
+    github: { token: GITHUB_TOKEN, baseUrl: GITHUB_BASE_URL },
+    azureDevOps: { token: AZURE_DEVOPS_TOKEN, baseUrl: AZURE_DEVOPS_BASE_URL },
+    applications: [...githubApplications, ...azureDevOpsApplications],
+    sarifPaths: SARIF_PATH_MAPPINGS,
+    discovery: getEnvironmentDiscoverySettings(GITHUB_ORG_NAME, AZURE_DEVOPS_ORG_NAME, BRANCH_NAMES_ARRAY),
+    providers: SCANNING_PROVIDER_MODULES
+  };
+}
+
+/**
+ * Discovery settings for the providers listed in DISCOVER, filtered by the *_DISCOVERY_* variables
+ */
+function getEnvironmentDiscoverySettings(
+  githubOrg: string,
+  azureDevOpsOrg: string,
+  branches: string[]
+): RepositoryDiscoverySettings {
+  const splitList = (value: string) => value.split(',').map(entry => entry.trim()).filter(entry => entry.length > 0);
+
+  return {
+    github: DISCOVER_ARRAY.includes('github') ? {
+      org: githubOrg,
+      topics: splitList(GITHUB_DISCOVERY_TOPICS),
+      namePattern: GITHUB_DISCOVERY_NAME_PATTERN || undefined,
+      includeArchived: GITHUB_DISCOVERY_INCLUDE_ARCHIVED,
+      includeForks: GITHUB_DISCOVERY_INCLUDE_FORKS,
+      visibility: GITHUB_DISCOVERY_VISIBILITY,
+      branches
+    } : undefined,
+    azureDevOps: DISCOVER_ARRAY.includes('azure-devops') ? {
+      org: azureDevOpsOrg,
+      projects: splitList(AZURE_DEVOPS_DISCOVERY_PROJECTS),
+      namePattern: AZURE_DEVOPS_DISCOVERY_NAME_PATTERN || undefined,
+      includeDisabled: AZURE_DEVOPS_DISCOVERY_INCLUDE_DISABLED,
+      branches
+    } : undefined
+  };
+}
+
+/**
+ * Validates the discovery variables, which are read whether or not a configuration file is used
+ */
+function validateDiscoverySettings(): void {
+  const unsupportedProviders = DISCOVER_ARRAY.filter(provider => !DISCOVERY_PROVIDERS.includes(provider));
+  if (unsupportedProviders.length > 0) {
+    throw new Error(`Unsupported DISCOVER: ${unsupportedProviders.join(', ')}. `
+      + `Expected: ${DISCOVERY_PROVIDERS.join(', ')}`);
+  }
+
+  if (!GITHUB_VISIBILITIES.includes(GITHUB_DISCOVERY_VISIBILITY)) {
+    throw new Error(`Invalid GITHUB_DISCOVERY_VISIBILITY: ${GITHUB_DISCOVERY_VISIBILITY}. `
+      + `Expected one of: ${GITHUB_VISIBILITIES.join(', ')}`);
+  }
+
+  [
+    { name: 'GITHUB_DISCOVERY_NAME_PATTERN', value: GITHUB_DISCOVERY_NAME_PATTERN },
+    { name: 'AZURE_DEVOPS_DISCOVERY_NAME_PATTERN', value: AZURE_DEVOPS_DISCOVERY_NAME_PATTERN }
+  ].forEach(({ name, value }) => {
+    const error = value ? checkRegularExpression(value) : undefined;
+    if (error) {
+      throw new Error(`Invalid ${name}: ${error}`);
+    }
+  });
+}
+
+/**
+ * Validates the settings needed to scan and returns the applications to scan.
+ * Credentials are only required for the providers that at least one application uses.
+ */
+export function validateEnvironmentVariables(): ScanConfiguration {
+  validateOutputSettings();
+  validateDiscoverySettings();
+
+  const invalidStates = GITHUB_ALERT_STATES_ARRAY.filter(state => !ALERT_STATES.includes(state));
+  if (invalidStates.length > 0 || GITHUB_ALERT_STATES_ARRAY.length === 0) {
+    throw new Error(
+      `Invalid GITHUB_ALERT_STATES: ${GITHUB_ALERT_STATES}. Expected one or more of: ${ALERT_STATES.join(', ')}`
+    );
+  }
+
+  const configuration = loadScanConfiguration();
+  const { applications, sarifPaths, discovery } = configuration;
 
   // At least one application source must be defined
-  if (GITHUB_APP_NAMES_ARRAY.length === 0 && AZURE_DEVOPS_APP_NAMES_ARRAY.length === 0) {
-    requiredVars.push({ name: 'GITHUB_APPLICATION_NAMES or AZURE_DEVOPS_APPLICATION_NAMES', value: GITHUB_APPLICATION_NAMES || AZURE_DEVOPS_APPLICATION_NAMES });
+  if (applications.length === 0 && sarifPaths.length === 0 && !discovery.github && !discovery.azureDevOps) {
+    throw new Error('No valid application names provided in GITHUB_APPLICATION_NAMES or AZURE_DEVOPS_APPLICATION_NAMES '
+      + 'environment variables, no SARIF_PATHS to import and no DISCOVER providers');
+  }
+
+  const requiredVars: Array<{ name: string, value: string }> = [];
+  if (applications.some(application => application.github) || discovery.github) {
+    if (!CONFIG_FILE) {
+      requiredVars.push({ name: 'GITHUB_ORG_NAME', value: GITHUB_ORG_NAME });
+    }
+    requiredVars.push({
+      name: CONFIG_FILE ? 'GITHUB_TOKEN (or github.token)' : 'GITHUB_TOKEN',
+      value: configuration.github.token
+    });
+  }
+  if (applications.some(application => application.azureDevOps) || discovery.azureDevOps) {
+    if (!CONFIG_FILE) {
+      requiredVars.push({ name: 'AZURE_DEVOPS_ORG_NAME', value: AZURE_DEVOPS_ORG_NAME });
+    }
+    requiredVars.push({
+      name: CONFIG_FILE ? 'AZURE_DEVOPS_TOKEN (or azureDevOps.token)' : 'AZURE_DEVOPS_TOKEN',
+      value: configuration.azureDevOps.token
+    });
   }
 
   const missingVars = requiredVars.filter(varDef => !varDef.value);
@@ -45,8 +374,6 @@ export function validateEnvironmentVariables(): void {
     const missingNames = missingVars.map(varDef => varDef.name).join(', ');
     throw new Error(`Missing required environment variables: ${missingNames}`);
   }
-  
-  if (GITHUB_APP_NAMES_ARRAY.length === 0 && AZURE_DEVOPS_APP_NAMES_ARRAY.length === 0) {
-    throw new Error('No valid application names provided in GITHUB_APPLICATION_NAMES or AZURE_DEVOPS_APPLICATION_NAMES environment variables');
-  }
-}
\ No newline at end of file
+
+  return configuration;
+}
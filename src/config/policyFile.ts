@@ -0,0 +1,31 @@
+/**
+ * Loads the YAML or JSON policy file whose rules gate a run on its findings
+ */
+import path from 'path';
+import { PolicyFile, PolicyRule } from '../interfaces/policy.interface';
+import { ConfigFileError, ConfigIssue, loadValidatedYaml } from './configFile';
+
+export const POLICY_SCHEMA_PATH = path.resolve(__dirname, '../../schemas/policy.schema.json');
+
+/**
+ * Reads and validates a policy file; rules without a scope count the findings of every application together
+ */
+export function loadPolicyFile(filePath: string): PolicyRule[] {
+  const { value: file, at } = loadValidatedYaml<PolicyFile>(filePath, POLICY_SCHEMA_PATH);
+  const issues: ConfigIssue[] = [];
+
+  const seenIds = new Map<string, number>();
+  file.rules.forEach((rule, index) => {
+    const firstIndex = seenIds.get(rule.id);
+    if (firstIndex !== undefined) {
+      issues.push({ ...at(['rules', index, 'id']), message: `duplicates the id of rules[${firstIndex}]` });
+    } else {
+      seenIds.set(rule.id, index);
+    }
+  });
+  if (issues.length > 0) {
+    throw new ConfigFileError(filePath, issues);
+  }
+
+  return file.rules.map(rule => ({ ...rule, scope: rule.scope || 'global', match: rule.match || {} }));
+}
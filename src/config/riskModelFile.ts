@@ -0,0 +1,25 @@
+/**
+ * Loads the YAML or JSON risk model file whose weights score and rank the applications
+ */
+import path from 'path';
+import { RiskModel, RiskModelFile } from '../interfaces/risk.interface';
+import { DEFAULT_RISK_MODEL } from '../utils/riskScore';
+import { loadValidatedYaml } from './configFile';
+
+export const RISK_MODEL_SCHEMA_PATH = path.resolve(__dirname, '../../schemas/risk-model.schema.json');
+
+/**
+ * Reads and validates a risk model file; fields it leaves out keep the default model's values
+ */
+export function loadRiskModelFile(filePath: string): RiskModel {
+  const { value: file } = loadValidatedYaml<RiskModelFile>(filePath, RISK_MODEL_SCHEMA_PATH);
+
+  return {
+    severityWeights: { ...DEFAULT_RISK_MODEL.severityWeights, ...file.severityWeights },
+    cvssWeight: file.cvssWeight ?? DEFAULT_RISK_MODEL.cvssWeight,
+    ageWeight: file.ageWeight ?? DEFAULT_RISK_MODEL.ageWeight,
+    maxAgeDays: file.maxAgeDays ?? DEFAULT_RISK_MODEL.maxAgeDays,
+    fixAvailableMultiplier: file.fixAvailableMultiplier ?? DEFAULT_RISK_MODEL.fixAvailableMultiplier,
+    exposureTags: file.exposureTags ?? DEFAULT_RISK_MODEL.exposureTags
+  };
+}
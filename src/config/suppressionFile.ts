@@ -0,0 +1,66 @@
+/**
+ * Loads the YAML or JSON suppression file that accepts or dismisses specific findings
+ */
+import path from 'path';
+import { Suppression, SuppressionFile } from '../interfaces/suppression.interface';
+import { checkVersionRange } from '../utils/versionRange';
+import { ConfigFileError, ConfigIssue, loadValidatedYaml } from './configFile';
+
+export const SUPPRESSIONS_SCHEMA_PATH = path.resolve(__dirname, '../../schemas/suppressions.schema.json');
+
+// At least one of these must be given so that an entry cannot match every finding
+const MATCH_FIELDS = ['fingerprint', 'ruleId', 'cve', 'package', 'path'] as const;
+
+/**
+ * Reads and validates a suppression file; an entry expires at the end of its expiry day (UTC)
+ */
+export function loadSuppressionFile(filePath: string): Suppression[] {
+  const { value: file, at } = loadValidatedYaml<SuppressionFile>(filePath, SUPPRESSIONS_SCHEMA_PATH);
+  const issues: ConfigIssue[] = [];
+
+  const seenIds = new Map<string, number>();
+  const suppressions = file.suppressions.map((entry, index): Suppression => {
+    const id = entry.id || `#${index + 1}`;
+    const firstIndex = seenIds.get(id);
+    if (firstIndex !== undefined) {
+      issues.push({
+        ...at(['suppressions', index, 'id']),
+        message: `duplicates the id of suppressions[${firstIndex}]`
+      });
+    } else {
+      seenIds.set(id, index);
+    }
+
+    if (!MATCH_FIELDS.some(field => entry.match[field] !== undefined)) {
+      issues.push({
+        ...at(['suppressions', index, 'match']),
+        message: `needs at least one of ${MATCH_FIELDS.join(', ')}`
+      });
+    }
+    if (entry.match.versions !== undefined) {
+      const error = entry.match.package === undefined ? 'needs a package' : checkVersionRange(entry.match.versions);
+      if (error) {
+        issues.push({ ...at(['suppressions', index, 'match', 'versions']), message: error });
+      }
+    }
+
+    const expires = new Date(`${entry.expires}T23:59:59.999Z`);
+    if (isNaN(expires.getTime())) {
+      issues.push({ ...at(['suppressions', index, 'expires']), message: 'is not a valid date' });
+    }
+
+    return {
+      id,
+      status: entry.status,
+      justification: entry.justification,
+      approvedBy: entry.approvedBy,
+      expires,
+      match: entry.match
+    };
+  });
+  if (issues.length > 0) {
+    throw new ConfigFileError(filePath, issues);
+  }
+
+  return suppressions;
+}
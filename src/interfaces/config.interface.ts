@@ -0,0 +1,143 @@
+/**
+ * Interface definitions for the scanning configuration file
+ */
+import { SarifPathMapping } from './scanning-result.interface';
+
+// GitHub connection settings shared by the applications in the file
+export interface GitHubConnectionConfig {
+  org?: string;
+  token?: string;
+  baseUrl?: string;
+}
+
+// Azure DevOps connection settings shared by the applications in the file
+export interface AzureDevOpsConnectionConfig {
+  org?: string;
+  project?: string; // default project for applications that do not name one
+  token?: string;
+  baseUrl?: string;
+}
+
+// Discovery of every repository in a GitHub organization, as written in the configuration file
+export interface GitHubDiscoveryConfig {
+  org?: string; // defaults to github.org
+  topics?: string[]; // only repositories with at least one of these topics
+  namePattern?: string; // regular expression the repository name must match
+  includeArchived?: boolean;
+  includeForks?: boolean;
+  visibility?: 'all' | 'public' | 'private' | 'internal';
+  branches?: string[]; // defaults to defaults.branches
+}
+
+// Discovery of every Git repository in Azure DevOps projects, as written in the configuration file
+export interface AzureDevOpsDiscoveryConfig {
+  org?: string; // defaults to azureDevOps.org
+  projects?: string[]; // defaults to azureDevOps.project
+  namePattern?: string; // regular expression the repository name must match
+  includeDisabled?: boolean;
+  branches?: string[]; // defaults to defaults.branches
+}
+
+// A scanning provider module listed in SCANNING_PROVIDERS or the configuration file's providers section
+export interface ScanningProviderModuleConfig {
+  module: string; // npm package name, or a path relative to baseDir
+  options?: Record<string, unknown>; // passed to the module's factory
+  baseDir?: string; // directory relative module paths are resolved from (default: the working directory)
+}
+
+// One application as written in the configuration file
+export interface ApplicationConfig {
+  name: string;
+  displayName?: string;
+  team?: string; // owning team
+  tags?: string[];
+  branches?: string[];
+  github?: {
+    org?: string; // defaults to github.org
+    repo?: string; // defaults to the application name
+  };
+  azureDevOps?: {
+    org?: string; // defaults to azureDevOps.org
+    project?: string; // defaults to azureDevOps.project
+    repo?: string; // defaults to the application name
+  };
+  sarif?: string[]; // SARIF files or directories whose results belong to this application
+  sources?: Record<string, Record<string, unknown>>; // settings for other scanning providers, by provider id
+}
+
+// The configuration file after environment variable interpolation, as described by schemas/config.schema.json
+export interface ScanConfigFile {
+  version: 1;
+  github?: GitHubConnectionConfig;
+  azureDevOps?: AzureDevOpsConnectionConfig;
+  defaults?: {
+    branches?: string[];
+  };
+  discovery?: {
+    github?: GitHubDiscoveryConfig;
+    azureDevOps?: AzureDevOpsDiscoveryConfig;
+  };
+  providers?: Array<Omit<ScanningProviderModuleConfig, 'baseDir'>>;
+  applications: ApplicationConfig[];
+}
+
+// An application with every default applied, ready to be scanned
+export interface ApplicationTarget {
+  name: string;
+  displayName?: string;
+  team?: string;
+  tags?: string[];
+  branches: string[];
+  github?: {
+    org: string;
+    repo: string;
+  };
+  azureDevOps?: {
+    org: string;
+    project: string;
+    repo: string;
+  };
+  sarifPaths: string[];
+  sources?: Record<string, Record<string, unknown>>;
+}
+
+// GitHub discovery with every default applied
+export interface GitHubDiscoveryOptions {
+  org: string;
+  topics: string[];
+  namePattern?: string;
+  includeArchived: boolean;
+  includeForks: boolean;
+  visibility: NonNullable<GitHubDiscoveryConfig['visibility']>;
+  branches: string[];
+}
+
+// Azure DevOps discovery with every default applied
+export interface AzureDevOpsDiscoveryOptions {
+  org: string;
+  projects: string[];
+  namePattern?: string;
+  includeDisabled: boolean;
+  branches: string[];
+}
+
+export interface RepositoryDiscoverySettings {
+  github?: GitHubDiscoveryOptions;
+  azureDevOps?: AzureDevOpsDiscoveryOptions;
+}
+
+// Everything a scan needs: provider credentials and the applications to scan
+export interface ScanConfiguration {
+  github: {
+    token: string;
+    baseUrl: string;
+  };
+  azureDevOps: {
+    token: string;
+    baseUrl: string;
+  };
+  applications: ApplicationTarget[];
+  sarifPaths: SarifPathMapping[]; // every SARIF path to import, assigned to an application where configured
+  discovery: RepositoryDiscoverySettings; // providers whose repositories are discovered and added to the applications
+  providers: ScanningProviderModuleConfig[]; // scanning provider modules to load besides GitHub and Azure DevOps
+}
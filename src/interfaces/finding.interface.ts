@@ -0,0 +1,97 @@
+/**
+ * Interface definitions for the normalized finding shared by the summary, renderers and exports
+ */
+import {
+  AzureDevOpsScanningResult,
+  GitHubScanningResult,
+  ProviderScanningResult,
+  SarifScanningResult,
+  ScanningResultBase
+} from './scanning-result.interface';
+import { FindingSla } from './sla.interface';
+import { AppliedSuppression } from './suppression.interface';
+
+export type FindingSeverity = ScanningResultBase['severity'];
+export type FindingState = ScanningResultBase['state'];
+export type FindingType = 'Code Scanning' | 'Dependency Scanning' | 'Secret Scanning';
+
+// A result as its provider returned it
+export type ProviderResultPayload =
+  GitHubScanningResult | AzureDevOpsScanningResult | SarifScanningResult | ProviderScanningResult;
+
+// The rule or query that produced a code finding
+export interface FindingRule {
+  id: string;
+  name?: string;
+  description?: string;
+  severity?: string; // the tool's own severity or level, e.g. error
+}
+
+// The source file of a code finding, or the manifest of a dependency finding
+export interface FindingLocation {
+  filePath: string;
+  startLine?: number;
+  endLine?: number;
+  startColumn?: number;
+  endColumn?: number;
+  snippet?: string;
+}
+
+// The vulnerable package of a dependency finding
+export interface FindingPackage {
+  name: string;
+  version?: string;
+  fixedVersion?: string;
+  ecosystem?: string;
+}
+
+// Advisory identifiers of a dependency finding
+export interface FindingAdvisory {
+  id?: string; // e.g. a GHSA identifier
+  cveId?: string;
+}
+
+// One tool's report of a finding; merged findings have one source per tool that reported them
+export interface FindingSource {
+  tool: string;
+  toolName?: string;
+  id: string; // the tool's alert id
+  url?: string;
+  state: FindingState;
+}
+
+export interface Finding {
+  application: string;
+  branch?: string; // branch the finding was reported on
+  branches?: string[]; // every scanned branch of the application with the same finding, when several were scanned
+  tool: string; // provider that reported the finding, e.g. GitHub or SARIF (Semgrep)
+  toolName?: string; // scanner that produced the finding, e.g. CodeQL, Dependabot, Semgrep
+  type: FindingType;
+  id: string; // alert id of the first tool that reported the finding
+  fingerprint: string; // identifies the same issue across tools and runs
+  reportedBy: FindingSource[];
+  name: string;
+  severity: FindingSeverity;
+  description: string;
+  state: FindingState;
+  createdAt: Date; // when the finding was first detected; the earliest date of every tool that reported it
+  fixedAt?: Date; // when a fixed finding was fixed, for providers that report it
+  dismissedAt?: Date; // who dismissed a dismissed finding, when and why, for providers that report it
+  dismissedBy?: string;
+  dismissedReason?: string;
+  dismissedComment?: string;
+  url?: string;
+  simulated?: boolean; // demo data, labelled as such in reports
+  rule?: FindingRule;
+  location?: FindingLocation;
+  package?: FindingPackage;
+  advisory?: FindingAdvisory;
+  cwes: string[];
+  cvss?: number; // CVSS base score, or the SARIF security-severity score
+  tags: string[];
+  secretType?: string; // for secret scanning
+  partialFingerprints?: Record<string, string>; // SARIF fingerprints, kept for re-export
+  suppression?: AppliedSuppression; // suppression file entry matching the finding
+  sla?: FindingSla; // remediation deadline of an open finding that is not suppressed
+  raw: ProviderResultPayload; // the first tool's result
+}
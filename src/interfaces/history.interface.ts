@@ -0,0 +1,48 @@
+/**
+ * Interface definitions for the local history of scan runs
+ */
+import { Finding } from './finding.interface';
+import { ApplicationError, MultiApplicationAggregatedScanningResult } from './scanning-result.interface';
+
+// A finding as stored in the history; the provider's raw result is left out to keep runs small
+export type StoredFinding = Omit<Finding, 'application' | 'branch' | 'branches' | 'raw'>;
+
+// The findings of one application and branch in a run, keyed by fingerprint
+export interface HistoryApplication {
+  application: string;
+  branch: string;
+  findings: Record<string, StoredFinding>;
+}
+
+// What list shows for each run
+export interface HistoryRunSummary {
+  id: string;
+  timestamp: Date;
+  applications: number; // applications scanned, each counted once however many branches it was scanned on
+  findings: number;
+  openFindings: number;
+  errors: number;
+  severitySummary: MultiApplicationAggregatedScanningResult['summary']['severitySummary'];
+}
+
+export interface HistoryRun {
+  schemaVersion: number;
+  summary: HistoryRunSummary;
+  applications: HistoryApplication[];
+  errors: ApplicationError[];
+}
+
+// One occurrence of a finding in a past run
+export interface FindingOccurrence {
+  runId: string;
+  timestamp: Date;
+  application: string;
+  branch: string;
+  finding: StoredFinding;
+}
+
+// Which runs prune removes; 0 disables a limit
+export interface HistoryRetention {
+  retentionDays: number;
+  maxRuns: number;
+}
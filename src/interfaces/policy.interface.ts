@@ -0,0 +1,64 @@
+/**
+ * Interface definitions for the policy file that gates a run on its findings
+ */
+import { FindingSeverity } from './finding.interface';
+import { AlertCategory } from './scanning-result.interface';
+import { SlaStatus } from './sla.interface';
+
+// How a rule groups the findings it counts: all together, per application or per application tag
+export type PolicyScope = 'global' | 'application' | 'tag';
+
+// Which findings a rule counts; every field given must match. Only open findings that are not suppressed count
+export interface PolicyRuleMatch {
+  severities?: FindingSeverity[];
+  minSeverity?: FindingSeverity; // this severity or a more severe one
+  types?: AlertCategory[];
+  minCvss?: number; // CVSS base score of at least this value
+  olderThanDays?: number; // first detected more than this many days before the run
+  slaStatuses?: SlaStatus[]; // findings whose remediation SLA stands at one of these
+}
+
+// One rule of the policy file, as written there
+export interface PolicyFileRule {
+  id: string;
+  description?: string;
+  scope?: PolicyScope; // default: global
+  applications?: string[]; // only these applications
+  tags?: string[]; // only applications with at least one of these tags; with scope tag, the tags to evaluate
+  match?: PolicyRuleMatch; // default: every open finding
+  maxFindings: number;
+}
+
+export interface PolicyFile {
+  version: 1;
+  rules: PolicyFileRule[];
+}
+
+// A loaded rule
+export interface PolicyRule extends Omit<PolicyFileRule, 'scope' | 'match'> {
+  scope: PolicyScope;
+  match: PolicyRuleMatch;
+}
+
+// A finding counted by a check
+export interface PolicyFindingReference {
+  application: string;
+  fingerprint: string;
+}
+
+// One rule evaluated for one group of findings: every application, one application or one tag
+export interface PolicyCheck {
+  rule: string; // rule id
+  description?: string;
+  scope: PolicyScope;
+  group?: string; // the application or tag; none for global rules
+  findings: number;
+  maxFindings: number;
+  passed: boolean;
+  violations: PolicyFindingReference[]; // the findings counted by a failed check
+}
+
+export interface PolicyEvaluation {
+  passed: boolean;
+  checks: PolicyCheck[];
+}
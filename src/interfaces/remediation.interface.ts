@@ -0,0 +1,14 @@
+/**
+ * Interface definitions for mean-time-to-remediate figures derived from fixed findings
+ */
+import { FindingSeverity } from './finding.interface';
+
+export interface RemediationTime {
+  fixed: number; // fixed findings with a fix date, counted once across branches
+  meanDays: number | null; // mean days from creation to fix, null without fixed findings
+}
+
+export interface RemediationSummary extends RemediationTime {
+  application?: string; // absent for the total
+  severities: Partial<Record<FindingSeverity, RemediationTime>>;
+}
@@ -0,0 +1,40 @@
+/**
+ * Interface definitions for the risk-scoring model that ranks applications by the risk of their open findings
+ */
+import { FindingSeverity } from './finding.interface';
+
+export interface RiskModel {
+  severityWeights: Record<FindingSeverity, number>; // points of one finding of each severity
+  cvssWeight: number; // a CVSS 10 finding scores (1 + cvssWeight) times its severity weight
+  ageWeight: number; // a finding maxAgeDays old or older scores (1 + ageWeight) times as much as a new one
+  maxAgeDays: number;
+  fixAvailableMultiplier: number; // dependency findings with a fixed version
+  exposureTags: Record<string, number>; // application tags such as internet-facing, multiplying the application's score
+}
+
+// The risk model file, as written there; fields left out keep their defaults
+export interface RiskModelFile extends Partial<Omit<RiskModel, 'severityWeights'>> {
+  version: 1;
+  severityWeights?: Partial<Record<FindingSeverity, number>>;
+}
+
+// Points contributed by each factor; they add up to the score
+export interface RiskScoreBreakdown {
+  severity: number; // severity weights of the findings
+  cvss: number;
+  age: number;
+  fixAvailable: number;
+  exposure: number;
+}
+
+export interface ApplicationRiskScore {
+  application: string;
+  rank: number; // 1 for the highest score
+  score: number;
+  findings: number; // open findings scored, counted once across branches
+  // the points of each severity, all factors but exposure included
+  severityPoints: Partial<Record<FindingSeverity, { findings: number, points: number }>>;
+  exposureTags: string[]; // the application's tags found in the model
+  exposureMultiplier: number;
+  breakdown: RiskScoreBreakdown;
+}
@@ -0,0 +1,116 @@
+/**
+ * Interface definitions for the subset of SARIF 2.1.0 used by the importer and exporter
+ * https://docs.oasis-open.org/sarif/sarif/v2.1.0/sarif-v2.1.0.html
+ */
+
+export type SarifLevel = 'none' | 'note' | 'warning' | 'error';
+
+export interface SarifMessage {
+  text?: string;
+  markdown?: string;
+}
+
+export interface SarifPropertyBag {
+  tags?: string[];
+  'security-severity'?: string;
+  [key: string]: any;
+}
+
+export interface SarifReportingDescriptor {
+  id: string;
+  name?: string;
+  shortDescription?: SarifMessage;
+  fullDescription?: SarifMessage;
+  help?: SarifMessage;
+  helpUri?: string;
+  defaultConfiguration?: {
+    level?: SarifLevel;
+  };
+  properties?: SarifPropertyBag;
+}
+
+export interface SarifToolComponent {
+  name: string;
+  version?: string;
+  semanticVersion?: string;
+  informationUri?: string;
+  rules?: SarifReportingDescriptor[];
+}
+
+export interface SarifRegion {
+  startLine?: number;
+  startColumn?: number;
+  endLine?: number;
+  endColumn?: number;
+  snippet?: SarifMessage;
+}
+
+export interface SarifPhysicalLocation {
+  artifactLocation?: {
+    uri?: string;
+    uriBaseId?: string;
+  };
+  region?: SarifRegion;
+}
+
+export interface SarifLocation {
+  physicalLocation?: SarifPhysicalLocation;
+}
+
+export interface SarifResult {
+  ruleId?: string;
+  ruleIndex?: number;
+  rule?: {
+    id?: string;
+    index?: number;
+    toolComponent?: { index?: number, name?: string }; // an index into run.tool.extensions; the driver when absent
+  };
+  level?: SarifLevel;
+  kind?: string;
+  message: SarifMessage;
+  locations?: SarifLocation[];
+  guid?: string;
+  partialFingerprints?: Record<string, string>;
+  fingerprints?: Record<string, string>;
+  baselineState?: 'new' | 'unchanged' | 'updated' | 'absent';
+  suppressions?: Array<{ kind?: string, status?: string, justification?: string }>;
+  hostedViewerUri?: string;
+  properties?: SarifPropertyBag;
+}
+
+export interface SarifInvocation {
+  executionSuccessful: boolean;
+  startTimeUtc?: string;
+  endTimeUtc?: string;
+  toolExecutionNotifications?: Array<{
+    level?: SarifLevel;
+    message: SarifMessage;
+    descriptor?: { id: string };
+  }>;
+}
+
+export interface SarifRun {
+  tool: {
+    driver: SarifToolComponent;
+    extensions?: SarifToolComponent[];
+  };
+  automationDetails?: {
+    id?: string;
+    description?: SarifMessage;
+  };
+  versionControlProvenance?: Array<{
+    repositoryUri: string;
+    revisionId?: string;
+    branch?: string;
+  }>;
+  invocations?: SarifInvocation[];
+  results?: SarifResult[];
+  properties?: SarifPropertyBag;
+}
+
+export interface SarifLog {
+  $schema?: string;
+  version: '2.1.0';
+  runs: SarifRun[];
+  properties?: Record<string, unknown>;
+}
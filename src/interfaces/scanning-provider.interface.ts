@@ -0,0 +1,63 @@
+/**
+ * Interface definitions for scanning providers, the sources the scan command fetches alerts from
+ */
+import { ApplicationTarget } from './config.interface';
+import { AlertCategory, AlertFetchStats, HttpRetryOptions, ScanningResultBase } from './scanning-result.interface';
+
+// What a provider can do; the scan only calls the fetch methods whose capability is declared
+export type ScanningCapability = 'branches' | AlertCategory;
+
+// The source of one application on a provider
+export interface ProviderRepository {
+  label: string; // shown in logs and checks, e.g. org/repo
+}
+
+// Alerts of one category fetched for one branch
+export interface ProviderFetchResult<T extends ScanningResultBase = ScanningResultBase> {
+  results: T[];
+  stats?: AlertFetchStats;
+}
+
+// Result of one health check, as printed by doctor
+export interface ProviderHealthCheck {
+  name: string;
+  status: 'PASS' | 'FAIL' | 'SKIP';
+  detail: string;
+}
+
+export interface ScanningProvider<TRepository extends ProviderRepository = ProviderRepository> {
+  readonly id: string; // used in configuration files and as the key of its results, e.g. github
+  readonly displayName: string; // used in reports, e.g. GitHub
+  readonly capabilities: ScanningCapability[];
+  readonly concurrency?: number; // requests in flight at once (default: 4)
+
+  // The application's source on this provider, or undefined when the application does not use it
+  resolveRepository(application: ApplicationTarget): TRepository | undefined;
+  listBranches?(repository: TRepository): Promise<string[]>;
+  fetchCodeScanning?(repository: TRepository, branchName: string): Promise<ProviderFetchResult>;
+  fetchDependencyScanning?(repository: TRepository, branchName: string): Promise<ProviderFetchResult>;
+  fetchSecretScanning?(repository: TRepository, branchName: string): Promise<ProviderFetchResult>;
+  // Checks credentials and access to the repositories before a scan
+  healthCheck?(repositories: TRepository[]): Promise<ProviderHealthCheck[]>;
+}
+
+// Logging functions shared with provider modules, so their output follows LOG_LEVEL
+export interface ScanningProviderLogger {
+  debug(message: string, ...args: any[]): void;
+  info(message: string, ...args: any[]): void;
+  warn(message: string, ...args: any[]): void;
+  error(message: string, ...args: any[]): void;
+}
+
+// What a provider module's factory receives
+export interface ScanningProviderContext {
+  options: Record<string, unknown>;
+  http: Partial<HttpRetryOptions>;
+  demoMode: boolean;
+  logger: ScanningProviderLogger;
+}
+
+// A provider module exports this as its default export or as createScanningProvider
+export type ScanningProviderFactory = (
+  context: ScanningProviderContext
+) => ScanningProvider<any> | Promise<ScanningProvider<any>>;
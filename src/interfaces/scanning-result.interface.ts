@@ -1,6 +1,10 @@
 /**
  * Interface definitions for code and dependency scanning results
  */
+import { PolicyEvaluation } from './policy.interface';
+import { RiskModel } from './risk.interface';
+import { SlaSettings } from './sla.interface';
+import { Suppression } from './suppression.interface';
 
 // Common interfaces
 export interface ScanningResultBase {
@@ -12,6 +16,13 @@ export interface ScanningResultBase {
   updatedAt: Date;
   state: 'open' | 'fixed' | 'dismissed';
   url?: string;
+  simulated?: boolean; // true for demo data that does not come from a real scan
+  // How a closed alert was closed, for providers that report it
+  fixedAt?: Date;
+  dismissedAt?: Date;
+  dismissedBy?: string; // login of the user who dismissed the alert
+  dismissedReason?: string; // the provider's reason, e.g. false positive or tolerable_risk
+  dismissedComment?: string;
 }
 
 export interface GitHubScanningResult extends ScanningResultBase {
@@ -58,6 +69,8 @@ export interface AzureDevOpsScanningResult extends ScanningResultBase {
   category: 'code-scanning' | 'dependency-scanning';
   package?: string; // for dependency scanning
   packageVersion?: string; // for dependency scanning
+  fixedVersion?: string; // for dependency scanning, when the advisory names a patched version
+  advisoryId?: string; // for dependency scanning, e.g. GHSA identifier
   vulnerabilityId?: string; // for dependency scanning
   cvssScore?: number; // for dependency scanning
   severityLevel: number; // 1=critical, 2=high, 3=medium, 4=low
@@ -65,6 +78,46 @@ export interface AzureDevOpsScanningResult extends ScanningResultBase {
   detectionDate: Date;
 }
 
+export interface SarifScanningResult extends ScanningResultBase {
+  tool: 'SARIF';
+  toolName: string; // driver name from the SARIF run, e.g. Semgrep, Bandit
+  toolVersion: string;
+  ruleId: string;
+  ruleName: string;
+  ruleDescription: string;
+  ruleSeverity: string; // SARIF level: error, warning, note or none
+  filePath: string;
+  startLine?: number;
+  endLine?: number;
+  startColumn?: number;
+  endColumn?: number;
+  codeSnippet?: string;
+  category: 'code-scanning';
+  securitySeverity?: number; // the rule's security-severity property, a CVSS-style score
+  partialFingerprints?: Record<string, string>;
+  cwes?: string[];
+  tags?: string[];
+  sourceFile: string; // SARIF file the result was imported from
+}
+
+// The kinds of alerts a scanning provider can fetch
+export type AlertCategory = 'code-scanning' | 'dependency-scanning' | 'secret-scanning';
+
+// Alerts from a provider other than GitHub and Azure DevOps
+export interface ProviderScanningResult extends ScanningResultBase {
+  tool: string; // the provider's display name
+  toolName: string; // scanner that produced the alert
+  category: AlertCategory;
+  ruleId?: string;
+  filePath?: string;
+  startLine?: number;
+  packageName?: string; // for dependency scanning
+  version?: string; // for dependency scanning
+  fixedVersion?: string; // for dependency scanning
+  cveId?: string; // for dependency scanning
+  secretType?: string; // for secret scanning
+}
+
 // Specific scanning result interfaces
 export interface GitHubCodeScanningResult extends GitHubScanningResult {
   category: 'code-scanning';
@@ -95,6 +148,9 @@ export interface AzureDevOpsDependencyScanningResult extends AzureDevOpsScanning
 // Aggregated result interface
 export interface AggregatedScanningResult {
   applicationName: string;
+  displayName?: string; // human-readable name from the configuration file
+  team?: string; // owning team from the configuration file
+  tags?: string[];
   branchName: string;
   githubResults: {
     codeScanning: GitHubCodeScanningResult[];
@@ -104,14 +160,58 @@ export interface AggregatedScanningResult {
     codeScanning: AzureDevOpsCodeScanningResult[];
     dependencyScanning: AzureDevOpsDependencyScanningResult[];
   };
+  sarifResults?: {
+    codeScanning: SarifScanningResult[];
+  };
+  providerResults?: Record<string, ProviderScanningResults>; // results of other scanning providers, by provider id
+  fetchStats?: {
+    githubCodeScanning?: AlertFetchStats;
+    githubDependencyScanning?: AlertFetchStats;
+    [source: string]: AlertFetchStats | undefined; // other providers, e.g. gitlabCodeScanning
+  };
   timestamp: Date;
 }
 
+// Results of a scanning provider other than GitHub and Azure DevOps for one branch
+export interface ProviderScanningResults {
+  provider: string; // display name
+  codeScanning: ProviderScanningResult[];
+  dependencyScanning: ProviderScanningResult[];
+  secretScanning: ProviderScanningResult[];
+}
+
+// Pagination statistics for a paginated alert fetch
+export interface AlertFetchStats {
+  fetched: number;
+  reported?: number; // total the API holds, when it can be determined
+  pages: number;
+  truncated: boolean; // true when the max-page cap stopped the fetch early
+}
+
+// Results of a fetch together with its pagination statistics
+export interface ScanningFetchResult<T> {
+  results: T[];
+  stats: AlertFetchStats;
+}
+
+// Retry, backoff and rate-limit settings for the shared HTTP client
+export interface HttpRetryOptions {
+  timeout: number; // request timeout in milliseconds
+  maxRetries: number;
+  baseDelayMs: number; // first backoff delay, doubled on every retry
+  maxDelayMs: number; // upper bound for a single backoff delay
+  maxRateLimitWaitMs: number; // give up instead of waiting longer than this for a rate limit to reset
+}
+
 // Service parameters
 export interface GitHubServiceParams {
   orgName: string;
   token: string;
   baseUrl?: string;
+  pageSize?: number; // items per page, GitHub allows at most 100
+  maxPages?: number; // safety cap on the number of pages fetched per request
+  states?: ScanningResultBase['state'][]; // alert states to fetch (default: open)
+  http?: Partial<HttpRetryOptions>;
 }
 
 export interface AzureDevOpsServiceParams {
@@ -119,6 +219,29 @@ export interface AzureDevOpsServiceParams {
   projectName: string;
   token: string;
   baseUrl?: string;
+  http?: Partial<HttpRetryOptions>;
+  demoMode?: boolean; // return simulated dependency results instead of calling the API
+}
+
+// A SARIF file or directory, optionally assigned to an application
+export interface SarifPathMapping {
+  path: string;
+  applicationName?: string; // when omitted the application is taken from the SARIF run or file name
+}
+
+export interface SarifServiceParams {
+  paths: SarifPathMapping[];
+}
+
+// SARIF results imported for one application
+export interface SarifApplicationResults {
+  applicationName: string;
+  results: SarifScanningResult[];
+}
+
+export interface SarifImportResult {
+  applications: SarifApplicationResults[];
+  errors: ApplicationError[]; // files that could not be read or parsed
 }
 
 // Request parameters
@@ -132,24 +255,52 @@ export interface AzureDevOpsScanningRequestParams extends ScanningRequestParams
   projectName?: string; // Override for when application name is in project/app format
 }
 
+// A repository as listed by the GitHub organization repositories API
+export interface GitHubRepositoryInfo {
+  name: string;
+  archived: boolean;
+  fork: boolean;
+  visibility: string; // public, private or internal
+  topics: string[];
+  defaultBranch?: string;
+}
+
+// A Git repository as listed by the Azure DevOps repositories API
+export interface AzureDevOpsRepositoryInfo {
+  name: string;
+  project: string;
+  isDisabled: boolean;
+  defaultBranch?: string; // without the refs/heads/ prefix; absent for empty repositories
+}
+
+// A repository considered by discovery mode, with the reason when it was skipped
+export interface DiscoveredRepository {
+  provider: 'GitHub' | 'Azure DevOps';
+  repository: string; // org/repo for GitHub, org/project/repo for Azure DevOps
+  applicationName?: string; // name the repository is scanned under
+  reason?: string; // why the repository was skipped
+}
+
+export interface RepositoryDiscoveryResult {
+  discovered: DiscoveredRepository[];
+  skipped: DiscoveredRepository[];
+}
+
 // Error record for applications that failed to scan
 export interface ApplicationError {
-  applicationName: string;
+  applicationName: string; // label shown in the reports
   error: string;
+  application?: string; // the application whose results are missing or incomplete, when the error is about one
+  branch?: string; // its failed branch; absent when every branch failed
 }
 
-// Comprehensive vulnerability interface for the report
-export interface VulnerabilityReportItem {
-  application: string;
-  tool: string;
-  type: 'Code Scanning' | 'Dependency Scanning';
-  id: string;
-  name: string;
-  severity: 'critical' | 'high' | 'medium' | 'low' | 'warning' | 'note';
-  description: string;
-  state: 'open' | 'fixed' | 'dismissed';
-  url?: string;
-  additionalInfo: any; // Contains tool-specific fields
+// Alert counts of one scanning provider across all applications
+export interface ProviderTotals {
+  provider: string; // id
+  displayName: string;
+  codeScanning: number;
+  dependencyScanning: number;
+  secretScanning: number;
 }
 
 // Aggregated result for multiple applications
@@ -162,6 +313,9 @@ export interface MultiApplicationAggregatedScanningResult {
     totalGithubDependencyScanningIssues: number;
     totalAzureDevOpsCodeScanningIssues: number;
     totalAzureDevOpsDependencyScanningIssues: number;
+    totalSarifCodeScanningIssues: number;
+    providerTotals?: ProviderTotals[]; // per scanning provider, including GitHub and Azure DevOps
+    suppressedFindings?: number; // findings left out of severitySummary by the suppression file
     severitySummary: {
       critical: number;
       high: number;
@@ -171,5 +325,11 @@ export interface MultiApplicationAggregatedScanningResult {
       note: number;
     };
   };
+  demoMode?: boolean; // true when the run included simulated demo data
+  discovery?: RepositoryDiscoveryResult; // repositories found by discovery mode
+  suppressions?: Suppression[]; // entries of the suppression file, applied to the findings when reports are rendered
+  policy?: PolicyEvaluation; // outcome of the policy file's rules
+  sla?: SlaSettings; // remediation SLAs the open findings are measured against
+  riskModel?: RiskModel; // weights of the risk score that ranks the applications
   timestamp: Date;
 }
\ No newline at end of file
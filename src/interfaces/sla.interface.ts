@@ -0,0 +1,31 @@
+/**
+ * Interface definitions for remediation SLAs, the time allowed to fix an open finding of each severity
+ */
+import { FindingSeverity } from './finding.interface';
+
+// Where an open finding stands against its deadline at the time of the run
+export type SlaStatus = 'within' | 'due-soon' | 'breached';
+
+export interface SlaSettings {
+  // days to remediate after detection; severities without an entry have no SLA
+  days: Partial<Record<FindingSeverity, number>>;
+  dueSoonDays: number; // findings due within this many days are flagged as due soon
+}
+
+// The SLA of an open finding, measured at the run's timestamp
+export interface FindingSla {
+  days: number;
+  dueDate: Date;
+  ageDays: number; // whole days since the finding was first detected
+  daysRemaining: number; // negative once breached
+  status: SlaStatus;
+}
+
+// SLA standing of the open findings of one application, or of every application
+export interface SlaCompliance {
+  application?: string; // none for the total
+  within: number;
+  dueSoon: number;
+  breached: number;
+  compliance: number; // percentage of findings not breached, 100 when there are none
+}
@@ -0,0 +1,46 @@
+/**
+ * Interface definitions for the suppression file that accepts or dismisses specific findings
+ */
+
+export type SuppressionStatus = 'accepted-risk' | 'false-positive';
+
+// Which findings an entry applies to; every field given must match
+export interface SuppressionMatch {
+  fingerprint?: string;
+  ruleId?: string; // rule id, or advisory id for dependency findings
+  cve?: string;
+  package?: string; // package name, case-insensitive
+  versions?: string; // version range of the package, e.g. ">=4.0.0 <4.17.21"; matches findings without a version
+  path?: string; // file glob such as test/** matched against the finding's file
+  application?: string; // limits the entry to one application
+}
+
+// One entry of the suppression file, as written there
+export interface SuppressionFileEntry {
+  id?: string;
+  status: SuppressionStatus;
+  justification: string;
+  approvedBy: string;
+  expires: string; // YYYY-MM-DD, the last day the entry applies
+  match: SuppressionMatch;
+}
+
+export interface SuppressionFile {
+  version: 1;
+  suppressions: SuppressionFileEntry[];
+}
+
+// A loaded entry
+export interface Suppression {
+  id: string; // from the file, or the entry's position such as #3
+  status: SuppressionStatus;
+  justification: string;
+  approvedBy: string;
+  expires: Date; // end of the expiry day, UTC
+  match: SuppressionMatch;
+}
+
+// The entry that matched a finding; an expired entry no longer suppresses it
+export interface AppliedSuppression extends Omit<Suppression, 'match'> {
+  expired: boolean;
+}
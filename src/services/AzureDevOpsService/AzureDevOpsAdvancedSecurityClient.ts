@@ -0,0 +1,169 @@
+import { AzureDevOpsServiceParams, ScanningResultBase } from '../../interfaces/scanning-result.interface';
+import { HttpClient } from '../../utils/httpClient';
+import { Logger } from '../../utils/logger';
+
+export type AdvancedSecurityAlertType = 'code' | 'dependency' | 'secret';
+
+// Alerts are requested in pages of this size, following the continuation token between pages
+const ALERTS_PAGE_SIZE = 500;
+const ALERTS_MAX_PAGES = 50;
+const ALERTS_API_VERSION = '7.2-preview.1';
+
+/**
+ * Client for the Azure DevOps Advanced Security alerts API
+ * (https://advsec.dev.azure.com/{org}/{project}/_apis/alert/repositories/{repository}/alerts)
+ */
+export class AzureDevOpsAdvancedSecurityClient {
+  private readonly orgName: string;
+  private readonly token: string;
+  private readonly baseUrl?: string;
+  private readonly httpOptions: AzureDevOpsServiceParams['http'];
+  private readonly clients = new Map<string, HttpClient>();
+
+  constructor(params: AzureDevOpsServiceParams) {
+    this.orgName = params.orgName;
+    this.token = params.token;
+    this.baseUrl = params.baseUrl;
+    this.httpOptions = params.http;
+  }
+
+  /**
+   * List every alert of the given type for a repository and branch
+   */
+  async listAlerts(
+    projectName: string,
+    repositoryName: string,
+    alertType: AdvancedSecurityAlertType,
+    branchName: string
+  ): Promise<any[]> {
+    const client = this.getClient(projectName);
+    const url = `/alert/repositories/${encodeURIComponent(repositoryName)}/alerts`;
+    const alerts: any[] = [];
+    let continuationToken: string | undefined;
+    let pages = 0;
+
+    do {
+      const response = await client.get(url, {
+        params: {
+          'top': ALERTS_PAGE_SIZE,
+          'criteria.alertType': alertType,
+          'criteria.ref': `refs/heads/${branchName}`,
+          'continuationToken': continuationToken,
+          'api-version': ALERTS_API_VERSION
+        }
+      });
+      pages++;
+
+      const value = response.data?.value;
+      if (!Array.isArray(value)) {
+        break;
+      }
+
+      alerts.push(...value);
+      continuationToken = response.headers?.['x-ms-continuationtoken'] || undefined;
+    } while (continuationToken && pages < ALERTS_MAX_PAGES);
+
+    if (continuationToken) {
+      Logger.warn(`Azure DevOps ${alertType} alerts for ${projectName}/${repositoryName} `
+        + `were truncated at ${ALERTS_MAX_PAGES} page(s)`);
+    }
+
+    return alerts;
+  }
+
+  /**
+   * Web link to an alert in the repository's Advanced Security view
+   */
+  getAlertUrl(projectName: string, repositoryName: string, alertId: string): string {
+    const webBaseUrl = this.baseUrl || 'https://dev.azure.com';
+    const repositoryPath = `${encodeURIComponent(projectName)}/_git/${encodeURIComponent(repositoryName)}`;
+    return `${webBaseUrl}/${this.orgName}/${repositoryPath}/alerts/${alertId}`;
+  }
+
+  /**
+   * Returns the HTTP client for a project, creating it on first use
+   */
+  private getClient(projectName: string): HttpClient {
+    let client = this.clients.get(projectName);
+    if (!client) {
+      client = new HttpClient({
+        provider: 'Azure DevOps',
+        baseURL: `${this.baseUrl || 'https://advsec.dev.azure.com'}/${this.orgName}`
+          + `/${encodeURIComponent(projectName)}/_apis`,
+        headers: {
+          'Authorization': `Basic ${Buffer.from(`:${this.token}`).toString('base64')}`,
+          'Accept': 'application/json'
+        },
+        ...this.httpOptions
+      });
+      this.clients.set(projectName, client);
+    }
+    return client;
+  }
+}
+
+/**
+ * Splits an application name in project/repository format, falling back to the default project
+ */
+export function resolveProjectAndRepository(
+  applicationName: string,
+  defaultProjectName: string,
+  projectNameOverride?: string
+): { projectName: string, repositoryName: string } {
+  if (applicationName.includes('/')) {
+    const [projectName, ...repository] = applicationName.split('/');
+    return { projectName: projectNameOverride || projectName, repositoryName: repository.join('/') };
+  }
+  return { projectName: projectNameOverride || defaultProjectName, repositoryName: applicationName };
+}
+
+/**
+ * Maps Advanced Security alert severities to our standard severity values
+ */
+export function mapAlertSeverity(severity?: string): ScanningResultBase['severity'] {
+  const severityMap: { [key: string]: ScanningResultBase['severity'] } = {
+    'critical': 'critical',
+    'high': 'high',
+    'medium': 'medium',
+    'low': 'low',
+    'warning': 'warning',
+    'note': 'note',
+    'error': 'high'
+  };
+
+  return severityMap[(severity || '').toLowerCase()] || 'medium'; // default to medium if not found
+}
+
+/**
+ * Maps Advanced Security alert states (active, fixed, dismissed, autoDismissed) to our states
+ */
+export function mapAlertState(state?: string): ScanningResultBase['state'] {
+  switch ((state || '').toLowerCase()) {
+    case 'fixed':
+      return 'fixed';
+    case 'dismissed':
+    case 'autodismissed':
+      return 'dismissed';
+    default:
+      return 'open';
+  }
+}
+
+/**
+ * Maps severity string to Azure DevOps severity level (1=critical, 2=high, 3=medium, 4=low)
+ */
+export function mapSeverityLevel(severity: string): 1 | 2 | 3 | 4 {
+  switch (severity.toLowerCase()) {
+    case 'critical':
+      return 1;
+    case 'high':
+      return 2;
+    case 'medium':
+      return 3;
+    case 'low':
+    case 'warning':
+      return 4;
+    default:
+      return 3; // default to medium
+  }
+}
@@ -1,96 +1,104 @@
-import axios from 'axios';
-import { 
-  AzureDevOpsCodeScanningResult, 
-  AzureDevOpsServiceParams, 
-  ScanningRequestParams 
+import {
+  AzureDevOpsCodeScanningResult,
+  AzureDevOpsScanningRequestParams,
+  AzureDevOpsServiceParams
 } from '../../interfaces/scanning-result.interface';
 import { Logger } from '../../utils/logger';
+import {
+  AzureDevOpsAdvancedSecurityClient,
+  mapAlertSeverity,
+  mapAlertState,
+  mapSeverityLevel,
+  resolveProjectAndRepository
+} from './AzureDevOpsAdvancedSecurityClient';
 
 export class AzureDevOpsCodeScanningResultService {
-  private readonly orgName: string;
   private readonly defaultProjectName: string;
-  private readonly token: string;
-  private readonly baseUrl?: string;
+  private readonly advancedSecurityClient: AzureDevOpsAdvancedSecurityClient;
 
   constructor(params: AzureDevOpsServiceParams) {
-    this.orgName = params.orgName;
     this.defaultProjectName = params.projectName;
-    this.token = params.token;
-    this.baseUrl = params.baseUrl;
+    this.advancedSecurityClient = new AzureDevOpsAdvancedSecurityClient(params);
   }
 
   /**
    * Fetch code scanning results for a specific application and branch
-   * Note: Azure DevOps doesn't have a direct equivalent to GitHub's code scanning API
-   * This would typically integrate with security tools like SonarQube, Checkmarx, etc. via their respective APIs
-   * For this implementation, we'll simulate the functionality
+   * Results come from the Azure DevOps Advanced Security alerts API (alertType=code)
    */
-  async fetchCodeScanningResults(params: ScanningRequestParams): Promise<AzureDevOpsCodeScanningResult[]> {
+  async fetchCodeScanningResults(params: AzureDevOpsScanningRequestParams): Promise<AzureDevOpsCodeScanningResult[]> {
     const { applicationName, branchName } = params;
-    
+
     // Extract project name from application name if in project/app format, otherwise use default
-    let projectName = this.defaultProjectName;
-    if (applicationName.includes('/')) {
-      projectName = applicationName.split('/')[0];
-    }
-    
-    // Create client with the appropriate project name
-    const client = axios.create({
-      baseURL: this.baseUrl || `https://dev.azure.com/${this.orgName}/${projectName}/_apis`,
-      headers: {
-        'Authorization': `Basic ${Buffer.from(`:${this.token}`).toString('base64')}`,
-        'Accept': 'application/json'
-      },
-      timeout: 30000
-    });
-    
-    Logger.info(`Fetching Azure DevOps code scanning results for project: ${projectName}, application: ${applicationName}, on branch ${branchName}`);
-    Logger.warn('Azure DevOps Code Scanning: Direct API not available - would need to connect to external security tools like SonarQube, Checkmarx, etc.');
-    
-    try {
-      // Azure DevOps doesn't have a direct code scanning API like GitHub
-      // Instead, we might get this data from external security tools integration
-      // For this example, we'll simulate getting results from Azure DevOps Pipelines or similar
-      
-      // First, get build information to identify the branch and commit
-      const buildsResponse = await client.get('/build/builds', {
-        params: {
-          branchName: `refs/heads/${branchName}`,
-          $top: 10,
-          'api-version': '7.0'
-        }
-      });
+    const { projectName, repositoryName } = resolveProjectAndRepository(
+      applicationName,
+      this.defaultProjectName,
+      params.projectName
+    );
+
+    const target = `project: ${projectName}, repository: ${repositoryName}, on branch ${branchName}`;
+    Logger.info(`Fetching Azure DevOps code scanning results for ${target}`);
 
-      if (!buildsResponse.data || !buildsResponse.data.value || !Array.isArray(buildsResponse.data.value)) {
-        Logger.warn(`No Azure DevOps builds found for project: ${projectName}, application: ${applicationName}, on branch ${branchName}`);
-        return [];
-      }
+    const alerts = await this.advancedSecurityClient.listAlerts(projectName, repositoryName, 'code', branchName);
 
-      // In a real implementation, this would connect to security analysis tools
-      // For simulation purposes, we'll return empty results
-      // In a real implementation, you would fetch from SonarQube, Checkmarx, etc.
-      Logger.info(`Found ${buildsResponse.data.value.length} builds for project: ${projectName}, application: ${applicationName}, on branch ${branchName}, but no code scanning data available`);
+    if (alerts.length === 0) {
+      Logger.warn(`No Azure DevOps code scanning results found for ${target}`);
       return [];
-    } catch (error: any) {
-      if (error.response) {
-        // The request was made and the server responded with a status code
-        // that falls out of the range of 2xx
-        const errorMsg = `Azure DevOps API Error: ${error.response.status} - ${error.response.data?.message || error.message}`;
-        Logger.error(errorMsg);
-        throw new Error(errorMsg);
-      } else if (error.request) {
-        // The request was made but no response was received
-        const errorMsg = `Network Error: No response received from Azure DevOps API`;
-        Logger.error(errorMsg);
-        throw new Error(errorMsg);
-      } else {
-        // Something happened in setting up the request that triggered an Error
-        const errorMsg = `Request Setup Error: ${error.message}`;
-        Logger.error(errorMsg);
-        throw new Error(errorMsg);
-      }
     }
+
+    Logger.info(`Received ${alerts.length} Azure DevOps code scanning results for ${target}`);
+
+    // Map the Advanced Security alerts to our interface
+    const results = alerts.map(alert => this.mapAlertToResult(alert, projectName, repositoryName, branchName));
+    Logger.info(`Mapped ${results.length} Azure DevOps code scanning results `
+      + `for ${applicationName} on branch ${branchName}`);
+
+    return results;
   }
 
+  /**
+   * Maps an Advanced Security code alert to our AzureDevOpsCodeScanningResult interface
+   */
+  private mapAlertToResult(
+    alert: any,
+    projectName: string,
+    repositoryName: string,
+    branchName: string
+  ): AzureDevOpsCodeScanningResult {
+    // Extract relevant information from the Advanced Security alert
+    const tool = alert.tools?.[0] || {};
+    const rule = tool.rules?.[0] || {};
+    const location = alert.physicalLocations?.[0] || {};
+    const region = location.region || {};
+    const severity = mapAlertSeverity(alert.severity);
+    const alertId = alert.alertId?.toString() || '';
+    const firstSeen = new Date(alert.firstSeenDate || alert.introducedDate);
 
-}
\ No newline at end of file
+    return {
+      id: alertId,
+      name: alert.title || rule.friendlyName || rule.id || 'Unknown Rule',
+      severity,
+      description: rule.description || alert.title || 'No description provided',
+      createdAt: firstSeen,
+      updatedAt: new Date(alert.lastSeenDate || alert.fixedDate || alert.firstSeenDate || alert.introducedDate),
+      state: mapAlertState(alert.state),
+      url: alertId ? this.advancedSecurityClient.getAlertUrl(projectName, repositoryName, alertId) : undefined,
+      tool: 'AzureDevOps',
+      toolName: tool.name || 'CodeQL',
+      toolVersion: tool.version || 'Unknown',
+      branchName,
+      commitId: location.versionControl?.commitHash || '',
+      ruleId: rule.id || rule.opaqueId || '',
+      ruleName: rule.friendlyName || rule.id || '',
+      ruleDescription: rule.description || '',
+      ruleSeverity: alert.severity || '',
+      filePath: location.filePath || '',
+      line: region.lineStart,
+      column: region.columnStart,
+      snippet: undefined,
+      category: 'code-scanning',
+      severityLevel: mapSeverityLevel(severity),
+      type: alert.alertType || 'code',
+      detectionDate: firstSeen
+    };
+  }
+}
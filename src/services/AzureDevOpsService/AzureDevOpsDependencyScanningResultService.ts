@@ -1,96 +1,205 @@
-import axios from 'axios';
-import { 
-  AzureDevOpsDependencyScanningResult, 
-  AzureDevOpsServiceParams, 
-  ScanningRequestParams 
+import {
+  AzureDevOpsDependencyScanningResult,
+  AzureDevOpsScanningRequestParams,
+  AzureDevOpsServiceParams
 } from '../../interfaces/scanning-result.interface';
 import { Logger } from '../../utils/logger';
+import {
+  AzureDevOpsAdvancedSecurityClient,
+  mapAlertSeverity,
+  mapAlertState,
+  mapSeverityLevel,
+  resolveProjectAndRepository
+} from './AzureDevOpsAdvancedSecurityClient';
 
 export class AzureDevOpsDependencyScanningResultService {
-  private readonly orgName: string;
   private readonly defaultProjectName: string;
-  private readonly token: string;
-  private readonly baseUrl?: string;
+  private readonly demoMode: boolean;
+  private readonly advancedSecurityClient: AzureDevOpsAdvancedSecurityClient;
 
   constructor(params: AzureDevOpsServiceParams) {
-    this.orgName = params.orgName;
     this.defaultProjectName = params.projectName;
-    this.token = params.token;
-    this.baseUrl = params.baseUrl;
+    this.demoMode = params.demoMode || false;
+    this.advancedSecurityClient = new AzureDevOpsAdvancedSecurityClient(params);
   }
 
   /**
    * Fetch dependency scanning results for a specific application and branch
-   * This would typically integrate with security tools like WhiteSource Bolt or Azure Artifacts
-   * For this implementation, we'll simulate the functionality
+   * Results come from the Azure DevOps Advanced Security alerts API (alertType=dependency),
+   * or from simulated data when the service runs in demo mode
    */
-  async fetchDependencyScanningResults(params: ScanningRequestParams): Promise<AzureDevOpsDependencyScanningResult[]> {
+  async fetchDependencyScanningResults(
+    params: AzureDevOpsScanningRequestParams
+  ): Promise<AzureDevOpsDependencyScanningResult[]> {
     const { applicationName, branchName } = params;
-    
+
     // Extract project name from application name if in project/app format, otherwise use default
-    let projectName = this.defaultProjectName;
-    if (applicationName.includes('/')) {
-      projectName = applicationName.split('/')[0];
-    }
-    
-    // Create client with the appropriate project name
-    const client = axios.create({
-      baseURL: this.baseUrl || `https://dev.azure.com/${this.orgName}/${projectName}/_apis`,
-      headers: {
-        'Authorization': `Basic ${Buffer.from(`:${this.token}`).toString('base64')}`,
-        'Accept': 'application/json'
-      },
-      timeout: 30000
-    });
-    
-    Logger.info(`Fetching Azure DevOps dependency scanning results for project: ${projectName}, application: ${applicationName}, on branch ${branchName}`);
-    Logger.warn('Azure DevOps Dependency Scanning: Direct API integration would be needed for specific tools like WhiteSource Bolt');
-    
-    try {
-      // Access the client to acknowledge its usage (will be used in real implementation)
-      const clientConfig = client.defaults;
-      Logger.debug(`Client configured for: ${clientConfig.baseURL}`); // Use the config to make it "used"
-      
-      // In a real implementation, this would connect to security analysis tools
-      // For demonstration, we'll return simulated results
-      Logger.info(`Generating simulated dependency scanning results for project: ${projectName}, application: ${applicationName}, on branch ${branchName}`);
-      
-      // Simulate results from a security scan
+    const { projectName, repositoryName } = resolveProjectAndRepository(
+      applicationName,
+      this.defaultProjectName,
+      params.projectName
+    );
+
+    const target = `project: ${projectName}, repository: ${repositoryName}, on branch ${branchName}`;
+    if (this.demoMode) {
+      Logger.warn(`Demo mode: generating simulated dependency scanning results for ${target}`);
       return this.generateSimulatedResults(applicationName, branchName);
-    } catch (error: any) {
-      if (error.response) {
-        // The request was made and the server responded with a status code
-        // that falls out of the range of 2xx
-        const errorMsg = `Azure DevOps API Error: ${error.response.status} - ${error.response.data?.message || error.message}`;
-        Logger.error(errorMsg);
-        throw new Error(errorMsg);
-      } else if (error.request) {
-        // The request was made but no response was received
-        const errorMsg = `Network Error: No response received from Azure DevOps API`;
-        Logger.error(errorMsg);
-        throw new Error(errorMsg);
-      } else {
-        // Something happened in setting up the request that triggered an Error
-        const errorMsg = `Request Setup Error: ${error.message}`;
-        Logger.error(errorMsg);
-        throw new Error(errorMsg);
+    }
+
+    Logger.info(`Fetching Azure DevOps dependency scanning results for ${target}`);
+
+    const alerts = await this.advancedSecurityClient.listAlerts(projectName, repositoryName, 'dependency', branchName);
+
+    if (alerts.length === 0) {
+      Logger.warn(`No Azure DevOps dependency scanning results found for ${target}`);
+      return [];
+    }
+
+    Logger.info(`Received ${alerts.length} Azure DevOps dependency scanning results for ${target}`);
+
+    // Map the Advanced Security alerts to our interface
+    const results = alerts.map(alert => this.mapAlertToResult(alert, projectName, repositoryName, branchName));
+    Logger.info(`Mapped ${results.length} Azure DevOps dependency scanning results `
+      + `for ${applicationName} on branch ${branchName}`);
+
+    return results;
+  }
+
+  /**
+   * Maps an Advanced Security dependency alert to our AzureDevOpsDependencyScanningResult interface
+   */
+  private mapAlertToResult(
+    alert: any,
+    projectName: string,
+    repositoryName: string,
+    branchName: string
+  ): AzureDevOpsDependencyScanningResult {
+    // Extract relevant information from the Advanced Security alert
+    const tool = alert.tools?.[0] || {};
+    const rule = tool.rules?.[0] || {};
+    const location = alert.physicalLocations?.[0] || {};
+    const region = location.region || {};
+    const dependency = this.parseDependency(alert);
+    const severity = mapAlertSeverity(alert.severity);
+    const alertId = alert.alertId?.toString() || '';
+    const advisoryId = rule.opaqueId || rule.id || '';
+    const cveId = this.findCveId(alert, rule);
+    const cvssScore = this.parseCvssScore(alert, rule);
+    const firstSeen = new Date(alert.firstSeenDate || alert.introducedDate);
+
+    return {
+      id: alertId,
+      name: alert.title || rule.friendlyName || dependency.name || 'Unknown Dependency',
+      severity,
+      description: rule.description || alert.title || 'No description provided',
+      createdAt: firstSeen,
+      updatedAt: new Date(alert.lastSeenDate || alert.fixedDate || alert.firstSeenDate || alert.introducedDate),
+      state: mapAlertState(alert.state),
+      url: alertId ? this.advancedSecurityClient.getAlertUrl(projectName, repositoryName, alertId) : undefined,
+      tool: 'AzureDevOps',
+      toolName: tool.name || 'Dependency Scanning',
+      toolVersion: tool.version || 'Unknown',
+      branchName,
+      commitId: location.versionControl?.commitHash || '',
+      ruleId: advisoryId,
+      ruleName: rule.friendlyName || advisoryId,
+      ruleDescription: rule.description || '',
+      ruleSeverity: alert.severity || '',
+      filePath: location.filePath || '',
+      line: region.lineStart,
+      column: region.columnStart,
+      snippet: undefined,
+      category: 'dependency-scanning',
+      package: dependency.name,
+      packageVersion: dependency.version,
+      fixedVersion: this.findFixedVersion(alert, rule),
+      advisoryId: advisoryId || undefined,
+      vulnerabilityId: cveId || advisoryId || undefined,
+      cvssScore,
+      severityLevel: mapSeverityLevel(severity),
+      type: alert.alertType || 'dependency',
+      detectionDate: firstSeen
+    };
+  }
+
+  /**
+   * Extracts the vulnerable package name and version from the alert's logical locations,
+   * which hold package URLs such as pkg:npm/lodash@4.17.15
+   */
+  private parseDependency(alert: any): { name: string, version: string } {
+    const locations: any[] = alert.logicalLocations || [];
+    const location = locations.find(loc => loc.kind === 'vulnerableDependency')
+      || locations.find(loc => loc.kind === 'rootDependency')
+      || locations[0];
+    const fullyQualifiedName: string = location?.fullyQualifiedName || '';
+
+    const match = fullyQualifiedName.match(/^pkg:[^/]+\/(.+?)(?:@([^?#]+))?(?:[?#].*)?$/);
+    if (match) {
+      return { name: decodeURIComponent(match[1]), version: match[2] ? decodeURIComponent(match[2]) : '' };
+    }
+
+    return {
+      name: alert.vulnerableDependency?.componentName || fullyQualifiedName,
+      version: alert.vulnerableDependency?.componentVersion || ''
+    };
+  }
+
+  /**
+   * Finds the CVE identifier among the rule tags, alert properties or title
+   */
+  private findCveId(alert: any, rule: any): string | undefined {
+    const candidates: string[] = [
+      ...(rule.tags || []),
+      alert.additionalProperties?.cveId,
+      rule.additionalProperties?.cveId,
+      alert.title
+    ].filter((value: any) => typeof value === 'string');
+
+    for (const candidate of candidates) {
+      const match = candidate.match(/CVE-\d{4}-\d{4,}/i);
+      if (match) {
+        return match[0].toUpperCase();
       }
     }
+    return undefined;
+  }
+
+  /**
+   * Reads the CVSS score from the rule or alert properties, when the advisory has one
+   */
+  private parseCvssScore(alert: any, rule: any): number | undefined {
+    const score = rule.additionalProperties?.cvssV3Score
+      ?? rule.additionalProperties?.cvssScore
+      ?? alert.additionalProperties?.cvssV3Score
+      ?? alert.additionalProperties?.cvssScore;
+    const parsed = Number(score);
+    return score !== undefined && score !== null && Number.isFinite(parsed) ? parsed : undefined;
+  }
+
+  /**
+   * Reads the first patched version from the rule or alert properties, when the advisory has one
+   */
+  private findFixedVersion(alert: any, rule: any): string | undefined {
+    const version = rule.additionalProperties?.firstPatchedVersion
+      ?? rule.additionalProperties?.fixedVersion
+      ?? alert.additionalProperties?.firstPatchedVersion
+      ?? alert.additionalProperties?.fixedVersion;
+    return typeof version === 'string' && version ? version : undefined;
   }
 
   /**
-   * Generate simulated dependency scanning results
-   * In a real implementation, this would connect to actual security tools
+   * Generate simulated dependency scanning results for demo mode
+   * These are flagged as simulated so reports never present them as real findings
    */
   private generateSimulatedResults(applicationName: string, branchName: string): AzureDevOpsDependencyScanningResult[] {
     // This simulates results from security tools like WhiteSource, Sonatype Nexus IQ, etc.
-    // In a real implementation, you would fetch actual data from these tools
     
-    Logger.info(`Generated 2 simulated dependency scanning results for ${applicationName} on branch ${branchName}`);
+    Logger.warn(`Demo mode: generated 2 simulated dependency scanning results `
+      + `for ${applicationName} on branch ${branchName}`);
     
     return [
       {
-        id: 'sim-1',
+        id: 'demo-1',
         name: 'Vulnerable dependency in lodash',
         severity: 'high',
         description: 'A known vulnerability exists in the current version of lodash',
@@ -98,6 +207,7 @@ export class AzureDevOpsDependencyScanningResultService {
         updatedAt: new Date(),
         state: 'open',
         url: '',
+        simulated: true,
         tool: 'AzureDevOps',
         toolName: 'WhiteSource Bolt', // or Nexus IQ, etc.
         toolVersion: '1.0.0',
@@ -118,10 +228,10 @@ export class AzureDevOpsDependencyScanningResultService {
         cvssScore: 7.5,
         type: 'security-vulnerability',
         detectionDate: new Date(),
-        severityLevel: this.mapSeverityLevel('high') // 1=critical, 2=high, 3=medium, 4=low
+        severityLevel: mapSeverityLevel('high') // 1=critical, 2=high, 3=medium, 4=low
       },
       {
-        id: 'sim-2',
+        id: 'demo-2',
         name: 'Outdated dependency in moment',
         severity: 'medium',
         description: 'The current version of moment is outdated and has known issues',
@@ -129,6 +239,7 @@ export class AzureDevOpsDependencyScanningResultService {
         updatedAt: new Date(),
         state: 'open',
         url: '',
+        simulated: true,
         tool: 'AzureDevOps',
         toolName: 'WhiteSource Bolt',
         toolVersion: '1.0.0',
@@ -149,29 +260,8 @@ export class AzureDevOpsDependencyScanningResultService {
         cvssScore: 5.3,
         type: 'security-vulnerability',
         detectionDate: new Date(),
-        severityLevel: this.mapSeverityLevel('medium') // 1=critical, 2=high, 3=medium, 4=low
+        severityLevel: mapSeverityLevel('medium') // 1=critical, 2=high, 3=medium, 4=low
       }
     ];
   }
-
-
-
-  /**
-   * Maps severity string to Azure DevOps severity level (1=critical, 2=high, 3=medium, 4=low)
-   */
-  private mapSeverityLevel(severity: string): 1 | 2 | 3 | 4 {
-    switch (severity.toLowerCase()) {
-      case 'critical':
-        return 1;
-      case 'high':
-        return 2;
-      case 'medium':
-        return 3;
-      case 'low':
-      case 'warning':
-        return 4;
-      default:
-        return 3; // default to medium
-    }
-  }
-}
\ No newline at end of file
+}
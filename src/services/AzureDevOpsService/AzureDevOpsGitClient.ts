@@ -0,0 +1,108 @@
+import { AzureDevOpsRepositoryInfo, AzureDevOpsServiceParams } from '../../interfaces/scanning-result.interface';
+import { HttpClient } from '../../utils/httpClient';
+import { Logger } from '../../utils/logger';
+
+// Refs are requested in pages of this size, following the continuation token between pages
+const REFS_PAGE_SIZE = 1000;
+const REFS_MAX_PAGES = 50;
+const GIT_API_VERSION = '7.1';
+
+/**
+ * Client for the Azure DevOps Git repositories API
+ * (https://dev.azure.com/{org}/{project}/_apis/git/repositories)
+ */
+export class AzureDevOpsGitClient {
+  private readonly orgName: string;
+  private readonly token: string;
+  private readonly baseUrl?: string;
+  private readonly httpOptions: AzureDevOpsServiceParams['http'];
+  private readonly clients = new Map<string, HttpClient>();
+
+  constructor(params: Omit<AzureDevOpsServiceParams, 'projectName'>) {
+    this.orgName = params.orgName;
+    this.token = params.token;
+    this.baseUrl = params.baseUrl;
+    this.httpOptions = params.http;
+  }
+
+  /**
+   * List the names of every branch in a repository, without the refs/heads/ prefix
+   */
+  async listBranches(projectName: string, repositoryName: string): Promise<string[]> {
+    const client = this.getClient(projectName);
+    const url = `/git/repositories/${encodeURIComponent(repositoryName)}/refs`;
+    const branches: string[] = [];
+    let continuationToken: string | undefined;
+    let pages = 0;
+
+    do {
+      const response = await client.get(url, {
+        params: {
+          'filter': 'heads/',
+          '$top': REFS_PAGE_SIZE,
+          'continuationToken': continuationToken,
+          'api-version': GIT_API_VERSION
+        }
+      });
+      pages++;
+
+      const value = response.data?.value;
+      if (!Array.isArray(value)) {
+        break;
+      }
+
+      branches.push(...value.map((ref: any) => String(ref.name).replace(/^refs\/heads\//, '')));
+      continuationToken = response.headers?.['x-ms-continuationtoken'] || undefined;
+    } while (continuationToken && pages < REFS_MAX_PAGES);
+
+    if (continuationToken) {
+      Logger.warn(`Azure DevOps branches for ${projectName}/${repositoryName} `
+        + `were truncated at ${REFS_MAX_PAGES} page(s)`);
+    }
+
+    return branches;
+  }
+
+  /**
+   * List every Git repository in a project
+   */
+  async listRepositories(projectName: string): Promise<AzureDevOpsRepositoryInfo[]> {
+    const response = await this.getClient(projectName).get('/git/repositories', {
+      params: { 'api-version': GIT_API_VERSION }
+    });
+
+    const value = response.data?.value;
+    if (!Array.isArray(value)) {
+      return [];
+    }
+
+    return value.map((repository: any) => ({
+      name: repository.name,
+      project: repository.project?.name || projectName,
+      isDisabled: Boolean(repository.isDisabled),
+      defaultBranch: repository.defaultBranch
+        ? String(repository.defaultBranch).replace(/^refs\/heads\//, '')
+        : undefined
+    }));
+  }
+
+  /**
+   * Returns the HTTP client for a project, creating it on first use
+   */
+  private getClient(projectName: string): HttpClient {
+    let client = this.clients.get(projectName);
+    if (!client) {
+      client = new HttpClient({
+        provider: 'Azure DevOps',
+        baseURL: `${this.baseUrl || 'https://dev.azure.com'}/${this.orgName}/${encodeURIComponent(projectName)}/_apis`,
+        headers: {
+          'Authorization': `Basic ${Buffer.from(`:${this.token}`).toString('base64')}`,
+          'Accept': 'application/json'
+        },
+        ...this.httpOptions
+      });
+      this.clients.set(projectName, client);
+    }
+    return client;
+  }
+}
@@ -0,0 +1,159 @@
+import { ApplicationTarget } from '../../interfaces/config.interface';
+import { HttpRetryOptions } from '../../interfaces/scanning-result.interface';
+import {
+  ProviderFetchResult,
+  ProviderHealthCheck,
+  ProviderRepository,
+  ScanningCapability,
+  ScanningProvider
+} from '../../interfaces/scanning-provider.interface';
+import { runHealthCheck } from '../../utils/healthCheck';
+import { HttpClient } from '../../utils/httpClient';
+import { AZURE_DEVOPS_PROVIDER_ID } from '../../utils/providerResults';
+import { AzureDevOpsCodeScanningResultService } from './AzureDevOpsCodeScanningResultService';
+import { AzureDevOpsDependencyScanningResultService } from './AzureDevOpsDependencyScanningResultService';
+import { AzureDevOpsGitClient } from './AzureDevOpsGitClient';
+
+export interface AzureDevOpsScanningProviderParams {
+  token: string;
+  baseUrl?: string;
+  http?: Partial<HttpRetryOptions>;
+  concurrency?: number;
+  demoMode?: boolean; // simulate dependency results instead of calling the API
+  discoveryOrg?: string; // organization enumerated by discovery mode, checked by the health check
+}
+
+export interface AzureDevOpsRepository extends ProviderRepository {
+  org: string;
+  project: string;
+  repo: string;
+}
+
+/**
+ * Azure DevOps Advanced Security code and dependency alerts, one Git repository per application
+ */
+export class AzureDevOpsScanningProvider implements ScanningProvider<AzureDevOpsRepository> {
+  readonly id = AZURE_DEVOPS_PROVIDER_ID;
+  readonly displayName = 'Azure DevOps';
+  readonly capabilities: ScanningCapability[] = ['branches', 'code-scanning', 'dependency-scanning'];
+  readonly concurrency?: number;
+  private readonly params: AzureDevOpsScanningProviderParams;
+  // Alert services are created once per project and Git clients once per organization
+  private readonly services = new Map<string, {
+    code: AzureDevOpsCodeScanningResultService,
+    dependency: AzureDevOpsDependencyScanningResultService
+  }>();
+
+  private readonly gitClients = new Map<string, AzureDevOpsGitClient>();
+
+  constructor(params: AzureDevOpsScanningProviderParams) {
+    this.params = params;
+    this.concurrency = params.concurrency;
+  }
+
+  resolveRepository(application: ApplicationTarget): AzureDevOpsRepository | undefined {
+    return application.azureDevOps && {
+      label: `${application.azureDevOps.org}/${application.azureDevOps.project}/${application.azureDevOps.repo}`,
+      org: application.azureDevOps.org,
+      project: application.azureDevOps.project,
+      repo: application.azureDevOps.repo
+    };
+  }
+
+  async listBranches(repository: AzureDevOpsRepository): Promise<string[]> {
+    return this.getGitClient(repository.org).listBranches(repository.project, repository.repo);
+  }
+
+  // The project is named explicitly so repository names containing a slash are not split
+  async fetchCodeScanning(repository: AzureDevOpsRepository, branchName: string): Promise<ProviderFetchResult> {
+    const results = await this.getServices(repository.org, repository.project).code.fetchCodeScanningResults({
+      applicationName: repository.repo,
+      branchName,
+      projectName: repository.project
+    });
+    return { results };
+  }
+
+  async fetchDependencyScanning(repository: AzureDevOpsRepository, branchName: string): Promise<ProviderFetchResult> {
+    const services = this.getServices(repository.org, repository.project);
+    const results = await services.dependency.fetchDependencyScanningResults({
+      applicationName: repository.repo,
+      branchName,
+      projectName: repository.project
+    });
+    return { results };
+  }
+
+  /**
+   * Checks that each organization accepts the token
+   */
+  async healthCheck(repositories: AzureDevOpsRepository[]): Promise<ProviderHealthCheck[]> {
+    if (repositories.length === 0 && !this.params.discoveryOrg) {
+      return [{ name: 'Azure DevOps API', status: 'SKIP', detail: 'no Azure DevOps applications are configured' }];
+    }
+    if (!this.params.token) {
+      return [{ name: 'Azure DevOps API', status: 'SKIP', detail: 'AZURE_DEVOPS_TOKEN is not set' }];
+    }
+
+    const baseUrl = this.params.baseUrl || 'https://dev.azure.com';
+    const orgNames = Array.from(new Set([
+      ...repositories.map(repository => repository.org),
+      ...(this.params.discoveryOrg ? [this.params.discoveryOrg] : [])
+    ]));
+    return Promise.all(orgNames.map(orgName => {
+      const client = new HttpClient({
+        provider: 'Azure DevOps',
+        baseURL: `${baseUrl}/${orgName}/_apis`,
+        headers: {
+          'Authorization': `Basic ${Buffer.from(`:${this.params.token}`).toString('base64')}`,
+          'Accept': 'application/json'
+        },
+        ...this.params.http,
+        maxRetries: 0
+      });
+
+      return runHealthCheck(`Azure DevOps organization ${orgName}`, async () => {
+        const response = await client.get('/projects', { params: { '$top': 1, 'api-version': '7.1' } });
+        // Azure DevOps answers unauthenticated requests with a sign-in page instead of an error status
+        if (!Array.isArray(response.data?.value)) {
+          throw new Error('unexpected response, check that the token is valid');
+        }
+        return 'accessible';
+      });
+    }));
+  }
+
+  private getServices(orgName: string, projectName: string) {
+    const key = `${orgName}/${projectName}`;
+    let services = this.services.get(key);
+    if (!services) {
+      const params = {
+        orgName,
+        projectName,
+        token: this.params.token,
+        baseUrl: this.params.baseUrl,
+        http: this.params.http
+      };
+      services = {
+        code: new AzureDevOpsCodeScanningResultService(params),
+        dependency: new AzureDevOpsDependencyScanningResultService({ ...params, demoMode: this.params.demoMode })
+      };
+      this.services.set(key, services);
+    }
+    return services;
+  }
+
+  private getGitClient(orgName: string): AzureDevOpsGitClient {
+    let client = this.gitClients.get(orgName);
+    if (!client) {
+      client = new AzureDevOpsGitClient({
+        orgName,
+        token: this.params.token,
+        baseUrl: this.params.baseUrl,
+        http: this.params.http
+      });
+      this.gitClients.set(orgName, client);
+    }
+    return client;
+  }
+}
@@ -0,0 +1,188 @@
+import {
+  ApplicationTarget,
+  AzureDevOpsDiscoveryOptions,
+  GitHubDiscoveryOptions,
+  RepositoryDiscoverySettings
+} from '../../interfaces/config.interface';
+import {
+  ApplicationError,
+  AzureDevOpsRepositoryInfo,
+  DiscoveredRepository,
+  GitHubRepositoryInfo,
+  RepositoryDiscoveryResult
+} from '../../interfaces/scanning-result.interface';
+import { Logger } from '../../utils/logger';
+
+export interface RepositoryDiscoveryServiceParams {
+  settings: RepositoryDiscoverySettings;
+  github?: { listRepositories(): Promise<GitHubRepositoryInfo[]> };
+  azureDevOps?: { listRepositories(projectName: string): Promise<AzureDevOpsRepositoryInfo[]> };
+}
+
+// Applications found by discovery, the repositories considered and the listings that failed
+export interface RepositoryDiscoveryOutcome {
+  applications: ApplicationTarget[];
+  result: RepositoryDiscoveryResult;
+  errors: ApplicationError[];
+}
+
+/**
+ * Enumerates the repositories of a GitHub organization and of Azure DevOps projects
+ * and turns the ones that pass the filters into applications to scan
+ */
+export class RepositoryDiscoveryService {
+  private readonly settings: RepositoryDiscoverySettings;
+  private readonly github?: RepositoryDiscoveryServiceParams['github'];
+  private readonly azureDevOps?: RepositoryDiscoveryServiceParams['azureDevOps'];
+
+  constructor(params: RepositoryDiscoveryServiceParams) {
+    this.settings = params.settings;
+    this.github = params.github;
+    this.azureDevOps = params.azureDevOps;
+  }
+
+  /**
+   * Discover repositories, skipping those already covered by the configured applications
+   */
+  async discover(configuredApplications: ApplicationTarget[]): Promise<RepositoryDiscoveryOutcome> {
+    const outcome: RepositoryDiscoveryOutcome = {
+      applications: [],
+      result: { discovered: [], skipped: [] },
+      errors: []
+    };
+    const applicationNames = new Map(configuredApplications
+      .map(application => [application.name, 'configured application']));
+
+    // Adds a repository that passed the filters, unless an application already covers it or uses its name
+    const accept = (entry: DiscoveredRepository, application: ApplicationTarget, configured?: ApplicationTarget) => {
+      if (configured) {
+        outcome.result.skipped.push({ ...entry, reason: `already configured as application ${configured.name}` });
+        return;
+      }
+      const owner = applicationNames.get(application.name);
+      if (owner) {
+        outcome.result.skipped.push({ ...entry, reason: `name ${application.name} is already used by a ${owner}` });
+        return;
+      }
+      applicationNames.set(application.name, `repository discovered in ${entry.provider}`);
+      outcome.applications.push(application);
+      outcome.result.discovered.push({ ...entry, applicationName: application.name });
+    };
+
+    const github = this.settings.github;
+    if (github && this.github) {
+      try {
+        const repositories = await this.github.listRepositories();
+        Logger.info(`GitHub discovery: found ${repositories.length} repositories in ${github.org}`);
+
+        for (const repository of repositories) {
+          const entry: DiscoveredRepository = { provider: 'GitHub', repository: `${github.org}/${repository.name}` };
+          const reason = getGitHubSkipReason(repository, github);
+          if (reason) {
+            outcome.result.skipped.push({ ...entry, reason });
+            continue;
+          }
+          accept(entry, {
+            name: repository.name,
+            branches: github.branches,
+            github: { org: github.org, repo: repository.name },
+            sarifPaths: []
+          }, configuredApplications.find(application =>
+            application.github
+            && sameName(application.github.org, github.org)
+            && sameName(application.github.repo, repository.name)));
+        }
+      } catch (error: any) {
+        Logger.error(`Unable to list the repositories of GitHub organization ${github.org}: ${error.message}`);
+        outcome.errors.push({ applicationName: `GitHub discovery: ${github.org}`, error: error.message });
+      }
+    }
+
+    const azureDevOps = this.settings.azureDevOps;
+    if (azureDevOps && this.azureDevOps) {
+      for (const projectName of azureDevOps.projects) {
+        const project = `${azureDevOps.org}/${projectName}`;
+        try {
+          const repositories = await this.azureDevOps.listRepositories(projectName);
+          Logger.info(`Azure DevOps discovery: found ${repositories.length} repositories in ${project}`);
+
+          for (const repository of repositories) {
+            const entry: DiscoveredRepository = {
+              provider: 'Azure DevOps',
+              repository: `${azureDevOps.org}/${repository.project}/${repository.name}`
+            };
+            const reason = getAzureDevOpsSkipReason(repository, azureDevOps);
+            if (reason) {
+              outcome.result.skipped.push({ ...entry, reason });
+              continue;
+            }
+            accept(entry, {
+              name: `${repository.project}/${repository.name}`,
+              branches: azureDevOps.branches,
+              azureDevOps: { org: azureDevOps.org, project: repository.project, repo: repository.name },
+              sarifPaths: []
+            }, configuredApplications.find(application =>
+              application.azureDevOps
+              && sameName(application.azureDevOps.org, azureDevOps.org)
+              && sameName(application.azureDevOps.project, repository.project)
+              && sameName(application.azureDevOps.repo, repository.name)));
+          }
+        } catch (error: any) {
+          Logger.error(`Unable to list the repositories of Azure DevOps project ${project}: ${error.message}`);
+          outcome.errors.push({ applicationName: `Azure DevOps discovery: ${project}`, error: error.message });
+        }
+      }
+    }
+
+    return outcome;
+  }
+}
+
+/**
+ * Returns why a GitHub repository is left out by the discovery filters, or undefined when it is scanned
+ */
+export function getGitHubSkipReason(
+  repository: GitHubRepositoryInfo,
+  options: GitHubDiscoveryOptions
+): string | undefined {
+  if (repository.archived && !options.includeArchived) {
+    return 'archived';
+  }
+  if (repository.fork && !options.includeForks) {
+    return 'fork';
+  }
+  if (options.visibility !== 'all' && repository.visibility !== options.visibility) {
+    return `visibility is ${repository.visibility}, not ${options.visibility}`;
+  }
+  if (options.topics.length > 0 && !options.topics.some(topic => repository.topics.includes(topic))) {
+    return `has none of the topics ${options.topics.join(', ')}`;
+  }
+  if (options.namePattern && !new RegExp(options.namePattern).test(repository.name)) {
+    return `name does not match ${options.namePattern}`;
+  }
+  return undefined;
+}
+
+/**
+ * Returns why an Azure DevOps repository is left out by the discovery filters, or undefined when it is scanned
+ */
+export function getAzureDevOpsSkipReason(
+  repository: AzureDevOpsRepositoryInfo,
+  options: AzureDevOpsDiscoveryOptions
+): string | undefined {
+  if (repository.isDisabled && !options.includeDisabled) {
+    return 'disabled';
+  }
+  if (!repository.defaultBranch) {
+    return 'empty repository';
+  }
+  if (options.namePattern && !new RegExp(options.namePattern).test(repository.name)) {
+    return `name does not match ${options.namePattern}`;
+  }
+  return undefined;
+}
+
+// Organization, project and repository names are case-insensitive on both providers
+function sameName(left: string, right: string): boolean {
+  return left.toLowerCase() === right.toLowerCase();
+}
@@ -1,26 +1,36 @@
-import axios, { AxiosInstance } from 'axios';
 import { 
   GitHubCodeScanningResult, 
   GitHubServiceParams, 
-  ScanningRequestParams 
+  ScanningFetchResult,
+  ScanningRequestParams,
+  ScanningResultBase
 } from '../../interfaces/scanning-result.interface';
 import { Logger } from '../../utils/logger';
+import { HttpClient } from '../../utils/httpClient';
+import { fetchAllPages, mergePaginatedResults, PaginatedResult } from '../../utils/pagination';
 
 export class GitHubCodeScanningResultService {
-  private readonly client: AxiosInstance;
+  private readonly client: HttpClient;
   private readonly orgName: string;
+  private readonly pageSize: number;
+  private readonly maxPages: number;
+  private readonly states: ScanningResultBase['state'][];
 
   constructor(params: GitHubServiceParams) {
     this.orgName = params.orgName;
+    this.pageSize = params.pageSize || 100;
+    this.maxPages = params.maxPages || 50;
+    this.states = params.states || ['open'];
     
-    this.client = axios.create({
+    this.client = new HttpClient({
+      provider: 'GitHub',
       baseURL: params.baseUrl || 'https://api.github.com',
       headers: {
         'Authorization': `token ${params.token}`,
         'Accept': 'application/vnd.github.v3+json',
         'User-Agent': 'Dependency-Analysis-Tool'
       },
-      timeout: 30000
+      ...params.http
     });
   }
 
@@ -28,50 +38,51 @@ export class GitHubCodeScanningResultService {
    * Fetch code scanning results for a specific application and branch
    */
   async fetchCodeScanningResults(params: ScanningRequestParams): Promise<GitHubCodeScanningResult[]> {
+    const { results } = await this.fetchCodeScanningResultsWithStats(params);
+    return results;
+  }
+
+  /**
+   * Fetch every page of code scanning results, along with how many alerts were fetched vs. reported
+   */
+  async fetchCodeScanningResultsWithStats(
+    params: ScanningRequestParams
+  ): Promise<ScanningFetchResult<GitHubCodeScanningResult>> {
     const { applicationName, branchName } = params;
     
     Logger.info(`Fetching GitHub code scanning results for ${applicationName} on branch ${branchName}`);
     
-    try {
-      // Get the code scanning alerts for the repository
-      const response = await this.client.get(`/repos/${this.orgName}/${applicationName}/code-scanning/alerts`, {
-        params: {
-          ref: branchName,
-          state: 'open' // Can also fetch 'closed' or 'dismissed' if needed
-        }
-      });
+    // Get the code scanning alerts for the repository, following the Link header across pages.
+    // The endpoint filters on a single state, so each configured state is fetched on its own
+    const pages: PaginatedResult<any>[] = [];
+    for (const state of this.states) {
+      pages.push(await fetchAllPages<any>(
+        this.client,
+        `/repos/${this.orgName}/${applicationName}/code-scanning/alerts`,
+        { ref: branchName, state },
+        { pageSize: this.pageSize, maxPages: this.maxPages, strategy: 'page' }
+      ));
+    }
+    const { items, stats } = mergePaginatedResults(pages);
 
-      if (!response.data || !Array.isArray(response.data)) {
-        Logger.warn(`No GitHub code scanning results found for ${applicationName} on branch ${branchName}`);
-        return [];
-      }
+    if (items.length === 0) {
+      Logger.warn(`No GitHub code scanning results found for ${applicationName} on branch ${branchName}`);
+      return { results: [], stats };
+    }
 
-      Logger.info(`Received ${response.data.length} GitHub code scanning results for ${applicationName} on branch ${branchName}`);
-      
-      // Map the GitHub API response to our interface
-      const results = response.data.map((alert: any) => this.mapGitHubAlertToResult(alert, branchName));
-      Logger.info(`Mapped ${results.length} GitHub code scanning results for ${applicationName} on branch ${branchName}`);
-      
-      return results;
-    } catch (error: any) {
-      if (error.response) {
-        // The request was made and the server responded with a status code
-        // that falls out of the range of 2xx
-        const errorMsg = `GitHub API Error: ${error.response.status} - ${error.response.data?.message || error.message}`;
-        Logger.error(errorMsg);
-        throw new Error(errorMsg);
-      } else if (error.request) {
-        // The request was made but no response was received
-        const errorMsg = `Network Error: No response received from GitHub API`;
-        Logger.error(errorMsg);
-        throw new Error(errorMsg);
-      } else {
-        // Something happened in setting up the request that triggered an Error
-        const errorMsg = `Request Setup Error: ${error.message}`;
-        Logger.error(errorMsg);
-        throw new Error(errorMsg);
-      }
+    Logger.info(`Received ${items.length} GitHub code scanning results across ${stats.pages} page(s) `
+      + `for ${applicationName} on branch ${branchName}`);
+    if (stats.truncated) {
+      const reported = stats.reported ?? 'an unknown number of';
+      Logger.warn(`GitHub code scanning results for ${applicationName} were truncated at ${this.maxPages} page(s): `
+        + `fetched ${stats.fetched} of ${reported} alerts`);
     }
+    
+    // Map the GitHub API response to our interface
+    const results = items.map((alert: any) => this.mapGitHubAlertToResult(alert, branchName));
+    Logger.info(`Mapped ${results.length} GitHub code scanning results for ${applicationName} on branch ${branchName}`);
+    
+    return { results, stats };
   }
 
   /**
@@ -90,7 +101,12 @@ export class GitHubCodeScanningResultService {
       description: rule.description || alert.message?.text || 'No description provided',
       createdAt: new Date(alert.created_at || alert.created),
       updatedAt: new Date(alert.updated_at || alert.updated || alert.created_at || alert.created),
-      state: alert.state || 'open',
+      state: this.mapGitHubState(alert.state),
+      fixedAt: alert.fixed_at ? new Date(alert.fixed_at) : undefined,
+      dismissedAt: alert.dismissed_at ? new Date(alert.dismissed_at) : undefined,
+      dismissedBy: alert.dismissed_by?.login,
+      dismissedReason: alert.dismissed_reason || undefined,
+      dismissedComment: alert.dismissed_comment || undefined,
       url: alert.html_url || alert.url,
       tool: 'GitHub',
       toolName: tool.name || 'CodeQL',
@@ -119,6 +135,21 @@ export class GitHubCodeScanningResultService {
     };
   }
 
+  /**
+   * Maps GitHub's alert states to ours; older GitHub Enterprise Server versions report fixed alerts as closed
+   */
+  private mapGitHubState(githubState?: string): ScanningResultBase['state'] {
+    switch (githubState) {
+      case 'fixed':
+      case 'closed':
+        return 'fixed';
+      case 'dismissed':
+        return 'dismissed';
+      default:
+        return 'open';
+    }
+  }
+
   /**
    * Maps GitHub's severity values to our standard severity values
    */
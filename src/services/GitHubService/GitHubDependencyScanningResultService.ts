@@ -1,26 +1,36 @@
-import axios, { AxiosInstance } from 'axios';
 import { 
   GitHubDependencyScanningResult, 
   GitHubServiceParams, 
-  ScanningRequestParams 
+  ScanningFetchResult,
+  ScanningRequestParams,
+  ScanningResultBase
 } from '../../interfaces/scanning-result.interface';
 import { Logger } from '../../utils/logger';
+import { HttpClient } from '../../utils/httpClient';
+import { fetchAllPages } from '../../utils/pagination';
 
 export class GitHubDependencyScanningResultService {
-  private readonly client: AxiosInstance;
+  private readonly client: HttpClient;
   private readonly orgName: string;
+  private readonly pageSize: number;
+  private readonly maxPages: number;
+  private readonly states: ScanningResultBase['state'][];
 
   constructor(params: GitHubServiceParams) {
     this.orgName = params.orgName;
+    this.pageSize = params.pageSize || 100;
+    this.maxPages = params.maxPages || 50;
+    this.states = params.states || ['open'];
     
-    this.client = axios.create({
+    this.client = new HttpClient({
+      provider: 'GitHub',
       baseURL: params.baseUrl || 'https://api.github.com',
       headers: {
         'Authorization': `token ${params.token}`,
         'Accept': 'application/vnd.github.v3+json',
         'User-Agent': 'Dependency-Analysis-Tool'
       },
-      timeout: 30000
+      ...params.http
     });
   }
 
@@ -28,49 +38,50 @@ export class GitHubDependencyScanningResultService {
    * Fetch dependency scanning results for a specific application and branch
    */
   async fetchDependencyScanningResults(params: ScanningRequestParams): Promise<GitHubDependencyScanningResult[]> {
+    const { results } = await this.fetchDependencyScanningResultsWithStats(params);
+    return results;
+  }
+
+  /**
+   * Fetch every page of Dependabot alerts, along with how many alerts were fetched vs. reported
+   */
+  async fetchDependencyScanningResultsWithStats(
+    params: ScanningRequestParams
+  ): Promise<ScanningFetchResult<GitHubDependencyScanningResult>> {
     const { applicationName, branchName } = params;
     
     Logger.info(`Fetching GitHub dependency scanning results for ${applicationName} on branch ${branchName}`);
     
-    try {
-      // First get the security alerts for the repository
-      const response = await this.client.get(`/repos/${this.orgName}/${applicationName}/dependabot/alerts`, {
-        params: {
-          state: 'open' // Can also fetch 'closed' or 'dismissed' if needed
-        }
-      });
+    // Get the security alerts for the repository; the Dependabot endpoint pages with an "after" cursor
+    const { items, stats } = await fetchAllPages<any>(
+      this.client,
+      `/repos/${this.orgName}/${applicationName}/dependabot/alerts`,
+      {
+        // Alerts Dependabot dismissed itself count as dismissed
+        state: this.states.flatMap(state => state === 'dismissed' ? ['dismissed', 'auto_dismissed'] : [state]).join(',')
+      },
+      { pageSize: this.pageSize, maxPages: this.maxPages, strategy: 'cursor' }
+    );
 
-      if (!response.data || !Array.isArray(response.data)) {
-        Logger.warn(`No GitHub dependency scanning results found for ${applicationName} on branch ${branchName}`);
-        return [];
-      }
+    if (items.length === 0) {
+      Logger.warn(`No GitHub dependency scanning results found for ${applicationName} on branch ${branchName}`);
+      return { results: [], stats };
+    }
 
-      Logger.info(`Received ${response.data.length} GitHub dependency scanning results for ${applicationName} on branch ${branchName}`);
-      
-      // Map the GitHub API response to our interface
-      const results = response.data.map((alert: any) => this.mapGitHubDependabotAlertToResult(alert, branchName));
-      Logger.info(`Mapped ${results.length} GitHub dependency scanning results for ${applicationName} on branch ${branchName}`);
-      
-      return results;
-    } catch (error: any) {
-      if (error.response) {
-        // The request was made and the server responded with a status code
-        // that falls out of the range of 2xx
-        const errorMsg = `GitHub API Error: ${error.response.status} - ${error.response.data?.message || error.message}`;
-        Logger.error(errorMsg);
-        throw new Error(errorMsg);
-      } else if (error.request) {
-        // The request was made but no response was received
-        const errorMsg = `Network Error: No response received from GitHub API`;
-        Logger.error(errorMsg);
-        throw new Error(errorMsg);
-      } else {
-        // Something happened in setting up the request that triggered an Error
-        const errorMsg = `Request Setup Error: ${error.message}`;
-        Logger.error(errorMsg);
-        throw new Error(errorMsg);
-      }
+    Logger.info(`Received ${items.length} GitHub dependency scanning results across ${stats.pages} page(s) `
+      + `for ${applicationName} on branch ${branchName}`);
+    if (stats.truncated) {
+      const reported = stats.reported ?? 'an unknown number of';
+      Logger.warn(`GitHub dependency scanning results for ${applicationName} were truncated `
+        + `at ${this.maxPages} page(s): fetched ${stats.fetched} of ${reported} alerts`);
     }
+    
+    // Map the GitHub API response to our interface
+    const results = items.map((alert: any) => this.mapGitHubDependabotAlertToResult(alert, branchName));
+    Logger.info(`Mapped ${results.length} GitHub dependency scanning results `
+      + `for ${applicationName} on branch ${branchName}`);
+    
+    return { results, stats };
   }
 
   /**
@@ -82,6 +93,7 @@ export class GitHubDependencyScanningResultService {
     const packageInfo = dependency.package || {};
     const advisory = alert.security_advisory || {};
     const severity = this.mapGitHubSeverity(advisory.severity || 'medium');
+    const dismissedAt = alert.dismissed_at || alert.auto_dismissed_at;
     
     return {
       id: alert.number?.toString() || alert.id || '',
@@ -90,7 +102,12 @@ export class GitHubDependencyScanningResultService {
       description: advisory.description || 'No description provided',
       createdAt: new Date(alert.created_at || alert.created),
       updatedAt: new Date(alert.updated_at || alert.updated || alert.created_at || alert.created),
-      state: alert.state || 'open',
+      state: this.mapGitHubState(alert.state),
+      fixedAt: alert.fixed_at ? new Date(alert.fixed_at) : undefined,
+      dismissedAt: dismissedAt ? new Date(dismissedAt) : undefined,
+      dismissedBy: alert.dismissed_by?.login,
+      dismissedReason: alert.dismissed_reason || (alert.state === 'auto_dismissed' ? 'auto_dismissed' : undefined),
+      dismissedComment: alert.dismissed_comment || undefined,
       url: alert.html_url || alert.url,
       tool: 'GitHub',
       toolName: 'Dependabot',
@@ -101,7 +118,7 @@ export class GitHubDependencyScanningResultService {
       ruleName: advisory.summary || packageInfo.name || '',
       ruleDescription: advisory.description || '',
       ruleSeverity: advisory.severity || '',
-      filePath: '', // Dependency alerts don't typically have file paths in the same way as code scanning
+      filePath: dependency.manifest_path || '', // the manifest that declares the dependency
       startLine: undefined,
       endLine: undefined,
       startColumn: undefined,
@@ -111,7 +128,7 @@ export class GitHubDependencyScanningResultService {
       ecosystem: packageInfo.ecosystem || dependency.ecosystem || '',
       packageName: packageInfo.name || dependency.package_name || '',
       version: dependency.version || '',
-      fixedVersion: advisory.fixed_versions?.[0] || '',
+      fixedVersion: alert.security_vulnerability?.first_patched_version?.identifier || '',
       cveId: advisory.cve_id || '',
       cvss: advisory.cvss?.score,
       cwes: (advisory.cwes || []).map((cwe: any) => cwe.cwe_id || cwe.id),
@@ -119,6 +136,21 @@ export class GitHubDependencyScanningResultService {
     };
   }
 
+  /**
+   * Maps Dependabot's alert states to ours
+   */
+  private mapGitHubState(githubState?: string): ScanningResultBase['state'] {
+    switch (githubState) {
+      case 'fixed':
+        return 'fixed';
+      case 'dismissed':
+      case 'auto_dismissed':
+        return 'dismissed';
+      default:
+        return 'open';
+    }
+  }
+
   /**
    * Maps GitHub's security advisory severity values to our standard severity values
    */
@@ -0,0 +1,82 @@
+import { GitHubRepositoryInfo, GitHubServiceParams } from '../../interfaces/scanning-result.interface';
+import { Logger } from '../../utils/logger';
+import { HttpClient } from '../../utils/httpClient';
+import { fetchAllPages } from '../../utils/pagination';
+
+/**
+ * Reads repository metadata, such as the branch list, from the GitHub REST API
+ */
+export class GitHubRepositoryService {
+  private readonly client: HttpClient;
+  private readonly orgName: string;
+  private readonly pageSize: number;
+  private readonly maxPages: number;
+
+  constructor(params: GitHubServiceParams) {
+    this.orgName = params.orgName;
+    this.pageSize = params.pageSize || 100;
+    this.maxPages = params.maxPages || 50;
+
+    this.client = new HttpClient({
+      provider: 'GitHub',
+      baseURL: params.baseUrl || 'https://api.github.com',
+      headers: {
+        'Authorization': `token ${params.token}`,
+        'Accept': 'application/vnd.github.v3+json',
+        'User-Agent': 'Dependency-Analysis-Tool'
+      },
+      ...params.http
+    });
+  }
+
+  /**
+   * List the names of every branch in a repository
+   */
+  async listBranches(repositoryName: string): Promise<string[]> {
+    const { items, stats } = await fetchAllPages<any>(
+      this.client,
+      `/repos/${this.orgName}/${repositoryName}/branches`,
+      {},
+      { pageSize: this.pageSize, maxPages: this.maxPages, strategy: 'page' }
+    );
+
+    if (stats.truncated) {
+      Logger.warn(`GitHub branches for ${this.orgName}/${repositoryName} were truncated at ${this.maxPages} page(s)`);
+    }
+
+    return items.map(branch => branch.name);
+  }
+
+  /**
+   * Read the name of a repository's default branch
+   */
+  async getDefaultBranch(repositoryName: string): Promise<string> {
+    const response = await this.client.get(`/repos/${this.orgName}/${repositoryName}`);
+    return response.data.default_branch;
+  }
+
+  /**
+   * List every repository in the organization, including archived repositories and forks
+   */
+  async listRepositories(): Promise<GitHubRepositoryInfo[]> {
+    const { items, stats } = await fetchAllPages<any>(
+      this.client,
+      `/orgs/${this.orgName}/repos`,
+      { type: 'all' },
+      { pageSize: this.pageSize, maxPages: this.maxPages, strategy: 'page' }
+    );
+
+    if (stats.truncated) {
+      Logger.warn(`GitHub repositories for ${this.orgName} were truncated at ${this.maxPages} page(s)`);
+    }
+
+    return items.map(repository => ({
+      name: repository.name,
+      archived: Boolean(repository.archived),
+      fork: Boolean(repository.fork),
+      visibility: repository.visibility || (repository.private ? 'private' : 'public'),
+      topics: repository.topics || [],
+      defaultBranch: repository.default_branch || undefined
+    }));
+  }
+}
@@ -0,0 +1,174 @@
+import { ApplicationTarget } from '../../interfaces/config.interface';
+import { HttpRetryOptions, ScanningResultBase } from '../../interfaces/scanning-result.interface';
+import {
+  ProviderFetchResult,
+  ProviderHealthCheck,
+  ProviderRepository,
+  ScanningCapability,
+  ScanningProvider
+} from '../../interfaces/scanning-provider.interface';
+import { runHealthCheck } from '../../utils/healthCheck';
+import { HttpClient } from '../../utils/httpClient';
+import { Logger } from '../../utils/logger';
+import { GITHUB_PROVIDER_ID } from '../../utils/providerResults';
+import { GitHubCodeScanningResultService } from './GitHubCodeScanningResultService';
+import { GitHubDependencyScanningResultService } from './GitHubDependencyScanningResultService';
+import { GitHubRepositoryService } from './GitHubRepositoryService';
+
+export interface GitHubScanningProviderParams {
+  token: string;
+  baseUrl?: string;
+  pageSize?: number;
+  maxPages?: number;
+  states?: ScanningResultBase['state'][]; // alert states to fetch (default: open)
+  http?: Partial<HttpRetryOptions>;
+  concurrency?: number;
+  discoveryOrg?: string; // organization enumerated by discovery mode, checked by the health check
+}
+
+export interface GitHubRepository extends ProviderRepository {
+  org: string;
+  repo: string;
+}
+
+/**
+ * GitHub code scanning and Dependabot alerts, one repository per application
+ */
+export class GitHubScanningProvider implements ScanningProvider<GitHubRepository> {
+  readonly id = GITHUB_PROVIDER_ID;
+  readonly displayName = 'GitHub';
+  readonly capabilities: ScanningCapability[] = ['branches', 'code-scanning', 'dependency-scanning'];
+  readonly concurrency?: number;
+  private readonly params: GitHubScanningProviderParams;
+  // Services are created once per organization and reused for all of its repositories
+  private readonly services = new Map<string, {
+    code: GitHubCodeScanningResultService,
+    dependency: GitHubDependencyScanningResultService,
+    repository: GitHubRepositoryService
+  }>();
+
+  // Default branch of each repository, looked up once however many branches are scanned
+  private readonly defaultBranches = new Map<string, Promise<string>>();
+
+  constructor(params: GitHubScanningProviderParams) {
+    this.params = params;
+    this.concurrency = params.concurrency;
+  }
+
+  resolveRepository(application: ApplicationTarget): GitHubRepository | undefined {
+    return application.github && {
+      label: `${application.github.org}/${application.github.repo}`,
+      org: application.github.org,
+      repo: application.github.repo
+    };
+  }
+
+  async listBranches(repository: GitHubRepository): Promise<string[]> {
+    return this.getServices(repository.org).repository.listBranches(repository.repo);
+  }
+
+  async fetchCodeScanning(repository: GitHubRepository, branchName: string): Promise<ProviderFetchResult> {
+    return this.getServices(repository.org).code.fetchCodeScanningResultsWithStats({
+      applicationName: repository.repo,
+      branchName
+    });
+  }
+
+  /**
+   * Dependabot alerts apply to the whole repository and cannot be filtered by branch, so they are fetched once and
+   * reported on the repository's default branch only
+   */
+  async fetchDependencyScanning(repository: GitHubRepository, branchName: string): Promise<ProviderFetchResult> {
+    const defaultBranch = await this.getDefaultBranch(repository);
+    if (branchName !== defaultBranch) {
+      Logger.info(`Skipping GitHub dependency scanning results for ${repository.repo} on branch ${branchName}: `
+        + `Dependabot alerts are reported on the default branch ${defaultBranch}`);
+      return { results: [] };
+    }
+
+    return this.getServices(repository.org).dependency.fetchDependencyScanningResultsWithStats({
+      applicationName: repository.repo,
+      branchName
+    });
+  }
+
+  /**
+   * Checks each organization, and each configured repository of the organizations that are accessible
+   */
+  async healthCheck(repositories: GitHubRepository[]): Promise<ProviderHealthCheck[]> {
+    if (repositories.length === 0 && !this.params.discoveryOrg) {
+      return [{ name: 'GitHub API', status: 'SKIP', detail: 'no GitHub applications are configured' }];
+    }
+    if (!this.params.token) {
+      return [{ name: 'GitHub API', status: 'SKIP', detail: 'GITHUB_TOKEN is not set' }];
+    }
+
+    const client = new HttpClient({
+      provider: 'GitHub',
+      baseURL: this.params.baseUrl || 'https://api.github.com',
+      headers: {
+        'Authorization': `token ${this.params.token}`,
+        'Accept': 'application/vnd.github.v3+json',
+        'User-Agent': 'Dependency-Analysis-Tool'
+      },
+      ...this.params.http,
+      maxRetries: 0
+    });
+
+    const checks: ProviderHealthCheck[] = [];
+    const orgNames = Array.from(new Set([
+      ...repositories.map(repository => repository.org),
+      ...(this.params.discoveryOrg ? [this.params.discoveryOrg] : [])
+    ]));
+    for (const orgName of orgNames) {
+      const organization = await runHealthCheck(`GitHub organization ${orgName}`, async () => {
+        const response = await client.get(`/orgs/${orgName}`);
+        const remaining = response.headers?.['x-ratelimit-remaining'];
+        return `accessible${remaining !== undefined ? `, ${remaining} requests left in the rate limit` : ''}`;
+      });
+      checks.push(organization);
+      if (organization.status === 'FAIL') {
+        continue;
+      }
+
+      checks.push(...await Promise.all(repositories
+        .filter(repository => repository.org === orgName)
+        .map(repository => runHealthCheck(`GitHub repository ${repository.label}`, async () => {
+          await client.get(`/repos/${repository.org}/${repository.repo}`);
+          return 'accessible';
+        }))));
+    }
+    return checks;
+  }
+
+  private getDefaultBranch(repository: GitHubRepository): Promise<string> {
+    let defaultBranch = this.defaultBranches.get(repository.label);
+    if (!defaultBranch) {
+      defaultBranch = this.getServices(repository.org).repository.getDefaultBranch(repository.repo);
+      this.defaultBranches.set(repository.label, defaultBranch);
+    }
+    return defaultBranch;
+  }
+
+  private getServices(orgName: string) {
+    let services = this.services.get(orgName);
+    if (!services) {
+      const params = {
+        orgName,
+        token: this.params.token,
+        baseUrl: this.params.baseUrl,
+        pageSize: this.params.pageSize,
+        maxPages: this.params.maxPages,
+        states: this.params.states,
+        http: this.params.http
+      };
+      services = {
+        code: new GitHubCodeScanningResultService(params),
+        dependency: new GitHubDependencyScanningResultService(params),
+        repository: new GitHubRepositoryService(params)
+      };
+      this.services.set(orgName, services);
+    }
+    return services;
+  }
+}
@@ -0,0 +1,165 @@
+import fs from 'fs';
+import path from 'path';
+import {
+  FindingOccurrence,
+  HistoryApplication,
+  HistoryRetention,
+  HistoryRun,
+  HistoryRunSummary
+} from '../../interfaces/history.interface';
+import { MultiApplicationAggregatedScanningResult } from '../../interfaces/scanning-result.interface';
+import { reviveDate } from '../../utils/jsonReport';
+import { Logger } from '../../utils/logger';
+import { flattenFindings } from '../../utils/reportData';
+
+export const HISTORY_SCHEMA_VERSION = 1;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface RunHistoryStoreParams {
+  directory: string;
+}
+
+/**
+ * Append-only history of scan runs: one JSON file per run under <directory>/runs, never rewritten once written
+ */
+export class RunHistoryStore {
+  private readonly runsDirectory: string;
+
+  constructor(params: RunHistoryStoreParams) {
+    this.runsDirectory = path.join(params.directory, 'runs');
+  }
+
+  /**
+   * Stores the normalized findings of a run and returns the stored run
+   */
+  append(results: MultiApplicationAggregatedScanningResult): HistoryRun {
+    const applications = new Map<string, HistoryApplication>();
+    results.applications.forEach(app => {
+      const key = `${app.applicationName}\u0000${app.branchName}`;
+      applications.set(key, { application: app.applicationName, branch: app.branchName, findings: {} });
+    });
+    flattenFindings(results).forEach(({ application, branch, branches: _branches, raw: _raw, ...finding }) => {
+      const stored = applications.get(`${application}\u0000${branch}`);
+      if (stored) {
+        stored.findings[finding.fingerprint] = finding;
+      }
+    });
+
+    const findings = Array.from(applications.values()).flatMap(application => Object.values(application.findings));
+    const run: HistoryRun = {
+      schemaVersion: HISTORY_SCHEMA_VERSION,
+      summary: {
+        id: '',
+        timestamp: results.timestamp,
+        applications: results.summary.totalApplications,
+        findings: findings.length,
+        openFindings: findings.filter(finding => finding.state === 'open').length,
+        errors: results.errors.length,
+        severitySummary: results.summary.severitySummary
+      },
+      applications: Array.from(applications.values()),
+      errors: results.errors
+    };
+
+    fs.mkdirSync(this.runsDirectory, { recursive: true });
+    const baseId = results.timestamp.toISOString().replace(/[:.]/g, '-');
+    // The wx flag never overwrites a run; a second run in the same millisecond gets a suffix
+    for (let attempt = 0; ; attempt++) {
+      run.summary.id = attempt === 0 ? baseId : `${baseId}-${attempt}`;
+      try {
+        fs.writeFileSync(this.getRunPath(run.summary.id), JSON.stringify(run, null, 2), { flag: 'wx' });
+        return run;
+      } catch (error: any) {
+        if (error.code !== 'EEXIST') {
+          throw error;
+        }
+      }
+    }
+  }
+
+  /**
+   * Summaries of the stored runs, newest first
+   */
+  list(): HistoryRunSummary[] {
+    return this.getRuns().map(run => run.summary);
+  }
+
+  /**
+   * Loads one run by id
+   */
+  get(id: string): HistoryRun {
+    const runPath = this.getRunPath(id);
+    if (!/^[\w.-]+$/.test(id) || !fs.existsSync(runPath)) {
+      throw new Error(`Run ${id} not found in ${this.runsDirectory}`);
+    }
+    return parseRun(fs.readFileSync(runPath, 'utf-8'));
+  }
+
+  /**
+   * Every stored occurrence of the findings matching the query, oldest first
+   */
+  findOccurrences(query: { application?: string, branch?: string, fingerprint?: string }): FindingOccurrence[] {
+    return this.getRuns().reverse().flatMap(run => run.applications
+      .filter(application => (query.application === undefined || application.application === query.application)
+        && (query.branch === undefined || application.branch === query.branch))
+      .flatMap(application => Object.values(application.findings)
+        .filter(finding => query.fingerprint === undefined || finding.fingerprint === query.fingerprint)
+        .map(finding => ({
+          runId: run.summary.id,
+          timestamp: run.summary.timestamp,
+          application: application.application,
+          branch: application.branch,
+          finding
+        }))));
+  }
+
+  /**
+   * Removes runs older than the retention period and beyond the maximum number of runs, and returns them
+   */
+  prune(retention: HistoryRetention, options: { now?: Date, dryRun?: boolean } = {}): HistoryRunSummary[] {
+    const cutoff = (options.now || new Date()).getTime() - retention.retentionDays * DAY_MS;
+    const expired = this.list().filter((run, index) =>
+      (retention.retentionDays > 0 && run.timestamp.getTime() < cutoff)
+      || (retention.maxRuns > 0 && index >= retention.maxRuns));
+
+    if (!options.dryRun) {
+      expired.forEach(run => fs.unlinkSync(this.getRunPath(run.id)));
+    }
+    return expired;
+  }
+
+  /**
+   * Every stored run, newest first
+   */
+  getRuns(): HistoryRun[] {
+    if (!fs.existsSync(this.runsDirectory)) {
+      return [];
+    }
+
+    return fs.readdirSync(this.runsDirectory)
+      .filter(file => file.endsWith('.json'))
+      .flatMap(file => {
+        try {
+          return [parseRun(fs.readFileSync(path.join(this.runsDirectory, file), 'utf-8'))];
+        } catch (error: any) {
+          Logger.warn(`Skipping unreadable history file ${file}: ${error.message}`);
+          return [];
+        }
+      })
+      .sort((a, b) => b.summary.timestamp.getTime() - a.summary.timestamp.getTime()
+        || b.summary.id.localeCompare(a.summary.id));
+  }
+
+  private getRunPath(id: string): string {
+    return path.join(this.runsDirectory, `${id}.json`);
+  }
+}
+
+function parseRun(content: string): HistoryRun {
+  const run = JSON.parse(content, reviveDate);
+  if (run?.schemaVersion !== HISTORY_SCHEMA_VERSION || !run.summary || !Array.isArray(run.applications)) {
+    throw new Error(`unsupported history run format (schema version ${run?.schemaVersion})`);
+  }
+  return run;
+}
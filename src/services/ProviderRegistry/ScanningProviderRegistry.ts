@@ -0,0 +1,177 @@
+import path from 'path';
+import { ScanConfiguration, ScanningProviderModuleConfig } from '../../interfaces/config.interface';
+import { HttpRetryOptions, ScanningResultBase } from '../../interfaces/scanning-result.interface';
+import {
+  ScanningCapability,
+  ScanningProvider,
+  ScanningProviderContext,
+  ScanningProviderFactory
+} from '../../interfaces/scanning-provider.interface';
+import { Logger } from '../../utils/logger';
+import { AzureDevOpsScanningProvider } from '../AzureDevOpsService/AzureDevOpsScanningProvider';
+import { GitHubScanningProvider } from '../GitHubService/GitHubScanningProvider';
+
+const SCANNING_CAPABILITIES: ScanningCapability[] = [
+  'branches',
+  'code-scanning',
+  'dependency-scanning',
+  'secret-scanning'
+];
+const PROVIDER_ID_PATTERN = /^[a-z][a-z0-9-]*$/;
+
+// Settings for the built-in providers that do not come from the configuration
+export interface ScanningProviderRegistryParams {
+  configuration: ScanConfiguration;
+  http: Partial<HttpRetryOptions>;
+  demoMode: boolean;
+  github: { pageSize: number, maxPages: number, concurrency: number, states: ScanningResultBase['state'][] };
+  azureDevOps: { concurrency: number };
+}
+
+/**
+ * The scanning providers of a run, in the order their results are reported
+ */
+export class ScanningProviderRegistry {
+  private readonly providers = new Map<string, ScanningProvider<any>>();
+
+  /**
+   * Adds a provider; ids must be unique
+   */
+  register(provider: ScanningProvider<any>): void {
+    if (this.providers.has(provider.id)) {
+      throw new Error(`A scanning provider with id "${provider.id}" is already registered`);
+    }
+    this.providers.set(provider.id, provider);
+  }
+
+  get(id: string): ScanningProvider<any> | undefined {
+    return this.providers.get(id);
+  }
+
+  list(): ScanningProvider<any>[] {
+    return Array.from(this.providers.values());
+  }
+}
+
+/**
+ * Registers GitHub, Azure DevOps and the provider modules listed in the configuration,
+ * and checks that every application only has settings for registered providers
+ */
+export async function createScanningProviderRegistry(
+  params: ScanningProviderRegistryParams
+): Promise<ScanningProviderRegistry> {
+  const { configuration } = params;
+  const registry = new ScanningProviderRegistry();
+
+  registry.register(new GitHubScanningProvider({
+    token: configuration.github.token,
+    baseUrl: configuration.github.baseUrl,
+    pageSize: params.github.pageSize,
+    maxPages: params.github.maxPages,
+    states: params.github.states,
+    http: params.http,
+    concurrency: params.github.concurrency,
+    discoveryOrg: configuration.discovery.github?.org
+  }));
+  registry.register(new AzureDevOpsScanningProvider({
+    token: configuration.azureDevOps.token,
+    baseUrl: configuration.azureDevOps.baseUrl,
+    http: params.http,
+    concurrency: params.azureDevOps.concurrency,
+    demoMode: params.demoMode,
+    discoveryOrg: configuration.discovery.azureDevOps?.org
+  }));
+
+  for (const moduleConfig of configuration.providers) {
+    const provider = await loadScanningProviderModule(moduleConfig, {
+      options: moduleConfig.options || {},
+      http: params.http,
+      demoMode: params.demoMode,
+      logger: Logger
+    });
+    registry.register(provider);
+    Logger.info(`Registered scanning provider ${provider.displayName} (${provider.id}) from ${moduleConfig.module}`);
+  }
+
+  for (const application of configuration.applications) {
+    const unknownSources = Object.keys(application.sources || {}).filter(id => !registry.get(id));
+    if (unknownSources.length > 0) {
+      const unknown = unknownSources.join(', ');
+      throw new Error(`Application ${application.name} has settings for unknown scanning provider(s): ${unknown}`);
+    }
+  }
+
+  return registry;
+}
+
+/**
+ * Loads a provider from an npm package or a local module. The module exports a factory as its default export
+ * or as createScanningProvider, or exports the provider object itself.
+ */
+export async function loadScanningProviderModule(
+  moduleConfig: ScanningProviderModuleConfig,
+  context: ScanningProviderContext
+): Promise<ScanningProvider<any>> {
+  const baseDir = moduleConfig.baseDir || process.cwd();
+  const isPath = moduleConfig.module.startsWith('.') || path.isAbsolute(moduleConfig.module);
+
+  let exported: any;
+  try {
+    // Packages are resolved from the base directory so they can be installed next to the configuration
+    const resolved = isPath
+      ? path.resolve(baseDir, moduleConfig.module)
+      : require.resolve(moduleConfig.module, { paths: [baseDir] });
+    exported = await import(resolved);
+  } catch (error: any) {
+    throw new Error(`Unable to load scanning provider module ${moduleConfig.module}: ${error.message}`);
+  }
+
+  const candidate = exported?.createScanningProvider || exported?.default || exported;
+  const provider = typeof candidate === 'function'
+    ? await (candidate as ScanningProviderFactory)(context)
+    : candidate;
+
+  validateScanningProvider(provider, moduleConfig.module);
+  return provider;
+}
+
+/**
+ * Throws when an object does not implement the ScanningProvider interface
+ */
+function validateScanningProvider(provider: any, source: string): asserts provider is ScanningProvider<any> {
+  const problems: string[] = [];
+
+  if (!provider || typeof provider !== 'object') {
+    throw new Error(`Scanning provider module ${source} does not export a provider or a factory`);
+  }
+  if (typeof provider.id !== 'string' || !PROVIDER_ID_PATTERN.test(provider.id)) {
+    problems.push('id must be lowercase letters, digits and dashes');
+  }
+  if (typeof provider.displayName !== 'string' || provider.displayName.length === 0) {
+    problems.push('displayName is required');
+  }
+  if (typeof provider.resolveRepository !== 'function') {
+    problems.push('resolveRepository must be a function');
+  }
+  if (!Array.isArray(provider.capabilities)) {
+    problems.push('capabilities must be an array');
+  } else {
+    const methods: Record<ScanningCapability, string> = {
+      'branches': 'listBranches',
+      'code-scanning': 'fetchCodeScanning',
+      'dependency-scanning': 'fetchDependencyScanning',
+      'secret-scanning': 'fetchSecretScanning'
+    };
+    provider.capabilities.forEach((capability: any) => {
+      if (!SCANNING_CAPABILITIES.includes(capability)) {
+        problems.push(`unknown capability ${capability}`);
+      } else if (typeof provider[methods[capability as ScanningCapability]] !== 'function') {
+        problems.push(`capability ${capability} requires ${methods[capability as ScanningCapability]}()`);
+      }
+    });
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid scanning provider in ${source}: ${problems.join('; ')}`);
+  }
+}
@@ -0,0 +1,257 @@
+import * as fs from 'fs/promises';
+import path from 'path';
+import {
+  SarifApplicationResults,
+  SarifImportResult,
+  SarifScanningResult,
+  SarifServiceParams,
+  ScanningResultBase
+} from '../../interfaces/scanning-result.interface';
+import {
+  SarifLevel,
+  SarifLog,
+  SarifReportingDescriptor,
+  SarifResult,
+  SarifRun
+} from '../../interfaces/sarif.interface';
+import { Logger } from '../../utils/logger';
+
+const SARIF_FILE_PATTERN = /\.sarif(\.json)?$/i;
+
+export class SarifScanningResultService {
+  private readonly params: SarifServiceParams;
+
+  constructor(params: SarifServiceParams) {
+    this.params = params;
+  }
+
+  /**
+   * Read every configured SARIF file or directory and group the results by application
+   */
+  async fetchSarifResults(): Promise<SarifImportResult> {
+    const resultsByApplication = new Map<string, SarifScanningResult[]>();
+    const errors: SarifImportResult['errors'] = [];
+
+    for (const mapping of this.params.paths) {
+      let files: string[];
+      try {
+        files = await this.findSarifFiles(mapping.path);
+      } catch (error: any) {
+        Logger.error(`Unable to read SARIF path ${mapping.path}: ${error.message}`);
+        errors.push({ applicationName: `SARIF: ${mapping.path}`, error: error.message });
+        continue;
+      }
+
+      if (files.length === 0) {
+        Logger.warn(`No SARIF files found in ${mapping.path}`);
+      }
+
+      for (const file of files) {
+        try {
+          const log = await this.readSarifFile(file);
+          const modifiedAt = (await fs.stat(file)).mtime;
+
+          log.runs.forEach(run => {
+            const applicationName = mapping.applicationName || this.resolveApplicationName(run, file);
+            const results = (run.results || []).map(result => this.mapSarifResult(result, run, file, modifiedAt));
+
+            const existing = resultsByApplication.get(applicationName) || [];
+            resultsByApplication.set(applicationName, existing.concat(results));
+            Logger.info(`Imported ${results.length} ${run.tool.driver.name} results from ${file} `
+              + `for application ${applicationName}`);
+          });
+        } catch (error: any) {
+          Logger.error(`Unable to import SARIF file ${file}: ${error.message}`);
+          errors.push({ applicationName: `SARIF: ${file}`, error: error.message });
+        }
+      }
+    }
+
+    const applications: SarifApplicationResults[] = Array.from(resultsByApplication.entries())
+      .map(([applicationName, results]) => ({ applicationName, results }));
+
+    return { applications, errors };
+  }
+
+  /**
+   * Returns the SARIF files at a path: the path itself if it is a file, or every .sarif file below a directory
+   */
+  private async findSarifFiles(sarifPath: string): Promise<string[]> {
+    const stats = await fs.stat(sarifPath);
+    if (stats.isFile()) {
+      return [sarifPath];
+    }
+
+    const files: string[] = [];
+    const entries = await fs.readdir(sarifPath, { withFileTypes: true });
+    for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+      const entryPath = path.join(sarifPath, entry.name);
+      if (entry.isDirectory()) {
+        files.push(...await this.findSarifFiles(entryPath));
+      } else if (SARIF_FILE_PATTERN.test(entry.name)) {
+        files.push(entryPath);
+      }
+    }
+    return files;
+  }
+
+  private async readSarifFile(file: string): Promise<SarifLog> {
+    const content = await fs.readFile(file, 'utf-8');
+
+    let log: any;
+    try {
+      log = JSON.parse(content);
+    } catch (error: any) {
+      throw new Error(`Invalid SARIF JSON: ${error.message}`);
+    }
+
+    if (!log || !Array.isArray(log.runs)) {
+      throw new Error('Invalid SARIF log: missing runs array');
+    }
+    if (log.version !== '2.1.0') {
+      Logger.warn(`SARIF file ${file} declares version ${log.version}, expected 2.1.0`);
+    }
+
+    return log as SarifLog;
+  }
+
+  /**
+   * Takes the application name from the run's repository, falling back to the file name
+   */
+  private resolveApplicationName(run: SarifRun, file: string): string {
+    const repositoryUri = run.versionControlProvenance?.[0]?.repositoryUri;
+    if (repositoryUri) {
+      const repositoryName = repositoryUri.replace(/\/+$/, '').split('/').pop() || '';
+      return repositoryName.replace(/\.git$/, '');
+    }
+    return path.basename(file).replace(SARIF_FILE_PATTERN, '');
+  }
+
+  /**
+   * Id of a result without a guid: its rule and start position, plus its partial fingerprints when present, so two
+   * results of a rule on the same line stay apart, e.g. js/sql-injection@src/db.ts:12:5#primaryLocationLineHash=abc
+   */
+  private getFallbackId(result: SarifResult, ruleId: string, filePath: string): string {
+    const region = result.locations?.[0]?.physicalLocation?.region || {};
+    const location = `${ruleId}@${filePath}:${region.startLine ?? 0}:${region.startColumn ?? 0}`;
+    const fingerprints = Object.entries(result.partialFingerprints || {})
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([name, value]) => `${name}=${value}`);
+    return fingerprints.length > 0 ? `${location}#${fingerprints.join(',')}` : location;
+  }
+
+  /**
+   * Maps a SARIF result to our SarifScanningResult interface
+   */
+  private mapSarifResult(result: SarifResult, run: SarifRun, file: string, modifiedAt: Date): SarifScanningResult {
+    const driver = run.tool.driver;
+    const rule = this.findRule(result, run);
+    const ruleId = result.ruleId || result.rule?.id || rule?.id || 'unknown';
+    const physicalLocation = result.locations?.[0]?.physicalLocation || {};
+    const region = physicalLocation.region || {};
+    const filePath = physicalLocation.artifactLocation?.uri || '';
+    const level: SarifLevel = result.level || rule?.defaultConfiguration?.level || 'warning';
+    const securitySeverity = this.parseSecuritySeverity(result.properties?.['security-severity'])
+      ?? this.parseSecuritySeverity(rule?.properties?.['security-severity']);
+    const invocation = run.invocations?.[0];
+    const tags = rule?.properties?.tags || [];
+
+    return {
+      id: result.guid || this.getFallbackId(result, ruleId, filePath),
+      name: rule?.shortDescription?.text || rule?.name || ruleId,
+      severity: this.mapSeverity(level, securitySeverity),
+      description: result.message?.text || result.message?.markdown || rule?.fullDescription?.text
+        || 'No description provided',
+      createdAt: new Date(invocation?.startTimeUtc || modifiedAt),
+      updatedAt: new Date(invocation?.endTimeUtc || invocation?.startTimeUtc || modifiedAt),
+      state: this.mapState(result),
+      url: result.hostedViewerUri || rule?.helpUri,
+      tool: 'SARIF',
+      toolName: driver.name,
+      toolVersion: driver.semanticVersion || driver.version || 'Unknown',
+      ruleId,
+      ruleName: rule?.name || ruleId,
+      ruleDescription: rule?.fullDescription?.text || rule?.shortDescription?.text || '',
+      ruleSeverity: level,
+      filePath,
+      startLine: region.startLine,
+      endLine: region.endLine,
+      startColumn: region.startColumn,
+      endColumn: region.endColumn,
+      codeSnippet: region.snippet?.text || '',
+      category: 'code-scanning',
+      securitySeverity,
+      partialFingerprints: result.partialFingerprints,
+      cwes: tags
+        .map(tag => tag.match(/^external\/cwe\/cwe-(\d+)$/i))
+        .filter((match): match is RegExpMatchArray => match !== null)
+        .map(match => `CWE-${match[1]}`),
+      tags,
+      sourceFile: file
+    };
+  }
+
+  /**
+   * Finds the rule metadata for a result by index, in the driver or the extension the result points at,
+   * or else by id, in the driver and then in its extensions
+   */
+  private findRule(result: SarifResult, run: SarifRun): SarifReportingDescriptor | undefined {
+    // Rules of query packs, such as CodeQL's, live in an extension that the result points at
+    const extensionIndex = result.rule?.toolComponent?.index;
+    const component = extensionIndex !== undefined ? run.tool.extensions?.[extensionIndex] : run.tool.driver;
+    const rules = component?.rules || [];
+    const index = result.rule?.index ?? result.ruleIndex;
+    if (index !== undefined && rules[index]) {
+      return rules[index];
+    }
+
+    const ruleId = result.ruleId || result.rule?.id;
+    const components = [run.tool.driver, ...(run.tool.extensions || [])];
+    for (const component of components) {
+      const rule = (component.rules || []).find(candidate => candidate.id === ruleId);
+      if (rule) {
+        return rule;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Maps a SARIF level to our severity, preferring the security-severity score when the rule has one
+   */
+  private mapSeverity(level: SarifLevel, securitySeverity?: number): ScanningResultBase['severity'] {
+    if (securitySeverity !== undefined) {
+      if (securitySeverity >= 9.0) return 'critical';
+      if (securitySeverity >= 7.0) return 'high';
+      if (securitySeverity >= 4.0) return 'medium';
+      if (securitySeverity > 0) return 'low';
+    }
+
+    const severityMap: { [key: string]: ScanningResultBase['severity'] } = {
+      'error': 'high',
+      'warning': 'warning',
+      'note': 'note',
+      'none': 'note'
+    };
+    return severityMap[level] || 'warning';
+  }
+
+  /**
+   * Suppressed results are dismissed and results absent from the baseline are fixed
+   */
+  private mapState(result: SarifResult): ScanningResultBase['state'] {
+    const suppressed = (result.suppressions || []).some(suppression => suppression.status !== 'rejected');
+    if (suppressed) {
+      return 'dismissed';
+    }
+    return result.baselineState === 'absent' ? 'fixed' : 'open';
+  }
+
+  private parseSecuritySeverity(value: any): number | undefined {
+    if (value === undefined || value === null || value === '') {
+      return undefined;
+    }
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : undefined;
+  }
+}
@@ -0,0 +1,51 @@
+/**
+ * Branch glob patterns such as release/* resolved against a repository's branch list
+ */
+
+/**
+ * True when a branch entry contains glob characters and must be matched against the branch list
+ */
+export function isBranchPattern(branch: string): boolean {
+  return /[*?[]/.test(branch);
+}
+
+/**
+ * Converts a branch glob to a regular expression: * matches within a path segment, ** across segments,
+ * ? matches one character and [...] a character class
+ */
+export function branchPatternToRegExp(pattern: string): RegExp {
+  let source = '';
+  for (let index = 0; index < pattern.length; index++) {
+    const char = pattern[index];
+    if (char === '*' && pattern[index + 1] === '*') {
+      source += '.*';
+      index++;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[' && pattern.indexOf(']', index + 1) > index + 1) {
+      const end = pattern.indexOf(']', index + 1);
+      source += `[${pattern.slice(index + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\')}]`;
+      index = end;
+    } else {
+      source += char.replace(/[.+^${}()|\\\]]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Expands the patterns in a branch list against the repository's branches, keeping literal names as they are.
+ * The result keeps the order of the entries, with the branches matched by a pattern sorted by name, and no duplicates.
+ */
+export function resolveBranchPatterns(entries: string[], availableBranches: string[]): string[] {
+  const resolved: string[] = [];
+  entries.forEach(entry => {
+    const matches = isBranchPattern(entry)
+      ? availableBranches.filter(branch => branchPatternToRegExp(entry).test(branch)).sort()
+      : [entry];
+    matches.filter(branch => !resolved.includes(branch)).forEach(branch => resolved.push(branch));
+  });
+  return resolved;
+}
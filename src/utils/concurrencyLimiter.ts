@@ -0,0 +1,35 @@
+/**
+ * Caps the number of tasks in flight against one API provider
+ */
+export class ConcurrencyLimiter {
+  readonly limit: number;
+  private active = 0;
+  private readonly queue: Array<() => void> = [];
+
+  constructor(limit: number) {
+    this.limit = Math.max(1, Math.floor(limit));
+  }
+
+  /**
+   * Runs the task once a slot is free; tasks start in the order they were submitted
+   */
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    if (this.active >= this.limit) {
+      await new Promise<void>(resolve => this.queue.push(resolve));
+    } else {
+      this.active++;
+    }
+
+    try {
+      return await task();
+    } finally {
+      // Hand the slot straight to the next queued task so a newcomer cannot overtake it
+      const next = this.queue.shift();
+      if (next) {
+        next();
+      } else {
+        this.active--;
+      }
+    }
+  }
+}
@@ -0,0 +1,89 @@
+/**
+ * Exports the flattened findings as RFC 4180 CSV
+ */
+import { Finding } from '../interfaces/finding.interface';
+import { MultiApplicationAggregatedScanningResult } from '../interfaces/scanning-result.interface';
+import { AppliedSuppression } from '../interfaces/suppression.interface';
+import { getViolatedRules } from './policy';
+import { flattenFindings, getFindingKey } from './reportData';
+import { SLA_STATUS_LABELS } from './sla';
+
+type CsvValue = string | number | undefined;
+
+interface CsvColumn {
+  header: string;
+  // violatedRules: failed policy rules by finding key
+  value: (item: Finding, violatedRules: Map<string, string[]>) => CsvValue;
+}
+
+const CSV_COLUMNS: CsvColumn[] = [
+  { header: 'Application', value: item => item.application },
+  { header: 'Branch', value: item => item.branch },
+  { header: 'Branches', value: item => item.branches?.join('; ') },
+  { header: 'Tool', value: item => item.tool },
+  { header: 'Scanner', value: item => item.toolName },
+  { header: 'Reported By', value: item => item.reportedBy.map(source => source.tool).join('; ') },
+  { header: 'Type', value: item => item.type },
+  { header: 'ID', value: item => item.id },
+  { header: 'Name', value: item => item.name },
+  { header: 'Severity', value: item => item.severity },
+  { header: 'State', value: item => item.state },
+  { header: 'Age (Days)', value: item => item.sla?.ageDays },
+  { header: 'SLA Due', value: item => item.sla?.dueDate.toISOString().slice(0, 10) },
+  { header: 'SLA Status', value: item => item.sla && SLA_STATUS_LABELS[item.sla.status] },
+  { header: 'Fixed At', value: item => item.fixedAt?.toISOString() },
+  { header: 'Dismissed At', value: item => item.dismissedAt?.toISOString() },
+  { header: 'Dismissed By', value: item => item.dismissedBy },
+  { header: 'Dismissed Reason', value: item => item.dismissedReason },
+  { header: 'Dismissed Comment', value: item => item.dismissedComment },
+  { header: 'Package', value: item => item.package?.name },
+  { header: 'Version', value: item => item.package?.version },
+  { header: 'Fixed Version', value: item => item.package?.fixedVersion },
+  { header: 'CVE', value: item => item.advisory?.cveId },
+  { header: 'CVSS', value: item => item.cvss },
+  { header: 'Rule', value: item => item.rule?.id || item.advisory?.id },
+  { header: 'File', value: item => item.location?.filePath },
+  { header: 'Line', value: item => item.location?.startLine },
+  { header: 'URL', value: item => item.url },
+  { header: 'Simulated', value: item => item.simulated ? 'yes' : undefined },
+  { header: 'Suppression', value: item => item.suppression && formatSuppression(item.suppression) },
+  { header: 'Policy Violations', value: (item, violatedRules) => violatedRules.get(getFindingKey(item))?.join('; ') }
+];
+
+// Cells starting with these characters are evaluated as formulas by spreadsheet applications
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * Renders one CSV row per finding, with a header row and CRLF line endings
+ */
+export function renderCsvReport(data: MultiApplicationAggregatedScanningResult): string {
+  const violatedRules = getViolatedRules(data.policy);
+  const rows = [
+    CSV_COLUMNS.map(column => column.header),
+    ...flattenFindings(data).map(item => CSV_COLUMNS.map(column => column.value(item, violatedRules)))
+  ];
+
+  return `${rows.map(row => row.map(formatCsvValue).join(',')).join('\r\n')}\r\n`;
+}
+
+/**
+ * Quotes a value when it contains a comma, quote or line break, doubling embedded quotes
+ */
+export function formatCsvValue(value: CsvValue): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+
+  let text = String(value);
+  if (typeof value === 'string' && FORMULA_PREFIX.test(text)) {
+    text = `'${text}`;
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// e.g. "CVE-ACCEPT-1 (accepted-risk) until 2026-12-31", flagged when the entry has expired
+function formatSuppression(suppression: AppliedSuppression): string {
+  const state = suppression.expired ? `${suppression.status}, expired` : suppression.status;
+  return `${suppression.id} (${state}) until ${suppression.expires.toISOString().slice(0, 10)}`;
+}
@@ -0,0 +1,198 @@
+/**
+ * Adapters from each provider's result shape to the normalized Finding
+ */
+import { Finding, FindingType, ProviderResultPayload } from '../interfaces/finding.interface';
+import {
+  AggregatedScanningResult,
+  AlertCategory,
+  AzureDevOpsScanningResult,
+  GitHubScanningResult,
+  ProviderScanningResult,
+  SarifScanningResult,
+  ScanningResultBase
+} from '../interfaces/scanning-result.interface';
+import { getFindingFingerprint, mergeDuplicateFindings, toFindingSource } from './findingFingerprint';
+
+// A single tool's finding, before it is fingerprinted and assigned to an application and branch
+export type AdaptedFinding = Omit<Finding, 'application' | 'branch' | 'branches' | 'fingerprint' | 'reportedBy'>;
+
+// The finding type of each kind of alert
+export const FINDING_TYPES: Record<AlertCategory, FindingType> = {
+  'code-scanning': 'Code Scanning',
+  'dependency-scanning': 'Dependency Scanning',
+  'secret-scanning': 'Secret Scanning'
+};
+
+/**
+ * Every finding of one application and branch: GitHub, Azure DevOps, other providers, then SARIF imports.
+ * The same issue reported by several tools is merged into one finding.
+ */
+export function toFindings(app: AggregatedScanningResult): Finding[] {
+  const findings: AdaptedFinding[] = [
+    ...app.githubResults.codeScanning.map(fromGitHubResult),
+    ...app.githubResults.dependencyScanning.map(fromGitHubResult),
+    ...app.azureDevOpsResults.codeScanning.map(fromAzureDevOpsResult),
+    ...app.azureDevOpsResults.dependencyScanning.map(fromAzureDevOpsResult),
+    ...Object.values(app.providerResults || {}).flatMap(results =>
+      [...results.codeScanning, ...results.dependencyScanning, ...results.secretScanning]
+        .map(result => fromProviderResult(result, results.provider))),
+    ...(app.sarifResults?.codeScanning || []).map(fromSarifResult)
+  ];
+
+  return mergeDuplicateFindings(findings.map(finding => ({
+    ...finding,
+    application: app.applicationName,
+    branch: app.branchName,
+    fingerprint: getFindingFingerprint(finding),
+    reportedBy: [toFindingSource(finding)]
+  })));
+}
+
+/**
+ * GitHub code scanning and Dependabot alerts; the advisory of a Dependabot alert is its rule
+ */
+export function fromGitHubResult(result: GitHubScanningResult): AdaptedFinding {
+  const isDependency = result.category === 'dependency-scanning';
+  return {
+    ...getCommonFields(result),
+    tool: 'GitHub',
+    toolName: result.toolName,
+    type: FINDING_TYPES[result.category],
+    rule: isDependency ? undefined : {
+      id: result.ruleId,
+      name: result.ruleName,
+      description: result.ruleDescription,
+      severity: result.ruleSeverity
+    },
+    location: result.filePath ? {
+      filePath: result.filePath,
+      startLine: result.startLine,
+      endLine: result.endLine,
+      startColumn: result.startColumn,
+      endColumn: result.endColumn,
+      snippet: result.codeSnippet
+    } : undefined,
+    package: isDependency && result.packageName ? {
+      name: result.packageName,
+      version: result.version,
+      fixedVersion: result.fixedVersion,
+      ecosystem: result.ecosystem
+    } : undefined,
+    advisory: isDependency ? { id: result.ruleId || undefined, cveId: result.cveId } : undefined,
+    cwes: result.cwes || [],
+    cvss: result.cvss,
+    tags: result.tags || []
+  };
+}
+
+/**
+ * Azure DevOps Advanced Security alerts; the vulnerability id is only a CVE when it looks like one
+ */
+export function fromAzureDevOpsResult(result: AzureDevOpsScanningResult): AdaptedFinding {
+  const isDependency = result.category === 'dependency-scanning';
+  const cveId = result.vulnerabilityId?.startsWith('CVE-') ? result.vulnerabilityId : undefined;
+  return {
+    ...getCommonFields(result),
+    tool: 'Azure DevOps',
+    toolName: result.toolName,
+    type: FINDING_TYPES[result.category],
+    rule: isDependency ? undefined : {
+      id: result.ruleId,
+      name: result.ruleName,
+      description: result.ruleDescription,
+      severity: result.ruleSeverity
+    },
+    location: result.filePath ? {
+      filePath: result.filePath,
+      startLine: result.line,
+      startColumn: result.column,
+      snippet: result.snippet
+    } : undefined,
+    package: isDependency && result.package ? {
+      name: result.package,
+      version: result.packageVersion,
+      fixedVersion: result.fixedVersion
+    } : undefined,
+    advisory: isDependency
+      ? { id: result.advisoryId || (cveId ? undefined : result.vulnerabilityId), cveId }
+      : undefined,
+    cwes: [],
+    cvss: result.cvssScore,
+    tags: []
+  };
+}
+
+/**
+ * Results imported from SARIF files, labelled with the tool that produced them
+ */
+export function fromSarifResult(result: SarifScanningResult): AdaptedFinding {
+  return {
+    ...getCommonFields(result),
+    tool: `SARIF (${result.toolName})`,
+    toolName: result.toolName,
+    type: 'Code Scanning',
+    rule: {
+      id: result.ruleId,
+      name: result.ruleName,
+      description: result.ruleDescription,
+      severity: result.ruleSeverity
+    },
+    location: result.filePath ? {
+      filePath: result.filePath,
+      startLine: result.startLine,
+      endLine: result.endLine,
+      startColumn: result.startColumn,
+      endColumn: result.endColumn,
+      snippet: result.codeSnippet
+    } : undefined,
+    cwes: result.cwes || [],
+    cvss: result.securitySeverity,
+    tags: result.tags || [],
+    partialFingerprints: result.partialFingerprints
+  };
+}
+
+/**
+ * Results of scanning providers loaded from modules
+ */
+export function fromProviderResult(result: ProviderScanningResult, provider: string): AdaptedFinding {
+  const isDependency = result.category === 'dependency-scanning';
+  return {
+    ...getCommonFields(result),
+    tool: provider,
+    toolName: result.toolName,
+    type: FINDING_TYPES[result.category],
+    rule: result.ruleId && !isDependency ? { id: result.ruleId } : undefined,
+    location: result.filePath ? { filePath: result.filePath, startLine: result.startLine } : undefined,
+    package: result.packageName ? {
+      name: result.packageName,
+      version: result.version,
+      fixedVersion: result.fixedVersion
+    } : undefined,
+    advisory: isDependency ? { id: result.ruleId, cveId: result.cveId } : undefined,
+    cwes: [],
+    tags: [],
+    secretType: result.secretType
+  };
+}
+
+// Fields every result has
+function getCommonFields(result: ProviderResultPayload) {
+  const base: ScanningResultBase = result;
+  return {
+    id: base.id,
+    name: base.name,
+    severity: base.severity,
+    description: base.description,
+    state: base.state,
+    createdAt: base.createdAt,
+    fixedAt: base.fixedAt,
+    dismissedAt: base.dismissedAt,
+    dismissedBy: base.dismissedBy,
+    dismissedReason: base.dismissedReason,
+    dismissedComment: base.dismissedComment,
+    url: base.url,
+    simulated: base.simulated,
+    raw: result
+  };
+}
@@ -0,0 +1,115 @@
+/**
+ * Stable fingerprints for findings, used to merge the same issue reported by several tools
+ */
+import crypto from 'crypto';
+import { FindingSource } from '../interfaces/finding.interface';
+import { AdaptedFinding } from './findingAdapters';
+import { SEVERITIES } from './reportData';
+
+type FingerprintedFinding = AdaptedFinding & { fingerprint: string, reportedBy: FindingSource[] };
+
+// Code findings under the same rule and file are the same issue when their lines fall in the same fixed bucket
+// of this many lines (1-5, 6-10, ...). Buckets keep the fingerprint stable across runs, at the cost of splitting
+// findings on neighbouring lines across a bucket boundary, such as lines 5 and 6.
+export const LINE_BUCKET_SIZE = 5;
+
+/**
+ * Fingerprint of a finding that does not depend on the tool or alert id:
+ * package and advisory for dependencies; rule, file and line bucket (or snippet) for code and secrets
+ */
+export function getFindingFingerprint(finding: AdaptedFinding): string {
+  return hash(getFingerprintParts(finding) || [finding.type, finding.tool, finding.id]);
+}
+
+/**
+ * Merges findings of different tools with the same fingerprint into the first one, which keeps every source
+ * in reportedBy, the highest severity and the open state when any source still reports the issue as open.
+ * Alerts of one tool are never merged with each other: a second alert with the same fingerprint gets its own,
+ * derived from its alert id. Dependency findings of two versions of a package, when both tools report a version,
+ * are not merged either.
+ */
+export function mergeDuplicateFindings<T extends FingerprintedFinding>(findings: T[]): T[] {
+  const merged = new Map<string, T>();
+
+  findings.forEach(item => {
+    const finding = withVersionFingerprint(item, merged.get(item.fingerprint));
+    const existing = merged.get(finding.fingerprint);
+    if (!existing) {
+      merged.set(finding.fingerprint, { ...finding, reportedBy: [...finding.reportedBy] });
+      return;
+    }
+    if (existing.reportedBy.some(source => source.tool === finding.tool)) {
+      const fingerprint = hash([finding.fingerprint, finding.tool, finding.id]);
+      merged.set(fingerprint, { ...finding, fingerprint, reportedBy: [...finding.reportedBy] });
+      return;
+    }
+
+    existing.reportedBy.push(...finding.reportedBy);
+    if (SEVERITIES.indexOf(finding.severity) < SEVERITIES.indexOf(existing.severity)) {
+      existing.severity = finding.severity;
+    }
+    if (finding.state === 'open') {
+      existing.state = 'open';
+    }
+    if (finding.createdAt < existing.createdAt) {
+      existing.createdAt = finding.createdAt;
+    }
+    if (existing.package && finding.package) {
+      existing.package = {
+        ...existing.package,
+        version: existing.package.version || finding.package.version,
+        fixedVersion: existing.package.fixedVersion || finding.package.fixedVersion
+      };
+    }
+  });
+
+  return Array.from(merged.values());
+}
+
+/**
+ * The source of a finding, as listed in its reportedBy
+ */
+export function toFindingSource(finding: AdaptedFinding): FindingSource {
+  return { tool: finding.tool, toolName: finding.toolName, id: finding.id, url: finding.url, state: finding.state };
+}
+
+/**
+ * Dependabot alerts have no installed version, so dependency fingerprints leave the version out; a finding whose
+ * version differs from the one already fingerprinted gets a fingerprint of its own, derived from its version
+ */
+function withVersionFingerprint<T extends FingerprintedFinding>(finding: T, existing: T | undefined): T {
+  const version = finding.package?.version;
+  const existingVersion = existing?.package?.version;
+  return version && existingVersion && version !== existingVersion
+    ? { ...finding, fingerprint: hash([finding.fingerprint, version]) }
+    : finding;
+}
+
+function getFingerprintParts(finding: AdaptedFinding): string[] | undefined {
+  if (finding.type === 'Dependency Scanning') {
+    const advisory = finding.advisory?.cveId?.toUpperCase() || finding.advisory?.id?.toUpperCase();
+    return finding.package && advisory ? [finding.type, finding.package.name.toLowerCase(), advisory] : undefined;
+  }
+
+  const rule = finding.type === 'Secret Scanning' ? finding.secretType || finding.rule?.id : finding.rule?.id;
+  if (!rule || !finding.location) {
+    return undefined;
+  }
+
+  const { startLine, snippet } = finding.location;
+  const position = startLine
+    ? `L${Math.floor((startLine - 1) / LINE_BUCKET_SIZE)}`
+    : snippet ? `S${snippet.replace(/\s+/g, ' ').trim()}` : '';
+  return [finding.type, rule, normalizePath(finding.location.filePath), position];
+}
+
+/**
+ * Paths from different tools differ in separators and leading ./ or /
+ */
+export function normalizePath(filePath: string): string {
+  return filePath.replace(/\\/g, '/').replace(/^(\.\/|\/)+/, '');
+}
+
+function hash(parts: string[]): string {
+  return crypto.createHash('sha256').update(parts.join('\u0000')).digest('hex').slice(0, 32);
+}
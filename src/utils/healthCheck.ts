@@ -0,0 +1,18 @@
+/**
+ * Helpers for the checks doctor runs before a scan
+ */
+import { ProviderHealthCheck } from '../interfaces/scanning-provider.interface';
+
+/**
+ * Runs one check, synchronous or not, turning a failure into a FAIL result with the error message
+ */
+export async function runHealthCheck(
+  name: string,
+  check: () => string | Promise<string>
+): Promise<ProviderHealthCheck> {
+  try {
+    return { name, status: 'PASS', detail: await check() };
+  } catch (error: any) {
+    return { name, status: 'FAIL', detail: error.message };
+  }
+}
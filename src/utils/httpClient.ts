@@ -0,0 +1,218 @@
+/**
+ * Shared HTTP client for the scanning services with rate-limit awareness, retries and backoff
+ */
+import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse } from 'axios';
+import { HttpRetryOptions } from '../interfaces/scanning-result.interface';
+import { Logger } from './logger';
+import { HttpProvider, RateLimitTracker } from './rateLimitTracker';
+
+export interface HttpClientParams extends Partial<HttpRetryOptions> {
+  provider: HttpProvider;
+  baseURL: string;
+  headers?: Record<string, string>;
+  sleep?: (ms: number) => Promise<void>; // overridable for tests
+}
+
+export const DEFAULT_HTTP_RETRY_OPTIONS: HttpRetryOptions = {
+  timeout: 30000,
+  maxRetries: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+  maxRateLimitWaitMs: 300000
+};
+
+const TRANSIENT_STATUS_CODES = [500, 502, 503, 504];
+const SECONDARY_RATE_LIMIT_DEFAULT_WAIT_MS = 60000;
+
+export class HttpClient {
+  readonly provider: HttpProvider;
+  readonly baseURL: string;
+  private readonly client: AxiosInstance;
+  private readonly options: HttpRetryOptions;
+  private readonly sleep: (ms: number) => Promise<void>;
+
+  constructor(params: HttpClientParams) {
+    this.provider = params.provider;
+    this.baseURL = params.baseURL;
+    this.options = {
+      timeout: params.timeout ?? DEFAULT_HTTP_RETRY_OPTIONS.timeout,
+      maxRetries: params.maxRetries ?? DEFAULT_HTTP_RETRY_OPTIONS.maxRetries,
+      baseDelayMs: params.baseDelayMs ?? DEFAULT_HTTP_RETRY_OPTIONS.baseDelayMs,
+      maxDelayMs: params.maxDelayMs ?? DEFAULT_HTTP_RETRY_OPTIONS.maxDelayMs,
+      maxRateLimitWaitMs: params.maxRateLimitWaitMs ?? DEFAULT_HTTP_RETRY_OPTIONS.maxRateLimitWaitMs
+    };
+    this.sleep = params.sleep || (ms => new Promise(resolve => setTimeout(resolve, ms)));
+
+    this.client = axios.create({
+      baseURL: params.baseURL,
+      headers: params.headers,
+      timeout: this.options.timeout
+    });
+  }
+
+  /**
+   * Performs a GET request, waiting out rate limits and retrying transient failures
+   */
+  async get<T = any>(url: string, config: AxiosRequestConfig = {}): Promise<AxiosResponse<T>> {
+    for (let attempt = 0; ; attempt++) {
+      await this.waitForRateLimitPause();
+
+      try {
+        const response = await this.client.get<T>(url, config);
+        RateLimitTracker.recordResponse(this.provider, response.headers);
+        this.schedulePauseFromResponse(response.headers);
+        return response;
+      } catch (error: any) {
+        if (error.response) {
+          RateLimitTracker.recordResponse(this.provider, error.response.headers);
+        }
+
+        const retry = this.getRetryDelay(error, attempt);
+        if (retry === undefined || attempt >= this.options.maxRetries) {
+          throw toHttpError(error, this.provider);
+        }
+
+        RateLimitTracker.recordRetry(this.provider);
+        Logger.warn(`${this.provider} request to ${url} failed (${describeFailure(error)}), `
+          + `retrying in ${Math.round(retry.delay)}ms (attempt ${attempt + 1} of ${this.options.maxRetries})`);
+
+        if (retry.rateLimited) {
+          // Rate limits apply to the whole provider, so hold back every request, not just this one
+          RateLimitTracker.pauseUntil(this.provider, Date.now() + retry.delay);
+        } else {
+          RateLimitTracker.recordWait(this.provider, retry.delay);
+          await this.sleep(retry.delay);
+        }
+      }
+    }
+  }
+
+  /**
+   * Decides how long to wait before retrying a failed request, or undefined when it should not be retried
+   */
+  private getRetryDelay(error: any, attempt: number): { delay: number, rateLimited: boolean } | undefined {
+    if (!error.response) {
+      // Network errors and timeouts are transient unless the request could not even be set up
+      return error.request ? { delay: this.getBackoffDelay(attempt), rateLimited: false } : undefined;
+    }
+
+    const { status, headers = {}, data } = error.response;
+    const retryAfterMs = parseRetryAfter(headers['retry-after']);
+    const remaining = headers['x-ratelimit-remaining'];
+    const resetMs = headers['x-ratelimit-reset'] ? Number(headers['x-ratelimit-reset']) * 1000 - Date.now() : undefined;
+    const message = typeof data?.message === 'string' ? data.message.toLowerCase() : '';
+
+    let rateLimitDelay: number | undefined;
+    if (status === 429) {
+      rateLimitDelay = retryAfterMs ?? resetMs ?? this.getBackoffDelay(attempt);
+    } else if (status === 403 && message.includes('secondary rate limit')) {
+      rateLimitDelay = retryAfterMs ?? SECONDARY_RATE_LIMIT_DEFAULT_WAIT_MS;
+    } else if (status === 403 && remaining === '0') {
+      rateLimitDelay = retryAfterMs ?? resetMs;
+    }
+
+    if (rateLimitDelay !== undefined) {
+      RateLimitTracker.recordThrottle(this.provider);
+      const wait = Math.max(0, rateLimitDelay);
+      if (wait > this.options.maxRateLimitWaitMs) {
+        Logger.error(`${this.provider} rate limit requires waiting ${Math.round(wait / 1000)}s, `
+          + `which exceeds the configured maximum of ${Math.round(this.options.maxRateLimitWaitMs / 1000)}s`);
+        return undefined;
+      }
+      return { delay: wait, rateLimited: true };
+    }
+
+    if (TRANSIENT_STATUS_CODES.includes(status)) {
+      return { delay: retryAfterMs ?? this.getBackoffDelay(attempt), rateLimited: false };
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Exponential backoff with jitter: half the exponential delay plus a random share of the other half
+   */
+  private getBackoffDelay(attempt: number): number {
+    const exponential = Math.min(this.options.maxDelayMs, this.options.baseDelayMs * 2 ** attempt);
+    return exponential / 2 + Math.random() * (exponential / 2);
+  }
+
+  /**
+   * Honours throttling signalled on successful responses: an exhausted GitHub budget, or an
+   * Azure DevOps Retry-After sent when TSTU consumption nears the limit
+   */
+  private schedulePauseFromResponse(headers: Record<string, any> = {}): void {
+    const retryAfterMs = parseRetryAfter(headers['retry-after']);
+    const delayed = headers['x-ratelimit-delay'] !== undefined;
+
+    let pauseMs: number | undefined;
+    if (retryAfterMs !== undefined) {
+      pauseMs = retryAfterMs;
+    } else if (headers['x-ratelimit-remaining'] === '0' && headers['x-ratelimit-reset']) {
+      pauseMs = Number(headers['x-ratelimit-reset']) * 1000 - Date.now();
+    }
+
+    if (delayed || pauseMs !== undefined) {
+      RateLimitTracker.recordThrottle(this.provider);
+    }
+
+    if (pauseMs !== undefined && pauseMs > 0) {
+      const wait = Math.min(pauseMs, this.options.maxRateLimitWaitMs);
+      Logger.warn(`${this.provider} rate limit reached, pausing requests for ${Math.round(wait / 1000)}s`);
+      RateLimitTracker.pauseUntil(this.provider, Date.now() + wait);
+    }
+  }
+
+  private async waitForRateLimitPause(): Promise<void> {
+    const pauseMs = RateLimitTracker.getPauseMs(this.provider);
+    if (pauseMs > 0) {
+      RateLimitTracker.recordWait(this.provider, pauseMs);
+      await this.sleep(pauseMs);
+    }
+  }
+}
+
+/**
+ * Converts an axios failure into an Error with a provider-specific message
+ */
+export function toHttpError(error: any, provider: HttpProvider): Error {
+  let errorMsg: string;
+  if (error.response) {
+    // The request was made and the server responded with a status code
+    // that falls out of the range of 2xx
+    errorMsg = `${provider} API Error: ${error.response.status} - ${error.response.data?.message || error.message}`;
+  } else if (error.request) {
+    // The request was made but no response was received
+    errorMsg = `Network Error: No response received from ${provider} API`;
+  } else {
+    // Something happened in setting up the request that triggered an Error
+    errorMsg = `Request Setup Error: ${error.message}`;
+  }
+
+  Logger.error(errorMsg);
+  return new Error(errorMsg);
+}
+
+/**
+ * Parses a Retry-After header given either in seconds or as an HTTP date
+ */
+function parseRetryAfter(value: any): number | undefined {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return seconds * 1000;
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function describeFailure(error: any): string {
+  if (error.response) {
+    return `HTTP ${error.response.status}`;
+  }
+  return error.code || error.message || 'network error';
+}
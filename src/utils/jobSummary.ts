@@ -0,0 +1,22 @@
+/**
+ * Publishes the Markdown summary to the CI system the run is executing in
+ */
+import fs from 'fs';
+import path from 'path';
+import { Logger } from './logger';
+
+/**
+ * Appends the summary to $GITHUB_STEP_SUMMARY on GitHub Actions and uploads the file on Azure Pipelines
+ */
+export function publishJobSummary(filepath: string, markdown: string, env: NodeJS.ProcessEnv = process.env): void {
+  if (env.GITHUB_STEP_SUMMARY) {
+    fs.appendFileSync(env.GITHUB_STEP_SUMMARY, `${markdown}\n`);
+    Logger.info('Markdown summary added to the GitHub Actions job summary');
+  }
+
+  // Azure Pipelines sets TF_BUILD and picks up logging commands written to stdout
+  if (env.TF_BUILD) {
+    process.stdout.write(`##vso[task.uploadsummary]${path.resolve(filepath)}\n`);
+    Logger.info('Markdown summary uploaded to the Azure Pipelines run summary');
+  }
+}
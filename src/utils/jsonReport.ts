@@ -0,0 +1,92 @@
+/**
+ * Writes and re-loads the JSON report described by schemas/multi-app-report.schema.json
+ */
+import { MultiApplicationAggregatedScanningResult } from '../interfaces/scanning-result.interface';
+import { flattenFindings } from './reportData';
+import { summarizeRemediation } from './remediation';
+import { scoreApplications } from './riskScore';
+import { summarizeSlaCompliance } from './sla';
+
+export const REPORT_SCHEMA_VERSION = '1.9.0';
+export const REPORT_SCHEMA_ID = `urn:sast-dependency-analyzer:multi-app-report:${REPORT_SCHEMA_VERSION}`;
+
+// Every Date-typed field of the results, findings, suppressions and SLAs, written as ISO 8601 strings;
+// the JSON report and the run history turn them back into Date objects on load
+export const DATE_FIELDS = new Set([
+  'timestamp', 'createdAt', 'updatedAt', 'detectionDate', 'fixedAt', 'dismissedAt', 'expires', 'dueDate'
+]);
+
+/**
+ * JSON.parse reviver for DATE_FIELDS; strings that are not valid dates are kept as they are
+ */
+export function reviveDate(key: string, value: unknown): unknown {
+  if (DATE_FIELDS.has(key) && typeof value === 'string') {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? value : date;
+  }
+  return value;
+}
+
+/**
+ * Renders the aggregated results as a JSON report
+ */
+export function renderJsonReport(data: MultiApplicationAggregatedScanningResult): string {
+  const remediation = summarizeRemediation(flattenFindings(data));
+  // Top-level fields are listed explicitly so their order does not depend on how the result was assembled
+  const report = {
+    $schema: REPORT_SCHEMA_ID,
+    schemaVersion: REPORT_SCHEMA_VERSION,
+    timestamp: data.timestamp,
+    demoMode: data.demoMode,
+    summary: data.summary,
+    errors: data.errors,
+    discovery: data.discovery,
+    suppressions: data.suppressions,
+    policy: data.policy,
+    sla: data.sla && { ...data.sla, compliance: summarizeSlaCompliance(flattenFindings(data)) },
+    risk: data.riskModel && { model: data.riskModel, applications: scoreApplications(data, data.riskModel) },
+    remediation: remediation.total.fixed > 0 ? remediation : undefined,
+    applications: data.applications
+  };
+
+  return JSON.stringify(report, null, 2);
+}
+
+/**
+ * Parses a JSON report back into aggregated results, e.g. to regenerate the HTML report
+ */
+export function parseJsonReport(content: string): MultiApplicationAggregatedScanningResult {
+  let report: any;
+  try {
+    report = JSON.parse(content, reviveDate);
+  } catch (error: any) {
+    throw new Error(`Invalid JSON report: ${error.message}`);
+  }
+
+  if (!report || typeof report !== 'object' || typeof report.schemaVersion !== 'string') {
+    throw new Error('Invalid JSON report: missing schemaVersion');
+  }
+
+  const [major] = report.schemaVersion.split('.');
+  const [supportedMajor] = REPORT_SCHEMA_VERSION.split('.');
+  if (major !== supportedMajor) {
+    throw new Error(`Unsupported JSON report schema version ${report.schemaVersion}, expected ${supportedMajor}.x`);
+  }
+
+  if (!Array.isArray(report.applications) || !report.summary || !(report.timestamp instanceof Date)) {
+    throw new Error('Invalid JSON report: applications, summary and timestamp are required');
+  }
+
+  return {
+    applications: report.applications,
+    errors: report.errors || [],
+    discovery: report.discovery,
+    suppressions: report.suppressions,
+    policy: report.policy,
+    sla: report.sla && { days: report.sla.days, dueSoonDays: report.sla.dueSoonDays },
+    riskModel: report.risk?.model,
+    summary: report.summary,
+    demoMode: report.demoMode,
+    timestamp: report.timestamp
+  };
+}
@@ -0,0 +1,184 @@
+/**
+ * Exports findings as JUnit XML so CI test tabs can show them
+ */
+import { Finding, FindingSeverity } from '../interfaces/finding.interface';
+import { MultiApplicationAggregatedScanningResult } from '../interfaces/scanning-result.interface';
+import { formatPolicyCheck, formatPolicyGroup } from './policy';
+import { flattenFindings, formatApplicationLabel, getMultiBranchApplications, SEVERITIES } from './reportData';
+import { isSuppressed } from './suppressions';
+
+export interface JUnitOptions {
+  failureSeverity: FindingSeverity; // open findings at or above this severity fail
+}
+
+export const DEFAULT_JUNIT_OPTIONS: JUnitOptions = {
+  failureSeverity: 'high'
+};
+
+interface TestCase {
+  classname: string;
+  name: string;
+  outcome: 'passed' | 'failure' | 'skipped' | 'error';
+  message?: string;
+  body?: string;
+  failureType?: string; // default: SecurityFinding
+}
+
+/**
+ * Renders one test suite per application and one test case per finding, plus a Policy suite with one test case
+ * per policy check
+ */
+export function renderJUnitReport(
+  data: MultiApplicationAggregatedScanningResult,
+  options: Partial<JUnitOptions> = {}
+): string {
+  const { failureSeverity } = { ...DEFAULT_JUNIT_OPTIONS, ...options };
+  const items = flattenFindings(data);
+  const timestamp = data.timestamp.toISOString().replace(/\.\d{3}Z$/, '');
+
+  const multiBranchApplications = getMultiBranchApplications(data);
+  const suites = data.applications.map(app => ({
+    name: formatApplicationLabel(app.applicationName, app.branchName, multiBranchApplications),
+    cases: items
+      .filter(item => item.application === app.applicationName && item.branch === app.branchName)
+      .map(item => toTestCase(item, failureSeverity))
+  }));
+
+  // Applications that could not be scanned show up as errored suites
+  data.errors.forEach(error => {
+    suites.push({
+      name: error.applicationName,
+      cases: [{
+        classname: error.applicationName,
+        name: 'Scan application',
+        outcome: 'error',
+        message: error.error,
+        body: error.error
+      }]
+    });
+  });
+
+  if (data.policy) {
+    suites.push({
+      name: 'Policy',
+      cases: data.policy.checks.map(check => ({
+        classname: `policy.${check.rule}`,
+        name: `${check.rule} (${formatPolicyGroup(check)})`,
+        outcome: check.passed ? 'passed' : 'failure',
+        message: check.passed ? undefined : formatPolicyCheck(check),
+        body: check.passed ? undefined : [check.description, formatPolicyCheck(check)].filter(part => part).join('\n'),
+        failureType: 'PolicyViolation'
+      }))
+    });
+  }
+
+  const totals = countOutcomes(suites.flatMap(suite => suite.cases));
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="Security scanning" tests="${totals.tests}" failures="${totals.failures}" `
+      + `errors="${totals.errors}" skipped="${totals.skipped}" timestamp="${timestamp}">`
+  ];
+
+  suites.forEach((suite, index) => {
+    const counts = countOutcomes(suite.cases);
+    lines.push(`  <testsuite id="${index}" name="${escapeXml(suite.name)}" tests="${counts.tests}" `
+      + `failures="${counts.failures}" errors="${counts.errors}" skipped="${counts.skipped}" `
+      + `timestamp="${timestamp}">`);
+    suite.cases.forEach(testCase => lines.push(...renderTestCase(testCase)));
+    lines.push('  </testsuite>');
+  });
+
+  lines.push('</testsuites>');
+  return `${lines.join('\n')}\n`;
+}
+
+function toTestCase(item: Finding, failureSeverity: FindingSeverity): TestCase {
+  const testCase: TestCase = {
+    classname: `${item.application}.${item.tool}.${item.type}`,
+    name: `[${item.severity.toUpperCase()}] ${item.name} (${item.id})`,
+    outcome: 'passed'
+  };
+
+  // Simulated demo findings never fail the build
+  if (item.simulated) {
+    return { ...testCase, name: `[DEMO] ${testCase.name}`, outcome: 'skipped', message: 'Simulated demo data' };
+  }
+  if (isSuppressed(item)) {
+    const { status, approvedBy, expires, justification } = item.suppression;
+    const until = expires.toISOString().slice(0, 10);
+    const message = `Suppressed (${status}, approved by ${approvedBy} until ${until}): ${justification}`;
+    return { ...testCase, outcome: 'skipped', message };
+  }
+  if (item.state === 'dismissed') {
+    return { ...testCase, outcome: 'skipped', message: 'Dismissed' };
+  }
+
+  const failing = SEVERITIES.indexOf(item.severity) <= SEVERITIES.indexOf(failureSeverity);
+  if (item.state === 'open' && failing) {
+    return { ...testCase, outcome: 'failure', message: item.name, body: getFailureBody(item) };
+  }
+
+  return testCase;
+}
+
+function getFailureBody(item: Finding): string {
+  const { location, package: pkg } = item;
+  const version = pkg?.version ? `@${pkg.version}` : '';
+  const fixedIn = pkg?.fixedVersion ? ` (fixed in ${pkg.fixedVersion})` : '';
+
+  return [
+    item.description,
+    `Severity: ${item.severity}`,
+    pkg ? `Package: ${pkg.name}${version}${fixedIn}` : '',
+    location ? `Location: ${location.filePath}${location.startLine ? `:${location.startLine}` : ''}` : '',
+    item.url ? `Link: ${item.url}` : ''
+  ].filter(part => part).join('\n');
+}
+
+function renderTestCase(testCase: TestCase): string[] {
+  const open = `    <testcase classname="${escapeXml(testCase.classname)}" name="${escapeXml(testCase.name)}"`;
+  const message = escapeXml(testCase.message || '');
+  const body = escapeXml(testCase.body || '');
+  const failureType = testCase.failureType || 'SecurityFinding';
+
+  switch (testCase.outcome) {
+    case 'failure':
+      return [
+        `${open}>`,
+        `      <failure message="${message}" type="${failureType}">${body}</failure>`,
+        '    </testcase>'
+      ];
+    case 'error':
+      return [`${open}>`, `      <error message="${message}" type="ScanError">${body}</error>`, '    </testcase>'];
+    case 'skipped':
+      return [`${open}>`, `      <skipped message="${message}"/>`, '    </testcase>'];
+    default:
+      return [`${open}/>`];
+  }
+}
+
+function countOutcomes(cases: TestCase[]) {
+  return {
+    tests: cases.length,
+    failures: cases.filter(testCase => testCase.outcome === 'failure').length,
+    errors: cases.filter(testCase => testCase.outcome === 'error').length,
+    skipped: cases.filter(testCase => testCase.outcome === 'skipped').length
+  };
+}
+
+/**
+ * Escapes XML special characters and drops control characters XML 1.0 does not allow
+ */
+function escapeXml(value: string): string {
+  return [...value]
+    .filter(char => {
+      const code = char.charCodeAt(0);
+      return code === 9 || code === 10 || code === 13 || code >= 32;
+    })
+    .join('')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
@@ -0,0 +1,327 @@
+/**
+ * Renders a compact Markdown summary for CI job summaries and pull request comments
+ */
+import { Finding, FindingSeverity } from '../interfaces/finding.interface';
+import { RemediationSummary } from '../interfaces/remediation.interface';
+import { MultiApplicationAggregatedScanningResult } from '../interfaces/scanning-result.interface';
+import { formatPolicyGroup } from './policy';
+import {
+  flattenFindings,
+  formatApplicationLabel,
+  getFindingKey,
+  getMultiBranchApplications,
+  SEVERITIES
+} from './reportData';
+import { explainRiskScore, scoreApplications } from './riskScore';
+import { formatRemediationTime, summarizeRemediation } from './remediation';
+import { formatSlaSettings, SLA_STATUS_LABELS, summarizeSlaCompliance } from './sla';
+import { getExpiredSuppressions, isSuppressed } from './suppressions';
+
+export interface MarkdownSummaryOptions {
+  topFindings: number; // number of open critical/high findings listed
+  maxLength: number; // characters; sections are truncated with an "N more" footer beyond this
+}
+
+// GitHub rejects issue and pull request comments longer than 65536 characters
+export const DEFAULT_MARKDOWN_OPTIONS: MarkdownSummaryOptions = {
+  topFindings: 10,
+  maxLength: 65536
+};
+
+/**
+ * Renders severity totals, the policy checks, SLA compliance, the risk leaderboard, mean time to remediate, a
+ * per-application table, the top critical/high findings, suppressed findings, the repositories skipped by discovery
+ * and failed applications
+ */
+export function renderMarkdownSummary(
+  data: MultiApplicationAggregatedScanningResult,
+  options: Partial<MarkdownSummaryOptions> = {}
+): string {
+  const { topFindings, maxLength } = { ...DEFAULT_MARKDOWN_OPTIONS, ...options };
+  const allItems = flattenFindings(data);
+  const items = allItems.filter(item => !isSuppressed(item));
+  const suppressedItems = allItems.filter(isSuppressed);
+  // Fixed and dismissed findings are listed in the other formats but left out of the totals
+  const openItems = items.filter(item => item.state === 'open');
+  const closedCount = items.length - openItems.length;
+  const expiredSuppressions = getExpiredSuppressions(data.suppressions, data.timestamp);
+  // A finding reported on several branches of an application is counted once in the totals
+  const severityCounts = countBySeverity(uniqueFindings(openItems));
+  const slaCompliance = data.sla ? summarizeSlaCompliance(items) : undefined;
+
+  const header = [
+    '## Security Scanning Summary',
+    '',
+    `Generated ${data.timestamp.toISOString()} for ${data.summary.totalApplications} application(s).`,
+    ''
+  ];
+  if (data.demoMode) {
+    header.push('> **Demo data:** this run contains simulated findings that do not come from a real scan.', '');
+  }
+  if (expiredSuppressions.length > 0) {
+    const ids = expiredSuppressions.map(suppression => escapeCell(suppression.id)).join(', ');
+    header.push(
+      `> **Expired suppressions:** ${ids} expired; `
+        + 'the findings they match count again until they are renewed or removed.',
+      ''
+    );
+  }
+  if (data.policy) {
+    const failedChecks = data.policy.checks.filter(check => !check.passed).length;
+    header.push(data.policy.passed
+      ? `**Policy: PASSED**, all ${data.policy.checks.length} check(s) passed.`
+      : `> **Policy: FAILED**, ${failedChecks} of ${data.policy.checks.length} check(s) failed.`, '');
+  }
+  if (slaCompliance && slaCompliance.total.breached > 0) {
+    const { breached, compliance } = slaCompliance.total;
+    header.push(
+      `> **SLA breaches:** ${breached} open finding(s) are past their remediation deadline; `
+        + `${compliance}% SLA compliance.`,
+      ''
+    );
+  }
+  if (data.discovery) {
+    const { discovered, skipped } = data.discovery;
+    header.push(`Discovery found ${discovered.length} repositories to scan and skipped ${skipped.length}.`, '');
+  }
+  header.push(
+    '| Severity | Count |',
+    '| --- | ---: |',
+    ...SEVERITIES.map(severity => `| ${capitalize(severity)} | ${severityCounts[severity]} |`),
+    `| **Total** | **${SEVERITIES.reduce((sum, severity) => sum + severityCounts[severity], 0)}** |`,
+    ''
+  );
+  if (suppressedItems.length > 0) {
+    header.push(`${suppressedItems.length} suppressed finding(s) are not counted.`, '');
+  }
+  if (closedCount > 0) {
+    header.push(`${closedCount} fixed or dismissed finding(s) are not counted.`, '');
+  }
+
+  const multiBranchApplications = getMultiBranchApplications(data);
+  const applicationRows = data.applications.map(app => {
+    const appItems = openItems.filter(item =>
+      item.application === app.applicationName && item.branch === app.branchName);
+    const counts = countBySeverity(appItems);
+    const total = SEVERITIES.reduce((sum, severity) => sum + counts[severity], 0);
+    const label = formatApplicationLabel(app.applicationName, app.branchName, multiBranchApplications);
+    return `| ${escapeCell(label)} | ${SEVERITIES.map(severity => counts[severity]).join(' | ')} | ${total} |`;
+  });
+
+  const findings = openItems
+    .filter(item => item.severity === 'critical' || item.severity === 'high')
+    .sort((a, b) => SEVERITIES.indexOf(a.severity) - SEVERITIES.indexOf(b.severity));
+  const findingRows = findings.slice(0, topFindings).map(item => {
+    const name = item.url ? `[${escapeCell(item.name)}](${item.url})` : escapeCell(item.name);
+    const location = item.package?.name || item.location?.filePath || '';
+    const application = formatApplicationLabel(item.application, item.branch, multiBranchApplications);
+    const tools = item.reportedBy.map(source => source.tool).join(', ');
+    const cells = [capitalize(item.severity), escapeCell(application), escapeCell(tools), name, escapeCell(location)];
+    if (item.sla) {
+      cells.push(`${SLA_STATUS_LABELS[item.sla.status]}, due ${formatDate(item.sla.dueDate)}`);
+    } else if (data.sla) {
+      cells.push('');
+    }
+    return tableRow(cells);
+  });
+
+  const suppressedRows = suppressedItems.map(item => {
+    const application = formatApplicationLabel(item.application, item.branch, multiBranchApplications);
+    const { id, status, justification, approvedBy, expires } = item.suppression;
+    return tableRow([
+      capitalize(item.severity),
+      escapeCell(application),
+      escapeCell(item.name),
+      `${escapeCell(id)} (${status})`,
+      escapeCell(justification),
+      escapeCell(approvedBy),
+      formatDate(expires)
+    ]);
+  });
+
+  // Failed checks first
+  const policyRows = [...(data.policy?.checks || [])]
+    .sort((a, b) => Number(a.passed) - Number(b.passed))
+    .map(check => tableRow([
+      check.passed ? 'Passed' : '**Failed**',
+      escapeCell(check.rule),
+      escapeCell(formatPolicyGroup(check)),
+      check.findings,
+      check.maxFindings,
+      escapeCell(check.description || '')
+    ]));
+
+  // Least compliant applications first
+  const slaRows = [...(slaCompliance?.applications || [])]
+    .sort((a, b) => a.compliance - b.compliance)
+    .map(counts => tableRow([
+      escapeCell(counts.application),
+      counts.within,
+      counts.dueSoon,
+      counts.breached,
+      `${counts.compliance}%`
+    ]));
+  if (slaCompliance && slaRows.length > 0) {
+    const { within, dueSoon, breached, compliance } = slaCompliance.total;
+    slaRows.push(`| **Total** | **${within}** | **${dueSoon}** | **${breached}** | **${compliance}%** |`);
+  }
+
+  const riskRows = (data.riskModel ? scoreApplications(data, data.riskModel) : []).map(score => tableRow([
+    score.rank,
+    escapeCell(score.application),
+    score.score,
+    score.findings,
+    escapeCell(score.exposureTags.join(', ')),
+    escapeCell(explainRiskScore(score).join('; '))
+  ]));
+
+  const remediation = summarizeRemediation(allItems);
+  const remediationSeverities = SEVERITIES.filter(severity => remediation.total.severities[severity]);
+  const remediationCells = (summary: RemediationSummary) =>
+    remediationSeverities.map(severity => formatRemediationTime(summary.severities[severity]));
+  const remediationRows = remediation.total.fixed > 0 ? [
+    ...remediation.applications.map(summary =>
+      tableRow([escapeCell(summary.application), formatRemediationTime(summary), ...remediationCells(summary)])),
+    tableRow(['**Total**', `**${formatRemediationTime(remediation.total)}**`, ...remediationCells(remediation.total)])
+  ] : [];
+
+  const skippedRows = (data.discovery?.skipped || []).map(repository =>
+    `| ${escapeCell(repository.repository)} | ${repository.provider} | ${escapeCell(repository.reason || '')} |`);
+
+  const errorLines = data.errors.map(error => `- **${escapeCell(error.applicationName)}**: ${escapeCell(error.error)}`);
+
+  let output = header.join('\n');
+  let budget = maxLength - output.length;
+
+  const appendSection = (title: string, tableHeader: string[], lines: string[], noun: string, hidden = 0): void => {
+    const section = fitLines([`### ${title}`, '', ...tableHeader], lines, noun, budget, hidden);
+    output += `\n${section}`;
+    budget -= section.length + 1;
+  };
+
+  if (policyRows.length > 0) {
+    appendSection('Policy', [
+      '| Status | Rule | Scope | Findings | Allowed | Description |',
+      '| --- | --- | --- | ---: | ---: | --- |'
+    ], policyRows, 'policy checks');
+  }
+
+  if (data.sla && slaRows.length > 0) {
+    appendSection(`SLA Compliance (${formatSlaSettings(data.sla)})`, [
+      '| Application | Within SLA | Due Soon | Breached | Compliance |',
+      '| --- | ---: | ---: | ---: | ---: |'
+    ], slaRows, 'applications');
+  }
+
+  if (riskRows.length > 0) {
+    appendSection('Risk Leaderboard', [
+      '| Rank | Application | Score | Open Findings | Exposure | Breakdown |',
+      '| ---: | --- | ---: | ---: | --- | --- |'
+    ], riskRows, 'applications');
+  }
+
+  if (remediationRows.length > 0) {
+    appendSection('Mean Time to Remediate', [
+      `| Application | All Severities | ${remediationSeverities.map(capitalize).join(' | ')} |`,
+      `| --- | ---: | ${remediationSeverities.map(() => '---:').join(' | ')} |`
+    ], remediationRows, 'applications');
+  }
+
+  if (applicationRows.length > 0) {
+    appendSection('Applications', [
+      `| Application | ${SEVERITIES.map(capitalize).join(' | ')} | Total |`,
+      `| --- | ${SEVERITIES.map(() => '---:').join(' | ')} | ---: |`
+    ], applicationRows, 'applications');
+  }
+
+  if (findingRows.length > 0) {
+    appendSection(`Top ${findingRows.length} Critical/High Findings`, data.sla ? [
+      '| Severity | Application | Reported By | Finding | Location | SLA |',
+      '| --- | --- | --- | --- | --- | --- |'
+    ] : [
+      '| Severity | Application | Reported By | Finding | Location |',
+      '| --- | --- | --- | --- | --- |'
+    ], findingRows, 'critical/high findings', findings.length - findingRows.length);
+  }
+
+  if (suppressedRows.length > 0) {
+    appendSection('Suppressed Findings', [
+      '| Severity | Application | Finding | Suppression | Justification | Approved By | Expires |',
+      '| --- | --- | --- | --- | --- | --- | --- |'
+    ], suppressedRows, 'suppressed findings');
+  }
+
+  if (skippedRows.length > 0) {
+    appendSection('Skipped Repositories', [
+      '| Repository | Provider | Reason |',
+      '| --- | --- | --- |'
+    ], skippedRows, 'skipped repositories');
+  }
+
+  if (errorLines.length > 0) {
+    appendSection('Failed Applications', [], errorLines, 'failed applications');
+  }
+
+  return output.length > maxLength ? output.slice(0, maxLength) : output;
+}
+
+/**
+ * Keeps as many lines as fit in the budget and ends with an "N more" footer for the rest
+ */
+function fitLines(heading: string[], lines: string[], noun: string, budget: number, hidden: number): string {
+  const footer = (count: number) => `\n\n_…and ${count} more ${noun}_`;
+  let text = heading.join('\n');
+  let kept = 0;
+
+  for (const line of lines) {
+    const remaining = lines.length - kept - 1 + hidden;
+    const reserve = remaining > 0 ? footer(remaining).length : 0;
+    if (text.length + line.length + reserve + 2 > budget) {
+      break;
+    }
+    text += `\n${line}`;
+    kept++;
+  }
+
+  const omitted = lines.length - kept + hidden;
+  return `${text}${omitted > 0 ? footer(omitted) : ''}\n`;
+}
+
+function countBySeverity(items: Finding[]): Record<FindingSeverity, number> {
+  const counts = { critical: 0, high: 0, medium: 0, low: 0, warning: 0, note: 0 };
+  items.forEach(item => {
+    counts[item.severity]++;
+  });
+  return counts;
+}
+
+function uniqueFindings(items: Finding[]): Finding[] {
+  const seen = new Set<string>();
+  return items.filter(item => {
+    const key = getFindingKey(item);
+    if (seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function tableRow(cells: Array<string | number>): string {
+  return `| ${cells.join(' | ')} |`;
+}
+
+/**
+ * Keeps table cells on one line and stops pipes from splitting them
+ */
+export function escapeCell(value: string): string {
+  return value.replace(/\r?\n/g, ' ').replace(/\|/g, '\\|');
+}
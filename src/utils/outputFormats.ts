@@ -0,0 +1,61 @@
+/**
+ * Output formats that main() can write for a multi-application run
+ */
+import { MultiApplicationAggregatedScanningResult } from '../interfaces/scanning-result.interface';
+import { renderCsvReport } from './csvExporter';
+import { publishJobSummary } from './jobSummary';
+import { renderJsonReport } from './jsonReport';
+import { JUnitOptions, renderJUnitReport } from './junitExporter';
+import { MarkdownSummaryOptions, renderMarkdownSummary } from './markdownRenderer';
+import { HtmlReportOptions, renderReport } from './reportRenderer';
+import { renderSarifReport } from './sarifExporter';
+
+// Format-specific settings passed to every renderer; each format reads its own entry
+export interface ReportRenderOptions {
+  html?: HtmlReportOptions;
+  markdown?: Partial<MarkdownSummaryOptions>;
+  junit?: Partial<JUnitOptions>;
+}
+
+export interface OutputFormat {
+  extension: string;
+  description: string;
+  render: (data: MultiApplicationAggregatedScanningResult, options: ReportRenderOptions) => string;
+  publish?: (filepath: string, content: string) => void; // called after the file is written
+}
+
+export const REPORT_FORMATS: Record<string, OutputFormat> = {
+  html: {
+    extension: 'html',
+    description: 'HTML report',
+    render: (data, options) => renderReport(data, options.html)
+  },
+  sarif: {
+    extension: 'sarif',
+    description: 'SARIF 2.1.0 log',
+    render: renderSarifReport
+  },
+  json: {
+    extension: 'json',
+    description: 'JSON report',
+    render: renderJsonReport
+  },
+  csv: {
+    extension: 'csv',
+    description: 'CSV export',
+    render: renderCsvReport
+  },
+  markdown: {
+    extension: 'md',
+    description: 'Markdown summary',
+    render: (data, options) => renderMarkdownSummary(data, options.markdown),
+    publish: publishJobSummary
+  },
+  junit: {
+    extension: 'junit.xml',
+    description: 'JUnit XML report',
+    render: (data, options) => renderJUnitReport(data, options.junit)
+  }
+};
+
+export const SUPPORTED_REPORT_FORMATS = Object.keys(REPORT_FORMATS);
@@ -0,0 +1,151 @@
+/**
+ * Pagination helpers for list endpoints that page through results using Link headers
+ */
+import { AlertFetchStats } from '../interfaces/scanning-result.interface';
+
+// Minimal client shape needed for paging, satisfied by HttpClient and axios instances
+export interface PageClient {
+  get(url: string, config?: { params?: Record<string, any> }): Promise<{ data: any, headers?: any }>;
+}
+
+export interface PaginationOptions {
+  pageSize: number;
+  maxPages: number;
+  // 'page' sends page=N, 'cursor' sends the after=<cursor> value taken from the next link
+  strategy: 'page' | 'cursor';
+}
+
+export interface PaginatedResult<T> {
+  items: T[];
+  stats: AlertFetchStats;
+}
+
+/**
+ * Parses an RFC 8288 Link header into a map of rel -> url
+ */
+export function parseLinkHeader(header?: string): Record<string, string> {
+  const links: Record<string, string> = {};
+
+  if (!header) {
+    return links;
+  }
+
+  header.split(',').forEach(part => {
+    const match = part.match(/<([^>]+)>\s*;\s*rel="?([^";]+)"?/);
+    if (match) {
+      match[2].split(/\s+/).forEach(rel => {
+        links[rel] = match[1];
+      });
+    }
+  });
+
+  return links;
+}
+
+/**
+ * Reads a single query parameter from an absolute or relative URL
+ */
+function getQueryParam(url: string, name: string): string | undefined {
+  try {
+    return new URL(url, 'http://localhost').searchParams.get(name) || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Fetches every page of a list endpoint, stopping at the last page or when maxPages is reached.
+ * When the cap is hit and the API exposes a "last" link, the last page is fetched once more so
+ * the stats can report the total number of items the API holds.
+ */
+export async function fetchAllPages<T>(
+  client: PageClient,
+  url: string,
+  params: Record<string, any>,
+  options: PaginationOptions
+): Promise<PaginatedResult<T>> {
+  const { pageSize, maxPages, strategy } = options;
+  const items: T[] = [];
+  let pages = 0;
+  let lastPage: number | undefined;
+  let nextLink: string | undefined;
+  let cursor: string | undefined;
+
+  while (pages < maxPages) {
+    const pageParams: Record<string, any> = { ...params, per_page: pageSize };
+    if (strategy === 'page') {
+      pageParams.page = pages + 1;
+    } else if (cursor) {
+      pageParams.after = cursor;
+    }
+
+    const response = await client.get(url, { params: pageParams });
+    pages++;
+
+    if (!Array.isArray(response.data)) {
+      nextLink = undefined;
+      break;
+    }
+
+    items.push(...response.data);
+
+    const links = parseLinkHeader(response.headers?.link);
+    if (links.last) {
+      const last = Number(getQueryParam(links.last, 'page'));
+      lastPage = Number.isFinite(last) && last > 0 ? last : lastPage;
+    }
+
+    nextLink = links.next;
+    if (!nextLink || response.data.length === 0) {
+      nextLink = undefined;
+      break;
+    }
+
+    if (strategy === 'cursor') {
+      cursor = getQueryParam(nextLink, 'after');
+      if (!cursor) {
+        // The endpoint did not hand out a cursor, so there is no way to ask for the next page
+        nextLink = undefined;
+        break;
+      }
+    }
+  }
+
+  const truncated = nextLink !== undefined;
+  let reported: number | undefined = truncated ? undefined : items.length;
+
+  if (truncated && strategy === 'page' && lastPage !== undefined) {
+    const lastResponse = await client.get(url, { params: { ...params, per_page: pageSize, page: lastPage } });
+    const lastPageCount = Array.isArray(lastResponse.data) ? lastResponse.data.length : 0;
+    reported = (lastPage - 1) * pageSize + lastPageCount;
+  }
+
+  return {
+    items,
+    stats: {
+      fetched: items.length,
+      reported,
+      pages,
+      truncated
+    }
+  };
+}
+
+/**
+ * Adds up the results of several fetches of the same list, e.g. one per alert state
+ */
+export function mergePaginatedResults<T>(results: PaginatedResult<T>[]): PaginatedResult<T> {
+  const reportedCounts = results.map(result => result.stats.reported);
+  const reported = reportedCounts.every((count): count is number => count !== undefined)
+    ? reportedCounts.reduce((sum, count) => sum + count, 0)
+    : undefined;
+  return {
+    items: results.flatMap(result => result.items),
+    stats: {
+      fetched: results.reduce((sum, result) => sum + result.stats.fetched, 0),
+      reported,
+      pages: results.reduce((sum, result) => sum + result.stats.pages, 0),
+      truncated: results.some(result => result.stats.truncated)
+    }
+  };
+}
@@ -0,0 +1,156 @@
+/**
+ * Evaluates the rules of the policy file against the findings of a run
+ */
+import { Finding } from '../interfaces/finding.interface';
+import { PolicyCheck, PolicyEvaluation, PolicyRule, PolicyRuleMatch } from '../interfaces/policy.interface';
+import { MultiApplicationAggregatedScanningResult } from '../interfaces/scanning-result.interface';
+import { FINDING_TYPES } from './findingAdapters';
+import { Logger } from './logger';
+import { flattenFindings, getFindingKey, SEVERITIES } from './reportData';
+import { isSuppressed } from './suppressions';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Checks every rule against the open findings that are not suppressed, once for all applications, per application
+ * or per tag depending on the rule's scope. Ages are measured at the run's timestamp. A finding reported on several
+ * branches of an application is counted once, and simulated demo findings are not counted.
+ */
+export function evaluatePolicy(data: MultiApplicationAggregatedScanningResult, rules: PolicyRule[]): PolicyEvaluation {
+  const seen = new Set<string>();
+  let simulated = 0;
+  const findings = flattenFindings(data).filter(finding => {
+    const key = getFindingKey(finding);
+    if (finding.state !== 'open' || isSuppressed(finding) || seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    if (finding.simulated) {
+      simulated++;
+      return false;
+    }
+    return true;
+  });
+  if (simulated > 0) {
+    Logger.warn(`Policy: ${simulated} simulated demo finding(s) are not counted; `
+      + 'the gate only reflects the findings of real scans');
+  }
+
+  // Applications scanned on several branches have one result per branch, each with the configured tags
+  const tagsByApplication = new Map<string, string[]>();
+  data.applications.forEach(app => {
+    const tags = tagsByApplication.get(app.applicationName) || [];
+    tagsByApplication.set(app.applicationName, [...tags, ...(app.tags || []).filter(tag => !tags.includes(tag))]);
+  });
+  const getTags = (application: string) => tagsByApplication.get(application) || [];
+
+  const checks = rules.flatMap(rule => {
+    const applications = Array.from(tagsByApplication.keys()).filter(application =>
+      (!rule.applications || rule.applications.includes(application))
+      && (!rule.tags || rule.tags.some(tag => getTags(application).includes(tag))));
+    const counted = findings.filter(finding =>
+      applications.includes(finding.application) && matchesPolicyRule(finding, rule.match, data.timestamp));
+
+    switch (rule.scope) {
+      case 'application':
+        return applications.map(application =>
+          createCheck(rule, counted.filter(finding => finding.application === application), application));
+      case 'tag': {
+        const tags = rule.tags || Array.from(new Set(applications.flatMap(getTags)));
+        return tags.map(tag =>
+          createCheck(rule, counted.filter(finding => getTags(finding.application).includes(tag)), tag));
+      }
+      default:
+        return [createCheck(rule, counted)];
+    }
+  });
+
+  return { passed: checks.every(check => check.passed), checks };
+}
+
+/**
+ * True when every field of the match applies to the finding
+ */
+export function matchesPolicyRule(finding: Finding, match: PolicyRuleMatch, now: Date): boolean {
+  if (match.severities && !match.severities.includes(finding.severity)) {
+    return false;
+  }
+  if (match.minSeverity && SEVERITIES.indexOf(finding.severity) > SEVERITIES.indexOf(match.minSeverity)) {
+    return false;
+  }
+  if (match.types && !match.types.some(type => FINDING_TYPES[type] === finding.type)) {
+    return false;
+  }
+  if (match.minCvss !== undefined && !(finding.cvss !== undefined && finding.cvss >= match.minCvss)) {
+    return false;
+  }
+  if (match.olderThanDays !== undefined) {
+    if (!(now.getTime() - finding.createdAt.getTime() > match.olderThanDays * DAY_MS)) {
+      return false;
+    }
+  }
+  if (match.slaStatuses && !(finding.sla && match.slaStatuses.includes(finding.sla.status))) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * The ids of the failed rules that counted each finding, keyed by getFindingKey
+ */
+export function getViolatedRules(evaluation: PolicyEvaluation | undefined): Map<string, string[]> {
+  const violatedRules = new Map<string, string[]>();
+  (evaluation?.checks || []).forEach(check => check.violations.forEach(reference => {
+    const key = getFindingKey(reference);
+    const rules = violatedRules.get(key) || [];
+    if (!rules.includes(check.rule)) {
+      violatedRules.set(key, [...rules, check.rule]);
+    }
+  }));
+  return violatedRules;
+}
+
+/**
+ * Logs every failed check and the outcome of the gate
+ */
+export function logPolicyEvaluation(evaluation: PolicyEvaluation): void {
+  const failed = evaluation.checks.filter(check => !check.passed);
+  failed.forEach(check => Logger.error(`POLICY VIOLATION ${formatPolicyCheck(check)}`));
+  const outcome = evaluation.passed ? 'PASSED' : 'FAILED';
+  Logger.info(`Policy: ${outcome}, ${failed.length} of ${evaluation.checks.length} check(s) failed`);
+}
+
+/**
+ * One line per check, e.g. "max-high (orders-api): 7 finding(s), at most 5 allowed"
+ */
+export function formatPolicyCheck(check: PolicyCheck): string {
+  const group = formatPolicyGroup(check);
+  return `${check.rule} (${group}): ${check.findings} finding(s), at most ${check.maxFindings} allowed`;
+}
+
+/**
+ * The group a check counted, e.g. "All applications", "orders-api" or "Tag pci"
+ */
+export function formatPolicyGroup(check: PolicyCheck): string {
+  switch (check.scope) {
+    case 'application': return check.group || '';
+    case 'tag': return `Tag ${check.group}`;
+    default: return 'All applications';
+  }
+}
+
+function createCheck(rule: PolicyRule, findings: Finding[], group?: string): PolicyCheck {
+  const passed = findings.length <= rule.maxFindings;
+  return {
+    rule: rule.id,
+    description: rule.description,
+    scope: rule.scope,
+    group,
+    findings: findings.length,
+    maxFindings: rule.maxFindings,
+    passed,
+    violations: passed
+      ? []
+      : findings.map(finding => ({ application: finding.application, fingerprint: finding.fingerprint }))
+  };
+}
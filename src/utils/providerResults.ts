@@ -0,0 +1,185 @@
+/**
+ * Stores and reads scanning provider results on an application's aggregated result
+ *
+ * GitHub and Azure DevOps keep their githubResults and azureDevOpsResults fields, which the JSON report schema
+ * has always had; every other provider is stored under providerResults by its id.
+ */
+import {
+  AggregatedScanningResult,
+  AlertCategory,
+  AlertFetchStats,
+  MultiApplicationAggregatedScanningResult,
+  ProviderScanningResult,
+  ProviderScanningResults,
+  ProviderTotals,
+  ScanningResultBase
+} from '../interfaces/scanning-result.interface';
+import { ProviderFetchResult } from '../interfaces/scanning-provider.interface';
+import { Suppression } from '../interfaces/suppression.interface';
+import { toFindings } from './findingAdapters';
+import { getFindingKey } from './reportData';
+import { applySuppressions, isSuppressed } from './suppressions';
+
+export const GITHUB_PROVIDER_ID = 'github';
+export const AZURE_DEVOPS_PROVIDER_ID = 'azure-devops';
+
+// The results of one provider for one application and branch
+export interface ProviderResultSet {
+  provider: string; // id
+  displayName: string;
+  codeScanning: ScanningResultBase[];
+  dependencyScanning: ScanningResultBase[];
+  secretScanning: ScanningResultBase[];
+}
+
+const RESULT_FIELDS: Record<AlertCategory, 'codeScanning' | 'dependencyScanning' | 'secretScanning'> = {
+  'code-scanning': 'codeScanning',
+  'dependency-scanning': 'dependencyScanning',
+  'secret-scanning': 'secretScanning'
+};
+
+const CATEGORY_LABELS: Record<AlertCategory, string> = {
+  'code-scanning': 'Code Scanning',
+  'dependency-scanning': 'Dependency Scanning',
+  'secret-scanning': 'Secret Scanning'
+};
+
+/**
+ * Stores the alerts of one category fetched by a provider, together with their pagination statistics
+ */
+export function setProviderResults(
+  app: AggregatedScanningResult,
+  provider: { id: string, displayName: string },
+  category: AlertCategory,
+  fetch: ProviderFetchResult
+): void {
+  const field = RESULT_FIELDS[category];
+
+  if (provider.id === GITHUB_PROVIDER_ID && field !== 'secretScanning') {
+    app.githubResults = { ...app.githubResults, [field]: fetch.results };
+  } else if (provider.id === AZURE_DEVOPS_PROVIDER_ID && field !== 'secretScanning') {
+    app.azureDevOpsResults = { ...app.azureDevOpsResults, [field]: fetch.results };
+  } else {
+    const providerResults = app.providerResults || {};
+    const results = providerResults[provider.id]
+      || { provider: provider.displayName, codeScanning: [], dependencyScanning: [], secretScanning: [] };
+    providerResults[provider.id] = { ...results, [field]: fetch.results as ProviderScanningResult[] };
+    app.providerResults = providerResults;
+  }
+
+  if (fetch.stats) {
+    app.fetchStats = { ...app.fetchStats, [getFetchStatsKey(provider.id, category)]: fetch.stats };
+  }
+}
+
+/**
+ * Lists the results of every provider, GitHub and Azure DevOps first
+ */
+export function getProviderResults(app: AggregatedScanningResult): ProviderResultSet[] {
+  return [
+    {
+      provider: GITHUB_PROVIDER_ID,
+      displayName: 'GitHub',
+      codeScanning: app.githubResults.codeScanning,
+      dependencyScanning: app.githubResults.dependencyScanning,
+      secretScanning: []
+    },
+    {
+      provider: AZURE_DEVOPS_PROVIDER_ID,
+      displayName: 'Azure DevOps',
+      codeScanning: app.azureDevOpsResults.codeScanning,
+      dependencyScanning: app.azureDevOpsResults.dependencyScanning,
+      secretScanning: []
+    },
+    ...Object.entries(app.providerResults || {}).map(([provider, results]: [string, ProviderScanningResults]) => ({
+      provider,
+      displayName: results.provider,
+      codeScanning: results.codeScanning,
+      dependencyScanning: results.dependencyScanning,
+      secretScanning: results.secretScanning
+    }))
+  ];
+}
+
+/**
+ * Computes the run's summary: the number of applications, however many branches each was scanned on, and totals
+ * per provider and per severity. The severity totals count open findings only, and a finding reported on several
+ * branches of an application once; open findings suppressed at `now` are left out of them and counted separately.
+ * The provider totals count every alert.
+ */
+export function summarizeResults(
+  applications: AggregatedScanningResult[],
+  suppressions: Suppression[] = [],
+  now: Date = new Date()
+): MultiApplicationAggregatedScanningResult['summary'] {
+  const providerTotals = new Map<string, ProviderTotals>();
+  const severitySummary = { critical: 0, high: 0, medium: 0, low: 0, warning: 0, note: 0 };
+  let totalSarifCodeScanningIssues = 0;
+  let suppressedFindings = 0;
+  const seen = new Set<string>();
+
+  for (const app of applications) {
+    for (const results of getProviderResults(app)) {
+      const totals = providerTotals.get(results.provider)
+        || {
+          provider: results.provider,
+          displayName: results.displayName,
+          codeScanning: 0,
+          dependencyScanning: 0,
+          secretScanning: 0
+        };
+      totals.codeScanning += results.codeScanning.length;
+      totals.dependencyScanning += results.dependencyScanning.length;
+      totals.secretScanning += results.secretScanning.length;
+      providerTotals.set(results.provider, totals);
+    }
+    totalSarifCodeScanningIssues += app.sarifResults?.codeScanning.length || 0;
+
+    applySuppressions(toFindings(app), suppressions, now)
+      .filter(finding => finding.state === 'open' && !seen.has(getFindingKey(finding)))
+      .forEach(finding => {
+        seen.add(getFindingKey(finding));
+        if (isSuppressed(finding)) {
+          suppressedFindings++;
+        } else {
+          severitySummary[finding.severity]++;
+        }
+      });
+  }
+
+  const github = providerTotals.get(GITHUB_PROVIDER_ID);
+  const azureDevOps = providerTotals.get(AZURE_DEVOPS_PROVIDER_ID);
+  return {
+    totalApplications: new Set(applications.map(app => app.applicationName)).size,
+    totalGithubCodeScanningIssues: github?.codeScanning || 0,
+    totalGithubDependencyScanningIssues: github?.dependencyScanning || 0,
+    totalAzureDevOpsCodeScanningIssues: azureDevOps?.codeScanning || 0,
+    totalAzureDevOpsDependencyScanningIssues: azureDevOps?.dependencyScanning || 0,
+    totalSarifCodeScanningIssues,
+    providerTotals: Array.from(providerTotals.values()),
+    suppressedFindings,
+    severitySummary
+  };
+}
+
+/**
+ * The pagination statistics of an application's fetches, labelled with the provider and category,
+ * e.g. GitHub Code Scanning
+ */
+export function getFetchStats(app: AggregatedScanningResult): Array<{ source: string, stats: AlertFetchStats }> {
+  return getProviderResults(app).flatMap(results => (Object.keys(RESULT_FIELDS) as AlertCategory[])
+    .map(category => ({
+      source: `${results.displayName} ${CATEGORY_LABELS[category]}`,
+      stats: app.fetchStats?.[getFetchStatsKey(results.provider, category)]
+    }))
+    .filter((row): row is { source: string, stats: AlertFetchStats } => row.stats !== undefined));
+}
+
+/**
+ * Key of a fetch's pagination statistics, e.g. githubCodeScanning
+ */
+function getFetchStatsKey(providerId: string, category: AlertCategory): string {
+  const camelCase = `${providerId}-${category}`
+    .replace(/[-_\s]+(.)/g, (_match: string, letter: string) => letter.toUpperCase());
+  return camelCase.charAt(0).toLowerCase() + camelCase.slice(1);
+}
@@ -0,0 +1,133 @@
+/**
+ * Tracks rate-limit budget and throttling per API provider for the duration of a run
+ */
+
+export type HttpProvider = 'GitHub' | 'Azure DevOps';
+
+export interface RateLimitUsage {
+  provider: HttpProvider;
+  requests: number;
+  retries: number;
+  throttled: number; // number of times the provider asked us to slow down
+  waitMs: number; // total time spent waiting on rate limits and backoff
+  limit?: number;
+  remaining?: number;
+  resetAt?: Date;
+  consumed: number; // budget consumed during this run
+}
+
+interface ProviderState {
+  requests: number;
+  retries: number;
+  throttled: number;
+  waitMs: number;
+  limit?: number;
+  remaining?: number;
+  resetAt?: number;
+  windowStartRemaining?: number;
+  consumedInPreviousWindows: number;
+  pausedUntil: number;
+}
+
+export class RateLimitTracker {
+  private static states = new Map<HttpProvider, ProviderState>();
+
+  /**
+   * Records a response's rate-limit headers. GitHub and Azure DevOps share the
+   * X-RateLimit-Limit/Remaining/Reset names; Azure DevOps expresses them in TSTUs.
+   */
+  static recordResponse(provider: HttpProvider, headers: Record<string, any> = {}): void {
+    const state = this.getState(provider);
+    state.requests++;
+
+    const limit = this.parseNumber(headers['x-ratelimit-limit']);
+    const remaining = this.parseNumber(headers['x-ratelimit-remaining']);
+    const reset = this.parseNumber(headers['x-ratelimit-reset']);
+
+    if (limit !== undefined) {
+      state.limit = limit;
+    }
+
+    if (remaining !== undefined) {
+      const resetAt = reset !== undefined ? reset * 1000 : state.resetAt;
+      if (state.windowStartRemaining === undefined || (resetAt !== undefined && resetAt !== state.resetAt)) {
+        // A new rate-limit window started, bank what was consumed in the previous one
+        if (state.windowStartRemaining !== undefined && state.remaining !== undefined) {
+          state.consumedInPreviousWindows += state.windowStartRemaining - state.remaining;
+        }
+        // The response that opened the window already consumed one unit
+        state.windowStartRemaining = remaining + 1;
+      }
+      state.remaining = remaining;
+      state.resetAt = resetAt;
+    }
+  }
+
+  static recordRetry(provider: HttpProvider): void {
+    this.getState(provider).retries++;
+  }
+
+  static recordThrottle(provider: HttpProvider): void {
+    this.getState(provider).throttled++;
+  }
+
+  static recordWait(provider: HttpProvider, waitMs: number): void {
+    this.getState(provider).waitMs += waitMs;
+  }
+
+  /**
+   * Asks every request to the provider to hold off until the given time
+   */
+  static pauseUntil(provider: HttpProvider, until: number): void {
+    const state = this.getState(provider);
+    state.pausedUntil = Math.max(state.pausedUntil, until);
+  }
+
+  /**
+   * Milliseconds a new request to the provider should wait before it is sent
+   */
+  static getPauseMs(provider: HttpProvider): number {
+    return Math.max(0, this.getState(provider).pausedUntil - Date.now());
+  }
+
+  static getUsage(): RateLimitUsage[] {
+    return Array.from(this.states.entries()).map(([provider, state]) => {
+      const currentWindow = state.windowStartRemaining !== undefined && state.remaining !== undefined
+        ? state.windowStartRemaining - state.remaining
+        : undefined;
+
+      return {
+        provider,
+        requests: state.requests,
+        retries: state.retries,
+        throttled: state.throttled,
+        waitMs: state.waitMs,
+        limit: state.limit,
+        remaining: state.remaining,
+        resetAt: state.resetAt !== undefined ? new Date(state.resetAt) : undefined,
+        consumed: currentWindow !== undefined ? state.consumedInPreviousWindows + currentWindow : state.requests
+      };
+    });
+  }
+
+  static reset(): void {
+    this.states.clear();
+  }
+
+  private static getState(provider: HttpProvider): ProviderState {
+    let state = this.states.get(provider);
+    if (!state) {
+      state = { requests: 0, retries: 0, throttled: 0, waitMs: 0, consumedInPreviousWindows: 0, pausedUntil: 0 };
+      this.states.set(provider, state);
+    }
+    return state;
+  }
+
+  private static parseNumber(value: any): number | undefined {
+    if (value === undefined || value === null || value === '') {
+      return undefined;
+    }
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : undefined;
+  }
+}
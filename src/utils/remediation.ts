@@ -0,0 +1,82 @@
+/**
+ * Derives mean time to remediate from the fixed findings of a run
+ */
+import { Finding, FindingSeverity } from '../interfaces/finding.interface';
+import { RemediationSummary } from '../interfaces/remediation.interface';
+import { getFindingKey, SEVERITIES } from './reportData';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Averages the days from creation to fix of the fixed findings with a fix date, per application in the order they
+ * appear and in total, each by severity. A finding reported on several branches of an application is counted once.
+ */
+export function summarizeRemediation(
+  findings: Finding[]
+): { applications: Array<RemediationSummary & { application: string }>, total: RemediationSummary } {
+  const total = createAccumulator();
+  const byApplication = new Map<string, Accumulator>();
+  const seen = new Set<string>();
+
+  findings.forEach(finding => {
+    const key = getFindingKey(finding);
+    if (finding.state !== 'fixed' || !finding.fixedAt || seen.has(key)) {
+      return;
+    }
+    seen.add(key);
+    const accumulator = byApplication.get(finding.application) || createAccumulator();
+    byApplication.set(finding.application, accumulator);
+    const days = Math.max((finding.fixedAt.getTime() - finding.createdAt.getTime()) / DAY_MS, 0);
+    [accumulator, total].forEach(entry => add(entry, finding.severity, days));
+  });
+
+  return {
+    applications: Array.from(byApplication.entries())
+      .map(([application, accumulator]) => toSummary(accumulator, application)),
+    total: toSummary(total, undefined)
+  };
+}
+
+/**
+ * e.g. "4.5 days (2 fixed)", or "n/a" without fixed findings
+ */
+export function formatRemediationTime(time: { fixed: number, meanDays: number | null } | undefined): string {
+  return time && time.meanDays !== null ? `${time.meanDays} days (${time.fixed} fixed)` : 'n/a';
+}
+
+interface Accumulator {
+  count: number;
+  days: number;
+  severities: Partial<Record<FindingSeverity, { count: number, days: number }>>;
+}
+
+function createAccumulator(): Accumulator {
+  return { count: 0, days: 0, severities: {} };
+}
+
+function add(accumulator: Accumulator, severity: FindingSeverity, days: number): void {
+  const entry = accumulator.severities[severity] || { count: 0, days: 0 };
+  entry.count++;
+  entry.days += days;
+  accumulator.severities[severity] = entry;
+  accumulator.count++;
+  accumulator.days += days;
+}
+
+function toSummary<T extends string | undefined>(
+  accumulator: Accumulator,
+  application: T
+): RemediationSummary & { application: T } {
+  const severities: RemediationSummary['severities'] = {};
+  SEVERITIES.forEach(severity => {
+    const entry = accumulator.severities[severity];
+    if (entry) {
+      severities[severity] = { fixed: entry.count, meanDays: mean(entry.days, entry.count) };
+    }
+  });
+  return { application, fixed: accumulator.count, meanDays: mean(accumulator.days, accumulator.count), severities };
+}
+
+function mean(days: number, count: number): number | null {
+  return count === 0 ? null : Math.round((days / count) * 10) / 10;
+}
@@ -0,0 +1,91 @@
+/**
+ * Flattens aggregated scanning results into the normalized findings shared by the report renderers and exports
+ */
+import { Finding, FindingSeverity } from '../interfaces/finding.interface';
+import { MultiApplicationAggregatedScanningResult } from '../interfaces/scanning-result.interface';
+import { toFindings } from './findingAdapters';
+import { applySlas } from './sla';
+import { applySuppressions } from './suppressions';
+
+// Severities from most to least severe
+export const SEVERITIES: FindingSeverity[] = ['critical', 'high', 'medium', 'low', 'warning', 'note'];
+
+/**
+ * Every finding of every application and branch, in application order, with the run's suppressions and SLAs applied
+ * as of the run's timestamp
+ */
+export function flattenFindings(data: MultiApplicationAggregatedScanningResult): Finding[] {
+  const items = applySuppressions(data.applications.flatMap(toFindings), data.suppressions, data.timestamp);
+  applySlas(items, data.sla, data.timestamp);
+  annotateBranchPresence(items, data);
+  return items;
+}
+
+/**
+ * Names of the applications that were scanned on more than one branch
+ */
+export function getMultiBranchApplications(data: MultiApplicationAggregatedScanningResult): Set<string> {
+  const branchCounts = new Map<string, number>();
+  data.applications.forEach(app => {
+    branchCounts.set(app.applicationName, (branchCounts.get(app.applicationName) || 0) + 1);
+  });
+  return new Set(Array.from(branchCounts.entries())
+    .filter(([, count]) => count > 1)
+    .map(([name]) => name));
+}
+
+/**
+ * Labels an application with its branch when the application was scanned on several branches
+ */
+export function formatApplicationLabel(
+  application: string,
+  branch: string | undefined,
+  multiBranchApplications: Set<string>
+): string {
+  return branch && multiBranchApplications.has(application) ? `${application} (${branch})` : application;
+}
+
+/**
+ * Key that identifies the same finding on different branches of an application
+ */
+export function getFindingKey(item: Pick<Finding, 'application' | 'fingerprint'>): string {
+  return `${item.application}\u0000${item.fingerprint}`;
+}
+
+/**
+ * Escapes HTML special characters in text taken from scanners or user files, for the HTML reports
+ */
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Lists, on each finding of a multi-branch application, every branch the same finding was reported on
+ */
+function annotateBranchPresence(items: Finding[], data: MultiApplicationAggregatedScanningResult): void {
+  const multiBranchApplications = getMultiBranchApplications(data);
+  const branchesByFinding = new Map<string, string[]>();
+
+  items
+    .filter(item => multiBranchApplications.has(item.application))
+    .forEach(item => {
+      const key = getFindingKey(item);
+      const branches = branchesByFinding.get(key) || [];
+      if (item.branch && !branches.includes(item.branch)) {
+        branches.push(item.branch);
+      }
+      branchesByFinding.set(key, branches);
+    });
+
+  items.forEach(item => {
+    const branches = branchesByFinding.get(getFindingKey(item));
+    if (branches) {
+      item.branches = branches;
+    }
+  });
+}
@@ -0,0 +1,422 @@
+/**
+ * Compares the findings of two runs, read from JSON reports or from the run history
+ */
+import { Finding, FindingSeverity } from '../interfaces/finding.interface';
+import { HistoryRun } from '../interfaces/history.interface';
+import { ApplicationError, MultiApplicationAggregatedScanningResult } from '../interfaces/scanning-result.interface';
+import { escapeCell } from './markdownRenderer';
+import { escapeHtml, flattenFindings, formatApplicationLabel, getFindingKey, SEVERITIES } from './reportData';
+
+// A finding as compared: JSON reports and history runs both provide these fields
+export type DiffFinding = Omit<Finding, 'branches' | 'raw'>;
+
+// One side of a comparison
+export interface DiffRun {
+  timestamp: Date;
+  applications: Array<{ application: string, branch: string }>; // every application × branch scanned
+  failures: Array<{ application: string, branch?: string }>; // fetches that failed; no branch when every branch failed
+  findings: DiffFinding[];
+}
+
+export interface SeverityDelta {
+  new: number;
+  reopened: number;
+  fixed: number;
+  net: number; // new + reopened - fixed
+}
+
+export interface ApplicationDiff {
+  application: string;
+  new: DiffFinding[]; // open now, never seen before
+  reopened: DiffFinding[]; // open now, seen before but not open in the base run
+  fixed: DiffFinding[]; // open in the base run, no longer open
+  unchanged: DiffFinding[]; // open in both runs
+  severities: Record<FindingSeverity, SeverityDelta>;
+}
+
+export interface ReportDiff {
+  baseTimestamp: Date;
+  headTimestamp: Date;
+  applications: ApplicationDiff[];
+  totals: {
+    new: number;
+    reopened: number;
+    fixed: number;
+    unchanged: number;
+  };
+  severities: Record<FindingSeverity, SeverityDelta>;
+}
+
+/**
+ * Matches open findings of two JSON reports by application, branch and fingerprint
+ */
+export function diffReports(
+  base: MultiApplicationAggregatedScanningResult,
+  head: MultiApplicationAggregatedScanningResult
+): ReportDiff {
+  return diffRuns(fromReport(base), fromReport(head));
+}
+
+/**
+ * Matches open findings of two runs by application, branch and fingerprint. A finding that is open in the head run
+ * but not in the base run is reopened when the base run or one of the earlier runs already had it, e.g. as fixed.
+ * An application × branch the head run did not scan or failed to fetch has no fixed findings, and one the base run
+ * failed to fetch is compared with the latest earlier run that fetched it; `earlier` lists the runs before the base
+ * run, latest first.
+ */
+export function diffRuns(base: DiffRun, head: DiffRun, earlier: DiffRun[] = []): ReportDiff {
+  const baseFindings = indexOpenFindings(base);
+  addLastFetchedFindings(baseFindings, base, earlier);
+  const headFindings = indexOpenFindings(head);
+  const seen = new Set([base, ...earlier].flatMap(run => run.findings.map(getDiffKey)));
+  const applications = new Map<string, ApplicationDiff>();
+  const multiBranchApplications = getMultiBranchApplications([base, head]);
+  const labelOf = (item: DiffFinding) => formatApplicationLabel(item.application, item.branch, multiBranchApplications);
+
+  const getApplication = (name: string): ApplicationDiff => {
+    let application = applications.get(name);
+    if (!application) {
+      application = {
+        application: name,
+        new: [],
+        reopened: [],
+        fixed: [],
+        unchanged: [],
+        severities: emptySeverityDeltas()
+      };
+      applications.set(name, application);
+    }
+    return application;
+  };
+
+  headFindings.forEach((item, key) => {
+    const application = getApplication(labelOf(item));
+    if (baseFindings.has(key)) {
+      application.unchanged.push(item);
+    } else {
+      (seen.has(key) ? application.reopened : application.new).push(item);
+    }
+  });
+  baseFindings.forEach((item, key) => {
+    if (!headFindings.has(key) && hasScanned(head, item.application, item.branch)) {
+      getApplication(labelOf(item)).fixed.push(item);
+    }
+  });
+
+  const sorted = Array.from(applications.values()).sort((a, b) => a.application.localeCompare(b.application));
+  sorted.forEach(app => countSeverityDeltas(app.severities, app));
+  const severities = emptySeverityDeltas();
+  sorted.forEach(app => countSeverityDeltas(severities, app));
+
+  return {
+    baseTimestamp: base.timestamp,
+    headTimestamp: head.timestamp,
+    applications: sorted,
+    totals: {
+      new: sorted.reduce((sum, app) => sum + app.new.length, 0),
+      reopened: sorted.reduce((sum, app) => sum + app.reopened.length, 0),
+      fixed: sorted.reduce((sum, app) => sum + app.fixed.length, 0),
+      unchanged: sorted.reduce((sum, app) => sum + app.unchanged.length, 0)
+    },
+    severities
+  };
+}
+
+/**
+ * The findings of a JSON report, as compared
+ */
+export function fromReport(data: MultiApplicationAggregatedScanningResult): DiffRun {
+  return {
+    timestamp: data.timestamp,
+    applications: data.applications.map(app => ({ application: app.applicationName, branch: app.branchName })),
+    failures: getFailures(data.errors),
+    findings: flattenFindings(data)
+  };
+}
+
+/**
+ * The findings of a run from the history, as compared
+ */
+export function fromHistoryRun(run: HistoryRun): DiffRun {
+  return {
+    timestamp: run.summary.timestamp,
+    applications: run.applications.map(({ application, branch }) => ({ application, branch })),
+    failures: getFailures(run.errors),
+    findings: run.applications.flatMap(({ application, branch, findings }) =>
+      Object.values(findings).map(finding => ({ ...finding, application, branch })))
+  };
+}
+
+/**
+ * The diff's new, reopened and fixed totals, e.g. 2 new, 0 reopened, 1 fixed
+ */
+export function formatDiffTotals(diff: ReportDiff): string {
+  return `${diff.totals.new} new, ${diff.totals.reopened} reopened, ${diff.totals.fixed} fixed`;
+}
+
+/**
+ * Renders the diff as a Markdown table per application, the severity delta and the changed findings
+ */
+export function renderDiffMarkdown(diff: ReportDiff): string {
+  const lines = [
+    '## Scan Comparison',
+    '',
+    `Base run ${diff.baseTimestamp.toISOString()}, compared run ${diff.headTimestamp.toISOString()}.`,
+    '',
+    '| Application | New | Reopened | Fixed | Unchanged | Net |',
+    '| --- | ---: | ---: | ---: | ---: | ---: |',
+    ...diff.applications.map(app => tableRow([
+      escapeCell(app.application),
+      app.new.length,
+      app.reopened.length,
+      app.fixed.length,
+      app.unchanged.length,
+      formatNet(getNet(app.severities))
+    ])),
+    tableRow([
+      'Total',
+      diff.totals.new,
+      diff.totals.reopened,
+      diff.totals.fixed,
+      diff.totals.unchanged,
+      formatNet(getNet(diff.severities))
+    ].map(cell => `**${cell}**`)),
+    '',
+    '### Severity Delta',
+    '',
+    '| Severity | New | Reopened | Fixed | Net |',
+    '| --- | ---: | ---: | ---: | ---: |',
+    ...SEVERITIES.map(severity => {
+      const delta = diff.severities[severity];
+      return tableRow([capitalize(severity), delta.new, delta.reopened, delta.fixed, formatNet(delta.net)]);
+    })
+  ];
+
+  diff.applications
+    .filter(app => app.new.length > 0 || app.reopened.length > 0 || app.fixed.length > 0)
+    .forEach(app => {
+      lines.push('', `### ${escapeCell(app.application)}`, '');
+      app.new.forEach(item => lines.push(`- New: ${formatFinding(item)}`));
+      app.reopened.forEach(item => lines.push(`- Reopened: ${formatFinding(item)}`));
+      app.fixed.forEach(item => lines.push(`- Fixed: ${formatFinding(item)}`));
+    });
+
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Renders the diff as a section of the HTML report, styled by the report's material tables
+ */
+export function renderDiffHtmlSection(diff: ReportDiff): string {
+  const changes = diff.applications.flatMap(app => [
+    ...app.new.map(item => ({ change: 'New', application: app.application, item })),
+    ...app.reopened.map(item => ({ change: 'Reopened', application: app.application, item })),
+    ...app.fixed.map(item => ({ change: 'Fixed', application: app.application, item }))
+  ]);
+
+  return `
+    <div class="vulnerabilities-table-container scan-comparison">
+      <h2>Scan Comparison</h2>
+      <p>Base run ${diff.baseTimestamp.toISOString()}, compared run ${diff.headTimestamp.toISOString()}:
+        ${formatDiffTotals(diff)}, ${diff.totals.unchanged} unchanged</p>
+      <table class="material-table">
+        <thead>
+          <tr>
+            <th>Severity</th>
+            <th>New</th>
+            <th>Reopened</th>
+            <th>Fixed</th>
+            <th>Net</th>
+          </tr>
+        </thead>
+        <tbody>
+          ${SEVERITIES.map(severity => `
+            <tr>
+              <td class="severity-${severity}">${severity.toUpperCase()}</td>
+              <td>${diff.severities[severity].new}</td>
+              <td>${diff.severities[severity].reopened}</td>
+              <td>${diff.severities[severity].fixed}</td>
+              <td>${formatNet(diff.severities[severity].net)}</td>
+            </tr>
+          `).join('')}
+        </tbody>
+      </table>
+      <table class="material-table">
+        <thead>
+          <tr>
+            <th>Application</th>
+            <th>New</th>
+            <th>Reopened</th>
+            <th>Fixed</th>
+            <th>Unchanged</th>
+            <th>Net</th>
+          </tr>
+        </thead>
+        <tbody>
+          ${diff.applications.map(app => `
+            <tr>
+              <td>${escapeHtml(app.application)}</td>
+              <td>${app.new.length}</td>
+              <td>${app.reopened.length}</td>
+              <td>${app.fixed.length}</td>
+              <td>${app.unchanged.length}</td>
+              <td>${formatNet(getNet(app.severities))}</td>
+            </tr>
+          `).join('')}
+        </tbody>
+      </table>
+      ${changes.length > 0 ? `
+      <table class="material-table">
+        <thead>
+          <tr>
+            <th>Change</th>
+            <th>Application</th>
+            <th>Severity</th>
+            <th>Name</th>
+            <th>Type</th>
+            <th>Tool</th>
+          </tr>
+        </thead>
+        <tbody>
+          ${changes.map(({ change, application, item }) => `
+            <tr>
+              <td>${change}</td>
+              <td>${escapeHtml(application)}</td>
+              <td class="severity-${item.severity}">${item.severity.toUpperCase()}</td>
+              <td>${item.url
+                ? `<a href="${escapeHtml(item.url)}" target="_blank">${escapeHtml(item.name)}</a>`
+                : escapeHtml(item.name)}</td>
+              <td class="type">${item.type}</td>
+              <td class="tool">${item.tool}</td>
+            </tr>
+          `).join('')}
+        </tbody>
+      </table>
+      ` : ''}
+    </div>
+  `;
+}
+
+/**
+ * Renders the diff as a standalone HTML page
+ */
+export function renderDiffHtml(diff: ReportDiff): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <meta charset="utf-8" />
+    <title>Scan Comparison</title>
+    <style>
+      body { font-family: 'Roboto', Arial, sans-serif; margin: 20px; background-color: #f5f5f5; }
+      .vulnerabilities-table-container {
+        background-color: white; border-radius: 4px; box-shadow: 0 2px 4px rgba(0,0,0,0.1); padding: 16px;
+      }
+      .material-table { width: 100%; border-collapse: collapse; font-size: 14px; margin-bottom: 20px; }
+      .material-table th {
+        background-color: #f5f5f5; padding: 12px 16px; text-align: left; font-weight: 600; color: #666;
+        border-bottom: 1px solid #ddd;
+      }
+      .material-table td { padding: 12px 16px; border-bottom: 1px solid #eee; color: #333; }
+      .severity-critical { color: #d32f2f; font-weight: bold; }
+      .severity-high { color: #f57c00; font-weight: bold; }
+      .severity-medium { color: #efbc00; }
+      .severity-low { color: #777; }
+      .severity-warning { color: #ffa000; }
+      .severity-note { color: #9e9e9e; }
+      .tool { font-weight: 500; color: #555; }
+      h2 { color: #333; margin-top: 0; font-weight: 500; }
+    </style>
+  </head>
+  <body>
+    ${renderDiffHtmlSection(diff)}
+  </body>
+</html>
+`;
+}
+
+function indexOpenFindings(run: DiffRun): Map<string, DiffFinding> {
+  const findings = new Map<string, DiffFinding>();
+  run.findings
+    .filter(item => item.state === 'open')
+    .forEach(item => findings.set(getDiffKey(item), item));
+  return findings;
+}
+
+/**
+ * Adds the open findings of each application × branch the base run failed to fetch, as of the latest earlier run
+ * that fetched it
+ */
+function addLastFetchedFindings(findings: Map<string, DiffFinding>, base: DiffRun, earlier: DiffRun[]): void {
+  const found = new Set<string>();
+  earlier.forEach(run => {
+    const pairs = new Set(run.applications
+      .filter(({ application, branch }) => hasFailed(base, application, branch) && !hasFailed(run, application, branch))
+      .map(({ application, branch }) => `${application}\u0000${branch}`)
+      .filter(pair => !found.has(pair)));
+    run.findings
+      .filter(item => item.state === 'open' && pairs.has(`${item.application}\u0000${item.branch}`))
+      .forEach(item => findings.set(getDiffKey(item), item));
+    pairs.forEach(pair => found.add(pair));
+  });
+}
+
+function hasScanned(run: DiffRun, application: string, branch: string | undefined): boolean {
+  return !hasFailed(run, application, branch)
+    && run.applications.some(scanned => scanned.application === application && scanned.branch === branch);
+}
+
+function hasFailed(run: DiffRun, application: string, branch: string | undefined): boolean {
+  return run.failures.some(failure =>
+    failure.application === application && (failure.branch === undefined || failure.branch === branch));
+}
+
+function getFailures(errors: ApplicationError[] = []): DiffRun['failures'] {
+  return errors.flatMap(({ application, branch }) => application !== undefined ? [{ application, branch }] : []);
+}
+
+function getDiffKey(item: DiffFinding): string {
+  return `${getFindingKey(item)}\u0000${item.branch}`;
+}
+
+function getMultiBranchApplications(runs: DiffRun[]): Set<string> {
+  const branches = new Map<string, Set<string>>();
+  runs.forEach(run => run.applications.forEach(({ application, branch }) => {
+    branches.set(application, (branches.get(application) || new Set<string>()).add(branch));
+  }));
+  return new Set(Array.from(branches.entries()).filter(([, names]) => names.size > 1).map(([name]) => name));
+}
+
+function emptySeverityDeltas(): Record<FindingSeverity, SeverityDelta> {
+  const deltas = SEVERITIES.map(severity => [severity, { new: 0, reopened: 0, fixed: 0, net: 0 }]);
+  return Object.fromEntries(deltas) as Record<FindingSeverity, SeverityDelta>;
+}
+
+function tableRow(cells: Array<string | number>): string {
+  return `| ${cells.join(' | ')} |`;
+}
+
+function countSeverityDeltas(deltas: Record<FindingSeverity, SeverityDelta>, app: ApplicationDiff): void {
+  app.new.forEach(item => deltas[item.severity].new++);
+  app.reopened.forEach(item => deltas[item.severity].reopened++);
+  app.fixed.forEach(item => deltas[item.severity].fixed++);
+  SEVERITIES.forEach(severity => {
+    deltas[severity].net = deltas[severity].new + deltas[severity].reopened - deltas[severity].fixed;
+  });
+}
+
+function getNet(severities: Record<FindingSeverity, SeverityDelta>): number {
+  return SEVERITIES.reduce((sum, severity) => sum + severities[severity].net, 0);
+}
+
+function formatNet(net: number): string {
+  return net > 0 ? `+${net}` : String(net);
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+function formatFinding(item: DiffFinding): string {
+  const name = item.url ? `[${escapeCell(item.name)}](${item.url})` : escapeCell(item.name);
+  return `**${item.severity.toUpperCase()}** ${name} (${item.tool} ${item.type} #${item.id})`;
+}
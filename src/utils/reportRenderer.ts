@@ -1,14 +1,145 @@
-import { AggregatedScanningResult, MultiApplicationAggregatedScanningResult, VulnerabilityReportItem } from '../interfaces/scanning-result.interface';
+import { Finding } from '../interfaces/finding.interface';
+import {
+  AggregatedScanningResult,
+  AlertFetchStats,
+  MultiApplicationAggregatedScanningResult
+} from '../interfaces/scanning-result.interface';
+import { RemediationSummary } from '../interfaces/remediation.interface';
+import { SlaCompliance } from '../interfaces/sla.interface';
+import {
+  escapeHtml,
+  flattenFindings,
+  formatApplicationLabel,
+  getFindingKey,
+  getMultiBranchApplications,
+  SEVERITIES
+} from './reportData';
+import { toFindings } from './findingAdapters';
+import { formatPolicyGroup, getViolatedRules } from './policy';
+import { AZURE_DEVOPS_PROVIDER_ID, getFetchStats, GITHUB_PROVIDER_ID } from './providerResults';
+import { formatRemediationTime, summarizeRemediation } from './remediation';
+import { renderDiffHtmlSection, ReportDiff } from './reportDiff';
+import { explainRiskScore, scoreApplications } from './riskScore';
+import { formatSla, formatSlaSettings, SLA_STATUS_LABELS, summarizeSlaCompliance } from './sla';
+import { getExpiredSuppressions, isSuppressed } from './suppressions';
+
+export interface HtmlReportOptions {
+  comparison?: ReportDiff; // changes since an earlier run, shown as the Scan Comparison section
+}
 
 // Type guard to check if data is for multiple applications
 function isMultiApplicationData(data: any): data is MultiApplicationAggregatedScanningResult {
   return 'applications' in data && Array.isArray(data.applications);
 }
 
-export const renderReport = (data: AggregatedScanningResult | MultiApplicationAggregatedScanningResult): string => {
+// Banner shown at the top of reports that contain simulated demo data
+const DEMO_BANNER = `
+    <div class="demo-banner">
+      <strong>DEMO DATA:</strong> This report contains simulated findings generated in demo mode.
+      Results marked DEMO do not come from a real scan and must not be treated as real vulnerabilities.
+    </div>
+`;
+
+const DEMO_BANNER_STYLE = `
+      .demo-banner {
+        background-color: #fff3cd;
+        border: 2px solid #f57c00;
+        color: #663d00;
+        padding: 16px;
+        border-radius: 4px;
+        margin-bottom: 20px;
+        font-size: 16px;
+      }
+      .demo-badge {
+        background-color: #f57c00;
+        color: white;
+        font-size: 11px;
+        font-weight: bold;
+        padding: 2px 6px;
+        border-radius: 3px;
+        margin-right: 6px;
+      }
+`;
+
+const demoBadge = (simulated?: boolean): string => simulated ? '<span class="demo-badge">DEMO</span>' : '';
+
+const EXPIRED_SUPPRESSION_STYLE = `
+      .expired-suppressions {
+        background-color: #fdecea;
+        border: 2px solid #d32f2f;
+        color: #611a15;
+        padding: 16px;
+        border-radius: 4px;
+        margin-bottom: 20px;
+        font-size: 16px;
+      }
+      .expired-badge {
+        background-color: #d32f2f;
+        color: white;
+        font-size: 11px;
+        font-weight: bold;
+        padding: 2px 6px;
+        border-radius: 3px;
+        margin-left: 6px;
+      }
+`;
+
+const POLICY_STYLE = `
+      .policy-section h2 span {
+        color: white;
+        font-size: 14px;
+        padding: 4px 10px;
+        border-radius: 4px;
+        margin-left: 8px;
+        vertical-align: middle;
+      }
+      .policy-passed h2 span { background-color: #388e3c; }
+      .policy-failed { border: 2px solid #d32f2f; }
+      .policy-failed h2 span { background-color: #d32f2f; }
+      .policy-check-failed td { background-color: #fdecea; }
+`;
+
+const SLA_STYLE = `
+      .sla-within { color: #388e3c; }
+      .sla-due-soon { color: #f57c00; font-weight: bold; }
+      .sla-breached { color: #d32f2f; font-weight: bold; }
+      .sla-total td { font-weight: bold; }
+`;
+
+const formatDate = (date: Date): string => date.toISOString().slice(0, 10);
+
+// Every tool that reported a finding, linked to its alert
+const reportedByLinks = (finding: Finding): string => finding.reportedBy
+  .map(source => source.url
+    ? `<a href="${escapeHtml(source.url)}" target="_blank">${escapeHtml(source.tool)}</a>`
+    : escapeHtml(source.tool))
+  .join(', ');
+
+const slaCell = ({ sla }: Finding): string => sla
+  ? `<span class="sla-${sla.status}">${SLA_STATUS_LABELS[sla.status]}</span><br>due ${formatDate(sla.dueDate)}`
+  : '';
+
+// e.g. "2025-05-02 by octocat as false positive: Input is validated upstream"
+const formatDismissal = (dismissedAt: Date, finding: Finding): string => [
+  formatDate(dismissedAt),
+  finding.dismissedBy ? ` by ${escapeHtml(finding.dismissedBy)}` : '',
+  finding.dismissedReason ? ` as ${escapeHtml(finding.dismissedReason)}` : '',
+  finding.dismissedComment ? `: ${escapeHtml(finding.dismissedComment)}` : ''
+].join('');
+
+// The failed policy rules that count a finding, in its details
+const policyDetail = (violatedRules?: string[]): string => violatedRules
+  ? '<div class="detail-item"><strong>Policy:</strong> counted by the failed rule(s) '
+    + `${escapeHtml(violatedRules.join(', '))}</div>`
+  : '';
+
+export const renderReport = (
+  data: AggregatedScanningResult | MultiApplicationAggregatedScanningResult,
+  options: HtmlReportOptions = {}
+): string => {
   if (isMultiApplicationData(data)) {
     // Handle multi-application report
-    return renderMultiApplicationReport(data);
+    return renderMultiApplicationReport(data, options);
   } else {
     // Handle single application report for backward compatibility
     return renderSingleApplicationReport(data);
@@ -25,6 +156,9 @@ const renderSingleApplicationReport = (data: AggregatedScanningResult): string =
     timestamp 
   } = data;
 
+  const hasDemoData = [...githubResults.codeScanning, ...githubResults.dependencyScanning,
+    ...azureDevOpsResults.codeScanning, ...azureDevOpsResults.dependencyScanning].some(result => result.simulated);
+
   // Count total issues by severity
   const countIssuesBySeverity = (results: any[]) => {
     const counts: Record<string, number> = { critical: 0, high: 0, medium: 0, low: 0, warning: 0, note: 0 };
@@ -56,7 +190,7 @@ const renderSingleApplicationReport = (data: AggregatedScanningResult): string =
       tableRows += `
         <tr>
           <td>${result.id || ''}</td>
-          <td>${result.name || ''}</td>
+          <td>${demoBadge(result.simulated)}${result.name || ''}</td>
           <td class="severity-${result.severity}">
             ${result.severity ? result.severity.toUpperCase() : ''}
           </td>
@@ -120,13 +254,15 @@ const renderSingleApplicationReport = (data: AggregatedScanningResult): string =
       .results-table { margin: 30px 0; }
       .tool-section { margin: 40px 0; }
       h2 { color: #333; border-bottom: 2px solid #eee; padding-bottom: 10px; }
+      ${hasDemoData ? DEMO_BANNER_STYLE : ''}
     </style>
   </head>
   <body>
+    ${hasDemoData ? DEMO_BANNER : ''}
     <div class="header">
       <h1>Dependency and Code Scanning Report</h1>
       <p><strong>Application:</strong> ${applicationName}</p>
-      <p><strong>Branch:</strong> ${branchName}</p>
+      <p><strong>Branch:</strong> ${escapeHtml(branchName)}</p>
       <p><strong>Generated:</strong> ${timestamp.toISOString()}</p>
     </div>
 
@@ -188,6 +324,16 @@ const renderSingleApplicationReport = (data: AggregatedScanningResult): string =
       </div>
     </div>
 
+    ${data.sarifResults && data.sarifResults.codeScanning.length > 0 ? `
+    <div class="tool-section">
+      <h2>SARIF Results</h2>
+      
+      <div class="sarif-code">
+        ${renderResultsTable(data.sarifResults.codeScanning, "Code Scanning Results")}
+      </div>
+    </div>
+    ` : ''}
+
     <footer>
       <hr />
       <p>Generated by Dependency Analysis Tool at ${timestamp.toISOString()}</p>
@@ -196,111 +342,30 @@ const renderSingleApplicationReport = (data: AggregatedScanningResult): string =
 </html>`;
 };
 
-const renderMultiApplicationReport = (data: MultiApplicationAggregatedScanningResult): string => {
-  const { applications, errors, summary, timestamp } = data;
+const renderMultiApplicationReport = (
+  data: MultiApplicationAggregatedScanningResult,
+  options: HtmlReportOptions
+): string => {
+  const { applications, errors, discovery, summary, timestamp } = data;
   
-  // Create a comprehensive array of all vulnerabilities from all applications
-  const allVulnerabilities: VulnerabilityReportItem[] = [];
+  // Create a comprehensive array of all vulnerabilities from all applications;
+  // suppressed findings are listed separately
+  const findings = flattenFindings(data);
+  const allVulnerabilities = findings.filter(vuln => !isSuppressed(vuln));
+  const suppressedVulnerabilities = findings.filter(isSuppressed);
+  const expiredSuppressions = getExpiredSuppressions(data.suppressions, timestamp);
+  const violatedRules = getViolatedRules(data.policy);
+  const slaCompliance = data.sla ? summarizeSlaCompliance(allVulnerabilities) : undefined;
+  const remediation = summarizeRemediation(findings);
+  const columnCount = data.sla ? 10 : 9;
   
-  applications.forEach(app => {
-    // Add GitHub Code Scanning results
-    app.githubResults.codeScanning.forEach(result => {
-      allVulnerabilities.push({
-        application: app.applicationName,
-        tool: 'GitHub',
-        type: 'Code Scanning',
-        id: result.id,
-        name: result.name,
-        severity: result.severity,
-        description: result.description,
-        state: result.state,
-        url: result.url,
-        additionalInfo: {
-          ruleId: result.ruleId,
-          ruleName: result.ruleName,
-          ruleSeverity: result.ruleSeverity,
-          filePath: result.filePath,
-          startLine: result.startLine,
-          endLine: result.endLine,
-          startColumn: result.startColumn,
-          endColumn: result.endColumn,
-          codeSnippet: result.codeSnippet,
-          cwes: result.cwes,
-          tags: result.tags
-        }
-      });
-    });
-    
-    // Add GitHub Dependency Scanning results
-    app.githubResults.dependencyScanning.forEach(result => {
-      allVulnerabilities.push({
-        application: app.applicationName,
-        tool: 'GitHub',
-        type: 'Dependency Scanning',
-        id: result.id,
-        name: result.name,
-        severity: result.severity,
-        description: result.description,
-        state: result.state,
-        url: result.url,
-        additionalInfo: {
-          ecosystem: result.ecosystem,
-          packageName: result.packageName,
-          version: result.version,
-          fixedVersion: result.fixedVersion,
-          cveId: result.cveId,
-          cvss: result.cvss
-        }
-      });
-    });
-    
-    // Add Azure DevOps Code Scanning results
-    app.azureDevOpsResults.codeScanning.forEach(result => {
-      allVulnerabilities.push({
-        application: app.applicationName,
-        tool: 'Azure DevOps',
-        type: 'Code Scanning',
-        id: result.id,
-        name: result.name,
-        severity: result.severity,
-        description: result.description,
-        state: result.state,
-        url: result.url,
-        additionalInfo: {
-          ruleId: result.ruleId,
-          ruleName: result.ruleName,
-          ruleSeverity: result.ruleSeverity,
-          filePath: result.filePath,
-          line: result.line,
-          column: result.column,
-          snippet: result.snippet,
-          type: result.type
-        }
-      });
-    });
-    
-    // Add Azure DevOps Dependency Scanning results
-    app.azureDevOpsResults.dependencyScanning.forEach(result => {
-      allVulnerabilities.push({
-        application: app.applicationName,
-        tool: 'Azure DevOps',
-        type: 'Dependency Scanning',
-        id: result.id,
-        name: result.name,
-        severity: result.severity,
-        description: result.description,
-        state: result.state,
-        url: result.url,
-        additionalInfo: {
-          package: result.package,
-          packageVersion: result.packageVersion,
-          vulnerabilityId: result.vulnerabilityId,
-          cvssScore: result.cvssScore,
-          severityLevel: result.severityLevel
-        }
-      });
-    });
-  });
+  // Findings are listed in application and branch order, with a heading row for each application × branch
+  const multiBranchApplications = getMultiBranchApplications(data);
+  const groupKey = (vuln: Finding) => `${vuln.application}\u0000${vuln.branch}`;
+  const isNewGroup = (index: number) => index === 0
+    || groupKey(allVulnerabilities[index - 1]) !== groupKey(allVulnerabilities[index]);
+  const getGroup = (vuln: Finding) => allVulnerabilities.filter(other => groupKey(other) === groupKey(vuln));
+  const countOpen = (group: Finding[]) => group.filter(other => other.state === 'open').length;
   
   // Generate the material design table HTML
   const vulnerabilitiesTable = `
@@ -312,66 +377,112 @@ const renderMultiApplicationReport = (data: MultiApplicationAggregatedScanningRe
             <th>Application</th>
             <th>Type</th>
             <th>Tool</th>
+            <th>Reported By</th>
             <th>Severity</th>
             <th>Name</th>
             <th>Status</th>
+            ${data.sla ? '<th>SLA</th>' : ''}
+            <th>Branches</th>
             <th>Expand</th>
           </tr>
         </thead>
         <tbody>
-          ${allVulnerabilities.map(vuln => `
+          ${allVulnerabilities.map((vuln, index) => `
+            ${isNewGroup(index) ? `
+            <tr class="group-row">
+              <td colspan="${columnCount}">
+                <strong>${
+                  escapeHtml(formatApplicationLabel(vuln.application, vuln.branch, multiBranchApplications))
+                }</strong>
+                &middot; ${getGroup(vuln).length} finding(s), ${countOpen(getGroup(vuln))} open
+              </td>
+            </tr>
+            ` : ''}
             <tr>
-              <td>${vuln.application}</td>
+              <td>${escapeHtml(vuln.application)}</td>
               <td class="type">${vuln.type}</td>
-              <td class="tool">${vuln.tool}</td>
+              <td class="tool">${escapeHtml(vuln.tool)}</td>
+              <td class="tool">${reportedByLinks(vuln)}</td>
               <td class="severity severity-${vuln.severity}">${vuln.severity.toUpperCase()}</td>
-              <td>${vuln.name}</td>
-              <td>${vuln.state}</td>
+              <td>${demoBadge(vuln.simulated)}${escapeHtml(vuln.name)}</td>
+              <td>${vuln.state}${vuln.suppression ? '<span class="expired-badge">SUPPRESSION EXPIRED</span>' : ''}</td>
+              ${data.sla ? `<td>${slaCell(vuln)}</td>` : ''}
+              <td>
+                ${(vuln.branches || [vuln.branch])
+                  .map(branch => `<span class="${branch === vuln.branch ? 'tag tag-current' : 'tag'}">${
+                    escapeHtml(branch || '')
+                  }</span>`)
+                  .join(' ')}
+              </td>
               <td>
                 <button class="expand-btn" onclick="toggleRowDetails(this)">Expand</button>
               </td>
             </tr>
             <tr class="details-row hidden">
-              <td colspan="7" class="details-content">
+              <td colspan="${columnCount}" class="details-content">
                 <div class="details-panel">
                   <div class="detail-item">
-                    <strong>ID:</strong> ${vuln.id}
+                    <strong>ID:</strong> ${escapeHtml(vuln.id)}
                   </div>
                   <div class="detail-item">
-                    <strong>Description:</strong> ${vuln.description}
+                    <strong>Description:</strong> ${escapeHtml(vuln.description)}
                   </div>
+                  ${vuln.suppression ? `<div class="detail-item">
+                    <strong>Suppression:</strong> ${escapeHtml(vuln.suppression.id)}
+                    (${vuln.suppression.status}, approved by ${escapeHtml(vuln.suppression.approvedBy)})
+                    expired on ${formatDate(vuln.suppression.expires)}: ${escapeHtml(vuln.suppression.justification)}
+                  </div>` : ''}
+                  ${vuln.sla ? `<div class="detail-item">
+                    <strong>SLA:</strong> ${formatSla(vuln.sla)};
+                    first detected ${vuln.sla.ageDays} day(s) ago, ${vuln.sla.days} day(s) allowed
+                  </div>` : ''}
+                  ${vuln.fixedAt ? `<div class="detail-item">
+                    <strong>Fixed:</strong> ${formatDate(vuln.fixedAt)}
+                  </div>` : ''}
+                  ${vuln.dismissedAt ? `<div class="detail-item">
+                    <strong>Dismissed:</strong> ${formatDismissal(vuln.dismissedAt, vuln)}
+                  </div>` : ''}
+                  ${policyDetail(violatedRules.get(getFindingKey(vuln)))}
                   ${vuln.url ? `<div class="detail-item">
-                    <strong>Link:</strong> <a href="${vuln.url}" target="_blank">View in ${vuln.tool}</a>
+                    <strong>Link:</strong>
+                    <a href="${escapeHtml(vuln.url)}" target="_blank">View in ${escapeHtml(vuln.tool)}</a>
                   </div>` : ''}
                   ${vuln.type === 'Dependency Scanning' ? `
                     <div class="detail-item">
-                      <strong>Package:</strong> ${vuln.additionalInfo.packageName || vuln.additionalInfo.package || 'N/A'}
+                      <strong>Package:</strong> ${vuln.package?.name || 'N/A'}
                     </div>
                     <div class="detail-item">
-                      <strong>Version:</strong> ${vuln.additionalInfo.version || vuln.additionalInfo.packageVersion || 'N/A'}
+                      <strong>Version:</strong> ${vuln.package?.version || 'N/A'}
                     </div>
                     <div class="detail-item">
-                      <strong>Fixed in:</strong> ${vuln.additionalInfo.fixedVersion || 'N/A'}
+                      <strong>Fixed in:</strong> ${vuln.package?.fixedVersion || 'N/A'}
                     </div>
                     <div class="detail-item">
-                      <strong>CVE:</strong> ${vuln.additionalInfo.cveId || vuln.additionalInfo.vulnerabilityId || 'N/A'}
+                      <strong>Advisory:</strong> ${vuln.advisory?.id || 'N/A'}
                     </div>
                     <div class="detail-item">
-                      <strong>CVSS:</strong> ${vuln.additionalInfo.cvss || vuln.additionalInfo.cvssScore || 'N/A'}
+                      <strong>CVE:</strong> ${vuln.advisory?.cveId || 'N/A'}
                     </div>
-                  ` : `
                     <div class="detail-item">
-                      <strong>File:</strong> ${vuln.additionalInfo.filePath || 'N/A'}
+                      <strong>CVSS:</strong> ${vuln.cvss || 'N/A'}
                     </div>
+                  ` : `
                     <div class="detail-item">
-                      <strong>Location:</strong> Line ${vuln.additionalInfo.startLine || vuln.additionalInfo.line || 'N/A'}, Column ${vuln.additionalInfo.startColumn || vuln.additionalInfo.column || 'N/A'}
+                      <strong>File:</strong> ${escapeHtml(vuln.location?.filePath || 'N/A')}
                     </div>
                     <div class="detail-item">
-                      <strong>Rule ID:</strong> ${vuln.additionalInfo.ruleId}
+                      <strong>Location:</strong>
+                      Line ${vuln.location?.startLine || 'N/A'}, Column ${vuln.location?.startColumn || 'N/A'}
                     </div>
                     <div class="detail-item">
-                      <strong>Rule Name:</strong> ${vuln.additionalInfo.ruleName}
+                      <strong>Rule ID:</strong> ${escapeHtml(vuln.rule?.id || 'N/A')}
                     </div>
+                    <div class="detail-item">
+                      <strong>Rule Name:</strong> ${escapeHtml(vuln.rule?.name || 'N/A')}
+                    </div>${vuln.secretType ? `
+                    <div class="detail-item">
+                      <strong>Secret type:</strong> ${vuln.secretType}
+                    </div>` : ''}
                   `}
                 </div>
               </td>
@@ -382,6 +493,213 @@ const renderMultiApplicationReport = (data: MultiApplicationAggregatedScanningRe
     </div>
   `;
 
+  // Findings matched by a suppression that has not expired, with the reason they are accepted
+  const suppressedSection = suppressedVulnerabilities.length > 0 ? `
+    <div class="vulnerabilities-table-container suppressed-findings">
+      <h2>Suppressed Findings</h2>
+      <p>
+        ${suppressedVulnerabilities.length} finding(s) accepted in the suppression file are left out of the totals above
+      </p>
+      <table class="material-table">
+        <thead>
+          <tr>
+            <th>Application</th>
+            <th>Severity</th>
+            <th>Name</th>
+            <th>Tool</th>
+            <th>Suppression</th>
+            <th>Status</th>
+            <th>Justification</th>
+            <th>Approved By</th>
+            <th>Expires</th>
+          </tr>
+        </thead>
+        <tbody>
+          ${suppressedVulnerabilities.map(vuln => `
+            <tr>
+              <td>${escapeHtml(formatApplicationLabel(vuln.application, vuln.branch, multiBranchApplications))}</td>
+              <td class="severity severity-${vuln.severity}">${vuln.severity.toUpperCase()}</td>
+              <td>${vuln.url
+                ? `<a href="${escapeHtml(vuln.url)}" target="_blank">${escapeHtml(vuln.name)}</a>`
+                : escapeHtml(vuln.name)}</td>
+              <td class="tool">${vuln.tool}</td>
+              <td>${escapeHtml(vuln.suppression.id)}</td>
+              <td>${vuln.suppression.status}</td>
+              <td>${escapeHtml(vuln.suppression.justification)}</td>
+              <td>${escapeHtml(vuln.suppression.approvedBy)}</td>
+              <td>${formatDate(vuln.suppression.expires)}</td>
+            </tr>
+          `).join('')}
+        </tbody>
+      </table>
+    </div>
+  ` : '';
+
+  // The outcome of every rule of the policy file, failed checks first
+  const policySection = data.policy ? `
+    <div class="vulnerabilities-table-container policy-section policy-${data.policy.passed ? 'passed' : 'failed'}">
+      <h2>Policy <span>${data.policy.passed ? 'PASSED' : 'FAILED'}</span></h2>
+      <p>${data.policy.checks.filter(check => !check.passed).length} of ${data.policy.checks.length} check(s) failed</p>
+      <table class="material-table">
+        <thead>
+          <tr>
+            <th>Status</th>
+            <th>Rule</th>
+            <th>Scope</th>
+            <th>Findings</th>
+            <th>Allowed</th>
+            <th>Description</th>
+          </tr>
+        </thead>
+        <tbody>
+          ${[...data.policy.checks].sort((a, b) => Number(a.passed) - Number(b.passed)).map(check => `
+            <tr class="${check.passed ? '' : 'policy-check-failed'}">
+              <td class="${check.passed ? '' : 'severity-critical'}">${check.passed ? 'Passed' : 'Failed'}</td>
+              <td>${escapeHtml(check.rule)}</td>
+              <td>${escapeHtml(formatPolicyGroup(check))}</td>
+              <td>${check.findings}</td>
+              <td>${check.maxFindings}</td>
+              <td>${escapeHtml(check.description || '')}</td>
+            </tr>
+          `).join('')}
+        </tbody>
+      </table>
+    </div>
+  ` : '';
+
+  // Where the open findings of each application stand against their remediation SLAs, least compliant first
+  const slaRow = (counts: SlaCompliance, label: string, className = '') => `
+            <tr class="${className}">
+              <td>${label}</td>
+              <td class="sla-within">${counts.within}</td>
+              <td class="sla-due-soon">${counts.dueSoon}</td>
+              <td class="sla-breached">${counts.breached}</td>
+              <td>${counts.compliance}%</td>
+            </tr>
+          `;
+  const slaSection = data.sla && slaCompliance ? `
+    <div class="vulnerabilities-table-container sla-compliance">
+      <h2>SLA Compliance</h2>
+      <p>
+        Remediation SLAs: ${formatSlaSettings(data.sla)};
+        findings due within ${data.sla.dueSoonDays} day(s) are due soon
+      </p>
+      <table class="material-table">
+        <thead>
+          <tr>
+            <th>Application</th>
+            <th>Within SLA</th>
+            <th>Due Soon</th>
+            <th>Breached</th>
+            <th>Compliance</th>
+          </tr>
+        </thead>
+        <tbody>
+          ${[...slaCompliance.applications]
+            .sort((a, b) => a.compliance - b.compliance)
+            .map(counts => slaRow(counts, counts.application))
+            .join('')}
+          ${slaRow(slaCompliance.total, 'Total', 'sla-total')}
+        </tbody>
+      </table>
+    </div>
+  ` : '';
+
+  // Applications ranked by the risk score of their open findings, with the points of each factor in the details
+  const riskScores = data.riskModel ? scoreApplications(data, data.riskModel) : [];
+  const riskLeaderboard = riskScores.length > 0 ? `
+    <div class="vulnerabilities-table-container risk-leaderboard">
+      <h2>Risk Leaderboard</h2>
+      <p>
+        Applications ranked by the risk score of their open findings: severity weights raised by CVSS, age
+        and available fixes, multiplied by exposure tags
+      </p>
+      <table class="material-table">
+        <thead>
+          <tr>
+            <th>Rank</th>
+            <th>Application</th>
+            <th>Score</th>
+            <th>Open Findings</th>
+            <th>Exposure</th>
+            <th>Expand</th>
+          </tr>
+        </thead>
+        <tbody>
+          ${riskScores.map(score => `
+            <tr>
+              <td>${score.rank}</td>
+              <td>${escapeHtml(score.application)}</td>
+              <td><strong>${score.score}</strong></td>
+              <td>${score.findings}</td>
+              <td>${score.exposureTags.map(tag => `<span class="tag">${escapeHtml(tag)}</span>`).join(' ')}</td>
+              <td>
+                <button class="expand-btn" onclick="toggleRowDetails(this)">Expand</button>
+              </td>
+            </tr>
+            <tr class="details-row hidden">
+              <td colspan="6" class="details-content">
+                <div class="details-panel">
+                  ${explainRiskScore(score).map(line => `<div class="detail-item">${line}</div>`).join('')}
+                  <div class="detail-item"><strong>Score:</strong> ${score.score}</div>
+                </div>
+              </td>
+            </tr>
+          `).join('')}
+        </tbody>
+      </table>
+    </div>
+  ` : '';
+
+  // Mean days from detection to fix of the fixed findings, per application and severity
+  const remediationSeverities = SEVERITIES.filter(severity => remediation.total.severities[severity]);
+  const remediationRow = (summary: RemediationSummary, label: string) => `
+            <tr>
+              <td>${label}</td>
+              <td>${formatRemediationTime(summary)}</td>
+              ${remediationSeverities
+                .map(severity => `<td>${formatRemediationTime(summary.severities[severity])}</td>`)
+                .join('')}
+            </tr>
+          `;
+  const remediationSection = remediation.total.fixed > 0 ? `
+    <div class="vulnerabilities-table-container remediation">
+      <h2>Mean Time to Remediate</h2>
+      <p>Mean days from detection to fix of the ${remediation.total.fixed} fixed finding(s) in this run</p>
+      <table class="material-table">
+        <thead>
+          <tr>
+            <th>Application</th>
+            <th>All Severities</th>
+            ${remediationSeverities
+              .map(severity => `<th>${severity.charAt(0).toUpperCase()}${severity.slice(1)}</th>`)
+              .join('')}
+          </tr>
+        </thead>
+        <tbody>
+          ${remediation.applications.map(summary => remediationRow(summary, summary.application)).join('')}
+          ${remediationRow(remediation.total, '<strong>Total</strong>')}
+        </tbody>
+      </table>
+    </div>
+  ` : '';
+
+  // Expired suppressions no longer hide their findings and must be renewed or removed
+  const expiredSuppressionBanner = expiredSuppressions.length > 0 ? `
+    <div class="expired-suppressions">
+      <strong>EXPIRED SUPPRESSIONS:</strong>
+      ${expiredSuppressions.length} entr${expiredSuppressions.length === 1 ? 'y' : 'ies'} of the suppression file
+      expired; the findings they match are counted again until each entry is renewed or removed.
+      <ul>
+        ${expiredSuppressions.map(suppression => `
+          <li>${escapeHtml(suppression.id)}: expired ${formatDate(suppression.expires)},
+            approved by ${escapeHtml(suppression.approvedBy)},
+            ${findings.filter(vuln => vuln.suppression?.id === suppression.id).length} finding(s) affected</li>
+        `).join('')}
+      </ul>
+    </div>
+  ` : '';
+
   // Generate error section if there are any errors
   const errorSection = errors && errors.length > 0 ? `
     <div class="error-section">
@@ -389,8 +707,8 @@ const renderMultiApplicationReport = (data: MultiApplicationAggregatedScanningRe
       <div class="error-list">
         ${errors.map(error => `
           <div class="error-item">
-            <h3>Application: ${error.applicationName}</h3>
-            <p><strong>Error:</strong> ${error.error}</p>
+            <h3>Application: ${escapeHtml(error.applicationName)}</h3>
+            <p><strong>Error:</strong> ${escapeHtml(error.error)}</p>
           </div>
           <hr />
         `).join('')}
@@ -398,6 +716,116 @@ const renderMultiApplicationReport = (data: MultiApplicationAggregatedScanningRe
     </div>
   ` : '';
 
+  // Generate fetch coverage section showing how many alerts were fetched vs. reported by the API
+  const fetchStatsRows: Array<{ application: string, source: string, stats: AlertFetchStats }> = [];
+  applications.forEach(app => {
+    getFetchStats(app).forEach(({ source, stats }) => {
+      fetchStatsRows.push({ application: app.applicationName, source, stats });
+    });
+  });
+
+  const fetchCoverageSection = fetchStatsRows.length > 0 ? `
+    <div class="vulnerabilities-table-container fetch-coverage">
+      <h2>Alert Fetch Coverage</h2>
+      <table class="material-table">
+        <thead>
+          <tr>
+            <th>Application</th>
+            <th>Source</th>
+            <th>Fetched</th>
+            <th>Reported by API</th>
+            <th>Pages</th>
+            <th>Status</th>
+          </tr>
+        </thead>
+        <tbody>
+          ${fetchStatsRows.map(row => `
+            <tr>
+              <td>${row.application}</td>
+              <td class="tool">${row.source}</td>
+              <td>${row.stats.fetched}</td>
+              <td>${row.stats.reported !== undefined ? row.stats.reported : `More than ${row.stats.fetched}`}</td>
+              <td>${row.stats.pages}</td>
+              <td class="${row.stats.truncated ? 'severity-high' : ''}">
+                ${row.stats.truncated ? 'Truncated at page limit' : 'Complete'}
+              </td>
+            </tr>
+          `).join('')}
+        </tbody>
+      </table>
+    </div>
+  ` : '';
+
+  // Generate the applications overview with the ownership details from the configuration file
+  const countFindings = (app: AggregatedScanningResult): number => toFindings(app).length;
+
+  const applicationsSection = `
+    <div class="vulnerabilities-table-container applications-overview">
+      <h2>Applications</h2>
+      <table class="material-table">
+        <thead>
+          <tr>
+            <th>Application</th>
+            <th>Branch</th>
+            <th>Team</th>
+            <th>Tags</th>
+            <th>Findings</th>
+          </tr>
+        </thead>
+        <tbody>
+          ${applications.map(app => `
+            <tr>
+              <td>
+                ${app.displayName
+                  ? `${app.displayName} <span class="tool">(${app.applicationName})</span>`
+                  : app.applicationName}
+              </td>
+              <td>${escapeHtml(app.branchName)}</td>
+              <td>${app.team || 'N/A'}</td>
+              <td>
+                ${app.tags && app.tags.length > 0
+                  ? app.tags.map(tag => `<span class="tag">${tag}</span>`).join(' ')
+                  : ''}
+              </td>
+              <td>${countFindings(app)}</td>
+            </tr>
+          `).join('')}
+        </tbody>
+      </table>
+    </div>
+  `;
+
+  // Generate the discovery section listing every repository discovery mode considered
+  const discoverySection = discovery ? `
+    <div class="vulnerabilities-table-container repository-discovery">
+      <h2>Repository Discovery</h2>
+      <p>${discovery.discovered.length} repositories discovered, ${discovery.skipped.length} skipped</p>
+      <table class="material-table">
+        <thead>
+          <tr>
+            <th>Repository</th>
+            <th>Provider</th>
+            <th>Status</th>
+            <th>Reason</th>
+          </tr>
+        </thead>
+        <tbody>
+          ${[...discovery.discovered, ...discovery.skipped].map(repository => `
+            <tr>
+              <td>${repository.repository}</td>
+              <td class="tool">${repository.provider}</td>
+              <td>${repository.reason ? 'Skipped' : `Scanned as ${repository.applicationName}`}</td>
+              <td>${repository.reason || ''}</td>
+            </tr>
+          `).join('')}
+        </tbody>
+      </table>
+    </div>
+  ` : '';
+
+  // Applications are counted once however many branches were scanned or failed
+  const failedApplications = new Set((errors || []).map(error => error.application || error.applicationName)).size;
+
   // Generate overall summary card HTML
   const overallSummaryCard = `
     <div class="overall-summary">
@@ -410,12 +838,12 @@ const renderMultiApplicationReport = (data: MultiApplicationAggregatedScanningRe
         
         <div class="summary-card">
           <h3>Successfully Processed</h3>
-          <p><strong>${applications.length - (errors ? errors.length : 0)}</strong></p>
+          <p><strong>${Math.max(summary.totalApplications - failedApplications, 0)}</strong></p>
         </div>
         
         <div class="summary-card">
           <h3>Failed Applications</h3>
-          <p><strong>${errors ? errors.length : 0}</strong></p>
+          <p><strong>${failedApplications}</strong></p>
         </div>
         
         <div class="summary-card">
@@ -437,6 +865,20 @@ const renderMultiApplicationReport = (data: MultiApplicationAggregatedScanningRe
           <h3>Azure DevOps Dependency Issues</h3>
           <p><strong>${summary.totalAzureDevOpsDependencyScanningIssues}</strong></p>
         </div>
+        
+        ${(summary.providerTotals || [])
+          .filter(totals => totals.provider !== GITHUB_PROVIDER_ID && totals.provider !== AZURE_DEVOPS_PROVIDER_ID)
+          .map(totals => `
+        <div class="summary-card">
+          <h3>${totals.displayName} Issues</h3>
+          <p><strong>${totals.codeScanning + totals.dependencyScanning + totals.secretScanning}</strong></p>
+        </div>
+        `).join('')}
+        
+        <div class="summary-card">
+          <h3>SARIF Code Issues</h3>
+          <p><strong>${summary.totalSarifCodeScanningIssues ?? 0}</strong></p>
+        </div>
       </div>
       
       <div class="severity-summary">
@@ -471,6 +913,8 @@ const renderMultiApplicationReport = (data: MultiApplicationAggregatedScanningRe
     </div>
   `;
 
+  const hasDemoData = data.demoMode || allVulnerabilities.some(vuln => vuln.simulated);
+
   // Construct the full HTML document for multi-application report with material design table
   return `<!DOCTYPE html>
 <html lang="en">
@@ -568,6 +1012,25 @@ const renderMultiApplicationReport = (data: MultiApplicationAggregatedScanningRe
         color: #555;
       }
       
+      .tag {
+        background-color: #e8eaf6;
+        color: #3949ab;
+        font-size: 12px;
+        padding: 2px 8px;
+        border-radius: 10px;
+        white-space: nowrap;
+      }
+      
+      .tag-current {
+        background-color: #3949ab;
+        color: white;
+      }
+      
+      .group-row td {
+        background-color: #eef1f8;
+        color: #333;
+      }
+      
       .expand-btn {
         background-color: #e0e0e0;
         border: none;
@@ -657,6 +1120,14 @@ const renderMultiApplicationReport = (data: MultiApplicationAggregatedScanningRe
         color: #666;
       }
       
+      ${hasDemoData ? DEMO_BANNER_STYLE : ''}
+      
+      ${expiredSuppressions.length > 0 ? EXPIRED_SUPPRESSION_STYLE : ''}
+      
+      ${data.policy ? POLICY_STYLE : ''}
+      
+      ${data.sla ? SLA_STYLE : ''}
+      
       @media (max-width: 768px) {
         .summary-card {
           min-width: 100px;
@@ -675,17 +1146,37 @@ const renderMultiApplicationReport = (data: MultiApplicationAggregatedScanningRe
     </style>
   </head>
   <body>
+    ${hasDemoData ? DEMO_BANNER : ''}
+    ${expiredSuppressionBanner}
     <div class="header">
       <h1>Multi-Application Security Scanning Report</h1>
       <p><strong>Generated:</strong> ${timestamp.toISOString()}</p>
     </div>
 
+    ${policySection}
+
+    ${slaSection}
+
+    ${riskLeaderboard}
+
+    ${remediationSection}
+
     ${overallSummaryCard}
 
+    ${options.comparison ? renderDiffHtmlSection(options.comparison) : ''}
+
+    ${applicationsSection}
+
+    ${discoverySection}
+
     ${errorSection}
 
+    ${fetchCoverageSection}
+
     ${vulnerabilitiesTable}
 
+    ${suppressedSection}
+
     <footer>
       <p>Generated by Multi-Application Dependency Analysis Tool at ${timestamp.toISOString()}</p>
     </footer>
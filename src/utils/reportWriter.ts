@@ -0,0 +1,43 @@
+/**
+ * Writes aggregated results to the output directory in each requested format
+ */
+import fs from 'fs';
+import path from 'path';
+import { MultiApplicationAggregatedScanningResult } from '../interfaces/scanning-result.interface';
+import { Logger } from './logger';
+import { REPORT_FORMATS, ReportRenderOptions } from './outputFormats';
+
+/**
+ * Writes one timestamped file per format and returns the paths written
+ */
+export function writeReports(
+  multiAppResults: MultiApplicationAggregatedScanningResult,
+  formats: string[],
+  outputDir: string,
+  renderOptions: ReportRenderOptions
+): string[] {
+  // Ensure output directory exists
+  if (!fs.existsSync(outputDir)) {
+    fs.mkdirSync(outputDir, { recursive: true });
+    Logger.info(`Created output directory: ${outputDir}`);
+  }
+
+  // Create timestamped filename
+  const timestamp = `${new Date().toISOString()
+    .replace(/[:.]/g, '-')  // Replace colons and dots with hyphens
+    .slice(0, -5)}Z`;       // Replace '-000Z' with 'Z'
+
+  return formats.map(formatName => {
+    const format = REPORT_FORMATS[formatName];
+    Logger.info(`Generating multi-application ${format.description}...`);
+
+    const filename = `multi-app-report-${timestamp}.${format.extension}`;
+    const filepath = path.join(outputDir, filename);
+    const content = format.render(multiAppResults, renderOptions);
+    fs.writeFileSync(filepath, content);
+
+    Logger.info(`Multi-application report generated successfully: ${filepath}`);
+    format.publish?.(filepath, content);
+    return filepath;
+  });
+}
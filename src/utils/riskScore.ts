@@ -0,0 +1,135 @@
+/**
+ * Scores and ranks applications by the risk of their open findings
+ */
+import { Finding } from '../interfaces/finding.interface';
+import { ApplicationRiskScore, RiskModel, RiskScoreBreakdown } from '../interfaces/risk.interface';
+import { MultiApplicationAggregatedScanningResult } from '../interfaces/scanning-result.interface';
+import { flattenFindings, getFindingKey, SEVERITIES } from './reportData';
+import { isSuppressed } from './suppressions';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_RISK_MODEL: RiskModel = {
+  severityWeights: { critical: 10, high: 5, medium: 2, low: 1, warning: 0.5, note: 0.1 },
+  cvssWeight: 1,
+  ageWeight: 1,
+  maxAgeDays: 365,
+  fixAvailableMultiplier: 1.5,
+  exposureTags: { 'internet-facing': 2, 'pci': 1.5 }
+};
+
+/**
+ * Scores every application with the run's risk model, highest score first. Each open finding that is not suppressed
+ * scores its severity weight, raised by its CVSS score, its age at the run's timestamp and, for dependency findings,
+ * an available fix; the sum is multiplied by the application's exposure tags. A finding reported on several branches
+ * of an application is scored once, and simulated demo findings are not scored.
+ */
+export function scoreApplications(
+  data: MultiApplicationAggregatedScanningResult,
+  model: RiskModel
+): ApplicationRiskScore[] {
+  const scores = new Map<string, ApplicationRiskScore>();
+  data.applications.forEach(app => {
+    const score = scores.get(app.applicationName) || createScore(app.applicationName);
+    const exposureTags = (app.tags || []).filter(tag => model.exposureTags[tag] !== undefined);
+    score.exposureTags.push(...exposureTags.filter(tag => !score.exposureTags.includes(tag)));
+    scores.set(app.applicationName, score);
+  });
+
+  const seen = new Set<string>();
+  flattenFindings(data)
+    .filter(finding => finding.state === 'open' && !isSuppressed(finding) && !finding.simulated)
+    .forEach(finding => {
+      const key = getFindingKey(finding);
+      const score = scores.get(finding.application);
+      if (!score || seen.has(key)) {
+        return;
+      }
+      seen.add(key);
+
+      const points = scoreFinding(finding, model, data.timestamp);
+      const severityPoints = score.severityPoints[finding.severity] || { findings: 0, points: 0 };
+      severityPoints.findings++;
+      severityPoints.points += points.severity + points.cvss + points.age + points.fixAvailable;
+      score.severityPoints[finding.severity] = severityPoints;
+      score.findings++;
+      (['severity', 'cvss', 'age', 'fixAvailable'] as const).forEach(factor => {
+        score.breakdown[factor] += points[factor];
+      });
+    });
+
+  const ranked = Array.from(scores.values()).map(score => {
+    const { severity, cvss, age, fixAvailable } = score.breakdown;
+    const subtotal = severity + cvss + age + fixAvailable;
+    score.exposureMultiplier = score.exposureTags.reduce((multiplier, tag) => multiplier * model.exposureTags[tag], 1);
+    score.breakdown.exposure = subtotal * (score.exposureMultiplier - 1);
+    score.score = round(subtotal + score.breakdown.exposure);
+    (Object.keys(score.breakdown) as Array<keyof RiskScoreBreakdown>).forEach(factor => {
+      score.breakdown[factor] = round(score.breakdown[factor]);
+    });
+    Object.values(score.severityPoints).forEach(entry => {
+      entry.points = round(entry.points);
+    });
+    return score;
+  });
+
+  // Ties keep the order of the applications in the run
+  ranked.sort((a, b) => b.score - a.score);
+  ranked.forEach((score, index) => {
+    score.rank = index + 1;
+  });
+  return ranked;
+}
+
+/**
+ * The points of one finding, by factor
+ */
+export function scoreFinding(finding: Finding, model: RiskModel, now: Date): Omit<RiskScoreBreakdown, 'exposure'> {
+  const severity = model.severityWeights[finding.severity] || 0;
+  const withCvss = severity * (1 + model.cvssWeight * Math.min(Math.max(finding.cvss || 0, 0), 10) / 10);
+  const ageDays = Math.max((now.getTime() - finding.createdAt.getTime()) / DAY_MS, 0);
+  const ageShare = model.maxAgeDays > 0 ? Math.min(ageDays / model.maxAgeDays, 1) : 0;
+  const withAge = withCvss * (1 + model.ageWeight * ageShare);
+  const withFix = finding.package?.fixedVersion ? withAge * model.fixAvailableMultiplier : withAge;
+  return { severity, cvss: withCvss - severity, age: withAge - withCvss, fixAvailable: withFix - withAge };
+}
+
+/**
+ * The points of each severity, then of each factor, e.g. ["2 critical finding(s): 31.4 points", "Severity weights: 20",
+ * "CVSS: +6.1", ..., "Exposure ×2 (internet-facing): +31.4"]
+ */
+export function explainRiskScore(score: ApplicationRiskScore): string[] {
+  const lines = SEVERITIES.flatMap(severity => {
+    const points = score.severityPoints[severity];
+    return points ? [`${points.findings} ${severity} finding(s): ${points.points} points`] : [];
+  });
+  lines.push(`Severity weights: ${score.breakdown.severity}`);
+  const factors: Array<[string, number]> = [
+    ['CVSS', score.breakdown.cvss],
+    ['Age', score.breakdown.age],
+    ['Fix available', score.breakdown.fixAvailable]
+  ];
+  lines.push(...factors.filter(([, points]) => points !== 0).map(([label, points]) => `${label}: +${points}`));
+  if (score.exposureTags.length > 0) {
+    const tags = score.exposureTags.join(', ');
+    lines.push(`Exposure ×${round(score.exposureMultiplier)} (${tags}): +${score.breakdown.exposure}`);
+  }
+  return lines;
+}
+
+function createScore(application: string): ApplicationRiskScore {
+  return {
+    application,
+    rank: 0,
+    score: 0,
+    findings: 0,
+    severityPoints: {},
+    exposureTags: [],
+    exposureMultiplier: 1,
+    breakdown: { severity: 0, cvss: 0, age: 0, fixAvailable: 0, exposure: 0 }
+  };
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
@@ -0,0 +1,241 @@
+/**
+ * Exports aggregated multi-application results as a SARIF 2.1.0 log
+ */
+import { Finding, FindingSeverity } from '../interfaces/finding.interface';
+import { MultiApplicationAggregatedScanningResult } from '../interfaces/scanning-result.interface';
+import {
+  SarifLevel,
+  SarifLog,
+  SarifReportingDescriptor,
+  SarifResult,
+  SarifRun
+} from '../interfaces/sarif.interface';
+import { getViolatedRules } from './policy';
+import { flattenFindings, getFindingKey, getMultiBranchApplications } from './reportData';
+import { isSuppressed } from './suppressions';
+
+const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+
+// security-severity used for a severity when the finding has no CVSS score of its own
+const SECURITY_SEVERITY_BY_SEVERITY: Record<FindingSeverity, number | undefined> = {
+  critical: 9.5,
+  high: 8.0,
+  medium: 5.5,
+  low: 2.0,
+  warning: undefined,
+  note: undefined
+};
+
+const LEVEL_BY_SEVERITY: Record<FindingSeverity, SarifLevel> = {
+  critical: 'error',
+  high: 'error',
+  medium: 'warning',
+  warning: 'warning',
+  low: 'note',
+  note: 'note'
+};
+
+/**
+ * Builds a SARIF log with one run per tool and application. The outcome of the policy checks is kept in the log's
+ * properties, and the failed rules that counted a result and its remediation SLA in the result's properties.
+ * Simulated demo findings are flagged in their message and properties, and demo runs in the log's properties.
+ */
+export function buildSarifLog(data: MultiApplicationAggregatedScanningResult): SarifLog {
+  const groups = new Map<string, Finding[]>();
+
+  const multiBranchApplications = getMultiBranchApplications(data);
+  const violatedRules = getViolatedRules(data.policy);
+
+  flattenFindings(data).forEach(item => {
+    const key = `${item.application}\u0000${item.branch}\u0000${item.tool}\u0000${getToolName(item)}`;
+    groups.set(key, [...(groups.get(key) || []), item]);
+  });
+
+  const runs: SarifRun[] = Array.from(groups.values())
+    .map(items => buildRun(items, data.timestamp, multiBranchApplications, violatedRules));
+
+  return {
+    $schema: SARIF_SCHEMA,
+    version: '2.1.0',
+    runs,
+    ...(data.policy || data.demoMode ? {
+      properties: {
+        ...(data.demoMode ? { demoMode: true } : {}),
+        ...(data.policy ? {
+          policy: {
+            passed: data.policy.passed,
+            checks: data.policy.checks.map(({ violations: _violations, ...check }) => check)
+          }
+        } : {})
+      }
+    } : {})
+  };
+}
+
+/**
+ * Renders the SARIF log as a JSON string
+ */
+export function renderSarifReport(data: MultiApplicationAggregatedScanningResult): string {
+  return JSON.stringify(buildSarifLog(data), null, 2);
+}
+
+function buildRun(
+  items: Finding[],
+  timestamp: Date,
+  multiBranchApplications: Set<string>,
+  violatedRules: Map<string, string[]>
+): SarifRun {
+  const { application, branch, tool } = items[0];
+  // Runs of applications scanned on several branches also need a category per branch
+  const category = multiBranchApplications.has(application) ? `${application}/${branch}` : application;
+  const toolName = getToolName(items[0]);
+  const rules: SarifReportingDescriptor[] = [];
+  const ruleIndexes = new Map<string, number>();
+
+  const results: SarifResult[] = items.map(item => {
+    const ruleId = getRuleId(item);
+    let ruleIndex = ruleIndexes.get(ruleId);
+
+    if (ruleIndex === undefined) {
+      ruleIndex = rules.length;
+      ruleIndexes.set(ruleId, ruleIndex);
+      rules.push(buildRule(ruleId, item));
+    } else {
+      mergeRuleSeverity(rules[ruleIndex], item);
+    }
+
+    return buildResult(item, ruleId, ruleIndex, violatedRules.get(getFindingKey(item)));
+  });
+
+  return {
+    tool: {
+      driver: {
+        name: toolName,
+        rules
+      }
+    },
+    // Unique per run so GitHub code scanning keeps each tool/application upload separate
+    automationDetails: {
+      id: `${category}/${toolName}/`
+    },
+    invocations: [{
+      executionSuccessful: true,
+      endTimeUtc: timestamp.toISOString()
+    }],
+    results,
+    properties: {
+      application,
+      branch,
+      provider: tool
+    }
+  };
+}
+
+function buildRule(ruleId: string, item: Finding): SarifReportingDescriptor {
+  const securitySeverity = getSecuritySeverity(item);
+  const tags = ['security', ...item.cwes.map(cwe => `external/cwe/${cwe.toLowerCase()}`)];
+
+  return {
+    id: ruleId,
+    name: item.rule?.name || item.name,
+    shortDescription: { text: item.name },
+    fullDescription: { text: item.rule?.description || item.description },
+    helpUri: item.url,
+    defaultConfiguration: {
+      level: LEVEL_BY_SEVERITY[item.severity]
+    },
+    properties: {
+      tags,
+      ...(securitySeverity !== undefined ? { 'security-severity': securitySeverity.toFixed(1) } : {})
+    }
+  };
+}
+
+/**
+ * Keeps the highest severity when the same rule is reported with different severities
+ */
+function mergeRuleSeverity(rule: SarifReportingDescriptor, item: Finding): void {
+  const securitySeverity = getSecuritySeverity(item);
+  const current = Number(rule.properties?.['security-severity'] ?? -1);
+
+  if (securitySeverity !== undefined && securitySeverity > current) {
+    rule.properties = { ...rule.properties, 'security-severity': securitySeverity.toFixed(1) };
+    rule.defaultConfiguration = { level: LEVEL_BY_SEVERITY[item.severity] };
+  }
+}
+
+function buildResult(item: Finding, ruleId: string, ruleIndex: number, policyViolations?: string[]): SarifResult {
+  const location = item.location;
+  const securitySeverity = getSecuritySeverity(item);
+
+  const messageParts = [item.simulated ? `DEMO DATA: ${item.name}` : item.name];
+  if (item.package) {
+    messageParts.push(`Package: ${item.package.name}${item.package.version ? `@${item.package.version}` : ''}`);
+  }
+  if (item.description && item.description !== item.name) {
+    messageParts.push(item.description);
+  }
+
+  const result: SarifResult = {
+    ruleId,
+    ruleIndex,
+    level: LEVEL_BY_SEVERITY[item.severity],
+    message: { text: messageParts.join('\n\n') },
+    locations: location ? [{
+      physicalLocation: {
+        artifactLocation: { uri: location.filePath },
+        ...(location.startLine ? {
+          region: {
+            startLine: location.startLine,
+            startColumn: location.startColumn || undefined,
+            endLine: location.endLine || undefined,
+            endColumn: location.endColumn || undefined
+          }
+        } : {})
+      }
+    }] : undefined,
+    partialFingerprints: item.partialFingerprints,
+    hostedViewerUri: item.url,
+    properties: {
+      severity: item.severity,
+      state: item.state,
+      alertId: item.id,
+      ...(item.simulated ? { simulated: true } : {}),
+      ...(item.reportedBy.length > 1 ? { reportedBy: item.reportedBy.map(source => source.tool) } : {}),
+      ...(policyViolations ? { policyViolations } : {}),
+      ...(item.sla ? { slaStatus: item.sla.status, slaDueDate: item.sla.dueDate.toISOString() } : {}),
+      ...(securitySeverity !== undefined ? { 'security-severity': securitySeverity.toFixed(1) } : {})
+    }
+  };
+
+  // Carry the alert state over using SARIF's own vocabulary
+  if (isSuppressed(item)) {
+    result.suppressions = [{ kind: 'external', status: 'accepted', justification: item.suppression.justification }];
+  } else if (item.state === 'dismissed') {
+    const justification = [item.dismissedReason, item.dismissedComment].filter(Boolean).join(': ');
+    result.suppressions = [{ kind: 'external', status: 'accepted', justification: justification || undefined }];
+  } else if (item.state === 'fixed') {
+    result.baselineState = 'absent';
+  }
+
+  return result;
+}
+
+function getToolName(item: Finding): string {
+  return item.toolName || item.tool;
+}
+
+function getRuleId(item: Finding): string {
+  return item.rule?.id
+    || item.advisory?.id
+    || item.advisory?.cveId
+    || item.package?.name
+    || item.id;
+}
+
+/**
+ * Uses the finding's CVSS score where it has one, otherwise a score representative of its severity
+ */
+function getSecuritySeverity(item: Finding): number | undefined {
+  return item.cvss !== undefined && item.cvss > 0 ? item.cvss : SECURITY_SEVERITY_BY_SEVERITY[item.severity];
+}
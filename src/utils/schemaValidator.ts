@@ -0,0 +1,157 @@
+/**
+ * Validates parsed documents against the JSON Schemas under schemas/
+ *
+ * Supports the keywords those schemas use: $ref to local $defs, type, const, enum, pattern, minLength,
+ * minimum, minItems, required, properties, additionalProperties, items and anyOf.
+ */
+
+export interface JsonSchema {
+  $ref?: string;
+  $defs?: Record<string, JsonSchema>;
+  type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  const?: unknown;
+  enum?: unknown[];
+  pattern?: string;
+  minLength?: number;
+  minimum?: number;
+  minItems?: number;
+  required?: string[];
+  properties?: Record<string, JsonSchema>;
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  anyOf?: JsonSchema[];
+  [keyword: string]: unknown;
+}
+
+// A validation failure and the path of the value it applies to
+export interface SchemaIssue {
+  path: Array<string | number>;
+  message: string;
+}
+
+/**
+ * Returns every place where the value does not match the schema; an empty list means it is valid
+ */
+export function validateSchema(value: unknown, schema: JsonSchema): SchemaIssue[] {
+  const issues: SchemaIssue[] = [];
+  validateNode(value, schema, schema, [], issues);
+  return issues;
+}
+
+/**
+ * Formats a path as a dotted property path, e.g. applications[2].github.repo
+ */
+export function formatSchemaPath(path: Array<string | number>): string {
+  return path.reduce<string>((formatted, segment) => typeof segment === 'number'
+    ? `${formatted}[${segment}]`
+    : formatted ? `${formatted}.${segment}` : segment, '') || '(root)';
+}
+
+function validateNode(
+  value: unknown,
+  schema: JsonSchema,
+  root: JsonSchema,
+  path: Array<string | number>,
+  issues: SchemaIssue[]
+): void {
+  if (schema.$ref) {
+    validateNode(value, resolveReference(schema.$ref, root), root, path, issues);
+    return;
+  }
+
+  if (schema.anyOf) {
+    const matches = schema.anyOf.some(option => validateSchema(value, { ...option, $defs: root.$defs }).length === 0);
+    if (!matches) {
+      issues.push({ path, message: 'does not match any of the allowed forms' });
+    }
+    return;
+  }
+
+  if (schema.type && !matchesType(value, schema.type)) {
+    issues.push({ path, message: `must be ${article(schema.type)} ${schema.type}, got ${describeType(value)}` });
+    return;
+  }
+
+  if ('const' in schema && value !== schema.const) {
+    issues.push({ path, message: `must be ${JSON.stringify(schema.const)}` });
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    issues.push({ path, message: `must be one of: ${schema.enum.map(option => JSON.stringify(option)).join(', ')}` });
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      const message = schema.minLength === 1 ? 'must not be empty' : `must be at least ${schema.minLength} characters`;
+      issues.push({ path, message });
+    }
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+      issues.push({ path, message: `must match ${schema.pattern}` });
+    }
+  }
+
+  if (typeof value === 'number' && schema.minimum !== undefined && value < schema.minimum) {
+    issues.push({ path, message: `must be at least ${schema.minimum}` });
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      const items = `${schema.minItems} item${schema.minItems === 1 ? '' : 's'}`;
+      issues.push({ path, message: `must contain at least ${items}` });
+    }
+    if (schema.items) {
+      const itemSchema = schema.items;
+      value.forEach((item, index) => validateNode(item, itemSchema, root, [...path, index], issues));
+    }
+  }
+
+  if (isPlainObject(value)) {
+    (schema.required || [])
+      .filter(property => !(property in value))
+      .forEach(property => issues.push({ path, message: `missing required property "${property}"` }));
+
+    Object.entries(value).forEach(([property, propertyValue]) => {
+      const propertySchema = schema.properties?.[property];
+      if (propertySchema) {
+        validateNode(propertyValue, propertySchema, root, [...path, property], issues);
+      } else if (schema.additionalProperties === false) {
+        issues.push({ path: [...path, property], message: 'is not a known property' });
+      } else if (typeof schema.additionalProperties === 'object') {
+        validateNode(propertyValue, schema.additionalProperties, root, [...path, property], issues);
+      }
+    });
+  }
+}
+
+function resolveReference(reference: string, root: JsonSchema): JsonSchema {
+  const match = /^#\/\$defs\/(.+)$/.exec(reference);
+  const schema = match ? root.$defs?.[match[1]] : undefined;
+  if (!schema) {
+    throw new Error(`Unsupported schema reference: ${reference}`);
+  }
+  return schema;
+}
+
+function matchesType(value: unknown, type: NonNullable<JsonSchema['type']>): boolean {
+  switch (type) {
+    case 'object': return isPlainObject(value);
+    case 'array': return Array.isArray(value);
+    case 'integer': return Number.isInteger(value);
+    default: return typeof value === type;
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function describeType(value: unknown): string {
+  if (value === null) {
+    return 'null';
+  }
+  return Array.isArray(value) ? 'array' : typeof value;
+}
+
+function article(word: string): string {
+  return /^[aeiou]/.test(word) ? 'an' : 'a';
+}
@@ -0,0 +1,130 @@
+/**
+ * Measures open findings against the remediation SLA of their severity
+ */
+import { Finding } from '../interfaces/finding.interface';
+import { FindingSla, SlaCompliance, SlaSettings, SlaStatus } from '../interfaces/sla.interface';
+import { Logger } from './logger';
+import { getFindingKey } from './reportData';
+import { isSuppressed } from './suppressions';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_SLA_SETTINGS: SlaSettings = {
+  days: { critical: 7, high: 30, medium: 90, low: 180 },
+  dueSoonDays: 3
+};
+
+export const SLA_STATUS_LABELS: Record<SlaStatus, string> = {
+  'within': 'Within SLA',
+  'due-soon': 'Due soon',
+  'breached': 'Breached'
+};
+
+/**
+ * Records on each open finding that is not suppressed its deadline and status at `now`. Findings whose severity
+ * has no SLA are left without one.
+ */
+export function applySlas(findings: Finding[], settings: SlaSettings | undefined, now: Date = new Date()): Finding[] {
+  if (!settings) {
+    return findings;
+  }
+
+  findings
+    .filter(finding => finding.state === 'open' && !isSuppressed(finding))
+    .forEach(finding => {
+      const days = settings.days[finding.severity];
+      if (days === undefined) {
+        return;
+      }
+      const dueDate = new Date(finding.createdAt.getTime() + days * DAY_MS);
+      const ageDays = Math.floor((now.getTime() - finding.createdAt.getTime()) / DAY_MS);
+      const remainingMs = dueDate.getTime() - now.getTime();
+      let status: SlaStatus = 'within';
+      if (remainingMs < 0) {
+        status = 'breached';
+      } else if (remainingMs <= settings.dueSoonDays * DAY_MS) {
+        status = 'due-soon';
+      }
+      // Partial days count as a whole day left, or a whole day overdue
+      const daysRemaining = remainingMs < 0 ? Math.floor(remainingMs / DAY_MS) : Math.ceil(remainingMs / DAY_MS);
+      finding.sla = { days, dueDate, ageDays, daysRemaining, status };
+    });
+  return findings;
+}
+
+/**
+ * Counts the findings with an SLA by status, per application in the order they appear and in total. A finding
+ * reported on several branches of an application is counted once.
+ */
+export function summarizeSlaCompliance(
+  findings: Finding[]
+): { applications: Array<SlaCompliance & { application: string }>, total: SlaCompliance } {
+  const total = createCompliance(undefined);
+  const byApplication = new Map<string, SlaCompliance & { application: string }>();
+  const seen = new Set<string>();
+
+  findings.forEach(finding => {
+    const key = getFindingKey(finding);
+    const { sla } = finding;
+    if (!sla || seen.has(key)) {
+      return;
+    }
+    seen.add(key);
+    const compliance = byApplication.get(finding.application)
+      || createCompliance(finding.application);
+    byApplication.set(finding.application, compliance);
+    [compliance, total].forEach(counts => countStatus(counts, sla.status));
+  });
+
+  const applications = Array.from(byApplication.values());
+  [...applications, total].forEach(counts => {
+    const count = counts.within + counts.dueSoon + counts.breached;
+    counts.compliance = count === 0 ? 100 : Math.round(((count - counts.breached) / count) * 1000) / 10;
+  });
+  return { applications, total };
+}
+
+/**
+ * Logs one warning per application with findings past their deadline
+ */
+export function logSlaBreaches(findings: Finding[]): void {
+  const { applications, total } = summarizeSlaCompliance(findings);
+  applications
+    .filter(compliance => compliance.breached > 0)
+    .forEach(compliance => Logger.warn(
+      `SLA BREACH ${compliance.application}: ${compliance.breached} open finding(s) past their remediation deadline`
+    ));
+  const { compliance, breached, dueSoon, within } = total;
+  Logger.info(`SLA: ${compliance}% compliance, ${breached} breached, ${dueSoon} due soon, ${within} within SLA`);
+}
+
+/**
+ * e.g. "Breached, due 2025-05-29 (3 day(s) overdue)" or "Due soon, due 2025-06-04 (3 day(s) left)"
+ */
+export function formatSla(sla: FindingSla): string {
+  const remaining = sla.daysRemaining < 0 ? `${-sla.daysRemaining} day(s) overdue` : `${sla.daysRemaining} day(s) left`;
+  return `${SLA_STATUS_LABELS[sla.status]}, due ${sla.dueDate.toISOString().slice(0, 10)} (${remaining})`;
+}
+
+/**
+ * e.g. "critical 7, high 30, medium 90, low 180 days"
+ */
+export function formatSlaSettings(settings: SlaSettings): string {
+  return `${Object.entries(settings.days).map(([severity, days]) => `${severity} ${days}`).join(', ')} days`;
+}
+
+function createCompliance<T extends string | undefined>(
+  application: T
+): SlaCompliance & { application: T } {
+  return { application, within: 0, dueSoon: 0, breached: 0, compliance: 100 };
+}
+
+function countStatus(compliance: SlaCompliance, status: SlaStatus): void {
+  if (status === 'breached') {
+    compliance.breached++;
+  } else if (status === 'due-soon') {
+    compliance.dueSoon++;
+  } else {
+    compliance.within++;
+  }
+}
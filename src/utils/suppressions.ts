@@ -0,0 +1,89 @@
+/**
+ * Matches findings against the entries of the suppression file
+ */
+import { Finding } from '../interfaces/finding.interface';
+import { AppliedSuppression, Suppression, SuppressionMatch } from '../interfaces/suppression.interface';
+import { branchPatternToRegExp } from './branchPatterns';
+import { normalizePath } from './findingFingerprint';
+import { satisfiesVersionRange } from './versionRange';
+
+/**
+ * Records on each finding the first entry that matches it, preferring entries that have not expired at `now`.
+ * A finding matched only by expired entries keeps counting as a finding, with the expired entry attached.
+ */
+export function applySuppressions(
+  findings: Finding[],
+  suppressions: Suppression[] = [],
+  now: Date = new Date()
+): Finding[] {
+  if (suppressions.length === 0) {
+    return findings;
+  }
+
+  findings.forEach(finding => {
+    const matching = suppressions.filter(suppression => matchesSuppression(finding, suppression.match));
+    const suppression = matching.find(candidate => !isExpired(candidate, now)) || matching[0];
+    if (suppression) {
+      const { match: _match, ...details } = suppression;
+      finding.suppression = { ...details, expired: isExpired(suppression, now) };
+    }
+  });
+  return findings;
+}
+
+/**
+ * True when an entry that has not expired suppresses the finding
+ */
+export function isSuppressed<T extends Pick<Finding, 'suppression'>>(
+  finding: T
+): finding is T & { suppression: AppliedSuppression } {
+  return !!finding.suppression && !finding.suppression.expired;
+}
+
+/**
+ * Entries past their expiry date at `now`
+ */
+export function getExpiredSuppressions(suppressions: Suppression[] = [], now: Date = new Date()): Suppression[] {
+  return suppressions.filter(suppression => isExpired(suppression, now));
+}
+
+/**
+ * True when every field of the match applies to the finding
+ */
+export function matchesSuppression(finding: Finding, match: SuppressionMatch): boolean {
+  if (match.fingerprint !== undefined && finding.fingerprint !== match.fingerprint) {
+    return false;
+  }
+  if (match.application !== undefined && finding.application !== match.application) {
+    return false;
+  }
+  if (match.ruleId !== undefined) {
+    if (![finding.rule?.id, finding.advisory?.id, finding.secretType].includes(match.ruleId)) {
+      return false;
+    }
+  }
+  if (match.cve !== undefined && finding.advisory?.cveId?.toUpperCase() !== match.cve.toUpperCase()) {
+    return false;
+  }
+  if (match.package !== undefined) {
+    if (finding.package?.name.toLowerCase() !== match.package.toLowerCase()) {
+      return false;
+    }
+    // Dependabot does not report the installed version, so a finding without one matches any range
+    const { version } = finding.package;
+    if (match.versions !== undefined && version && !satisfiesVersionRange(version, match.versions)) {
+      return false;
+    }
+  }
+  if (match.path !== undefined) {
+    const filePath = finding.location?.filePath;
+    if (!filePath || !branchPatternToRegExp(normalizePath(match.path)).test(normalizePath(filePath))) {
+      return false;
+    }
+  }
+  return true;
+}
+
+function isExpired(suppression: Suppression, now: Date): boolean {
+  return suppression.expires.getTime() < now.getTime();
+}
@@ -0,0 +1,67 @@
+/**
+ * Package version ranges such as ">=4.0.0 <4.17.21 || 5.0.0", as used by the suppression file
+ *
+ * Comparators in a group separated by spaces must all hold; groups separated by || are alternatives.
+ * A bare version must match exactly and * matches any version. Versions compare dot-separated segment by
+ * segment, numerically when both segments are numbers.
+ */
+
+const COMPARATOR_PATTERN = /^(<=|>=|<|>|=)?v?([0-9A-Za-z][0-9A-Za-z.+-]*)$/;
+
+/**
+ * Returns why a range cannot be parsed, or undefined when it can
+ */
+export function checkVersionRange(range: string): string | undefined {
+  const groups = splitRange(range);
+  if (groups.some(group => group.length === 0)) {
+    return 'has an empty alternative';
+  }
+  const invalid = groups.flat().find(comparator => comparator !== '*' && !COMPARATOR_PATTERN.test(comparator));
+  return invalid ? `has an invalid comparator "${invalid}"` : undefined;
+}
+
+/**
+ * True when the version is in the range
+ */
+export function satisfiesVersionRange(version: string, range: string): boolean {
+  return splitRange(range).some(group => group.every(comparator => satisfiesComparator(version, comparator)));
+}
+
+/**
+ * Compares two versions: negative when a is lower, positive when it is higher, 0 when they are equal
+ */
+export function compareVersions(a: string, b: string): number {
+  const left = a.replace(/^v/, '').split(/[.+-]/);
+  const right = b.replace(/^v/, '').split(/[.+-]/);
+  for (let index = 0; index < Math.max(left.length, right.length); index++) {
+    const x = left[index] ?? '0';
+    const y = right[index] ?? '0';
+    const difference = /^\d+$/.test(x) && /^\d+$/.test(y) ? Number(x) - Number(y) : x.localeCompare(y);
+    if (difference !== 0) {
+      return difference;
+    }
+  }
+  return 0;
+}
+
+function splitRange(range: string): string[][] {
+  return range.split('||').map(group => group.trim().split(/\s+/).filter(comparator => comparator.length > 0));
+}
+
+function satisfiesComparator(version: string, comparator: string): boolean {
+  if (comparator === '*') {
+    return true;
+  }
+  const match = COMPARATOR_PATTERN.exec(comparator);
+  if (!match) {
+    return false;
+  }
+  const difference = compareVersions(version, match[2]);
+  switch (match[1]) {
+    case '<': return difference < 0;
+    case '<=': return difference <= 0;
+    case '>': return difference > 0;
+    case '>=': return difference >= 0;
+    default: return difference === 0;
+  }
+}
@@ -0,0 +1,113 @@
+/**
+ * Tests for Azure DevOps Advanced Security code alerts against a local stand-in server
+ */
+import http from 'http';
+import { AddressInfo } from 'net';
+import {
+  AzureDevOpsCodeScanningResultService
+} from '../src/services/AzureDevOpsService/AzureDevOpsCodeScanningResultService';
+import { Logger, LogLevel } from '../src/utils/logger';
+
+const codeAlert = (alertId: number, state: string) => ({
+  alertId,
+  alertType: 'code',
+  severity: 'high',
+  title: 'Database query built from user-controlled sources',
+  state,
+  firstSeenDate: '2024-01-10T08:00:00Z',
+  lastSeenDate: '2024-02-01T08:00:00Z',
+  tools: [{
+    name: 'CodeQL',
+    rules: [{ id: 'js/sql-injection', friendlyName: 'SQL injection', description: 'Building a SQL query from user input' }]
+  }],
+  physicalLocations: [{
+    filePath: 'src/db/query.ts',
+    region: { lineStart: 42, lineEnd: 44, columnStart: 7, columnEnd: 30 },
+    versionControl: { commitHash: 'abc123' }
+  }]
+});
+
+describe('AzureDevOpsCodeScanningResultService', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  const requests: URL[] = [];
+
+  beforeAll(async () => {
+    Logger.setLevel(LogLevel.ERROR);
+    server = http.createServer((req, res) => {
+      const url = new URL(req.url || '/', 'http://localhost');
+      requests.push(url);
+
+      if (url.pathname !== '/contoso/Payments/_apis/alert/repositories/payments-api/alerts') {
+        res.writeHead(404, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ message: 'Repository not found' }));
+        return;
+      }
+
+      // Serve two pages linked by a continuation token
+      const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+      let value = [codeAlert(1, 'active')];
+      if (url.searchParams.get('continuationToken') === 'page-2') {
+        value = [codeAlert(2, 'dismissed')];
+      } else {
+        headers['x-ms-continuationtoken'] = 'page-2';
+      }
+
+      res.writeHead(200, headers);
+      res.end(JSON.stringify({ count: value.length, value }));
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    Logger.setLevel(LogLevel.INFO);
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  const createService = () => new AzureDevOpsCodeScanningResultService({
+    orgName: 'contoso',
+    projectName: 'Default',
+    token: 'test-token',
+    baseUrl,
+    http: { maxRetries: 0 }
+  });
+
+  it('should map code alerts across pages for a project/repository application', async () => {
+    const results = await createService().fetchCodeScanningResults({
+      applicationName: 'Payments/payments-api',
+      branchName: 'main'
+    });
+
+    expect(results).toHaveLength(2);
+    expect(results[0]).toMatchObject({
+      id: '1',
+      name: 'Database query built from user-controlled sources',
+      severity: 'high',
+      state: 'open',
+      tool: 'AzureDevOps',
+      toolName: 'CodeQL',
+      branchName: 'main',
+      commitId: 'abc123',
+      ruleId: 'js/sql-injection',
+      ruleName: 'SQL injection',
+      filePath: 'src/db/query.ts',
+      line: 42,
+      column: 7,
+      category: 'code-scanning',
+      severityLevel: 2
+    });
+    expect(results[0].url).toBe(`${baseUrl}/contoso/Payments/_git/payments-api/alerts/1`);
+    expect(results[1].state).toBe('dismissed');
+
+    expect(requests[0].searchParams.get('criteria.alertType')).toBe('code');
+    expect(requests[0].searchParams.get('criteria.ref')).toBe('refs/heads/main');
+  });
+
+  it('should surface API errors', async () => {
+    await expect(createService().fetchCodeScanningResults({
+      applicationName: 'unknown-repo',
+      branchName: 'main'
+    })).rejects.toThrow('Azure DevOps API Error: 404 - Repository not found');
+  });
+});
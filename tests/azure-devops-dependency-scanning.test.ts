@@ -0,0 +1,173 @@
+/**
+ * Tests for Azure DevOps Advanced Security dependency alerts against a local stand-in server, and for demo mode
+ */
+import http from 'http';
+import { AddressInfo } from 'net';
+import {
+  AzureDevOpsDependencyScanningResultService
+} from '../src/services/AzureDevOpsService/AzureDevOpsDependencyScanningResultService';
+import { renderJUnitReport } from '../src/utils/junitExporter';
+import { Logger, LogLevel } from '../src/utils/logger';
+import { evaluatePolicy } from '../src/utils/policy';
+import { renderReport } from '../src/utils/reportRenderer';
+import { buildSarifLog } from '../src/utils/sarifExporter';
+import { applicationResult, multiApplicationResult } from './fixtures/alerts';
+
+const dependencyAlert = (alertId: number, extra: Record<string, unknown> = {}) => ({
+  alertId,
+  alertType: 'dependency',
+  severity: 'critical',
+  title: 'Prototype Pollution in lodash',
+  state: 'active',
+  firstSeenDate: '2024-01-10T08:00:00Z',
+  lastSeenDate: '2024-02-01T08:00:00Z',
+  tools: [{
+    name: 'DependencyScanning',
+    version: '1.2.0',
+    rules: [{ opaqueId: 'GHSA-p6mc-m468-83gw', friendlyName: 'lodash', description: 'Versions of lodash before 4.17.19 are vulnerable' }]
+  }],
+  physicalLocations: [{ filePath: 'package-lock.json', region: { lineStart: 120 }, versionControl: { commitHash: 'abc123' } }],
+  logicalLocations: [
+    { kind: 'rootDependency', fullyQualifiedName: 'pkg:npm/express@4.17.1' },
+    { kind: 'vulnerableDependency', fullyQualifiedName: 'pkg:npm/lodash@4.17.15' }
+  ],
+  ...extra
+});
+
+describe('AzureDevOpsDependencyScanningResultService', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  const requests: URL[] = [];
+
+  beforeAll(async () => {
+    Logger.setLevel(LogLevel.ERROR);
+    server = http.createServer((req, res) => {
+      const url = new URL(req.url || '/', 'http://localhost');
+      requests.push(url);
+
+      const value = [
+        // The CVE among the rule tags, the CVSS score as a string and the first patched version
+        dependencyAlert(1, {
+          tools: [{
+            name: 'DependencyScanning',
+            rules: [{ id: 'GHSA-p6mc-m468-83gw', tags: ['security', 'CVE-2020-8203'], additionalProperties: { cvssV3Score: '7.4', firstPatchedVersion: '4.17.19' } }]
+          }]
+        }),
+        // A scoped package, the CVE only in the title and no CVSS score
+        dependencyAlert(2, {
+          severity: 'medium',
+          title: 'CVE-2021-23337 in @angular/core',
+          state: 'fixed',
+          logicalLocations: [{ kind: 'vulnerableDependency', fullyQualifiedName: 'pkg:npm/%40angular/core@11.0.0?repository_url=https://registry.npmjs.org' }]
+        }),
+        // No package URL: the component fields are used instead
+        dependencyAlert(3, {
+          logicalLocations: [],
+          vulnerableDependency: { componentName: 'Newtonsoft.Json', componentVersion: '12.0.1' },
+          additionalProperties: { cvssScore: 'n/a' }
+        })
+      ];
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ count: value.length, value }));
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    Logger.setLevel(LogLevel.INFO);
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  const createService = (demoMode?: boolean) => new AzureDevOpsDependencyScanningResultService({
+    orgName: 'contoso',
+    projectName: 'Payments',
+    token: 'test-token',
+    baseUrl,
+    http: { maxRetries: 0 },
+    demoMode
+  });
+
+  it('should map dependency alerts with their package, advisory, CVE and CVSS score', async () => {
+    const results = await createService().fetchDependencyScanningResults({ applicationName: 'payments-api', branchName: 'main' });
+
+    expect(requests[0].pathname).toBe('/contoso/Payments/_apis/alert/repositories/payments-api/alerts');
+    expect(requests[0].searchParams.get('criteria.alertType')).toBe('dependency');
+    expect(results).toHaveLength(3);
+    expect(results[0]).toMatchObject({
+      id: '1',
+      name: 'Prototype Pollution in lodash',
+      severity: 'critical',
+      state: 'open',
+      tool: 'AzureDevOps',
+      toolName: 'DependencyScanning',
+      commitId: 'abc123',
+      filePath: 'package-lock.json',
+      line: 120,
+      category: 'dependency-scanning',
+      package: 'lodash',
+      packageVersion: '4.17.15',
+      fixedVersion: '4.17.19',
+      advisoryId: 'GHSA-p6mc-m468-83gw',
+      vulnerabilityId: 'CVE-2020-8203',
+      cvssScore: 7.4,
+      type: 'dependency',
+      severityLevel: 1
+    });
+    expect(results[0].url).toBe(`${baseUrl}/contoso/Payments/_git/payments-api/alerts/1`);
+    expect(results[0].simulated).toBeUndefined();
+  });
+
+  it('should read scoped package URLs and fall back to the component fields', async () => {
+    const [, scoped, component] = await createService().fetchDependencyScanningResults({ applicationName: 'payments-api', branchName: 'main' });
+
+    expect(scoped).toMatchObject({ package: '@angular/core', packageVersion: '11.0.0', vulnerabilityId: 'CVE-2021-23337', state: 'fixed' });
+    expect(scoped.cvssScore).toBeUndefined();
+    expect(scoped.fixedVersion).toBeUndefined();
+    expect(component).toMatchObject({ package: 'Newtonsoft.Json', packageVersion: '12.0.1', vulnerabilityId: 'GHSA-p6mc-m468-83gw' });
+    expect(component.cvssScore).toBeUndefined();
+  });
+
+  it('should return simulated results without calling the API only in demo mode', async () => {
+    requests.length = 0;
+    const results = await createService(true).fetchDependencyScanningResults({ applicationName: 'payments-api', branchName: 'main' });
+
+    expect(requests).toHaveLength(0);
+    expect(results.map(result => result.package)).toEqual(['lodash', 'moment']);
+    expect(results.every(result => result.simulated === true)).toBe(true);
+  });
+
+  const fetchResults = async (demoMode: boolean) => {
+    const dependencyScanning = await createService(demoMode)
+      .fetchDependencyScanningResults({ applicationName: 'payments-api', branchName: 'main' });
+    return multiApplicationResult([
+      applicationResult('payments-api', 'main', {}, { azureDevOpsResults: { codeScanning: [], dependencyScanning } })
+    ], { demoMode });
+  };
+
+  it('should flag simulated results with the DEMO banner in the HTML report', async () => {
+    const html = renderReport(await fetchResults(true));
+    expect(html).toContain('<strong>DEMO DATA:</strong>');
+    expect(html).toContain('<span class="demo-badge">DEMO</span>');
+    expect(renderReport(await fetchResults(false))).not.toContain('<strong>DEMO DATA:</strong>');
+  });
+
+  it('should flag simulated results in the SARIF and JUnit exports and leave them out of the policy gate', async () => {
+    const simulated = await fetchResults(true);
+
+    const sarif = buildSarifLog(simulated);
+    expect(sarif.properties).toEqual({ demoMode: true });
+    const [result] = sarif.runs[0].results || [];
+    expect(result.message.text).toMatch(/^DEMO DATA: /);
+    expect(result.properties).toMatchObject({ simulated: true });
+    expect(buildSarifLog(await fetchResults(false)).runs[0].results?.[0].properties).not.toHaveProperty('simulated');
+
+    const junit = renderJUnitReport(simulated);
+    expect(junit).toContain('name="[DEMO] [HIGH] Vulnerable dependency in lodash (demo-1)"');
+    expect(junit).toContain('<skipped message="Simulated demo data"/>');
+    expect(junit).not.toContain('<failure');
+
+    const evaluation = evaluatePolicy(simulated, [{ id: 'no-high', scope: 'global', match: { minSeverity: 'high' }, maxFindings: 0 }]);
+    expect(evaluation.checks[0]).toMatchObject({ findings: 0, passed: true });
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * Tests for branch patterns and for findings reported on several branches
+ */
+import http from 'http';
+import { AddressInfo } from 'net';
+import { MultiApplicationAggregatedScanningResult } from '../src/interfaces/scanning-result.interface';
+import { GitHubScanningProvider } from '../src/services/GitHubService/GitHubScanningProvider';
+import { branchPatternToRegExp, resolveBranchPatterns } from '../src/utils/branchPatterns';
+import { renderMarkdownSummary } from '../src/utils/markdownRenderer';
+import { summarizeResults } from '../src/utils/providerResults';
+import { flattenFindings } from '../src/utils/reportData';
+import { renderReport } from '../src/utils/reportRenderer';
+import { Logger, LogLevel } from '../src/utils/logger';
+import { applicationResult, codeAlert, multiApplicationResult } from './fixtures/alerts';
+
+describe('branchPatterns', () => {
+  it('should match * within a path segment and ** across segments', () => {
+    expect(branchPatternToRegExp('release/*').test('release/1.2')).toBe(true);
+    expect(branchPatternToRegExp('release/*').test('release/1.2/hotfix')).toBe(false);
+    expect(branchPatternToRegExp('release/**').test('release/1.2/hotfix')).toBe(true);
+    expect(branchPatternToRegExp('v?.x').test('v2.x')).toBe(true);
+    expect(branchPatternToRegExp('hotfix-[0-9]').test('hotfix-7')).toBe(true);
+  });
+
+  it('should expand patterns in order, keep literal names and drop duplicates', () => {
+    const available = ['main', 'develop', 'release/2.0', 'release/1.9', 'feature/login'];
+
+    expect(resolveBranchPatterns(['main', 'release/*', 'release/2.0', 'hotfix/*'], available))
+      .toEqual(['main', 'release/1.9', 'release/2.0']);
+  });
+});
+
+describe('branch presence', () => {
+  const alert = (id: string) => ({ id, name: `Alert ${id}`, severity: 'high', state: 'open', tool: 'GitHub', description: '' });
+  const branchResult = (branchName: string, ids: string[]) => ({
+    applicationName: 'orders-api',
+    branchName,
+    githubResults: { codeScanning: ids.map(alert), dependencyScanning: [] },
+    azureDevOpsResults: { codeScanning: [], dependencyScanning: [] },
+    timestamp: new Date('2024-03-01T12:00:00Z')
+  });
+  const data = {
+    applications: [branchResult('main', ['1', '2']), branchResult('release/1.0', ['1'])],
+    errors: [],
+    summary: {
+      totalApplications: 1,
+      totalGithubCodeScanningIssues: 3,
+      totalGithubDependencyScanningIssues: 0,
+      totalAzureDevOpsCodeScanningIssues: 0,
+      totalAzureDevOpsDependencyScanningIssues: 0,
+      totalSarifCodeScanningIssues: 0,
+      severitySummary: { critical: 0, high: 3, medium: 0, low: 0, warning: 0, note: 0 }
+    },
+    timestamp: new Date('2024-03-01T12:00:00Z')
+  } as unknown as MultiApplicationAggregatedScanningResult;
+
+  it('should list every branch a finding was reported on', () => {
+    const items = flattenFindings(data);
+
+    expect(items.map(item => [item.id, item.branch, item.branches])).toEqual([
+      ['1', 'main', ['main', 'release/1.0']],
+      ['2', 'main', ['main']],
+      ['1', 'release/1.0', ['main', 'release/1.0']]
+    ]);
+  });
+
+  it('should group the HTML findings table per application and branch', () => {
+    const html = renderReport(data);
+
+    expect(html).toContain('<strong>orders-api (main)</strong>');
+    expect(html).toContain('<strong>orders-api (release/1.0)</strong>');
+  });
+
+  it('should escape branch names in the HTML branch tags', () => {
+    const html = renderReport(multiApplicationResult(['main', 'feature/<img>'].map(branch =>
+      applicationResult('orders-api', branch, { codeScanning: [codeAlert('1', 'high')] }))));
+
+    expect(html).toContain('<span class="tag">feature/&lt;img&gt;</span>');
+    expect(html).not.toContain('feature/<img>');
+  });
+
+  it('should count an application scanned on several branches once', () => {
+    const branches = ['main', 'release/1.0', 'release/2.0'];
+    const results = ['orders-api', 'billing'].flatMap(application =>
+      branches.map(branch => applicationResult(application, branch, { codeScanning: [codeAlert('1', 'high')] })));
+
+    expect(summarizeResults(results).totalApplications).toBe(2);
+    const html = renderReport(multiApplicationResult(results, {
+      errors: [{ applicationName: 'GitHub: billing', error: 'GitHub API Error: 502', application: 'billing', branch: 'main' }]
+    }));
+    expect(html).toMatch(/Total Applications<\/h3>\s*<p><strong>2<\/strong>/);
+    expect(html).toMatch(/Successfully Processed<\/h3>\s*<p><strong>1<\/strong>/);
+  });
+
+  it('should count a finding reported on several branches once in the severity totals', () => {
+    const results = ['main', 'release/1.0'].map(branch =>
+      applicationResult('orders-api', branch, { codeScanning: [codeAlert('1', 'critical')] }));
+
+    expect(summarizeResults(results).severitySummary.critical).toBe(1);
+    const markdown = renderMarkdownSummary(multiApplicationResult(results));
+    expect(markdown).toContain('| Critical | 1 |');
+    expect(markdown).toContain('| **Total** | **1** |');
+  });
+});
+
+describe('GitHub Dependabot alerts on several branches', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  const requests: string[] = [];
+
+  beforeAll(async () => {
+    Logger.setLevel(LogLevel.ERROR);
+    server = http.createServer((req, res) => {
+      const url = new URL(req.url || '/', 'http://localhost');
+      requests.push(url.pathname);
+
+      const data = url.pathname.endsWith('/dependabot/alerts')
+        ? [{
+          number: 1,
+          state: 'open',
+          created_at: '2025-05-01T00:00:00Z',
+          dependency: { package: { ecosystem: 'npm', name: 'lodash' }, manifest_path: 'package-lock.json' },
+          security_advisory: { ghsa_id: 'GHSA-p6mc-m468-83gw', summary: 'Prototype pollution', severity: 'high' }
+        }]
+        : { default_branch: 'main' };
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(data));
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    Logger.setLevel(LogLevel.INFO);
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('should fetch Dependabot alerts once and report them on the default branch only', async () => {
+    const provider = new GitHubScanningProvider({ token: 'test-token', baseUrl, http: { maxRetries: 0 } });
+    const repository = { label: 'contoso/orders-api', org: 'contoso', repo: 'orders-api' };
+
+    const [main, release] = await Promise.all(['main', 'release/1.0']
+      .map(branch => provider.fetchDependencyScanning(repository, branch)));
+
+    expect(main.results.map(result => result.id)).toEqual(['1']);
+    expect(release.results).toEqual([]);
+    expect(requests).toEqual(['/repos/contoso/orders-api', '/repos/contoso/orders-api/dependabot/alerts']);
+  });
+});
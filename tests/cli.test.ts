@@ -0,0 +1,54 @@
+/**
+ * Tests for the command-line interface and its argument parser
+ */
+import { parseArguments, UsageError } from '../src/cli/argumentParser';
+import { COMMANDS, runCli } from '../src/cli';
+import { ExitCode } from '../src/cli/exitCodes';
+
+const scanCommand = COMMANDS.find(command => command.name === 'scan')!;
+const diffCommand = COMMANDS.find(command => command.name === 'diff')!;
+
+describe('parseArguments', () => {
+  it('should parse valued, inline and boolean flags', () => {
+    const args = parseArguments(['--branch', 'develop', '--format=json,csv', '--demo'], scanCommand);
+
+    expect(args.options).toEqual({ branch: 'develop', format: 'json,csv', demo: true });
+    expect(args.positionals).toEqual([]);
+  });
+
+  it('should reject unknown flags, missing values and missing arguments', () => {
+    expect(() => parseArguments(['--colour'], scanCommand)).toThrow(UsageError);
+    expect(() => parseArguments(['--branch'], scanCommand)).toThrow('Option --branch requires a value');
+    expect(() => parseArguments(['base.json'], diffCommand)).toThrow('Missing arguments for command diff');
+  });
+});
+
+describe('runCli', () => {
+  let stdout: jest.SpyInstance;
+  let stderr: jest.SpyInstance;
+
+  beforeEach(() => {
+    stdout = jest.spyOn(process.stdout, 'write').mockImplementation(() => true);
+    stderr = jest.spyOn(process.stderr, 'write').mockImplementation(() => true);
+  });
+
+  afterEach(() => {
+    stdout.mockRestore();
+    stderr.mockRestore();
+  });
+
+  it('should print help for the program and for each command', async () => {
+    await expect(runCli(['--help'])).resolves.toBe(ExitCode.Success);
+    expect(stdout.mock.calls[0][0]).toContain('Commands:');
+
+    await expect(runCli(['report', '--help'])).resolves.toBe(ExitCode.Success);
+    expect(stdout.mock.calls[1][0]).toContain('Usage: sast-dependency-analyzer report <report.json> [options]');
+    expect(stdout.mock.calls[1][0]).toContain('--output-dir <dir>');
+  });
+
+  it('should return the usage exit code for invalid command lines', async () => {
+    await expect(runCli(['deploy'])).resolves.toBe(ExitCode.Usage);
+    await expect(runCli(['diff', 'base.json'])).resolves.toBe(ExitCode.Usage);
+    expect(stderr.mock.calls[1][0]).toContain('Missing arguments for command diff');
+  });
+});
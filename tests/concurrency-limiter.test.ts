@@ -0,0 +1,55 @@
+/**
+ * Tests for the per-provider concurrency limiter used when scanning applications
+ */
+import { ConcurrencyLimiter } from '../src/utils/concurrencyLimiter';
+
+describe('ConcurrencyLimiter', () => {
+  const deferred = () => {
+    let resolve!: () => void;
+    const promise = new Promise<void>(done => { resolve = done; });
+    return { promise, resolve };
+  };
+
+  it('should keep at most the limit of tasks in flight and start queued tasks in order', async () => {
+    const limiter = new ConcurrencyLimiter(2);
+    const gates = [deferred(), deferred(), deferred(), deferred()];
+    const started: number[] = [];
+    let active = 0;
+    let maxActive = 0;
+
+    const runs = gates.map((gate, index) => limiter.run(async () => {
+      started.push(index);
+      active++;
+      maxActive = Math.max(maxActive, active);
+      await gate.promise;
+      active--;
+      return index;
+    }));
+
+    await Promise.resolve();
+    expect(started).toEqual([0, 1]);
+
+    gates[1].resolve();
+    gates[0].resolve();
+    gates[3].resolve();
+    gates[2].resolve();
+
+    expect(await Promise.all(runs)).toEqual([0, 1, 2, 3]);
+    expect(started).toEqual([0, 1, 2, 3]);
+    expect(maxActive).toBe(2);
+  });
+
+  it('should release the slot of a failed task', async () => {
+    const limiter = new ConcurrencyLimiter(1);
+
+    const failed = limiter.run(async () => { throw new Error('Not Found'); });
+    const next = limiter.run(async () => 'scanned');
+
+    await expect(failed).rejects.toThrow('Not Found');
+    await expect(next).resolves.toBe('scanned');
+  });
+
+  it('should treat limits below one as one', () => {
+    expect(new ConcurrencyLimiter(0).limit).toBe(1);
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * Tests for loading and validating the YAML or JSON configuration file
+ */
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ConfigFileError, loadConfigFile, resolveApplicationTargets, resolveDiscoverySettings } from '../src/config/configFile';
+
+const validConfig = `version: 1
+github:
+  org: contoso
+  token: \${GH_TOKEN}
+azureDevOps:
+  org: contoso-ado
+  project: \${ADO_PROJECT:-Platform}
+defaults:
+  branches: [main]
+applications:
+  - name: orders-api
+    displayName: Orders API
+    team: checkout
+    tags: [pci, tier-1]
+    github: {}
+    sarif: [sarif/orders]
+  - name: billing
+    branches: [main, develop]
+    azureDevOps:
+      project: Finance
+      repo: billing-service
+`;
+
+describe('loadConfigFile', () => {
+  let directory: string;
+
+  const writeConfig = (name: string, content: string): string => {
+    const filePath = path.join(directory, name);
+    fs.writeFileSync(filePath, content);
+    return filePath;
+  };
+
+  const loadIssues = (content: string, env: NodeJS.ProcessEnv = {}): string[] => {
+    try {
+      loadConfigFile(writeConfig('invalid.yml', content), env);
+    } catch (error) {
+      if (error instanceof ConfigFileError) {
+        return error.issues.map(issue => `${issue.line}:${issue.column} ${issue.path ? `${issue.path}: ` : ''}${issue.message}`);
+      }
+      throw error;
+    }
+    throw new Error('Expected the configuration to be rejected');
+  };
+
+  beforeAll(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'config-file-'));
+  });
+
+  afterAll(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should interpolate environment variables and apply the defaults', () => {
+    const filePath = writeConfig('config.yml', validConfig);
+
+    const config = loadConfigFile(filePath, { GH_TOKEN: 'secret', AZURE_DEVOPS_TOKEN: 'ado-secret' });
+    const [orders, billing] = resolveApplicationTargets(config);
+
+    expect(config.github?.token).toBe('secret');
+    expect(config.azureDevOps).toMatchObject({ project: 'Platform', token: 'ado-secret' });
+    expect(orders).toEqual({
+      name: 'orders-api',
+      displayName: 'Orders API',
+      team: 'checkout',
+      tags: ['pci', 'tier-1'],
+      branches: ['main'],
+      github: { org: 'contoso', repo: 'orders-api' },
+      azureDevOps: undefined,
+      sarifPaths: [path.join(directory, 'sarif/orders')]
+    });
+    expect(billing).toMatchObject({
+      branches: ['main', 'develop'],
+      azureDevOps: { org: 'contoso-ado', project: 'Finance', repo: 'billing-service' }
+    });
+  });
+
+  it('should accept JSON', () => {
+    const filePath = writeConfig('config.json', JSON.stringify({
+      version: 1,
+      applications: [{ name: 'orders-api', github: { org: 'contoso' } }]
+    }, null, 2));
+
+    expect(resolveApplicationTargets(loadConfigFile(filePath, { BRANCH_NAME: 'trunk' }))[0].branches).toEqual(['trunk']);
+  });
+
+  it('should accept a discovery section instead of applications', () => {
+    const filePath = writeConfig('discovery.yml', [
+      'version: 1',
+      'azureDevOps: { org: contoso-ado, project: Platform }',
+      'discovery:',
+      '  github: { topics: [production], visibility: private }',
+      '  azureDevOps: { namePattern: -service$ }'
+    ].join('\n'));
+
+    const discovery = resolveDiscoverySettings(loadConfigFile(filePath, { GITHUB_ORG_NAME: 'contoso', BRANCH_NAME: 'main,develop' }));
+
+    expect(discovery.github).toEqual({
+      org: 'contoso',
+      topics: ['production'],
+      namePattern: undefined,
+      includeArchived: false,
+      includeForks: false,
+      visibility: 'private',
+      branches: ['main', 'develop']
+    });
+    expect(discovery.azureDevOps).toMatchObject({ org: 'contoso-ado', projects: ['Platform'], namePattern: '-service$' });
+    expect(loadIssues('version: 1\ndiscovery:\n  github: { org: contoso, namePattern: "[" }'))
+      .toEqual([expect.stringMatching(/^3:27 discovery\.github\.namePattern: is not valid: Invalid regular expression/)]);
+  });
+
+  it('should point schema violations to the offending line', () => {
+    const issues = loadIssues([
+      'version: 1',
+      'applications:',
+      '  - name: orders-api',
+      '    github:',
+      '      repository: orders',
+      '  - name: ""',
+      '    branches: main',
+      '    sarif: [out.sarif]'
+    ].join('\n'));
+
+    expect(issues).toEqual([
+      '5:7 applications[0].github.repository: is not a known property',
+      '6:5 applications[1].name: must not be empty',
+      '7:5 applications[1].branches: must be an array, got string'
+    ]);
+  });
+
+  it('should report unset variables, duplicate names and missing sources', () => {
+    const issues = loadIssues([
+      'version: 1',
+      'github:',
+      '  token: ${GH_TOKEN}',
+      'applications:',
+      '  - name: orders-api',
+      '    github: { org: contoso }',
+      '  - name: orders-api',
+      '    team: checkout'
+    ].join('\n'));
+
+    expect(issues).toEqual(['3:10 environment variable GH_TOKEN is not set']);
+
+    const semanticIssues = loadIssues([
+      'version: 1',
+      'applications:',
+      '  - name: orders-api',
+      '    github: {}',
+      '  - name: orders-api',
+      '    team: checkout'
+    ].join('\n'));
+
+    expect(semanticIssues).toEqual([
+      '4:5 applications[0].github: has no org; set it here, in github.org or in GITHUB_ORG_NAME',
+      '5:5 applications[1].name: duplicates the name of applications[0]',
+      '5:5 applications[1]: needs at least one source: github, azureDevOps, sarif or sources'
+    ]);
+  });
+
+  it('should report syntax errors with their position', () => {
+    const issues = loadIssues('version: 1\napplications:\n  - name: [orders\n');
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatch(/^\d+:\d+ /);
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * Tests for the RFC 4180 CSV export
+ */
+import { MultiApplicationAggregatedScanningResult } from '../src/interfaces/scanning-result.interface';
+import { formatCsvValue, renderCsvReport } from '../src/utils/csvExporter';
+
+const timestamp = new Date('2024-03-01T12:00:00Z');
+
+const results = {
+  applications: [{
+    applicationName: 'orders-api',
+    branchName: 'main',
+    githubResults: {
+      codeScanning: [],
+      dependencyScanning: [{
+        id: '3',
+        name: 'Prototype pollution in lodash, "merge"',
+        severity: 'critical',
+        description: 'Prototype pollution',
+        createdAt: timestamp,
+        updatedAt: timestamp,
+        state: 'open',
+        url: 'https://github.com/contoso/orders-api/security/dependabot/3',
+        tool: 'GitHub',
+        toolName: 'Dependabot',
+        ruleId: 'GHSA-p6mc-m468-83gw',
+        filePath: 'package-lock.json',
+        category: 'dependency-scanning',
+        ecosystem: 'npm',
+        packageName: 'lodash',
+        version: '4.17.15',
+        fixedVersion: '4.17.19',
+        cveId: 'CVE-2020-8203',
+        cvss: 7.4
+      }]
+    },
+    azureDevOpsResults: { codeScanning: [], dependencyScanning: [] },
+    sarifResults: {
+      codeScanning: [{
+        id: 'sql@app/db.py:12',
+        name: 'SQL injection',
+        severity: 'high',
+        description: 'Query built\nwith string formatting',
+        createdAt: timestamp,
+        updatedAt: timestamp,
+        state: 'dismissed',
+        tool: 'SARIF',
+        toolName: 'Semgrep',
+        ruleId: 'python.sql',
+        filePath: 'app/db.py',
+        startLine: 12,
+        category: 'code-scanning',
+        sourceFile: 'semgrep.sarif'
+      }]
+    },
+    timestamp
+  }],
+  errors: [],
+  summary: {},
+  timestamp
+} as unknown as MultiApplicationAggregatedScanningResult;
+
+describe('csvExporter', () => {
+  it('should write a header and one row per finding with CRLF line endings', () => {
+    const csv = renderCsvReport(results);
+    const lines = csv.split('\r\n');
+
+    expect(lines[0]).toBe(
+      'Application,Branch,Branches,Tool,Scanner,Reported By,Type,ID,Name,Severity,State,Age (Days),SLA Due,SLA Status,Fixed At,Dismissed At,Dismissed By,Dismissed Reason,Dismissed Comment,Package,Version,Fixed Version,CVE,CVSS,Rule,File,Line,URL,Simulated,Suppression,Policy Violations'
+    );
+    expect(lines[1]).toBe(
+      'orders-api,main,,GitHub,Dependabot,GitHub,Dependency Scanning,3,"Prototype pollution in lodash, ""merge""",critical,open,,,,,,,,,' +
+      'lodash,4.17.15,4.17.19,CVE-2020-8203,7.4,GHSA-p6mc-m468-83gw,package-lock.json,,' +
+      'https://github.com/contoso/orders-api/security/dependabot/3,,,'
+    );
+    expect(lines[2]).toBe(
+      'orders-api,main,,SARIF (Semgrep),Semgrep,SARIF (Semgrep),Code Scanning,sql@app/db.py:12,SQL injection,high,dismissed,,,,,,,,,,,,,,python.sql,app/db.py,12,,,,'
+    );
+    expect(lines[3]).toBe('');
+  });
+
+  it('should quote line breaks and neutralise spreadsheet formulas', () => {
+    expect(formatCsvValue('first\r\nsecond')).toBe('"first\r\nsecond"');
+    expect(formatCsvValue('=HYPERLINK("http://example.com")')).toBe('"\'=HYPERLINK(""http://example.com"")"');
+    expect(formatCsvValue(7.4)).toBe('7.4');
+    expect(formatCsvValue(undefined)).toBe('');
+  });
+});
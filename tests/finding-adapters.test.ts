@@ -0,0 +1,200 @@
+/**
+ * Tests for the adapters that normalize each provider's results into findings
+ */
+import http from 'http';
+import { AddressInfo } from 'net';
+import {
+  AggregatedScanningResult,
+  AzureDevOpsDependencyScanningResult,
+  GitHubDependencyScanningResult
+} from '../src/interfaces/scanning-result.interface';
+import {
+  AzureDevOpsDependencyScanningResultService
+} from '../src/services/AzureDevOpsService/AzureDevOpsDependencyScanningResultService';
+import { GitHubDependencyScanningResultService } from '../src/services/GitHubService/GitHubDependencyScanningResultService';
+import { fromAzureDevOpsResult, fromGitHubResult, toFindings } from '../src/utils/findingAdapters';
+import { Logger, LogLevel } from '../src/utils/logger';
+import { DEFAULT_RISK_MODEL, scoreFinding } from '../src/utils/riskScore';
+
+const timestamp = new Date('2024-03-01T12:00:00Z');
+
+const dependabotAlert = {
+  id: '3',
+  name: 'Prototype pollution in lodash',
+  severity: 'critical',
+  description: 'Prototype pollution',
+  createdAt: timestamp,
+  updatedAt: timestamp,
+  state: 'open',
+  tool: 'GitHub',
+  toolName: 'Dependabot',
+  ruleId: 'GHSA-p6mc-m468-83gw',
+  filePath: 'package-lock.json',
+  category: 'dependency-scanning',
+  ecosystem: 'npm',
+  packageName: 'lodash',
+  version: '4.17.15',
+  fixedVersion: '4.17.19',
+  cveId: 'CVE-2020-8203',
+  cvss: 7.4
+} as GitHubDependencyScanningResult;
+
+const advancedSecurityAlert = {
+  id: '41',
+  name: 'Prototype pollution in lodash',
+  severity: 'critical',
+  description: 'Prototype pollution',
+  createdAt: timestamp,
+  updatedAt: timestamp,
+  state: 'open',
+  tool: 'AzureDevOps',
+  toolName: 'Dependency Scanning',
+  filePath: 'package-lock.json',
+  category: 'dependency-scanning',
+  package: 'lodash',
+  packageVersion: '4.17.15',
+  advisoryId: 'GHSA-p6mc-m468-83gw',
+  vulnerabilityId: 'CVE-2020-8203',
+  cvssScore: 7.4,
+  severityLevel: 1,
+  type: 'dependency',
+  detectionDate: timestamp
+} as AzureDevOpsDependencyScanningResult;
+
+describe('findingAdapters', () => {
+  it('should give GitHub and Azure DevOps dependency alerts the same shape', () => {
+    const github = fromGitHubResult(dependabotAlert);
+    const azureDevOps = fromAzureDevOpsResult(advancedSecurityAlert);
+
+    expect(github.package).toEqual({ name: 'lodash', version: '4.17.15', fixedVersion: '4.17.19', ecosystem: 'npm' });
+    expect(azureDevOps.package).toEqual({ name: 'lodash', version: '4.17.15' });
+    expect(github.advisory).toEqual({ id: 'GHSA-p6mc-m468-83gw', cveId: 'CVE-2020-8203' });
+    expect(azureDevOps.advisory).toEqual(github.advisory);
+    expect([github.cvss, azureDevOps.cvss]).toEqual([7.4, 7.4]);
+    expect(azureDevOps.location).toEqual({ filePath: 'package-lock.json' });
+    expect(azureDevOps.raw).toBe(advancedSecurityAlert);
+  });
+
+  it('should only treat Azure DevOps vulnerability ids that look like CVEs as CVEs', () => {
+    const finding = fromAzureDevOpsResult({ ...advancedSecurityAlert, advisoryId: undefined, vulnerabilityId: 'OSV-2024-1' });
+
+    expect(finding.advisory).toEqual({ id: 'OSV-2024-1', cveId: undefined });
+  });
+
+  it('should list an application\'s findings with its name and branch', () => {
+    const app: AggregatedScanningResult = {
+      applicationName: 'orders-api',
+      branchName: 'release/1.0',
+      githubResults: { codeScanning: [], dependencyScanning: [dependabotAlert] },
+      // Both tools report a version, and they differ
+      azureDevOpsResults: { codeScanning: [], dependencyScanning: [{ ...advancedSecurityAlert, packageVersion: '4.17.11' }] },
+      timestamp
+    };
+
+    expect(toFindings(app).map(finding => [finding.application, finding.branch, finding.tool, finding.type])).toEqual([
+      ['orders-api', 'release/1.0', 'GitHub', 'Dependency Scanning'],
+      ['orders-api', 'release/1.0', 'Azure DevOps', 'Dependency Scanning']
+    ]);
+  });
+});
+
+describe('findingAdapters with API payloads', () => {
+  let server: http.Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    Logger.setLevel(LogLevel.ERROR);
+    server = http.createServer((req, res) => {
+      const url = new URL(req.url || '/', 'http://localhost');
+      // Dependabot alerts name the package and the patched version, but not the installed version
+      const data = url.pathname.endsWith('/dependabot/alerts') ? [{
+        number: 3,
+        state: 'open',
+        created_at: '2024-03-01T12:00:00Z',
+        updated_at: '2024-03-01T12:00:00Z',
+        html_url: 'https://github.com/contoso/orders-api/security/dependabot/3',
+        dependency: { package: { ecosystem: 'npm', name: 'lodash' }, manifest_path: 'package-lock.json', scope: 'runtime' },
+        security_advisory: {
+          ghsa_id: 'GHSA-p6mc-m468-83gw',
+          cve_id: 'CVE-2020-8203',
+          summary: 'Prototype pollution in lodash',
+          severity: 'high',
+          cvss: { score: 7.4, vector_string: 'CVSS:3.1/AV:N/AC:H/PR:N/UI:N/S:U/C:N/I:H/A:H' }
+        },
+        security_vulnerability: {
+          package: { ecosystem: 'npm', name: 'lodash' },
+          severity: 'high',
+          vulnerable_version_range: '< 4.17.19',
+          first_patched_version: { identifier: '4.17.19' }
+        }
+      }] : {
+        count: 1,
+        value: [{
+          alertId: 41,
+          alertType: 'dependency',
+          severity: 'high',
+          title: 'Prototype Pollution in lodash',
+          state: 'dismissed',
+          firstSeenDate: '2024-02-20T08:00:00Z',
+          tools: [{
+            name: 'DependencyScanning',
+            rules: [{ opaqueId: 'GHSA-p6mc-m468-83gw', tags: ['CVE-2020-8203'], additionalProperties: { firstPatchedVersion: '4.17.19' } }]
+          }],
+          physicalLocations: [{ filePath: 'package-lock.json' }],
+          logicalLocations: [{ kind: 'vulnerableDependency', fullyQualifiedName: 'pkg:npm/lodash@4.17.15' }]
+        }]
+      };
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(data));
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    Logger.setLevel(LogLevel.INFO);
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  const request = { applicationName: 'orders-api', branchName: 'release/1.0' };
+  const params = () => ({ orgName: 'contoso', token: 'test-token', baseUrl, http: { maxRetries: 0 } });
+  const fetchGitHub = () => new GitHubDependencyScanningResultService(params()).fetchDependencyScanningResults(request);
+  const fetchAzureDevOps = () => new AzureDevOpsDependencyScanningResultService({ ...params(), projectName: 'Orders' })
+    .fetchDependencyScanningResults(request);
+  const toApplicationFindings = (
+    github: GitHubDependencyScanningResult[],
+    azureDevOps: AzureDevOpsDependencyScanningResult[]
+  ) => toFindings({
+    applicationName: 'orders-api',
+    branchName: 'release/1.0',
+    githubResults: { codeScanning: [], dependencyScanning: github },
+    azureDevOpsResults: { codeScanning: [], dependencyScanning: azureDevOps },
+    timestamp
+  });
+
+  it('should read the fixed version that the risk score rewards from both APIs', async () => {
+    const findings = [...toApplicationFindings(await fetchGitHub(), []), ...toApplicationFindings([], await fetchAzureDevOps())];
+
+    expect(findings.map(finding => finding.package?.fixedVersion)).toEqual(['4.17.19', '4.17.19']);
+    expect(findings.map(finding => scoreFinding(finding, DEFAULT_RISK_MODEL, timestamp).fixAvailable > 0)).toEqual([true, true]);
+  });
+
+  it('should merge the same dependency alert from GitHub and Azure DevOps into one finding', async () => {
+    const findings = toApplicationFindings(await fetchGitHub(), await fetchAzureDevOps());
+
+    expect(findings).toHaveLength(1);
+    expect(findings[0]).toMatchObject({
+      application: 'orders-api',
+      branch: 'release/1.0',
+      tool: 'GitHub',
+      id: '3',
+      state: 'open',
+      createdAt: new Date('2024-02-20T08:00:00Z'),
+      package: { name: 'lodash', version: '4.17.15', fixedVersion: '4.17.19' }
+    });
+    expect(findings[0].reportedBy.map(source => [source.tool, source.id, source.state])).toEqual([
+      ['GitHub', '3', 'open'],
+      ['Azure DevOps', '41', 'dismissed']
+    ]);
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * Tests for finding fingerprints and the merging of duplicates reported by several tools
+ */
+import { AggregatedScanningResult, SarifScanningResult } from '../src/interfaces/scanning-result.interface';
+import { fromGitHubResult, fromSarifResult } from '../src/utils/findingAdapters';
+import { getFindingFingerprint } from '../src/utils/findingFingerprint';
+import { summarizeResults } from '../src/utils/providerResults';
+import { flattenFindings } from '../src/utils/reportData';
+import { applicationResult, codeAlert, multiApplicationResult, timestamp } from './fixtures/alerts';
+
+const codeQlAlert = (id: string, startLine: number) => codeAlert(id, 'high', {
+  name: 'Database query built from user-controlled sources',
+  description: 'SQL injection',
+  url: `https://github.com/contoso/orders-api/security/code-scanning/${id}`,
+  ruleId: 'js/sql-injection',
+  filePath: 'src/db.ts',
+  startLine
+});
+
+const sarifResult: SarifScanningResult = {
+  id: 'js/sql-injection@src/db.ts:13',
+  name: 'SQL injection',
+  severity: 'critical',
+  description: 'SQL injection',
+  createdAt: timestamp,
+  updatedAt: timestamp,
+  state: 'open',
+  tool: 'SARIF',
+  toolName: 'CodeQL',
+  toolVersion: '',
+  ruleId: 'js/sql-injection',
+  ruleName: '',
+  ruleDescription: '',
+  ruleSeverity: 'error',
+  filePath: './src/db.ts',
+  startLine: 13,
+  category: 'code-scanning',
+  sourceFile: 'codeql.sarif'
+};
+
+const application = (fields: Partial<AggregatedScanningResult> = {}): AggregatedScanningResult =>
+  applicationResult('orders-api', 'main', { codeScanning: [codeQlAlert('1', 12)] }, {
+    sarifResults: { codeScanning: [sarifResult] },
+    ...fields
+  });
+
+describe('getFindingFingerprint', () => {
+  it('should ignore the tool, alert id, path prefix and nearby line changes', () => {
+    expect(getFindingFingerprint(fromGitHubResult(codeQlAlert('1', 12)))).toBe(getFindingFingerprint(fromSarifResult(sarifResult)));
+    expect(getFindingFingerprint(fromGitHubResult(codeQlAlert('1', 12))))
+      .not.toBe(getFindingFingerprint(fromGitHubResult(codeQlAlert('1', 40))));
+  });
+
+  it('should group start lines into fixed 5-line buckets', () => {
+    const fingerprint = (startLine: number) => getFindingFingerprint(fromGitHubResult(codeQlAlert('1', startLine)));
+
+    expect(fingerprint(1)).toBe(fingerprint(5));
+    expect(fingerprint(5)).not.toBe(fingerprint(6));
+    expect(fingerprint(6)).toBe(fingerprint(10));
+  });
+});
+
+describe('finding deduplication', () => {
+  it('should merge a code issue reported by GitHub and a SARIF import and count it once', () => {
+    const findings = flattenFindings(multiApplicationResult([application()]));
+
+    expect(findings).toHaveLength(1);
+    expect(findings[0].severity).toBe('critical');
+    expect(findings[0].reportedBy.map(source => [source.tool, source.url])).toEqual([
+      ['GitHub', 'https://github.com/contoso/orders-api/security/code-scanning/1'],
+      ['SARIF (CodeQL)', undefined]
+    ]);
+    expect(summarizeResults([application()]).severitySummary).toMatchObject({ critical: 1, high: 0 });
+  });
+
+  it('should keep separate alerts of the same tool with distinct fingerprints', () => {
+    const app = application({
+      githubResults: { codeScanning: [codeQlAlert('1', 12), codeQlAlert('2', 12)], dependencyScanning: [] },
+      sarifResults: undefined
+    });
+    const findings = flattenFindings(multiApplicationResult([app]));
+
+    expect(findings.map(finding => finding.id)).toEqual(['1', '2']);
+    expect(new Set(findings.map(finding => finding.fingerprint)).size).toBe(2);
+  });
+});
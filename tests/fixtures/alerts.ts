@@ -0,0 +1,119 @@
+/**
+ * Typed alert and run factories shared by the tests
+ */
+import {
+  AggregatedScanningResult,
+  GitHubCodeScanningResult,
+  GitHubDependencyScanningResult,
+  MultiApplicationAggregatedScanningResult,
+  ScanningResultBase
+} from '../../src/interfaces/scanning-result.interface';
+import { summarizeResults } from '../../src/utils/providerResults';
+
+type Severity = ScanningResultBase['severity'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// The time the test runs are taken at
+export const timestamp = new Date('2025-06-01T12:00:00Z');
+
+export const daysAgo = (days: number): Date => new Date(timestamp.getTime() - days * DAY_MS);
+
+/**
+ * An open CodeQL alert created at `timestamp`, on a rule and file of its own
+ */
+export function codeAlert(id: string, severity: Severity, fields: Partial<GitHubCodeScanningResult> = {}): GitHubCodeScanningResult {
+  const createdAt = fields.createdAt || timestamp;
+  return {
+    id,
+    name: `Alert ${id}`,
+    severity,
+    description: 'Code issue',
+    createdAt,
+    updatedAt: createdAt,
+    state: 'open',
+    tool: 'GitHub',
+    toolName: 'CodeQL',
+    toolVersion: '',
+    ref: '',
+    commitSha: '',
+    ruleId: `js/rule-${id}`,
+    ruleName: '',
+    ruleDescription: '',
+    ruleSeverity: '',
+    filePath: `src/file-${id}.js`,
+    startLine: 1,
+    category: 'code-scanning',
+    ...fields
+  };
+}
+
+/**
+ * An open Dependabot alert for lodash 4.17.15
+ */
+export function dependencyAlert(
+  id: string,
+  severity: Severity,
+  fields: Partial<GitHubDependencyScanningResult> = {}
+): GitHubDependencyScanningResult {
+  const createdAt = fields.createdAt || timestamp;
+  return {
+    id,
+    name: 'Prototype pollution in lodash',
+    severity,
+    description: 'Prototype pollution',
+    createdAt,
+    updatedAt: createdAt,
+    state: 'open',
+    tool: 'GitHub',
+    toolName: 'Dependabot',
+    toolVersion: '',
+    ref: '',
+    commitSha: '',
+    ruleId: 'GHSA-p6mc-m468-83gw',
+    ruleName: '',
+    ruleDescription: '',
+    ruleSeverity: '',
+    filePath: 'package-lock.json',
+    category: 'dependency-scanning',
+    ecosystem: 'npm',
+    packageName: 'lodash',
+    version: '4.17.15',
+    ...fields
+  };
+}
+
+/**
+ * The GitHub results of one application and branch
+ */
+export function applicationResult(
+  applicationName: string,
+  branchName: string,
+  githubResults: Partial<AggregatedScanningResult['githubResults']>,
+  fields: Partial<AggregatedScanningResult> = {}
+): AggregatedScanningResult {
+  return {
+    applicationName,
+    branchName,
+    githubResults: { codeScanning: [], dependencyScanning: [], ...githubResults },
+    azureDevOpsResults: { codeScanning: [], dependencyScanning: [] },
+    timestamp,
+    ...fields
+  };
+}
+
+/**
+ * A run at `timestamp` over the applications, with its summary
+ */
+export function multiApplicationResult(
+  applications: AggregatedScanningResult[],
+  fields: Partial<MultiApplicationAggregatedScanningResult> = {}
+): MultiApplicationAggregatedScanningResult {
+  return {
+    applications,
+    errors: [],
+    summary: summarizeResults(applications, fields.suppressions, fields.timestamp || timestamp),
+    timestamp,
+    ...fields
+  };
+}
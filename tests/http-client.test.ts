@@ -0,0 +1,113 @@
+/**
+ * Tests for retries, backoff and rate-limit handling in the shared HTTP client
+ */
+import http from 'http';
+import { AddressInfo } from 'net';
+import { HttpClient } from '../src/utils/httpClient';
+import { Logger, LogLevel } from '../src/utils/logger';
+import { RateLimitTracker } from '../src/utils/rateLimitTracker';
+
+type Reply = { status: number, headers?: Record<string, string>, body?: any };
+
+describe('HttpClient', () => {
+  let server: http.Server;
+  let baseURL: string;
+  let replies: Reply[];
+  let sleeps: number[];
+
+  beforeAll(async () => {
+    Logger.setLevel(LogLevel.ERROR);
+    server = http.createServer((_req, res) => {
+      const reply = replies.shift() || { status: 200, body: [] };
+      res.writeHead(reply.status, { 'Content-Type': 'application/json', ...reply.headers });
+      res.end(JSON.stringify(reply.body ?? {}));
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    Logger.setLevel(LogLevel.INFO);
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    RateLimitTracker.reset();
+    sleeps = [];
+  });
+
+  const createClient = (provider: 'GitHub' | 'Azure DevOps' = 'GitHub') => new HttpClient({
+    provider,
+    baseURL,
+    maxRetries: 2,
+    baseDelayMs: 100,
+    sleep: async ms => { sleeps.push(ms); }
+  });
+
+  it('should retry transient 5xx responses with backoff', async () => {
+    replies = [{ status: 502 }, { status: 503 }, { status: 200, body: ['ok'] }];
+
+    const response = await createClient().get('/alerts');
+
+    expect(response.data).toEqual(['ok']);
+    expect(sleeps).toHaveLength(2);
+    expect(sleeps[0]).toBeGreaterThanOrEqual(50);
+    expect(sleeps[0]).toBeLessThanOrEqual(100);
+    expect(sleeps[1]).toBeGreaterThanOrEqual(100);
+    expect(RateLimitTracker.getUsage()[0].retries).toBe(2);
+  });
+
+  it('should give up after the configured number of retries', async () => {
+    replies = [{ status: 500 }, { status: 500 }, { status: 500 }];
+
+    await expect(createClient().get('/alerts')).rejects.toThrow('GitHub API Error: 500');
+  });
+
+  it('should not retry client errors', async () => {
+    replies = [{ status: 404, body: { message: 'Not Found' } }];
+
+    await expect(createClient().get('/alerts')).rejects.toThrow('GitHub API Error: 404 - Not Found');
+    expect(sleeps).toHaveLength(0);
+  });
+
+  it('should wait for Retry-After on GitHub secondary rate limits', async () => {
+    replies = [
+      { status: 403, headers: { 'Retry-After': '2' }, body: { message: 'You have exceeded a secondary rate limit' } },
+      { status: 200, body: [] }
+    ];
+
+    await createClient().get('/alerts');
+
+    expect(sleeps).toHaveLength(1);
+    expect(sleeps[0]).toBeGreaterThan(1000);
+    expect(RateLimitTracker.getUsage()[0].throttled).toBe(1);
+  });
+
+  it('should honour Azure DevOps Retry-After throttling on successful responses', async () => {
+    replies = [
+      { status: 200, headers: { 'Retry-After': '1', 'X-RateLimit-Delay': '0.5' }, body: { value: [] } },
+      { status: 200, body: { value: [] } }
+    ];
+
+    const client = createClient('Azure DevOps');
+    await client.get('/alerts');
+    await client.get('/alerts');
+
+    expect(sleeps).toHaveLength(1);
+    expect(RateLimitTracker.getUsage()[0]).toMatchObject({ provider: 'Azure DevOps', requests: 2, throttled: 1 });
+  });
+
+  it('should report the rate-limit budget consumed', async () => {
+    const reset = String(Math.floor(Date.now() / 1000) + 3600);
+    replies = [
+      { status: 200, headers: { 'X-RateLimit-Limit': '5000', 'X-RateLimit-Remaining': '4999', 'X-RateLimit-Reset': reset } },
+      { status: 200, headers: { 'X-RateLimit-Limit': '5000', 'X-RateLimit-Remaining': '4998', 'X-RateLimit-Reset': reset } }
+    ];
+
+    const client = createClient();
+    await client.get('/alerts');
+    await client.get('/alerts');
+
+    expect(RateLimitTracker.getUsage()[0]).toMatchObject({ limit: 5000, remaining: 4998, consumed: 2 });
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Tests for writing and re-loading the versioned JSON report
+ */
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { runCli } from '../src/cli';
+import { ExitCode } from '../src/cli/exitCodes';
+import { MultiApplicationAggregatedScanningResult } from '../src/interfaces/scanning-result.interface';
+import {
+  parseJsonReport,
+  renderJsonReport,
+  REPORT_SCHEMA_ID,
+  REPORT_SCHEMA_VERSION
+} from '../src/utils/jsonReport';
+import { evaluatePolicy } from '../src/utils/policy';
+import { renderReport } from '../src/utils/reportRenderer';
+import { validateSchema } from '../src/utils/schemaValidator';
+
+const timestamp = new Date('2024-03-01T12:00:00Z');
+
+const results: MultiApplicationAggregatedScanningResult = {
+  applications: [{
+    applicationName: 'Payments/payments-api',
+    branchName: 'main',
+    githubResults: { codeScanning: [], dependencyScanning: [] },
+    azureDevOpsResults: {
+      codeScanning: [{
+        id: '1',
+        name: 'Database query built from user-controlled sources',
+        severity: 'high',
+        description: 'Building a SQL query from user input',
+        createdAt: new Date('2024-01-10T08:00:00Z'),
+        updatedAt: new Date('2024-02-01T08:00:00Z'),
+        state: 'open',
+        tool: 'AzureDevOps',
+        toolName: 'CodeQL',
+        toolVersion: 'Unknown',
+        branchName: 'main',
+        commitId: 'abc123',
+        ruleId: 'js/sql-injection',
+        ruleName: 'SQL injection',
+        ruleDescription: 'Building a SQL query from user input',
+        ruleSeverity: 'high',
+        filePath: 'src/db/query.ts',
+        line: 42,
+        category: 'code-scanning',
+        severityLevel: 2,
+        type: 'code',
+        detectionDate: new Date('2024-01-10T08:00:00Z')
+      }],
+      dependencyScanning: []
+    },
+    timestamp
+  }],
+  errors: [{ applicationName: 'orders-api', error: 'GitHub API Error: 404 - Not Found' }],
+  summary: {
+    totalApplications: 1,
+    totalGithubCodeScanningIssues: 0,
+    totalGithubDependencyScanningIssues: 0,
+    totalAzureDevOpsCodeScanningIssues: 1,
+    totalAzureDevOpsDependencyScanningIssues: 0,
+    totalSarifCodeScanningIssues: 0,
+    severitySummary: { critical: 0, high: 1, medium: 0, low: 0, warning: 0, note: 0 }
+  },
+  timestamp
+};
+
+describe('jsonReport', () => {
+  it('should write the schema version, ISO dates, errors and summary', () => {
+    const report = JSON.parse(renderJsonReport(results));
+
+    expect(Object.keys(report)).toEqual([
+      '$schema', 'schemaVersion', 'timestamp', 'summary', 'errors', 'applications'
+    ]);
+    expect(report.$schema).toBe(REPORT_SCHEMA_ID);
+    expect(report.schemaVersion).toBe(REPORT_SCHEMA_VERSION);
+    expect(report.timestamp).toBe('2024-03-01T12:00:00.000Z');
+    expect(report.applications[0].azureDevOpsResults.codeScanning[0].detectionDate).toBe('2024-01-10T08:00:00.000Z');
+    expect(report.errors).toEqual(results.errors);
+  });
+
+  it('should re-load into results that render the same HTML report', () => {
+    const reloaded = parseJsonReport(renderJsonReport(results));
+
+    expect(reloaded).toEqual(results);
+    expect(renderReport(reloaded)).toBe(renderReport(results));
+  });
+
+  it('should reject reports from another major schema version', () => {
+    const report = { ...JSON.parse(renderJsonReport(results)), schemaVersion: '2.0.0' };
+
+    expect(() => parseJsonReport(JSON.stringify(report))).toThrow('Unsupported JSON report schema version 2.0.0');
+  });
+
+  it('should publish the schema under the identifier written to reports and accept every 1.x report', () => {
+    const schemaPath = path.join(__dirname, '..', 'schemas', 'multi-app-report.schema.json');
+    const schema = JSON.parse(fs.readFileSync(schemaPath, 'utf-8'));
+    const validate = (id: string) => validateSchema(id, schema.properties.$schema);
+
+    expect(schema.$id).toBe(REPORT_SCHEMA_ID);
+    expect(validate(REPORT_SCHEMA_ID)).toEqual([]);
+    expect(validate('urn:sast-dependency-analyzer:multi-app-report:1.0.0')).toEqual([]);
+    expect(validate('urn:sast-dependency-analyzer:multi-app-report:2.0.0')).toHaveLength(1);
+  });
+});
+
+describe('report', () => {
+  // Flags are copied into the environment, which later test files share
+  const environment = { ...process.env };
+  let directory: string;
+
+  beforeAll(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'json-report-'));
+    delete process.env.POLICY_FILE;
+  });
+
+  afterAll(() => {
+    process.env = environment;
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should keep a failed gate recorded by the run without failing again when no policy is given', async () => {
+    const policy = evaluatePolicy(results, [{ id: 'no-high', scope: 'global', match: { severities: ['high'] }, maxFindings: 0 }]);
+    const reportPath = path.join(directory, 'report.json');
+    fs.writeFileSync(reportPath, renderJsonReport({ ...results, policy }));
+
+    const exitCode = await runCli(['report', reportPath, '--format', 'markdown', '--output-dir', directory, '--log-level', 'ERROR']);
+
+    expect(policy.passed).toBe(false);
+    expect(exitCode).toBe(ExitCode.Success);
+    const summary = fs.readdirSync(directory).find(file => file.endsWith('.md'))!;
+    expect(fs.readFileSync(path.join(directory, summary), 'utf-8')).toContain('**Policy: FAILED**');
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Tests for the JUnit XML export
+ */
+import { MultiApplicationAggregatedScanningResult } from '../src/interfaces/scanning-result.interface';
+import { renderJUnitReport } from '../src/utils/junitExporter';
+
+const timestamp = new Date('2024-03-01T12:00:00Z');
+
+const alert = (id: string, severity: string, state: string) => ({
+  id,
+  name: `Alert ${id} <script>`,
+  severity,
+  description: 'User input reaches a "raw" query & more',
+  createdAt: timestamp,
+  updatedAt: timestamp,
+  state,
+  url: `https://github.com/contoso/orders-api/security/code-scanning/${id}`,
+  tool: 'GitHub',
+  toolName: 'CodeQL',
+  ruleId: 'js/sql-injection',
+  filePath: 'src/db.ts',
+  startLine: 12,
+  category: 'code-scanning'
+});
+
+const results = {
+  applications: [{
+    applicationName: 'orders-api',
+    branchName: 'main',
+    githubResults: {
+      codeScanning: [
+        alert('1', 'critical', 'open'),
+        alert('2', 'medium', 'open'),
+        alert('3', 'high', 'fixed'),
+        alert('4', 'high', 'dismissed')
+      ],
+      dependencyScanning: []
+    },
+    azureDevOpsResults: { codeScanning: [], dependencyScanning: [] },
+    timestamp
+  }],
+  errors: [{ applicationName: 'billing', error: 'GitHub API Error: 404 - Not Found' }],
+  summary: {},
+  timestamp
+} as unknown as MultiApplicationAggregatedScanningResult;
+
+describe('renderJUnitReport', () => {
+  it('should fail open findings at or above the threshold and pass or skip the rest', () => {
+    const xml = renderJUnitReport(results);
+
+    expect(xml).toContain('<testsuites name="Security scanning" tests="5" failures="1" errors="1" skipped="1" timestamp="2024-03-01T12:00:00">');
+    expect(xml).toContain('<testsuite id="0" name="orders-api" tests="4" failures="1" errors="0" skipped="1"');
+    expect(xml).toContain(
+      '<testcase classname="orders-api.GitHub.Code Scanning" name="[CRITICAL] Alert 1 &lt;script&gt; (1)">'
+    );
+    expect(xml).toContain(
+      'User input reaches a &quot;raw&quot; query &amp; more\nSeverity: critical\nLocation: src/db.ts:12\n' +
+      'Link: https://github.com/contoso/orders-api/security/code-scanning/1</failure>'
+    );
+    expect(xml).toContain('name="[MEDIUM] Alert 2 &lt;script&gt; (2)"/>');
+    expect(xml).toContain('name="[HIGH] Alert 3 &lt;script&gt; (3)"/>');
+    expect(xml).toContain('<skipped message="Dismissed"/>');
+    expect(xml).toContain('<error message="GitHub API Error: 404 - Not Found" type="ScanError">');
+  });
+
+  it('should use the configured failure severity', () => {
+    const xml = renderJUnitReport(results, { failureSeverity: 'medium' });
+
+    expect(xml).toContain('name="orders-api" tests="4" failures="2"');
+  });
+
+  it('should drop control characters XML does not allow and keep tabs and line breaks', () => {
+    const xml = renderJUnitReport({
+      ...results,
+      errors: [{ applicationName: 'billing', error: 'Bad\u0007 response:\tline 1\r\nline 2\u001F' }]
+    });
+
+    expect(xml).toContain('Bad response:\tline 1\r\nline 2');
+    expect(xml).not.toContain('\u0007');
+    expect(xml).not.toContain('\u001F');
+  });
+});
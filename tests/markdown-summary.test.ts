@@ -0,0 +1,111 @@
+/**
+ * Tests for the Markdown summary and publishing it as a CI job summary
+ */
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { MultiApplicationAggregatedScanningResult } from '../src/interfaces/scanning-result.interface';
+import { publishJobSummary } from '../src/utils/jobSummary';
+import { Logger, LogLevel } from '../src/utils/logger';
+import { renderMarkdownSummary } from '../src/utils/markdownRenderer';
+
+const timestamp = new Date('2024-03-01T12:00:00Z');
+
+const codeAlert = (id: number, severity: string, state = 'open') => ({
+  id: String(id),
+  name: `Finding ${id} | injection`,
+  severity,
+  description: 'Description',
+  createdAt: timestamp,
+  updatedAt: timestamp,
+  state,
+  url: `https://github.com/contoso/app-${id}/security/code-scanning/${id}`,
+  tool: 'GitHub',
+  toolName: 'CodeQL',
+  ruleId: 'js/sql-injection',
+  filePath: `src/file-${id}.ts`,
+  category: 'code-scanning'
+});
+
+const createResults = (applicationCount: number): MultiApplicationAggregatedScanningResult => ({
+  applications: Array.from({ length: applicationCount }, (_, index) => ({
+    applicationName: `app-${index}`,
+    branchName: 'main',
+    githubResults: {
+      codeScanning: [codeAlert(index, index % 2 === 0 ? 'critical' : 'medium'), codeAlert(1000 + index, 'high', 'fixed')],
+      dependencyScanning: []
+    },
+    azureDevOpsResults: { codeScanning: [], dependencyScanning: [] },
+    timestamp
+  })),
+  errors: [{ applicationName: 'broken-app', error: 'GitHub API Error: 404 - Not Found' }],
+  summary: {
+    totalApplications: applicationCount,
+    totalGithubCodeScanningIssues: applicationCount * 2,
+    totalGithubDependencyScanningIssues: 0,
+    totalAzureDevOpsCodeScanningIssues: 0,
+    totalAzureDevOpsDependencyScanningIssues: 0,
+    totalSarifCodeScanningIssues: 0,
+    severitySummary: { critical: 0, high: 0, medium: 0, low: 0, warning: 0, note: 0 }
+  },
+  timestamp
+} as unknown as MultiApplicationAggregatedScanningResult);
+
+describe('renderMarkdownSummary', () => {
+  it('should render totals, applications, open critical/high findings and failures', () => {
+    const markdown = renderMarkdownSummary(createResults(2));
+
+    expect(markdown).toContain('| Critical | 1 |');
+    expect(markdown).toContain('| **Total** | **2** |');
+    expect(markdown).toContain('| app-1 | 0 | 0 | 1 | 0 | 0 | 0 | 1 |');
+    expect(markdown).toContain('2 fixed or dismissed finding(s) are not counted.');
+    expect(markdown).toContain('### Top 1 Critical/High Findings');
+    expect(markdown).toContain(
+      '| Critical | app-0 | GitHub | [Finding 0 \\| injection](https://github.com/contoso/app-0/security/code-scanning/0) | src/file-0.ts |'
+    );
+    expect(markdown).not.toContain('Finding 1000');
+    expect(markdown).toContain('- **broken-app**: GitHub API Error: 404 - Not Found');
+  });
+
+  it('should list the top N findings and count the rest', () => {
+    const markdown = renderMarkdownSummary(createResults(10), { topFindings: 2 });
+
+    expect(markdown).toContain('### Top 2 Critical/High Findings');
+    expect(markdown).toContain('_…and 3 more critical/high findings_');
+  });
+
+  it('should truncate to the length limit with an "N more" footer', () => {
+    const markdown = renderMarkdownSummary(createResults(200), { maxLength: 2000 });
+
+    expect(markdown.length).toBeLessThanOrEqual(2000);
+    expect(markdown).toMatch(/_…and \d+ more applications_/);
+  });
+});
+
+describe('publishJobSummary', () => {
+  let directory: string;
+
+  beforeAll(() => {
+    Logger.setLevel(LogLevel.ERROR);
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'job-summary-'));
+  });
+
+  afterAll(() => {
+    Logger.setLevel(LogLevel.INFO);
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should append to $GITHUB_STEP_SUMMARY and emit the Azure Pipelines upload command', () => {
+    const stepSummary = path.join(directory, 'step-summary.md');
+    const write = jest.spyOn(process.stdout, 'write').mockImplementation(() => true);
+
+    try {
+      publishJobSummary('output/summary.md', '## Summary', { GITHUB_STEP_SUMMARY: stepSummary, TF_BUILD: 'True' });
+      expect(write).toHaveBeenCalledWith(`##vso[task.uploadsummary]${path.resolve('output/summary.md')}\n`);
+    } finally {
+      write.mockRestore();
+    }
+
+    expect(fs.readFileSync(stepSummary, 'utf-8')).toBe('## Summary\n');
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Tests for Link header pagination of alert list endpoints
+ */
+import { fetchAllPages, PageClient, parseLinkHeader } from '../src/utils/pagination';
+
+// Builds a fake client that serves `total` numbered items in pages, with GitHub-style Link headers
+function createPagedClient(total: number, style: 'page' | 'cursor') {
+  const requests: Array<Record<string, any>> = [];
+
+  const get = async (_url: string, config?: { params?: Record<string, any> }) => {
+    const params = config?.params || {};
+    requests.push(params);
+
+    const perPage = params.per_page;
+    const pageCount = Math.ceil(total / perPage);
+    const page = style === 'page' ? params.page : (params.after ? Number(params.after) : 1);
+    const start = (page - 1) * perPage;
+    const data = Array.from({ length: Math.max(0, Math.min(perPage, total - start)) }, (_, i) => start + i);
+
+    const links: string[] = [];
+    if (page < pageCount) {
+      const next = style === 'page' ? `page=${page + 1}` : `after=${page + 1}`;
+      links.push(`<https://api.github.com/items?per_page=${perPage}&${next}>; rel="next"`);
+      if (style === 'page') {
+        links.push(`<https://api.github.com/items?per_page=${perPage}&page=${pageCount}>; rel="last"`);
+      }
+    }
+
+    return { data, headers: { link: links.join(', ') } };
+  };
+
+  const client: PageClient = { get };
+  return { client, requests };
+}
+
+describe('parseLinkHeader', () => {
+  it('should map each rel to its url', () => {
+    const links = parseLinkHeader(
+      '<https://api.github.com/x?page=2>; rel="next", <https://api.github.com/x?page=5>; rel="last"'
+    );
+
+    expect(links).toEqual({
+      next: 'https://api.github.com/x?page=2',
+      last: 'https://api.github.com/x?page=5'
+    });
+  });
+
+  it('should return an empty map when the header is missing', () => {
+    expect(parseLinkHeader(undefined)).toEqual({});
+  });
+});
+
+describe('fetchAllPages', () => {
+  it('should follow page links until the last page', async () => {
+    const { client, requests } = createPagedClient(250, 'page');
+
+    const { items, stats } = await fetchAllPages(client, '/items', { state: 'open' }, {
+      pageSize: 100, maxPages: 10, strategy: 'page'
+    });
+
+    expect(items).toHaveLength(250);
+    expect(stats).toEqual({ fetched: 250, reported: 250, pages: 3, truncated: false });
+    expect(requests.map(r => r.page)).toEqual([1, 2, 3]);
+    expect(requests[0].state).toBe('open');
+  });
+
+  it('should stop at the page cap and report the total from the last page', async () => {
+    const { client } = createPagedClient(250, 'page');
+
+    const { items, stats } = await fetchAllPages(client, '/items', {}, {
+      pageSize: 100, maxPages: 1, strategy: 'page'
+    });
+
+    expect(items).toHaveLength(100);
+    expect(stats).toEqual({ fetched: 100, reported: 250, pages: 1, truncated: true });
+  });
+
+  it('should pass the cursor from the next link for cursor based endpoints', async () => {
+    const { client, requests } = createPagedClient(120, 'cursor');
+
+    const { items, stats } = await fetchAllPages(client, '/items', {}, {
+      pageSize: 50, maxPages: 10, strategy: 'cursor'
+    });
+
+    expect(items).toHaveLength(120);
+    expect(stats.truncated).toBe(false);
+    expect(requests.map(r => r.after)).toEqual([undefined, '2', '3']);
+    expect(requests.every(r => r.page === undefined)).toBe(true);
+  });
+
+  it('should leave the reported total unknown when a cursor fetch is truncated', async () => {
+    const { client } = createPagedClient(120, 'cursor');
+
+    const { stats } = await fetchAllPages(client, '/items', {}, {
+      pageSize: 50, maxPages: 2, strategy: 'cursor'
+    });
+
+    expect(stats).toEqual({ fetched: 100, reported: undefined, pages: 2, truncated: true });
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * Tests for the policy file and the security gate it defines
+ */
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { runCli } from '../src/cli';
+import { ExitCode } from '../src/cli/exitCodes';
+import { ConfigFileError } from '../src/config/configFile';
+import { loadPolicyFile } from '../src/config/policyFile';
+import { PolicyRule } from '../src/interfaces/policy.interface';
+import { renderCsvReport } from '../src/utils/csvExporter';
+import { renderJsonReport } from '../src/utils/jsonReport';
+import { renderJUnitReport } from '../src/utils/junitExporter';
+import { renderMarkdownSummary } from '../src/utils/markdownRenderer';
+import { evaluatePolicy, formatPolicyCheck } from '../src/utils/policy';
+import { renderReport } from '../src/utils/reportRenderer';
+import { buildSarifLog } from '../src/utils/sarifExporter';
+import { applicationResult, codeAlert, daysAgo, dependencyAlert, multiApplicationResult } from './fixtures/alerts';
+
+const results = multiApplicationResult([
+  applicationResult('orders-api', 'main', {
+    codeScanning: [codeAlert('1', 'high', { createdAt: daysAgo(1) })],
+    dependencyScanning: [dependencyAlert('2', 'critical', { createdAt: daysAgo(30), cveId: 'CVE-2020-8203', cvss: 9.8 })]
+  }, { tags: ['pci'] }),
+  applicationResult('billing', 'main', {
+    codeScanning: [
+      codeAlert('3', 'high', { createdAt: daysAgo(1) }),
+      codeAlert('4', 'high', { createdAt: daysAgo(1) }),
+      codeAlert('5', 'critical', { createdAt: daysAgo(1), state: 'fixed' })
+    ]
+  })
+]);
+
+const rule = (id: string, fields: Partial<PolicyRule>): PolicyRule => ({ id, scope: 'global', match: {}, maxFindings: 0, ...fields });
+
+describe('loadPolicyFile', () => {
+  let directory: string;
+
+  beforeAll(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'policy-'));
+  });
+
+  afterAll(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should apply the default scope and report invalid rules with their position', () => {
+    const filePath = path.join(directory, 'policy.yml');
+    fs.writeFileSync(filePath, 'version: 1\nrules:\n  - id: no-critical\n    match: { severities: [critical] }\n    maxFindings: 0\n');
+    expect(loadPolicyFile(filePath)).toEqual([rule('no-critical', { match: { severities: ['critical'] } })]);
+
+    fs.writeFileSync(filePath, 'version: 1\nrules:\n  - id: a\n    maxFindings: -1\n  - id: a\n    maxFindings: 1\n');
+    expect(() => loadPolicyFile(filePath)).toThrow(ConfigFileError);
+    try {
+      loadPolicyFile(filePath);
+    } catch (error) {
+      expect((error as ConfigFileError).issues.map(issue => `${issue.line}:${issue.column} ${issue.path}: ${issue.message}`))
+        .toEqual(['4:5 rules[0].maxFindings: must be at least 0']);
+    }
+  });
+});
+
+describe('evaluatePolicy', () => {
+  it('should count open findings globally, per application and per tag', () => {
+    const evaluation = evaluatePolicy(results, [
+      rule('high-budget', { match: { severities: ['high'] }, maxFindings: 2 }),
+      rule('no-critical', { scope: 'application', match: { minSeverity: 'critical' } }),
+      rule('pci', { scope: 'tag', match: { minSeverity: 'high' }, maxFindings: 1 })
+    ]);
+
+    expect(evaluation.passed).toBe(false);
+    expect(evaluation.checks.map(formatPolicyCheck)).toEqual([
+      'high-budget (All applications): 3 finding(s), at most 2 allowed',
+      'no-critical (orders-api): 1 finding(s), at most 0 allowed',
+      'no-critical (billing): 0 finding(s), at most 0 allowed',
+      'pci (Tag pci): 2 finding(s), at most 1 allowed'
+    ]);
+    expect(evaluation.checks.map(check => check.passed)).toEqual([false, false, true, false]);
+    expect(evaluation.checks[1].violations).toEqual([{ application: 'orders-api', fingerprint: expect.any(String) }]);
+  });
+
+  it('should match dependency alerts by CVSS score and age, limited to the given applications', () => {
+    const stale = rule('stale', { match: { types: ['dependency-scanning'], minCvss: 9, olderThanDays: 7 } });
+
+    expect(evaluatePolicy(results, [stale]).checks[0].findings).toBe(1);
+    expect(evaluatePolicy(results, [{ ...stale, match: { ...stale.match, olderThanDays: 30 } }]).checks[0].findings).toBe(0);
+    expect(evaluatePolicy(results, [{ ...stale, applications: ['billing'] }]).passed).toBe(true);
+  });
+
+  it('should count a finding reported on several branches of an application once', () => {
+    const alerts = [codeAlert('1', 'high'), codeAlert('2', 'high')];
+    const branches = multiApplicationResult([
+      applicationResult('orders-api', 'main', { codeScanning: alerts }),
+      applicationResult('orders-api', 'release/1.0', { codeScanning: alerts }),
+      applicationResult('orders-api', 'release/2.0', { codeScanning: [codeAlert('3', 'high')] })
+    ]);
+
+    const evaluation = evaluatePolicy(branches, [
+      rule('high-budget', { match: { severities: ['high'] }, maxFindings: 3 }),
+      rule('no-high', { scope: 'application', match: { severities: ['high'] } })
+    ]);
+
+    expect(evaluation.checks.map(formatPolicyCheck)).toEqual([
+      'high-budget (All applications): 3 finding(s), at most 3 allowed',
+      'no-high (orders-api): 3 finding(s), at most 0 allowed'
+    ]);
+    expect(evaluation.checks[1].violations).toHaveLength(3);
+  });
+
+  it('should show the outcome in every output format', () => {
+    const data = { ...results, policy: evaluatePolicy(results, [rule('no-critical', { match: { severities: ['critical'] } })]) };
+
+    expect(renderMarkdownSummary(data)).toContain('| **Failed** | no-critical | All applications | 1 | 0 |  |');
+    expect(renderReport(data)).toContain('Policy <span>FAILED</span>');
+    expect(renderJUnitReport(data)).toContain('<failure message="no-critical (All applications): 1 finding(s), at most 0 allowed" type="PolicyViolation">');
+    expect(renderCsvReport(data).split('\r\n')[2]).toMatch(/,no-critical$/);
+    expect(JSON.parse(renderJsonReport(data)).policy.passed).toBe(false);
+    expect(buildSarifLog(data).properties).toEqual({ policy: { passed: false, checks: [expect.objectContaining({ rule: 'no-critical' })] } });
+  });
+
+  it('should escape rule descriptions in the HTML report', () => {
+    const description = 'No List<Critical> & no exceptions';
+    const data = { ...results, policy: evaluatePolicy(results, [rule('no-critical', { description, match: { severities: ['critical'] } })]) };
+
+    expect(renderReport(data)).toContain('<td>No List&lt;Critical&gt; &amp; no exceptions</td>');
+  });
+});
+
+describe('report --policy', () => {
+  // Flags are copied into the environment, which later test files share
+  const environment = { ...process.env };
+  let directory: string;
+
+  beforeAll(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'policy-report-'));
+  });
+
+  afterAll(() => {
+    process.env = environment;
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should exit with the policy exit code when the gate fails', async () => {
+    const reportPath = path.join(directory, 'report.json');
+    const policyPath = path.join(directory, 'policy.yml');
+    fs.writeFileSync(reportPath, renderJsonReport(results));
+    fs.writeFileSync(policyPath, 'version: 1\nrules:\n  - id: no-critical\n    match: { severities: [critical] }\n    maxFindings: 0\n');
+
+    const exitCode = await runCli(['report', reportPath, '--policy', policyPath, '--format', 'markdown', '--output-dir', directory, '--log-level', 'ERROR']);
+
+    expect(exitCode).toBe(ExitCode.PolicyFailed);
+    const summary = fs.readdirSync(directory).find(file => file.endsWith('.md'))!;
+    expect(fs.readFileSync(path.join(directory, summary), 'utf-8')).toContain('**Policy: FAILED**');
+  });
+});
@@ -0,0 +1,221 @@
+/**
+ * Tests for fetching fixed and dismissed GitHub alerts and the mean time to remediate derived from them
+ */
+import http from 'http';
+import { AddressInfo } from 'net';
+import { MultiApplicationAggregatedScanningResult } from '../src/interfaces/scanning-result.interface';
+import { GitHubCodeScanningResultService } from '../src/services/GitHubService/GitHubCodeScanningResultService';
+import { GitHubDependencyScanningResultService } from '../src/services/GitHubService/GitHubDependencyScanningResultService';
+import { renderCsvReport } from '../src/utils/csvExporter';
+import { parseJsonReport, renderJsonReport } from '../src/utils/jsonReport';
+import { Logger, LogLevel } from '../src/utils/logger';
+import { renderMarkdownSummary } from '../src/utils/markdownRenderer';
+import { summarizeResults } from '../src/utils/providerResults';
+import { flattenFindings } from '../src/utils/reportData';
+import { renderReport } from '../src/utils/reportRenderer';
+import { buildSarifLog } from '../src/utils/sarifExporter';
+import { formatRemediationTime, summarizeRemediation } from '../src/utils/remediation';
+
+const codeScanningAlert = (number: number, state: string, extra: Record<string, unknown> = {}) => ({
+  number,
+  state,
+  created_at: '2025-05-01T00:00:00Z',
+  updated_at: '2025-05-11T00:00:00Z',
+  html_url: `https://github.com/contoso/orders-api/security/code-scanning/${number}`,
+  rule: { id: 'js/sql-injection', name: 'SQL injection', security_severity_level: 'high' },
+  tool: { name: 'CodeQL' },
+  most_recent_instance: { location: { path: 'src/db.js', start_line: 3 } },
+  ...extra
+});
+
+const dependabotAlert = (number: number, state: string, extra: Record<string, unknown> = {}) => ({
+  number,
+  state,
+  created_at: '2025-05-01T00:00:00Z',
+  updated_at: '2025-05-02T00:00:00Z',
+  dependency: { package: { ecosystem: 'npm', name: 'lodash' }, manifest_path: 'package-lock.json' },
+  security_advisory: { ghsa_id: 'GHSA-p6mc-m468-83gw', summary: 'Prototype pollution in lodash', severity: 'critical' },
+  ...extra
+});
+
+describe('GitHub alert states', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  const requests: URL[] = [];
+
+  beforeAll(async () => {
+    Logger.setLevel(LogLevel.ERROR);
+    server = http.createServer((req, res) => {
+      const url = new URL(req.url || '/', 'http://localhost');
+      requests.push(url);
+
+      let data: unknown[] = [];
+      if (url.pathname.endsWith('/code-scanning/alerts')) {
+        // Older GitHub Enterprise Server versions report fixed alerts as closed
+        data = url.searchParams.get('state') === 'fixed'
+          ? [codeScanningAlert(1, 'closed', { fixed_at: '2025-05-11T00:00:00Z' })]
+          : [codeScanningAlert(2, 'dismissed', {
+            dismissed_at: '2025-05-03T00:00:00Z',
+            dismissed_by: { login: 'octocat' },
+            dismissed_reason: 'false positive',
+            dismissed_comment: 'Input is validated upstream'
+          })];
+      } else if (url.pathname.endsWith('/dependabot/alerts')) {
+        data = [dependabotAlert(3, 'auto_dismissed', { auto_dismissed_at: '2025-05-02T00:00:00Z' })];
+      }
+
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(data));
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    Logger.setLevel(LogLevel.INFO);
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  const params = () => ({ orgName: 'contoso', token: 'test-token', baseUrl, states: ['fixed' as const, 'dismissed' as const], http: { maxRetries: 0 } });
+
+  it('should fetch code scanning alerts once per state and keep how each was closed', async () => {
+    const { results, stats } = await new GitHubCodeScanningResultService(params())
+      .fetchCodeScanningResultsWithStats({ applicationName: 'orders-api', branchName: 'main' });
+
+    expect(requests.map(url => url.searchParams.get('state'))).toEqual(['fixed', 'dismissed']);
+    expect(stats).toMatchObject({ fetched: 2, pages: 2, truncated: false });
+    expect(results[0]).toMatchObject({ state: 'fixed', fixedAt: new Date('2025-05-11T00:00:00Z') });
+    expect(results[1]).toMatchObject({
+      state: 'dismissed',
+      dismissedAt: new Date('2025-05-03T00:00:00Z'),
+      dismissedBy: 'octocat',
+      dismissedReason: 'false positive',
+      dismissedComment: 'Input is validated upstream'
+    });
+  });
+
+  it('should ask Dependabot for auto-dismissed alerts along with dismissed ones', async () => {
+    requests.length = 0;
+    const [result] = await new GitHubDependencyScanningResultService(params())
+      .fetchDependencyScanningResults({ applicationName: 'orders-api', branchName: 'main' });
+
+    expect(requests[0].searchParams.get('state')).toBe('fixed,dismissed,auto_dismissed');
+    expect(result).toMatchObject({ state: 'dismissed', dismissedAt: new Date('2025-05-02T00:00:00Z'), dismissedReason: 'auto_dismissed' });
+  });
+});
+
+describe('summarizeRemediation', () => {
+  const timestamp = new Date('2025-06-01T12:00:00Z');
+  const day = (date: number) => new Date(Date.UTC(2025, 4, date));
+
+  const codeAlert = (id: string, severity: string, state: string, fixedDay?: number) => ({
+    id,
+    name: `Alert ${id}`,
+    severity,
+    description: 'Code issue',
+    createdAt: day(1),
+    updatedAt: day(1),
+    state,
+    fixedAt: fixedDay ? day(fixedDay) : undefined,
+    dismissedAt: state === 'dismissed' ? day(2) : undefined,
+    dismissedReason: state === 'dismissed' ? 'won\'t fix' : undefined,
+    tool: 'GitHub',
+    toolName: 'CodeQL',
+    ruleId: `js/rule-${id}`,
+    filePath: `src/file-${id}.js`,
+    startLine: 1,
+    category: 'code-scanning'
+  });
+
+  const application = (applicationName: string, branchName: string, codeScanning: unknown[]) => ({
+    applicationName,
+    branchName,
+    githubResults: { codeScanning, dependencyScanning: [] },
+    azureDevOpsResults: { codeScanning: [], dependencyScanning: [] },
+    timestamp
+  });
+
+  const results = {
+    applications: [
+      // Critical fixed after 4 days, high after 10 and 20 days; the release branch repeats the critical finding
+      application('orders-api', 'main', [codeAlert('1', 'critical', 'fixed', 5), codeAlert('2', 'high', 'fixed', 11), codeAlert('3', 'high', 'fixed', 21)]),
+      application('orders-api', 'release', [codeAlert('1', 'critical', 'fixed', 5)]),
+      // Open and dismissed findings, and fixed findings without a fix date, are not measured
+      application('billing', 'main', [codeAlert('4', 'low', 'open'), codeAlert('5', 'low', 'dismissed'), codeAlert('6', 'low', 'fixed')])
+    ],
+    errors: [],
+    timestamp
+  } as unknown as MultiApplicationAggregatedScanningResult;
+  results.summary = summarizeResults(results.applications);
+
+  it('should average the days to fix per application and severity, counting each finding once', () => {
+    const { applications, total } = summarizeRemediation(flattenFindings(results));
+
+    expect(applications).toEqual([{
+      application: 'orders-api',
+      fixed: 3,
+      meanDays: 11.3,
+      severities: { critical: { fixed: 1, meanDays: 4 }, high: { fixed: 2, meanDays: 15 } }
+    }]);
+    expect(total).toMatchObject({ application: undefined, fixed: 3, meanDays: 11.3 });
+    expect(formatRemediationTime(total.severities.high)).toBe('15 days (2 fixed)');
+    expect(formatRemediationTime(total.severities.low)).toBe('n/a');
+  });
+
+  it('should show the mean time to remediate and how findings were closed in the reports', () => {
+    expect(renderMarkdownSummary(results)).toContain('| orders-api | 11.3 days (3 fixed) | 4 days (1 fixed) | 15 days (2 fixed) |');
+
+    const html = renderReport(results);
+    expect(html).toContain('<h2>Mean Time to Remediate</h2>');
+    expect(html).toContain('<strong>Fixed:</strong> 2025-05-05');
+    expect(html).toContain('<strong>Dismissed:</strong> 2025-05-02 as won&#39;t fix');
+
+    expect(renderCsvReport(results).split('\r\n')[1]).toContain(',critical,fixed,,,,2025-05-05T00:00:00.000Z,,,,,');
+    const dismissed = buildSarifLog(results).runs.flatMap(run => run.results || []).find(result => result.ruleId === 'js/rule-5');
+    expect(dismissed?.suppressions).toEqual([{ kind: 'external', status: 'accepted', justification: 'won\'t fix' }]);
+  });
+
+  it('should escape who dismissed a finding, the reason and the comment in the HTML report', () => {
+    const dismissed = {
+      ...codeAlert('7', 'high', 'dismissed'),
+      dismissedBy: 'octo<cat>',
+      dismissedReason: 'used in <tests>',
+      dismissedComment: '<script>alert(1)</script> & more'
+    };
+    const data = {
+      applications: [application('payments', 'main', [dismissed])],
+      errors: [],
+      timestamp
+    } as unknown as MultiApplicationAggregatedScanningResult;
+    data.summary = summarizeResults(data.applications);
+    const html = renderReport(data);
+
+    expect(html).toContain('2025-05-02 by octo&lt;cat&gt; as used in &lt;tests&gt;: '
+      + '&lt;script&gt;alert(1)&lt;/script&gt; &amp; more');
+    expect(html).not.toContain('<script>alert(1)</script>');
+  });
+
+  it('should write the mean time to remediate in the JSON report and keep the dates on load', () => {
+    const report = JSON.parse(renderJsonReport(results));
+    expect(report.remediation.total).toMatchObject({ fixed: 3, meanDays: 11.3 });
+
+    const [finding] = parseJsonReport(JSON.stringify(report)).applications[0].githubResults!.codeScanning;
+    expect(finding.fixedAt).toEqual(day(5));
+  });
+
+  it('should leave fixed and dismissed findings out of the severity and application totals', () => {
+    const mixed = {
+      applications: [application('payments', 'main', [codeAlert('7', 'critical', 'open'), codeAlert('8', 'critical', 'fixed', 3), codeAlert('9', 'critical', 'dismissed')])],
+      errors: [],
+      timestamp
+    } as unknown as MultiApplicationAggregatedScanningResult;
+    mixed.summary = summarizeResults(mixed.applications);
+
+    expect(mixed.summary.severitySummary.critical).toBe(1);
+    const markdown = renderMarkdownSummary(mixed);
+    expect(markdown).toContain('| Critical | 1 |');
+    expect(markdown).toContain('| payments | 1 | 0 | 0 | 0 | 0 | 0 | 1 |');
+    expect(markdown).toContain('2 fixed or dismissed finding(s) are not counted.');
+    expect(renderReport(mixed)).toContain('3 finding(s), 1 open');
+  });
+});
@@ -0,0 +1,200 @@
+/**
+ * Tests for comparing the findings of two runs, from JSON reports and from the run history
+ */
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { runCli } from '../src/cli';
+import { ExitCode } from '../src/cli/exitCodes';
+import { ApplicationError, GitHubCodeScanningResult } from '../src/interfaces/scanning-result.interface';
+import { RunHistoryStore } from '../src/services/HistoryService/RunHistoryStore';
+import { renderJsonReport } from '../src/utils/jsonReport';
+import {
+  diffReports,
+  diffRuns,
+  fromHistoryRun,
+  fromReport,
+  renderDiffHtml,
+  renderDiffHtmlSection,
+  renderDiffMarkdown
+} from '../src/utils/reportDiff';
+import { renderReport } from '../src/utils/reportRenderer';
+import { applicationResult, codeAlert, daysAgo, multiApplicationResult } from './fixtures/alerts';
+
+const report = (days: number, alerts: GitHubCodeScanningResult[], errors: ApplicationError[] = []) => multiApplicationResult(
+  [applicationResult('orders-api', 'main', { codeScanning: alerts }), applicationResult('orders-api', 'release', {})],
+  { errors, timestamp: daysAgo(days) }
+);
+
+const run = (days: number, alerts: GitHubCodeScanningResult[], errors: ApplicationError[] = []) =>
+  fromReport(report(days, alerts, errors));
+
+const fetchError = (branch?: string): ApplicationError => ({
+  applicationName: 'GitHub: orders-api',
+  error: 'GitHub API Error: 502 - Bad Gateway',
+  application: 'orders-api',
+  branch
+});
+
+describe('diffReports', () => {
+  it('should classify open findings as new, fixed or unchanged', () => {
+    const diff = diffReports(
+      report(1, [codeAlert('1', 'high'), codeAlert('2', 'high')]),
+      report(0, [codeAlert('2', 'high'), codeAlert('3', 'high'), codeAlert('1', 'high', { state: 'fixed' })])
+    );
+
+    expect(diff.totals).toEqual({ new: 1, reopened: 0, fixed: 1, unchanged: 1 });
+    expect(diff.applications.map(app => app.application)).toEqual(['orders-api (main)']);
+    expect(diff.applications[0].new.map(item => item.id)).toEqual(['3']);
+    expect(diff.applications[0].fixed.map(item => item.id)).toEqual(['1']);
+    expect(diff.applications[0].unchanged.map(item => item.id)).toEqual(['2']);
+    expect(diff.severities.high).toEqual({ new: 1, reopened: 0, fixed: 1, net: 0 });
+    expect([diff.baseTimestamp, diff.headTimestamp]).toEqual([daysAgo(1), daysAgo(0)]);
+  });
+
+  it('should match findings on each branch separately', () => {
+    const moved = multiApplicationResult([
+      applicationResult('orders-api', 'main', {}),
+      applicationResult('orders-api', 'release', { codeScanning: [codeAlert('1', 'high')] })
+    ]);
+    const diff = diffReports(report(1, [codeAlert('1', 'high')]), moved);
+
+    expect(diff.applications.map(app => [app.application, app.new.length, app.fixed.length])).toEqual([
+      ['orders-api (main)', 0, 1],
+      ['orders-api (release)', 1, 0]
+    ]);
+  });
+});
+
+describe('diffRuns', () => {
+  it('should classify findings seen before but not open in the base run as reopened', () => {
+    const base = run(1, [codeAlert('1', 'high', { state: 'fixed' })]);
+    const diff = diffRuns(base, run(0, [codeAlert('1', 'high'), codeAlert('2', 'high')]), [run(2, [codeAlert('2', 'high')])]);
+
+    expect(diff.applications[0].reopened.map(item => item.id)).toEqual(['1', '2']);
+    expect(diff.severities.high).toEqual({ new: 0, reopened: 2, fixed: 0, net: 2 });
+  });
+
+  it('should compare runs read back from the history', () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'report-diff-'));
+    try {
+      const store = new RunHistoryStore({ directory });
+      store.append(report(2, [codeAlert('1', 'critical')]));
+      store.append(report(1, [], [fetchError('main')]));
+      store.append(report(0, [codeAlert('1', 'critical'), codeAlert('2', 'low')]));
+      const [latest, previous, ...earlier] = store.getRuns().map(fromHistoryRun);
+
+      expect(previous.failures).toEqual([{ application: 'orders-api', branch: 'main' }]);
+      const diff = diffRuns(previous, latest, earlier);
+      expect(diff.totals).toEqual({ new: 1, reopened: 0, fixed: 0, unchanged: 1 });
+      expect(diff.severities.critical.net).toBe(0);
+      expect(latest.findings.every(item => item.createdAt instanceof Date)).toBe(true);
+    } finally {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('diffRuns with failed fetches', () => {
+  const good = run(2, [codeAlert('1', 'high'), codeAlert('2', 'critical')]);
+
+  it('should not mark the findings of a branch the head run failed to fetch as fixed', () => {
+    const diff = diffRuns(good, run(1, [], [fetchError('main')]));
+
+    expect(diff.totals).toEqual({ new: 0, reopened: 0, fixed: 0, unchanged: 0 });
+    expect(diffRuns(good, run(1, [], [fetchError()])).totals.fixed).toBe(0);
+    expect(diffRuns(good, run(1, [], [fetchError('release')])).totals.fixed).toBe(2);
+  });
+
+  it('should compare a branch the base run failed to fetch with the latest earlier run that fetched it', () => {
+    const failed = run(1, [], [fetchError('main')]);
+    const diff = diffRuns(failed, run(0, [codeAlert('1', 'high'), codeAlert('3', 'low')]), [good]);
+
+    expect(diff.totals).toEqual({ new: 1, reopened: 0, fixed: 1, unchanged: 1 });
+    expect(diff.applications[0].fixed.map(item => item.id)).toEqual(['2']);
+  });
+});
+
+describe('diffRuns with fewer applications or branches', () => {
+  const base = fromReport(multiApplicationResult([
+    applicationResult('orders-api', 'main', { codeScanning: [codeAlert('1', 'high')] }),
+    applicationResult('orders-api', 'release', { codeScanning: [codeAlert('2', 'high')] }),
+    applicationResult('billing-api', 'main', { codeScanning: [codeAlert('3', 'critical')] })
+  ], { timestamp: daysAgo(1) }));
+
+  it('should not mark the findings of an application or branch the head run did not scan as fixed', () => {
+    const head = fromReport(multiApplicationResult([applicationResult('orders-api', 'main', {})]));
+    const diff = diffRuns(base, head);
+
+    expect(diff.totals).toEqual({ new: 0, reopened: 0, fixed: 1, unchanged: 0 });
+    expect(diff.applications.map(app => app.application)).toEqual(['orders-api (main)']);
+    expect(diff.applications[0].fixed.map(item => item.id)).toEqual(['1']);
+  });
+});
+
+describe('diff output', () => {
+  const diff = diffReports(
+    report(1, [codeAlert('1', 'critical'), codeAlert('2', 'high')]),
+    report(0, [codeAlert('2', 'high'), codeAlert('3', 'high', { url: 'https://github.com/contoso/orders-api/security/code-scanning/3' })])
+  );
+
+  it('should render a Markdown table per application, the severity delta and the changed findings', () => {
+    const markdown = renderDiffMarkdown(diff);
+
+    expect(markdown).toContain('| orders-api (main) | 1 | 0 | 1 | 1 | 0 |');
+    expect(markdown).toContain('| **Total** | **1** | **0** | **1** | **1** | **0** |');
+    expect(markdown).toContain('| Critical | 0 | 0 | 1 | -1 |');
+    expect(markdown).toContain('- New: **HIGH** [Alert 3](https://github.com/contoso/orders-api/security/code-scanning/3)');
+    expect(markdown).toContain('- Fixed: **CRITICAL** Alert 1');
+  });
+
+  it('should keep pipes and line breaks in names from breaking the Markdown table and list', () => {
+    const piped = diffReports(
+      multiApplicationResult([applicationResult('orders|api', 'main', {})]),
+      multiApplicationResult([applicationResult('orders|api', 'main', { codeScanning: [codeAlert('4', 'low', { name: 'a | b\nc' })] })])
+    );
+    const markdown = renderDiffMarkdown(piped);
+
+    expect(markdown).toContain('| orders\\|api | 1 | 0 | 0 | 0 | +1 |');
+    expect(markdown).toContain('- New: **LOW** a \\| b c (GitHub Code Scanning #4)');
+  });
+
+  it('should render the comparison as a standalone page and as a section of the HTML report', () => {
+    expect(renderDiffHtml(diff)).toContain('<title>Scan Comparison</title>');
+    expect(renderDiffHtmlSection(diff)).toContain('1 new, 0 reopened, 1 fixed, 1 unchanged');
+    expect(renderDiffHtmlSection(diff)).toContain('<td>Fixed</td>');
+    expect(renderReport(report(0, []), { comparison: diff })).toContain('<h2>Scan Comparison</h2>');
+  });
+
+  it('should escape finding names in the HTML comparison', () => {
+    const generic = diffReports(report(1, []), report(0, [codeAlert('4', 'high', { name: 'Unsafe cast to List<String> & Map' })]));
+
+    expect(renderDiffHtmlSection(generic)).toContain('<td>Unsafe cast to List&lt;String&gt; &amp; Map</td>');
+  });
+
+  it('should write the comparison of two JSON reports as JSON and HTML from the diff command', async () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'report-diff-cli-'));
+    const environment = { ...process.env };
+    try {
+      const basePath = path.join(directory, 'base.json');
+      const headPath = path.join(directory, 'head.json');
+      const outputPath = path.join(directory, 'diff.json');
+      fs.writeFileSync(basePath, renderJsonReport(report(1, [codeAlert('1', 'critical'), codeAlert('2', 'high')])));
+      fs.writeFileSync(headPath, renderJsonReport(report(0, [codeAlert('2', 'high')], [fetchError('release')])));
+
+      await expect(runCli(['diff', basePath, headPath, '--format', 'json', '--output', outputPath, '--log-level', 'ERROR']))
+        .resolves.toBe(ExitCode.Success);
+      const written = JSON.parse(fs.readFileSync(outputPath, 'utf-8'));
+      expect(written.totals).toEqual({ new: 0, reopened: 0, fixed: 1, unchanged: 1 });
+      expect(written.applications[0].fixed[0]).toMatchObject({ id: '1', severity: 'critical' });
+
+      const htmlPath = path.join(directory, 'diff.html');
+      await expect(runCli(['diff', basePath, headPath, '--format', 'html', '--output', htmlPath, '--log-level', 'ERROR']))
+        .resolves.toBe(ExitCode.Success);
+      expect(fs.readFileSync(htmlPath, 'utf-8')).toContain('0 new, 0 reopened, 1 fixed, 1 unchanged');
+    } finally {
+      process.env = environment;
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Tests for discovery mode filters and for turning discovered repositories into applications
+ */
+import { ApplicationTarget, GitHubDiscoveryOptions } from '../src/interfaces/config.interface';
+import { getGitHubSkipReason, RepositoryDiscoveryService } from '../src/services/DiscoveryService/RepositoryDiscoveryService';
+
+const githubOptions: GitHubDiscoveryOptions = {
+  org: 'contoso',
+  topics: [],
+  includeArchived: false,
+  includeForks: false,
+  visibility: 'all',
+  branches: ['main']
+};
+
+const repository = (name: string, overrides: object = {}) => ({
+  name,
+  archived: false,
+  fork: false,
+  visibility: 'private',
+  topics: ['production'],
+  defaultBranch: 'main',
+  ...overrides
+});
+
+describe('getGitHubSkipReason', () => {
+  it('should explain which filter left a repository out', () => {
+    expect(getGitHubSkipReason(repository('legacy', { archived: true }), githubOptions)).toBe('archived');
+    expect(getGitHubSkipReason(repository('upstream', { fork: true }), githubOptions)).toBe('fork');
+    expect(getGitHubSkipReason(repository('site', { visibility: 'public' }), { ...githubOptions, visibility: 'private' }))
+      .toBe('visibility is public, not private');
+    expect(getGitHubSkipReason(repository('sandbox', { topics: [] }), { ...githubOptions, topics: ['production', 'pci'] }))
+      .toBe('has none of the topics production, pci');
+    expect(getGitHubSkipReason(repository('docs'), { ...githubOptions, namePattern: '^svc-' })).toBe('name does not match ^svc-');
+    expect(getGitHubSkipReason(repository('svc-orders', { archived: true }), { ...githubOptions, includeArchived: true, namePattern: '^svc-' }))
+      .toBeUndefined();
+  });
+});
+
+describe('RepositoryDiscoveryService', () => {
+  const configured: ApplicationTarget[] = [
+    { name: 'orders', branches: ['main'], github: { org: 'Contoso', repo: 'orders-api' }, sarifPaths: [] },
+    { name: 'billing', branches: ['main'], sarifPaths: ['./sarif/billing'] }
+  ];
+
+  it('should add discovered repositories and record the skipped ones with a reason', async () => {
+    const service = new RepositoryDiscoveryService({
+      settings: {
+        github: githubOptions,
+        azureDevOps: { org: 'contoso-ado', projects: ['Finance'], includeDisabled: false, branches: ['main', 'release/*'] }
+      },
+      github: {
+        listRepositories: async () => [
+          repository('orders-api'),
+          repository('billing'),
+          repository('inventory'),
+          repository('old-portal', { archived: true })
+        ]
+      },
+      azureDevOps: {
+        listRepositories: async (projectName: string) => [
+          { name: 'ledger', project: projectName, isDisabled: false, defaultBranch: 'main' },
+          { name: 'scratch', project: projectName, isDisabled: false }
+        ]
+      }
+    });
+
+    const { applications, result, errors } = await service.discover(configured);
+
+    expect(errors).toEqual([]);
+    expect(applications).toEqual([
+      { name: 'inventory', branches: ['main'], github: { org: 'contoso', repo: 'inventory' }, sarifPaths: [] },
+      {
+        name: 'Finance/ledger',
+        branches: ['main', 'release/*'],
+        azureDevOps: { org: 'contoso-ado', project: 'Finance', repo: 'ledger' },
+        sarifPaths: []
+      }
+    ]);
+    expect(result.discovered.map(entry => [entry.repository, entry.applicationName])).toEqual([
+      ['contoso/inventory', 'inventory'],
+      ['contoso-ado/Finance/ledger', 'Finance/ledger']
+    ]);
+    expect(result.skipped.map(entry => [entry.repository, entry.reason])).toEqual([
+      ['contoso/orders-api', 'already configured as application orders'],
+      ['contoso/billing', 'name billing is already used by a configured application'],
+      ['contoso/old-portal', 'archived'],
+      ['contoso-ado/Finance/scratch', 'empty repository']
+    ]);
+  });
+
+  it('should report a provider that cannot be listed and keep discovering the others', async () => {
+    const service = new RepositoryDiscoveryService({
+      settings: {
+        github: githubOptions,
+        azureDevOps: { org: 'contoso-ado', projects: ['Finance'], includeDisabled: false, branches: ['main'] }
+      },
+      github: { listRepositories: async () => { throw new Error('Not Found'); } },
+      azureDevOps: {
+        listRepositories: async (projectName: string) => [{ name: 'ledger', project: projectName, isDisabled: false, defaultBranch: 'main' }]
+      }
+    });
+
+    const { applications, errors } = await service.discover([]);
+
+    expect(errors).toEqual([{ applicationName: 'GitHub discovery: contoso', error: 'Not Found' }]);
+    expect(applications.map(application => application.name)).toEqual(['Finance/ledger']);
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Tests for the risk model file and the application risk leaderboard
+ */
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ConfigFileError } from '../src/config/configFile';
+import { loadRiskModelFile } from '../src/config/riskModelFile';
+import { parseJsonReport, renderJsonReport } from '../src/utils/jsonReport';
+import { renderMarkdownSummary } from '../src/utils/markdownRenderer';
+import { renderReport } from '../src/utils/reportRenderer';
+import { DEFAULT_RISK_MODEL, explainRiskScore, scoreApplications } from '../src/utils/riskScore';
+import { applicationResult, codeAlert, daysAgo, dependencyAlert, multiApplicationResult } from './fixtures/alerts';
+
+const notes = Array.from({ length: 40 }, (_, index) => codeAlert(`note-${index}`, 'note'));
+
+const results = multiApplicationResult([
+  applicationResult('docs-site', 'main', { codeScanning: notes }),
+  applicationResult('payments', 'main', {
+    codeScanning: [codeAlert('1', 'high', { state: 'fixed' })],
+    dependencyScanning: [dependencyAlert('2', 'critical', { createdAt: daysAgo(365), fixedVersion: '4.17.19', cvss: 10 })]
+  }, { tags: ['internet-facing', 'team-a'] })
+], { riskModel: DEFAULT_RISK_MODEL });
+
+describe('scoreApplications', () => {
+  it('should rank a single exploitable critical above many notes and explain each factor', () => {
+    const [payments, docs] = scoreApplications(results, DEFAULT_RISK_MODEL);
+
+    // 10 points, doubled by CVSS 10, doubled by a year of age, ×1.5 for the fix, ×2 for internet-facing
+    expect(payments).toMatchObject({
+      application: 'payments',
+      rank: 1,
+      score: 120,
+      findings: 1,
+      exposureTags: ['internet-facing'],
+      exposureMultiplier: 2,
+      breakdown: { severity: 10, cvss: 10, age: 20, fixAvailable: 20, exposure: 60 }
+    });
+    expect(explainRiskScore(payments)).toEqual([
+      '1 critical finding(s): 60 points',
+      'Severity weights: 10',
+      'CVSS: +10',
+      'Age: +20',
+      'Fix available: +20',
+      'Exposure ×2 (internet-facing): +60'
+    ]);
+    expect(docs).toMatchObject({ application: 'docs-site', rank: 2, score: 4, findings: 40 });
+  });
+
+  it('should not score simulated demo findings', () => {
+    const demo = multiApplicationResult([
+      applicationResult('payments', 'main', { codeScanning: [codeAlert('1', 'low')] }),
+      applicationResult('orders-api', 'main', { dependencyScanning: [dependencyAlert('2', 'critical', { simulated: true })] })
+    ], { demoMode: true });
+
+    expect(scoreApplications(demo, DEFAULT_RISK_MODEL).map(score => [score.application, score.findings])).toEqual([
+      ['payments', 1],
+      ['orders-api', 0]
+    ]);
+  });
+
+  it('should show the leaderboard in the HTML report and the Markdown summary', () => {
+    expect(renderReport(results)).toContain('<h2>Risk Leaderboard</h2>');
+    expect(renderReport(results)).toContain('<div class="detail-item">Exposure ×2 (internet-facing): +60</div>');
+    expect(renderMarkdownSummary(results)).toContain('| 1 | payments | 120 | 1 | internet-facing | 1 critical finding(s): 60 points; Severity weights: 10;');
+  });
+
+  it('should keep the model and the scores in the JSON report', () => {
+    const report = JSON.parse(renderJsonReport(results));
+
+    expect(report.risk.applications.map((score: { application: string }) => score.application)).toEqual(['payments', 'docs-site']);
+    expect(parseJsonReport(JSON.stringify(report)).riskModel).toEqual(DEFAULT_RISK_MODEL);
+  });
+});
+
+describe('loadRiskModelFile', () => {
+  let directory: string;
+
+  beforeAll(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'risk-model-'));
+  });
+
+  afterAll(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should keep the defaults for the fields left out and report invalid weights with their position', () => {
+    const filePath = path.join(directory, 'risk-model.yml');
+    fs.writeFileSync(filePath, 'version: 1\nseverityWeights:\n  note: 0\nexposureTags:\n  dmz: 3\n');
+    expect(loadRiskModelFile(filePath)).toEqual({
+      ...DEFAULT_RISK_MODEL,
+      severityWeights: { ...DEFAULT_RISK_MODEL.severityWeights, note: 0 },
+      exposureTags: { dmz: 3 }
+    });
+
+    fs.writeFileSync(filePath, 'version: 1\ncvssWeight: -1\nseverityWeights:\n  urgent: 20\n');
+    expect(() => loadRiskModelFile(filePath)).toThrow(ConfigFileError);
+    try {
+      loadRiskModelFile(filePath);
+    } catch (error) {
+      expect((error as ConfigFileError).issues.map(issue => `${issue.line}:${issue.column} ${issue.path}`))
+        .toEqual(['2:1 cvssWeight', '4:3 severityWeights.urgent']);
+    }
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Tests for the append-only local history of scan runs
+ */
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { MultiApplicationAggregatedScanningResult, ScanningResultBase } from '../src/interfaces/scanning-result.interface';
+import { RunHistoryStore } from '../src/services/HistoryService/RunHistoryStore';
+import { parseJsonReport, renderJsonReport } from '../src/utils/jsonReport';
+import { applicationResult, codeAlert, dependencyAlert, multiApplicationResult } from './fixtures/alerts';
+
+const run = (timestamp: string, state: ScanningResultBase['state'] = 'open'): MultiApplicationAggregatedScanningResult => {
+  const lodashAlert = dependencyAlert('3', 'critical', { createdAt: new Date('2024-02-01T00:00:00Z'), state, cveId: 'CVE-2020-8203' });
+  const applications = ['main', 'develop'].map(branchName =>
+    applicationResult('orders-api', branchName, { dependencyScanning: [lodashAlert] }, { timestamp: new Date(timestamp) }));
+  return multiApplicationResult(applications, { timestamp: new Date(timestamp) });
+};
+
+describe('RunHistoryStore', () => {
+  let directory: string;
+  let store: RunHistoryStore;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'run-history-'));
+    store = new RunHistoryStore({ directory });
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should store the findings of each application and branch by fingerprint, without raw results', () => {
+    const stored = store.append(run('2024-03-01T12:00:00.000Z'));
+
+    expect(stored.summary).toMatchObject({ id: '2024-03-01T12-00-00-000Z', applications: 1, findings: 2, openFindings: 2, errors: 0 });
+    const loaded = store.get(stored.summary.id);
+    expect(loaded.summary.timestamp).toEqual(new Date('2024-03-01T12:00:00.000Z'));
+    expect(loaded.applications.map(application => application.branch)).toEqual(['main', 'develop']);
+    const [finding] = Object.values(loaded.applications[0].findings);
+    expect(loaded.applications[0].findings[finding.fingerprint]).toMatchObject({ id: '3', severity: 'critical', state: 'open' });
+    expect(finding).not.toHaveProperty('raw');
+  });
+
+  it('should read every date of a stored finding back as a Date, like the JSON report', () => {
+    const results = multiApplicationResult(
+      [applicationResult('orders-api', 'main', { codeScanning: [codeAlert('1', 'high')], dependencyScanning: [dependencyAlert('3', 'critical')] })],
+      {
+        sla: { days: { critical: 7 }, dueSoonDays: 3 },
+        suppressions: [{
+          id: 'accepted-1',
+          status: 'accepted-risk',
+          justification: 'Not reachable',
+          approvedBy: 'security-team',
+          expires: new Date('2025-12-31T23:59:59.999Z'),
+          match: { ruleId: 'js/rule-1' }
+        }]
+      }
+    );
+    const findings = Object.values(store.get(store.append(results).summary.id).applications[0].findings);
+    const suppressed = findings.find(finding => finding.suppression);
+    const withSla = findings.find(finding => finding.sla);
+
+    expect(suppressed?.suppression?.expires).toBeInstanceOf(Date);
+    expect(withSla?.sla?.dueDate).toBeInstanceOf(Date);
+    expect(withSla?.createdAt).toBeInstanceOf(Date);
+
+    const report = parseJsonReport(renderJsonReport(results));
+    expect(report.suppressions?.[0].expires).toEqual(new Date('2025-12-31T23:59:59.999Z'));
+    expect(report.applications[0].githubResults.dependencyScanning[0].updatedAt).toBeInstanceOf(Date);
+  });
+
+  it('should never overwrite a run recorded at the same time', () => {
+    const first = store.append(run('2024-03-01T12:00:00.000Z'));
+    const second = store.append(run('2024-03-01T12:00:00.000Z', 'fixed'));
+
+    expect(second.summary.id).toBe(`${first.summary.id}-1`);
+    expect(store.get(first.summary.id).summary.openFindings).toBe(2);
+    expect(store.list().map(summary => summary.id)).toEqual([second.summary.id, first.summary.id]);
+  });
+
+  it('should list the occurrences of a finding across runs, oldest first', () => {
+    store.append(run('2024-03-02T12:00:00.000Z', 'fixed'));
+    store.append(run('2024-03-01T12:00:00.000Z'));
+    const [{ finding }] = store.findOccurrences({ application: 'orders-api', branch: 'main' });
+
+    const occurrences = store.findOccurrences({ branch: 'main', fingerprint: finding.fingerprint });
+    expect(occurrences.map(occurrence => [occurrence.runId, occurrence.finding.state])).toEqual([
+      ['2024-03-01T12-00-00-000Z', 'open'],
+      ['2024-03-02T12-00-00-000Z', 'fixed']
+    ]);
+  });
+
+  it('should prune runs older than the retention period and beyond the maximum number of runs', () => {
+    ['2024-01-01', '2024-02-20', '2024-02-25', '2024-03-01'].forEach(day => store.append(run(`${day}T00:00:00.000Z`)));
+    const now = new Date('2024-03-02T00:00:00Z');
+
+    expect(store.prune({ retentionDays: 30, maxRuns: 0 }, { now, dryRun: true }).map(summary => summary.id))
+      .toEqual(['2024-01-01T00-00-00-000Z']);
+    expect(store.list()).toHaveLength(4);
+
+    expect(store.prune({ retentionDays: 30, maxRuns: 2 }, { now })).toHaveLength(2);
+    expect(store.list().map(summary => summary.id)).toEqual(['2024-03-01T00-00-00-000Z', '2024-02-25T00-00-00-000Z']);
+    expect(() => store.get('2024-01-01T00-00-00-000Z')).toThrow('Run 2024-01-01T00-00-00-000Z not found');
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * Tests for exporting aggregated results as SARIF 2.1.0
+ */
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { MultiApplicationAggregatedScanningResult } from '../src/interfaces/scanning-result.interface';
+import { SarifScanningResultService } from '../src/services/SarifService/SarifScanningResultService';
+import { buildSarifLog, renderSarifReport } from '../src/utils/sarifExporter';
+import { Logger, LogLevel } from '../src/utils/logger';
+
+const timestamp = new Date('2024-03-01T12:00:00Z');
+
+const results = {
+  timestamp,
+  applications: [{
+    applicationName: 'orders-api',
+    timestamp,
+    githubResults: {
+      codeScanning: [{
+        id: '7',
+        name: 'Database query built from user-controlled sources',
+        severity: 'high',
+        description: 'Query built with string formatting',
+        createdAt: timestamp,
+        updatedAt: timestamp,
+        state: 'open',
+        url: 'https://github.com/contoso/orders-api/security/code-scanning/7',
+        tool: 'GitHub',
+        ruleId: 'js/sql-injection',
+        ruleName: 'SQL injection',
+        ruleDescription: 'Building a SQL query from user input',
+        ruleSeverity: 'error',
+        filePath: 'src/db.ts',
+        startLine: 12,
+        startColumn: 5,
+        category: 'code-scanning'
+      }, {
+        id: '8',
+        name: 'Database query built from user-controlled sources',
+        severity: 'high',
+        description: 'Second query',
+        createdAt: timestamp,
+        updatedAt: timestamp,
+        state: 'dismissed',
+        tool: 'GitHub',
+        ruleId: 'js/sql-injection',
+        ruleName: 'SQL injection',
+        ruleDescription: 'Building a SQL query from user input',
+        ruleSeverity: 'error',
+        filePath: 'src/report.ts',
+        startLine: 40,
+        startColumn: 1,
+        category: 'code-scanning'
+      }],
+      dependencyScanning: [{
+        id: '3',
+        name: 'Prototype pollution in lodash',
+        severity: 'critical',
+        description: 'Prototype pollution in lodash',
+        createdAt: timestamp,
+        updatedAt: timestamp,
+        state: 'fixed',
+        tool: 'GitHub',
+        ruleId: 'GHSA-p6mc-m468-83gw',
+        ecosystem: 'npm',
+        packageName: 'lodash',
+        version: '4.17.15',
+        cvss: 9.1,
+        filePath: 'package-lock.json',
+        category: 'dependency-scanning'
+      }]
+    },
+    azureDevOpsResults: { codeScanning: [], dependencyScanning: [] },
+    summary: {
+      totalCodeScanningIssues: 2,
+      totalDependencyScanningIssues: 1,
+      severityBreakdown: { critical: 1, high: 2, medium: 0, low: 0, warning: 0, note: 0 },
+      toolBreakdown: { github: 3, azureDevOps: 0 }
+    }
+  }],
+  summary: {}
+} as unknown as MultiApplicationAggregatedScanningResult;
+
+describe('sarifExporter', () => {
+  it('should write one run per application and tool with deduplicated rules', () => {
+    const log = buildSarifLog(results);
+
+    expect(log.version).toBe('2.1.0');
+    expect(log.runs).toHaveLength(1);
+
+    const [run] = log.runs;
+    expect(run.automationDetails?.id).toBe('orders-api/GitHub/');
+    expect(run.tool.driver.rules?.map(rule => rule.id)).toEqual(['js/sql-injection', 'GHSA-p6mc-m468-83gw']);
+    expect(run.tool.driver.rules?.[1].properties?.['security-severity']).toBe('9.1');
+
+    const [open, dismissed, fixed] = run.results || [];
+    expect(open).toMatchObject({
+      ruleId: 'js/sql-injection',
+      ruleIndex: 0,
+      level: 'error',
+      locations: [{ physicalLocation: { artifactLocation: { uri: 'src/db.ts' }, region: { startLine: 12, startColumn: 5 } } }]
+    });
+    expect(dismissed.ruleIndex).toBe(0);
+    expect(dismissed.suppressions).toEqual([{ kind: 'external', status: 'accepted' }]);
+    expect(fixed.baselineState).toBe('absent');
+    expect(fixed.locations?.[0].physicalLocation?.artifactLocation?.uri).toBe('package-lock.json');
+  });
+
+  it('should import back with the same severities and states', async () => {
+    Logger.setLevel(LogLevel.ERROR);
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'sarif-export-'));
+    const file = path.join(directory, 'report.sarif');
+    fs.writeFileSync(file, renderSarifReport(results));
+
+    try {
+      const { applications } = await new SarifScanningResultService({
+        paths: [{ applicationName: 'orders-api', path: file }]
+      }).fetchSarifResults();
+
+      expect(applications[0].results.map(result => [result.ruleId, result.severity, result.state])).toEqual([
+        ['js/sql-injection', 'high', 'open'],
+        ['js/sql-injection', 'high', 'dismissed'],
+        ['GHSA-p6mc-m468-83gw', 'critical', 'fixed']
+      ]);
+    } finally {
+      Logger.setLevel(LogLevel.INFO);
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+});
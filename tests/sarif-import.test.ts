@@ -0,0 +1,201 @@
+/**
+ * Tests for importing SARIF 2.1.0 files as a scanning source
+ */
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { SarifScanningResultService } from '../src/services/SarifService/SarifScanningResultService';
+import { toFindings } from '../src/utils/findingAdapters';
+import { Logger, LogLevel } from '../src/utils/logger';
+import { renderReport } from '../src/utils/reportRenderer';
+import { applicationResult, multiApplicationResult } from './fixtures/alerts';
+
+const semgrepLog = {
+  version: '2.1.0',
+  runs: [{
+    tool: {
+      driver: {
+        name: 'Semgrep',
+        semanticVersion: '1.50.0',
+        rules: [{
+          id: 'python.flask.security.injection.sql',
+          name: 'SqlInjection',
+          shortDescription: { text: 'SQL injection' },
+          fullDescription: { text: 'User input flows into a raw SQL query' },
+          helpUri: 'https://semgrep.dev/r/python.flask.security.injection.sql',
+          properties: { 'security-severity': '9.1', tags: ['security', 'external/cwe/cwe-089'] }
+        }, {
+          id: 'python.lang.best-practice.open-never-closed',
+          defaultConfiguration: { level: 'note' }
+        }]
+      }
+    },
+    versionControlProvenance: [{ repositoryUri: 'https://github.com/contoso/orders-api.git' }],
+    invocations: [{ executionSuccessful: true, startTimeUtc: '2024-03-01T10:00:00Z', endTimeUtc: '2024-03-01T10:05:00Z' }],
+    results: [{
+      ruleId: 'python.flask.security.injection.sql',
+      ruleIndex: 0,
+      level: 'error',
+      message: { text: 'Query built with string formatting' },
+      locations: [{
+        physicalLocation: {
+          artifactLocation: { uri: 'app/db.py' },
+          region: { startLine: 12, startColumn: 5, endLine: 12, endColumn: 40, snippet: { text: 'cursor.execute(q % id)' } }
+        }
+      }],
+      partialFingerprints: { primaryLocationLineHash: 'abc123:1' }
+    }, {
+      ruleId: 'python.flask.security.injection.sql',
+      ruleIndex: 0,
+      level: 'error',
+      message: { text: 'Query built with concatenation' },
+      locations: [{ physicalLocation: { artifactLocation: { uri: 'app/db.py' }, region: { startLine: 12, startColumn: 44 } } }],
+      partialFingerprints: { primaryLocationLineHash: 'def456:1' }
+    }, {
+      ruleId: 'python.lang.best-practice.open-never-closed',
+      message: { text: 'File opened without being closed' },
+      locations: [{ physicalLocation: { artifactLocation: { uri: 'app/io.py' }, region: { startLine: 3 } } }],
+      suppressions: [{ kind: 'inSource' }]
+    }]
+  }]
+};
+
+describe('SarifScanningResultService', () => {
+  let directory: string;
+
+  beforeAll(() => {
+    Logger.setLevel(LogLevel.ERROR);
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'sarif-import-'));
+    fs.mkdirSync(path.join(directory, 'nested'));
+    fs.writeFileSync(path.join(directory, 'nested', 'semgrep.sarif'), JSON.stringify(semgrepLog));
+    fs.writeFileSync(path.join(directory, 'notes.txt'), 'not sarif');
+    fs.writeFileSync(path.join(directory, 'broken.sarif'), '{ not json');
+  });
+
+  afterAll(() => {
+    Logger.setLevel(LogLevel.INFO);
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should map results with rule metadata, locations and fingerprints', async () => {
+    const service = new SarifScanningResultService({ paths: [{ path: directory }] });
+
+    const { applications, errors } = await service.fetchSarifResults();
+
+    expect(applications).toHaveLength(1);
+    expect(applications[0].applicationName).toBe('orders-api');
+
+    const [sqlInjection, , unclosedFile] = applications[0].results;
+    expect(sqlInjection).toMatchObject({
+      name: 'SQL injection',
+      severity: 'critical',
+      state: 'open',
+      tool: 'SARIF',
+      toolName: 'Semgrep',
+      toolVersion: '1.50.0',
+      ruleId: 'python.flask.security.injection.sql',
+      ruleSeverity: 'error',
+      filePath: 'app/db.py',
+      startLine: 12,
+      startColumn: 5,
+      codeSnippet: 'cursor.execute(q % id)',
+      securitySeverity: 9.1,
+      partialFingerprints: { primaryLocationLineHash: 'abc123:1' },
+      cwes: ['CWE-089'],
+      url: 'https://semgrep.dev/r/python.flask.security.injection.sql'
+    });
+    expect(sqlInjection.createdAt.toISOString()).toBe('2024-03-01T10:00:00.000Z');
+    expect(unclosedFile).toMatchObject({ severity: 'note', state: 'dismissed', ruleSeverity: 'note' });
+
+    expect(errors).toHaveLength(1);
+    expect(errors[0].applicationName).toContain('broken.sarif');
+  });
+
+  it('should give results of a rule on the same line without a guid different ids', async () => {
+    const service = new SarifScanningResultService({ paths: [{ path: directory }] });
+
+    const { applications } = await service.fetchSarifResults();
+
+    expect(applications[0].results.slice(0, 2).map(result => result.id)).toEqual([
+      'python.flask.security.injection.sql@app/db.py:12:5#primaryLocationLineHash=abc123:1',
+      'python.flask.security.injection.sql@app/db.py:12:44#primaryLocationLineHash=def456:1'
+    ]);
+    const sarifResults = { codeScanning: applications[0].results.slice(0, 2) };
+    expect(toFindings(applicationResult('orders-api', 'main', {}, { sarifResults }))).toHaveLength(2);
+  });
+
+  it('should escape imported names, messages and paths in the HTML report', async () => {
+    const service = new SarifScanningResultService({ paths: [{ path: directory }] });
+    const { applications } = await service.fetchSarifResults();
+    const [result] = applications[0].results;
+    const codeScanning = [{
+      ...result,
+      name: 'Unsafe <b>cast</b>',
+      description: '<img src=x onerror=alert(1)>',
+      filePath: 'app/<db>.py'
+    }];
+
+    const html = renderReport(multiApplicationResult([
+      applicationResult('orders<api>', 'main', {}, { sarifResults: { codeScanning } })
+    ], { errors: [{ applicationName: 'SARIF: <broken>', error: 'Invalid <json>' }] }));
+
+    expect(html).toContain('Unsafe &lt;b&gt;cast&lt;/b&gt;');
+    expect(html).toContain('&lt;img src=x onerror=alert(1)&gt;');
+    expect(html).toContain('app/&lt;db&gt;.py');
+    expect(html).toContain('<td>orders&lt;api&gt;</td>');
+    expect(html).toContain('Application: SARIF: &lt;broken&gt;');
+    expect(html).not.toContain('<img src=x');
+  });
+
+  it('should look up rules by index in the extension a result points at', async () => {
+    const codeqlLog = {
+      version: '2.1.0',
+      runs: [{
+        tool: {
+          driver: { name: 'CodeQL', rules: [{ id: 'js/unused-local-variable', shortDescription: { text: 'Unused variable' } }] },
+          extensions: [{
+            name: 'codeql/javascript-queries',
+            rules: [{
+              id: 'js/sql-injection',
+              shortDescription: { text: 'Database query built from user-controlled sources' },
+              helpUri: 'https://codeql.github.com/codeql-query-help/javascript/js-sql-injection/',
+              properties: { 'security-severity': '8.8' }
+            }]
+          }]
+        },
+        results: [{
+          ruleId: 'js/sql-injection',
+          rule: { id: 'js/sql-injection', index: 0, toolComponent: { index: 0 } },
+          message: { text: 'This query depends on a user-provided value' },
+          locations: [{ physicalLocation: { artifactLocation: { uri: 'src/db.js' }, region: { startLine: 7 } } }]
+        }]
+      }]
+    };
+    const file = path.join(directory, 'codeql.sarif.json');
+    fs.writeFileSync(file, JSON.stringify(codeqlLog));
+    try {
+      const service = new SarifScanningResultService({ paths: [{ applicationName: 'orders', path: file }] });
+
+      const { applications } = await service.fetchSarifResults();
+
+      expect(applications[0].results[0]).toMatchObject({
+        name: 'Database query built from user-controlled sources',
+        severity: 'high',
+        url: 'https://codeql.github.com/codeql-query-help/javascript/js-sql-injection/'
+      });
+    } finally {
+      fs.rmSync(file);
+    }
+  });
+
+  it('should assign results to the application named in the path mapping', async () => {
+    const service = new SarifScanningResultService({
+      paths: [{ applicationName: 'orders', path: path.join(directory, 'nested', 'semgrep.sarif') }]
+    });
+
+    const { applications, errors } = await service.fetchSarifResults();
+
+    expect(applications.map(app => app.applicationName)).toEqual(['orders']);
+    expect(errors).toHaveLength(0);
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * Tests for loading scanning provider modules and storing their results
+ */
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ApplicationTarget, ScanConfiguration } from '../src/interfaces/config.interface';
+import { AggregatedScanningResult } from '../src/interfaces/scanning-result.interface';
+import {
+  createScanningProviderRegistry,
+  loadScanningProviderModule,
+  ScanningProviderRegistry
+} from '../src/services/ProviderRegistry/ScanningProviderRegistry';
+import { toFindings } from '../src/utils/findingAdapters';
+import { Logger } from '../src/utils/logger';
+import { setProviderResults, summarizeResults } from '../src/utils/providerResults';
+
+const PROVIDER_MODULE = `
+module.exports = context => ({
+  id: 'gitlab',
+  displayName: 'GitLab',
+  capabilities: ['code-scanning', 'secret-scanning'],
+  baseUrl: context.options.baseUrl,
+  resolveRepository: application => application.sources && application.sources.gitlab
+    ? { label: application.sources.gitlab.project }
+    : undefined,
+  fetchCodeScanning: async () => ({ results: [] }),
+  fetchSecretScanning: async () => ({ results: [] })
+});
+`;
+
+const context = { options: { baseUrl: 'https://gitlab.example.com' }, http: {}, demoMode: false, logger: Logger };
+
+const configuration = (overrides: Partial<ScanConfiguration> = {}): ScanConfiguration => ({
+  github: { token: '', baseUrl: 'https://api.github.com' },
+  azureDevOps: { token: '', baseUrl: '' },
+  applications: [],
+  sarifPaths: [],
+  discovery: {},
+  providers: [],
+  ...overrides
+});
+
+const emptyApplicationResult = (): AggregatedScanningResult => ({
+  applicationName: 'orders-api',
+  branchName: 'main',
+  githubResults: { codeScanning: [], dependencyScanning: [] },
+  azureDevOpsResults: { codeScanning: [], dependencyScanning: [] },
+  timestamp: new Date('2024-01-01T00:00:00Z')
+});
+
+describe('loadScanningProviderModule', () => {
+  let directory: string;
+
+  beforeAll(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'scanning-provider-'));
+    fs.writeFileSync(path.join(directory, 'gitlab.js'), PROVIDER_MODULE);
+    fs.writeFileSync(path.join(directory, 'broken.js'), `module.exports = { id: 'Bad Id', capabilities: ['code-scanning', 'sbom'] };`);
+  });
+
+  afterAll(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should load a factory from a path relative to the configuration file', async () => {
+    const provider = await loadScanningProviderModule({ module: './gitlab.js', baseDir: directory }, context);
+
+    expect(provider.id).toBe('gitlab');
+    expect(provider).toMatchObject({ baseUrl: 'https://gitlab.example.com' });
+    const application: ApplicationTarget = { name: 'orders-api', branches: ['main'], sarifPaths: [], sources: { gitlab: { project: 'checkout/orders-api' } } };
+    expect(provider.resolveRepository(application)).toEqual({ label: 'checkout/orders-api' });
+  });
+
+  it('should list every problem of an invalid provider', async () => {
+    await expect(loadScanningProviderModule({ module: './broken.js', baseDir: directory }, context)).rejects.toThrow(
+      'Invalid scanning provider in ./broken.js: id must be lowercase letters, digits and dashes; displayName is required; '
+      + 'resolveRepository must be a function; capability code-scanning requires fetchCodeScanning(); unknown capability sbom'
+    );
+    await expect(loadScanningProviderModule({ module: './missing.js', baseDir: directory }, context))
+      .rejects.toThrow('Unable to load scanning provider module ./missing.js');
+  });
+
+  it('should register module providers after the built-in ones and reject unknown sources', async () => {
+    const http = { maxRetries: 0 };
+    const builtIn = { github: { pageSize: 100, maxPages: 50, concurrency: 4, states: ['open' as const] }, azureDevOps: { concurrency: 4 } };
+    const registry = await createScanningProviderRegistry({
+      configuration: configuration({ providers: [{ module: './gitlab.js', baseDir: directory }] }),
+      http,
+      demoMode: false,
+      ...builtIn
+    });
+
+    expect(registry.list().map(provider => provider.id)).toEqual(['github', 'azure-devops', 'gitlab']);
+    expect(() => registry.register(registry.get('gitlab')!)).toThrow('A scanning provider with id "gitlab" is already registered');
+
+    await expect(createScanningProviderRegistry({
+      configuration: configuration({ applications: [{ name: 'orders-api', branches: ['main'], sarifPaths: [], sources: { snyk: {} } }] }),
+      http,
+      demoMode: false,
+      ...builtIn
+    })).rejects.toThrow('Application orders-api has settings for unknown scanning provider(s): snyk');
+    expect(new ScanningProviderRegistry().list()).toEqual([]);
+  });
+});
+
+describe('setProviderResults', () => {
+  it('should keep GitHub in its own field and other providers under providerResults', () => {
+    const app = emptyApplicationResult();
+    const alert = {
+      id: '7',
+      name: 'Leaked token',
+      severity: 'high' as const,
+      description: 'A token was committed',
+      createdAt: new Date('2024-01-01T00:00:00Z'),
+      updatedAt: new Date('2024-01-01T00:00:00Z'),
+      state: 'open' as const,
+      tool: 'GitLab',
+      toolName: 'Secret Detection',
+      category: 'secret-scanning' as const
+    };
+
+    setProviderResults(app, { id: 'github', displayName: 'GitHub' }, 'code-scanning', {
+      results: [],
+      stats: { fetched: 0, reported: 0, pages: 1, truncated: false }
+    });
+    setProviderResults(app, { id: 'gitlab', displayName: 'GitLab' }, 'secret-scanning', { results: [alert] });
+
+    expect(app.fetchStats).toEqual({ githubCodeScanning: { fetched: 0, reported: 0, pages: 1, truncated: false } });
+    expect(app.providerResults).toEqual({
+      gitlab: { provider: 'GitLab', codeScanning: [], dependencyScanning: [], secretScanning: [alert] }
+    });
+    expect(toFindings(app).map(finding => finding.raw)).toEqual([alert]);
+
+    const summary = summarizeResults([app]);
+    expect(summary.severitySummary.high).toBe(1);
+    expect(summary.providerTotals).toEqual([
+      { provider: 'github', displayName: 'GitHub', codeScanning: 0, dependencyScanning: 0, secretScanning: 0 },
+      { provider: 'azure-devops', displayName: 'Azure DevOps', codeScanning: 0, dependencyScanning: 0, secretScanning: 0 },
+      { provider: 'gitlab', displayName: 'GitLab', codeScanning: 0, dependencyScanning: 0, secretScanning: 1 }
+    ]);
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * Tests for remediation SLA tracking and its place in the reports and the policy gate
+ */
+import { Finding, FindingSeverity } from '../src/interfaces/finding.interface';
+import { renderCsvReport } from '../src/utils/csvExporter';
+import { parseJsonReport, renderJsonReport } from '../src/utils/jsonReport';
+import { renderMarkdownSummary } from '../src/utils/markdownRenderer';
+import { evaluatePolicy } from '../src/utils/policy';
+import { flattenFindings } from '../src/utils/reportData';
+import { renderReport } from '../src/utils/reportRenderer';
+import { buildSarifLog } from '../src/utils/sarifExporter';
+import { DEFAULT_SLA_SETTINGS, formatSla, summarizeSlaCompliance } from '../src/utils/sla';
+import { applicationResult, codeAlert, daysAgo, multiApplicationResult } from './fixtures/alerts';
+
+const codeAlertOfAge = (id: string, severity: FindingSeverity, age: number, state: Finding['state'] = 'open') =>
+  codeAlert(id, severity, { createdAt: daysAgo(age), state });
+
+const results = multiApplicationResult([
+  // critical: 10 days old with 7 allowed; high: 28 of 30 days; medium: 10 of 90 days
+  applicationResult('orders-api', 'main', {
+    codeScanning: [codeAlertOfAge('1', 'critical', 10), codeAlertOfAge('2', 'high', 28), codeAlertOfAge('3', 'medium', 10)]
+  }),
+  applicationResult('orders-api', 'release', { codeScanning: [codeAlertOfAge('1', 'critical', 10)] }),
+  // Fixed findings and severities without an SLA are not measured
+  applicationResult('billing', 'main', {
+    codeScanning: [codeAlertOfAge('4', 'low', 1), codeAlertOfAge('5', 'critical', 30, 'fixed'), codeAlertOfAge('6', 'note', 400)]
+  })
+], { sla: DEFAULT_SLA_SETTINGS });
+
+describe('applySlas', () => {
+  it('should measure each open finding against the SLA of its severity at the run timestamp', () => {
+    const findings = flattenFindings(results);
+    const slaOf = (id: string) => findings.find(finding => finding.id === id)!.sla;
+
+    expect(slaOf('1')).toEqual({ days: 7, dueDate: daysAgo(3), ageDays: 10, daysRemaining: -3, status: 'breached' });
+    expect(formatSla(slaOf('2')!)).toBe('Due soon, due 2025-06-03 (2 day(s) left)');
+    expect(slaOf('3')?.status).toBe('within');
+    expect([slaOf('5'), slaOf('6')]).toEqual([undefined, undefined]);
+    expect(flattenFindings({ ...results, sla: undefined }).some(finding => finding.sla)).toBe(false);
+  });
+
+  it('should count each finding once per application and compute the share not breached', () => {
+    const { applications, total } = summarizeSlaCompliance(flattenFindings(results));
+
+    expect(applications).toEqual([
+      { application: 'orders-api', within: 1, dueSoon: 1, breached: 1, compliance: 66.7 },
+      { application: 'billing', within: 1, dueSoon: 0, breached: 0, compliance: 100 }
+    ]);
+    expect(total).toEqual({ application: undefined, within: 2, dueSoon: 1, breached: 1, compliance: 75 });
+  });
+});
+
+describe('SLA reporting', () => {
+  it('should let policy rules count breached findings', () => {
+    const evaluation = evaluatePolicy(results, [
+      { id: 'sla', scope: 'application', match: { slaStatuses: ['breached'] }, maxFindings: 0 }
+    ]);
+
+    // The breached critical finding is reported on two branches and counted once
+    expect(evaluation.checks.map(check => [check.group, check.findings, check.passed])).toEqual([
+      ['orders-api', 1, false],
+      ['billing', 0, true]
+    ]);
+  });
+
+  it('should show the SLA status in every report format', () => {
+    const markdown = renderMarkdownSummary(results);
+    expect(markdown).toContain('> **SLA breaches:** 1 open finding(s) are past their remediation deadline; 75% SLA compliance.');
+    expect(markdown).toContain('| orders-api | 1 | 1 | 1 | 66.7% |');
+    expect(markdown).toContain('| Breached, due 2025-05-29 |');
+
+    const html = renderReport(results);
+    expect(html).toContain('<h2>SLA Compliance</h2>');
+    expect(html).toContain('<span class="sla-due-soon">Due soon</span><br>due 2025-06-03');
+
+    expect(renderCsvReport(results).split('\r\n')[1]).toContain(',critical,open,10,2025-05-29,Breached,');
+    expect(buildSarifLog(results).runs[0].results![0].properties).toMatchObject({ slaStatus: 'breached', slaDueDate: '2025-05-29T12:00:00.000Z' });
+  });
+
+  it('should keep the SLAs and the compliance in the JSON report', () => {
+    const report = JSON.parse(renderJsonReport(results));
+
+    expect(report.sla.compliance.total).toEqual({ within: 2, dueSoon: 1, breached: 1, compliance: 75 });
+    expect(parseJsonReport(JSON.stringify(report)).sla).toEqual(DEFAULT_SLA_SETTINGS);
+  });
+});
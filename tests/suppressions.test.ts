@@ -0,0 +1,261 @@
+/**
+ * Tests for the suppression file and how suppressed findings are counted and reported
+ */
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ConfigFileError } from '../src/config/configFile';
+import { loadSuppressionFile } from '../src/config/suppressionFile';
+import { MultiApplicationAggregatedScanningResult } from '../src/interfaces/scanning-result.interface';
+import { Suppression } from '../src/interfaces/suppression.interface';
+import { parseJsonReport, renderJsonReport } from '../src/utils/jsonReport';
+import { renderMarkdownSummary } from '../src/utils/markdownRenderer';
+import { summarizeResults } from '../src/utils/providerResults';
+import { flattenFindings } from '../src/utils/reportData';
+import { renderReport } from '../src/utils/reportRenderer';
+import { isSuppressed } from '../src/utils/suppressions';
+import { satisfiesVersionRange } from '../src/utils/versionRange';
+
+const timestamp = new Date('2025-06-01T12:00:00Z');
+
+const createResults = (suppressions: Suppression[]): MultiApplicationAggregatedScanningResult => {
+  const applications = [{
+    applicationName: 'orders-api',
+    branchName: 'main',
+    githubResults: {
+      codeScanning: [{
+        id: '1',
+        name: 'Hard-coded credentials',
+        severity: 'high',
+        description: 'A password is hard-coded',
+        createdAt: timestamp,
+        updatedAt: timestamp,
+        state: 'open',
+        tool: 'GitHub',
+        toolName: 'CodeQL',
+        ruleId: 'js/hardcoded-credentials',
+        filePath: 'test/fixtures/users.js',
+        startLine: 4,
+        category: 'code-scanning'
+      }, {
+        id: '2',
+        name: 'Hard-coded credentials',
+        severity: 'high',
+        description: 'A password is hard-coded',
+        createdAt: timestamp,
+        updatedAt: timestamp,
+        state: 'open',
+        tool: 'GitHub',
+        toolName: 'CodeQL',
+        ruleId: 'js/hardcoded-credentials',
+        filePath: 'src/db.js',
+        startLine: 10,
+        category: 'code-scanning'
+      }],
+      dependencyScanning: [{
+        id: '3',
+        name: 'Prototype pollution in lodash',
+        severity: 'critical',
+        description: 'Prototype pollution',
+        createdAt: timestamp,
+        updatedAt: timestamp,
+        state: 'open',
+        tool: 'GitHub',
+        toolName: 'Dependabot',
+        ruleId: 'GHSA-p6mc-m468-83gw',
+        filePath: 'package-lock.json',
+        category: 'dependency-scanning',
+        packageName: 'lodash',
+        version: '4.17.15',
+        cveId: 'CVE-2020-8203'
+      }]
+    },
+    azureDevOpsResults: { codeScanning: [], dependencyScanning: [] },
+    timestamp
+  }] as unknown as MultiApplicationAggregatedScanningResult['applications'];
+
+  return {
+    applications,
+    errors: [],
+    suppressions,
+    summary: summarizeResults(applications, suppressions, timestamp),
+    timestamp
+  };
+};
+
+const createSuppression = (id: string, match: Suppression['match'], expires = '2025-12-31'): Suppression => ({
+  id,
+  status: 'accepted-risk',
+  justification: `Reviewed ${id}`,
+  approvedBy: 'security-team',
+  expires: new Date(`${expires}T23:59:59.999Z`),
+  match
+});
+
+describe('loadSuppressionFile', () => {
+  let directory: string;
+
+  const writeFile = (content: string): string => {
+    const filePath = path.join(directory, 'suppressions.yml');
+    fs.writeFileSync(filePath, content);
+    return filePath;
+  };
+
+  const loadIssues = (content: string): string[] => {
+    try {
+      loadSuppressionFile(writeFile(content));
+    } catch (error) {
+      if (error instanceof ConfigFileError) {
+        return error.issues.map(issue => `${issue.line}:${issue.column} ${issue.path ? `${issue.path}: ` : ''}${issue.message}`);
+      }
+      throw error;
+    }
+    throw new Error('Expected the suppression file to be rejected');
+  };
+
+  beforeAll(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'suppressions-'));
+  });
+
+  afterAll(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should load entries that expire at the end of their expiry day', () => {
+    const suppressions = loadSuppressionFile(writeFile(`version: 1
+suppressions:
+  - id: lodash
+    status: accepted-risk
+    justification: Not reachable
+    approvedBy: security-team
+    expires: 2025-12-31
+    match:
+      package: lodash
+      versions: ">=4.0.0 <4.17.21"
+  - status: false-positive
+    justification: Test fixtures
+    approvedBy: jane
+    expires: 2026-01-15
+    match:
+      path: test/**
+`));
+
+    expect(suppressions.map(suppression => suppression.id)).toEqual(['lodash', '#2']);
+    expect(suppressions[0].expires.toISOString()).toBe('2025-12-31T23:59:59.999Z');
+    expect(suppressions[1].match).toEqual({ path: 'test/**' });
+  });
+
+  it('should report each invalid entry with its position', () => {
+    expect(loadIssues(`version: 1
+suppressions:
+  - id: a
+    status: ignored
+    justification: x
+    approvedBy: y
+    expires: 2025-12-31
+    match: { cve: CVE-2020-8203 }
+`)).toEqual(['4:5 suppressions[0].status: must be one of: "accepted-risk", "false-positive"']);
+
+    expect(loadIssues(`version: 1
+suppressions:
+  - id: a
+    status: accepted-risk
+    justification: x
+    approvedBy: y
+    expires: 2025-12-31
+    match: { application: orders-api, versions: "<2" }
+  - id: a
+    status: accepted-risk
+    justification: x
+    approvedBy: y
+    expires: 2025-12-31
+    match: { package: lodash, versions: ">=4 ~5" }
+`)).toEqual([
+      '8:5 suppressions[0].match: needs at least one of fingerprint, ruleId, cve, package, path',
+      '8:39 suppressions[0].match.versions: needs a package',
+      '9:5 suppressions[1].id: duplicates the id of suppressions[0]',
+      '14:31 suppressions[1].match.versions: has an invalid comparator "~5"'
+    ]);
+  });
+});
+
+describe('satisfiesVersionRange', () => {
+  it('should combine comparators with AND and alternatives with OR', () => {
+    expect(satisfiesVersionRange('4.17.15', '>=4.0.0 <4.17.21')).toBe(true);
+    expect(satisfiesVersionRange('4.17.21', '>=4.0.0 <4.17.21')).toBe(false);
+    expect(satisfiesVersionRange('4.9.0', '>=4.10.0 || 4.9')).toBe(true);
+    expect(satisfiesVersionRange('v1.2.3', '*')).toBe(true);
+  });
+});
+
+describe('suppressed findings', () => {
+  it('should match findings by rule and path glob, CVE and package range', () => {
+    const findings = flattenFindings(createResults([
+      createSuppression('fixtures', { ruleId: 'js/hardcoded-credentials', path: 'test/**' }),
+      createSuppression('lodash', { cve: 'cve-2020-8203', package: 'Lodash', versions: '<4.17.19' })
+    ]));
+
+    expect(findings.filter(isSuppressed).map(finding => `${finding.id}:${finding.suppression?.id}`).sort())
+      .toEqual(['1:fixtures', '3:lodash']);
+  });
+
+  it('should match a package range against findings with a version and findings without one', () => {
+    const results = createResults([
+      createSuppression('lodash', { package: 'lodash', versions: '>=4.0.0 <4.17.21' })
+    ]);
+    const unversioned = results.applications[0].githubResults.dependencyScanning[0];
+    const matched = (version: string) => {
+      results.applications[0].githubResults.dependencyScanning[0] = { ...unversioned, version };
+      return flattenFindings(results).filter(isSuppressed).map(finding => finding.id);
+    };
+
+    expect(matched('')).toEqual(['3']);
+    expect(matched('4.17.15')).toEqual(['3']);
+    expect(matched('4.17.21')).toEqual([]);
+  });
+
+  it('should leave suppressed findings out of the severity totals', () => {
+    const { summary } = createResults([createSuppression('lodash', { package: 'lodash' })]);
+
+    expect(summary.suppressedFindings).toBe(1);
+    expect(summary.severitySummary).toEqual({ critical: 0, high: 2, medium: 0, low: 0, warning: 0, note: 0 });
+  });
+
+  it('should count findings of expired entries again and flag them in the reports', () => {
+    const results = createResults([createSuppression('lodash', { package: 'lodash' }, '2025-05-31')]);
+    const html = renderReport(results);
+    const markdown = renderMarkdownSummary(results);
+
+    expect(results.summary.suppressedFindings).toBe(0);
+    expect(results.summary.severitySummary.critical).toBe(1);
+    expect(html).toContain('SUPPRESSION EXPIRED');
+    expect(markdown).toContain('**Expired suppressions:** lodash expired');
+  });
+
+  it('should list active suppressions in the Markdown summary', () => {
+    const markdown = renderMarkdownSummary(createResults([createSuppression('lodash', { package: 'lodash' })]));
+
+    expect(markdown).toContain('1 suppressed finding(s) are not counted.');
+    expect(markdown).toContain('Suppressed Findings');
+    expect(markdown).toContain('Reviewed lodash');
+  });
+
+  it('should escape the justification and approver in the HTML report', () => {
+    const html = renderReport(createResults([{
+      ...createSuppression('lodash', { package: 'lodash' }),
+      justification: 'Only <script> in tests & fixtures',
+      approvedBy: 'R&D <security>'
+    }]));
+
+    expect(html).toContain('<td>Only &lt;script&gt; in tests &amp; fixtures</td>');
+    expect(html).toContain('<td>R&amp;D &lt;security&gt;</td>');
+    expect(html).not.toContain('<script> in tests');
+  });
+
+  it('should keep the entries through a JSON report round-trip', () => {
+    const parsed = parseJsonReport(renderJsonReport(createResults([createSuppression('lodash', { package: 'lodash' })])));
+
+    expect(parsed.suppressions?.[0].expires).toEqual(new Date('2025-12-31T23:59:59.999Z'));
+    expect(flattenFindings(parsed).filter(isSuppressed)).toHaveLength(1);
+  });
+});